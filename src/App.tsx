@@ -1,6 +1,8 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { WalmartAccountProvider } from './contexts/WalmartAccountContext';
+import { OrderExportProvider } from './contexts/OrderExportContext';
 import Navbar from './components/Layout/Navbar';
 import LoginForm from './components/Auth/LoginForm';
 import RegisterForm from './components/Auth/RegisterForm';
@@ -8,9 +10,16 @@ import ForgotPasswordForm from './components/Auth/ForgotPasswordForm';
 import Dashboard from './components/Dashboard/Dashboard';
 import ProductList from './components/Products/ProductList';
 import OrderList from './components/Orders/OrderList';
+import OrderDetail from './components/Orders/OrderDetail';
 import InventoryList from './components/Inventory/InventoryList';
 import ShippingList from './components/Shipping/ShippingList';
+import ReturnList from './components/Returns/ReturnList';
+import OrderDocuments from './components/Documents/OrderDocuments';
+import Settings from './components/Settings/Settings';
+import NotificationSettings from './components/Settings/NotificationSettings';
 import ApiExplorer from './components/ApiExplorer/ApiExplorer';
+import ScopeGate from './components/Walmart/ScopeGate';
+import OrderExportStatus from './components/Orders/OrderExportStatus';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, loading } = useAuth();
@@ -88,7 +97,9 @@ const AppContent: React.FC = () => {
               <div className="min-h-screen bg-gray-50">
                 <Navbar />
                 <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-                  <ProductList />
+                  <ScopeGate scopes={['item']} feature="Products">
+                    <ProductList />
+                  </ScopeGate>
                 </main>
               </div>
             </ProtectedRoute>
@@ -101,7 +112,41 @@ const AppContent: React.FC = () => {
               <div className="min-h-screen bg-gray-50">
                 <Navbar />
                 <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-                  <OrderList />
+                  <ScopeGate scopes={['orders']} feature="Orders">
+                    <OrderList />
+                  </ScopeGate>
+                </main>
+              </div>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/orders/documents"
+          element={
+            <ProtectedRoute>
+              <div className="min-h-screen bg-gray-50 print:bg-white">
+                <div className="print:hidden">
+                  <Navbar />
+                </div>
+                <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 print:max-w-none print:p-0">
+                  <ScopeGate scopes={['orders']} feature="Packing slips and pick lists">
+                    <OrderDocuments />
+                  </ScopeGate>
+                </main>
+              </div>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/orders/:purchaseOrderId"
+          element={
+            <ProtectedRoute>
+              <div className="min-h-screen bg-gray-50">
+                <Navbar />
+                <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+                  <ScopeGate scopes={['orders']} feature="Orders">
+                    <OrderDetail />
+                  </ScopeGate>
                 </main>
               </div>
             </ProtectedRoute>
@@ -114,7 +159,9 @@ const AppContent: React.FC = () => {
               <div className="min-h-screen bg-gray-50">
                 <Navbar />
                 <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-                  <InventoryList />
+                  <ScopeGate scopes={['inventory']} feature="Inventory">
+                    <InventoryList />
+                  </ScopeGate>
                 </main>
               </div>
             </ProtectedRoute>
@@ -127,7 +174,24 @@ const AppContent: React.FC = () => {
               <div className="min-h-screen bg-gray-50">
                 <Navbar />
                 <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-                  <ShippingList />
+                  <ScopeGate scopes={['orders']} feature="Shipping">
+                    <ShippingList />
+                  </ScopeGate>
+                </main>
+              </div>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/returns"
+          element={
+            <ProtectedRoute>
+              <div className="min-h-screen bg-gray-50">
+                <Navbar />
+                <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+                  <ScopeGate scopes={['orders']} feature="Returns">
+                    <ReturnList />
+                  </ScopeGate>
                 </main>
               </div>
             </ProtectedRoute>
@@ -153,10 +217,22 @@ const AppContent: React.FC = () => {
               <div className="min-h-screen bg-gray-50">
                 <Navbar />
                 <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-                  <div className="text-center py-12">
-                    <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
-                    <p className="mt-2 text-gray-600">Settings page coming soon...</p>
-                  </div>
+                  <Settings />
+                </main>
+              </div>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/settings/notifications"
+          element={
+            <ProtectedRoute>
+              <div className="min-h-screen bg-gray-50">
+                <Navbar />
+                <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+                  <ScopeGate scopes={['orders']} feature="Order notifications">
+                    <NotificationSettings />
+                  </ScopeGate>
                 </main>
               </div>
             </ProtectedRoute>
@@ -164,6 +240,7 @@ const AppContent: React.FC = () => {
         />
         <Route path="/" element={<Navigate to="/dashboard" />} />
       </Routes>
+      <OrderExportStatus />
     </Router>
   );
 };
@@ -171,7 +248,11 @@ const AppContent: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <WalmartAccountProvider>
+        <OrderExportProvider>
+          <AppContent />
+        </OrderExportProvider>
+      </WalmartAccountProvider>
     </AuthProvider>
   );
 }
@@ -1,4 +1,10 @@
 import React, { useState, useEffect } from 'react';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import { WalmartApiClient } from '../../services/walmartApiClient';
+import { toWalmartError } from '../../services/walmartErrors';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import { WalmartScope, WalmartScopeService } from '../../services/walmartScopeService';
 import { WalmartEndpoint, ApiResponse } from '../../types';
 import { 
   Search, 
@@ -11,11 +17,20 @@ import {
   ChevronRight
 } from 'lucide-react';
 
+// Scope each endpoint category needs from the seller
+const categoryScopes: Record<string, WalmartScope> = {
+  Items: 'item',
+  Orders: 'orders',
+  Inventory: 'inventory',
+};
+
 const ApiExplorer: React.FC = () => {
+  const { activeAccount } = useWalmartAccount();
   const [endpoints, setEndpoints] = useState<WalmartEndpoint[]>([]);
   const [selectedEndpoint, setSelectedEndpoint] = useState<WalmartEndpoint | null>(null);
   const [parameters, setParameters] = useState<Record<string, string>>({});
   const [response, setResponse] = useState<ApiResponse | null>(null);
+  const [requestError, setRequestError] = useState<unknown>(null);
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set(['Items']));
@@ -114,39 +129,55 @@ const ApiExplorer: React.FC = () => {
     }));
   };
 
+  // Requests go to the active account's environment; a mock account is unusable without a mock URL
+  const apiBaseUrl = activeAccount && WalmartTokenService.getEnvironments().includes(activeAccount.environment)
+    ? WalmartTokenService.getApiBaseUrl(activeAccount.environment)
+    : null;
+
+  const requiredScope = selectedEndpoint ? categoryScopes[selectedEndpoint.category] : undefined;
+  const missingScope = activeAccount && requiredScope
+    ? WalmartScopeService.getMissing(activeAccount, [requiredScope])[0]
+    : undefined;
+
   const executeEndpoint = async () => {
-    if (!selectedEndpoint) return;
+    if (!selectedEndpoint || !activeAccount || !apiBaseUrl || missingScope) return;
 
     setLoading(true);
     setResponse(null);
+    setRequestError(null);
+
+    // Path placeholders take their parameter; the rest go in the query string or JSON body
+    const pathParams = new Set<string>();
+    const path = selectedEndpoint.path.replace(/\{(\w+)\}/g, (_, name: string) => {
+      pathParams.add(name);
+      return encodeURIComponent(parameters[name] ?? '');
+    });
+    const otherParams = Object.fromEntries(
+      Object.entries(parameters).filter(([name, value]) => !pathParams.has(name) && value !== '')
+    );
+    const sendsBody = selectedEndpoint.method === 'POST' || selectedEndpoint.method === 'PUT';
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const result = await WalmartApiClient.request<unknown>(activeAccount, {
+        method: selectedEndpoint.method,
+        path,
+        query: sendsBody ? undefined : otherParams,
+        body: sendsBody ? otherParams : undefined,
+      });
 
-      const mockResponse: ApiResponse = {
-        status: 200,
-        data: {
-          message: 'Success',
-          data: selectedEndpoint.method === 'GET' ? [
-            { id: 1, name: 'Sample Item 1', sku: 'SKU001' },
-            { id: 2, name: 'Sample Item 2', sku: 'SKU002' }
-          ] : { success: true, id: 'created-123' },
-          timestamp: new Date().toISOString()
-        },
-        headers: {
-          'Content-Type': 'application/json',
-          'X-RateLimit-Remaining': '99'
-        },
+      setResponse({
+        status: result.status,
+        data: result.data,
+        headers: result.headers,
         timestamp: new Date().toISOString()
-      };
-
-      setResponse(mockResponse);
+      });
     } catch (error) {
+      const walmartError = toWalmartError(error, 'Request failed');
+      setRequestError(walmartError);
       setResponse({
-        status: 500,
-        data: { error: 'Internal Server Error' },
-        headers: {},
+        status: walmartError.status,
+        data: walmartError.body ?? { error: walmartError.message },
+        headers: walmartError.headers,
         timestamp: new Date().toISOString()
       });
     } finally {
@@ -180,7 +211,13 @@ const ApiExplorer: React.FC = () => {
         <h1 className="text-2xl font-bold text-gray-900">API Explorer</h1>
         <p className="mt-1 text-sm text-gray-600">
           Test Walmart Marketplace API endpoints directly from your browser
+          {activeAccount && ` as ${WalmartTokenService.getAccountLabel(activeAccount)}`}
         </p>
+        {apiBaseUrl && (
+          <p className="mt-1 text-xs text-gray-500 font-mono">
+            {WalmartTokenService.getEnvironmentLabel(activeAccount!.environment)}: {apiBaseUrl}
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -225,6 +262,7 @@ const ApiExplorer: React.FC = () => {
                           setSelectedEndpoint(endpoint);
                           setParameters({});
                           setResponse(null);
+                          setRequestError(null);
                         }}
                         className={`w-full px-6 py-3 text-left hover:bg-gray-100 focus:outline-none focus:bg-gray-100 ${
                           selectedEndpoint?.id === endpoint.id ? 'bg-blue-50 border-r-2 border-blue-500' : ''
@@ -265,6 +303,11 @@ const ApiExplorer: React.FC = () => {
                     {selectedEndpoint.path}
                   </h3>
                 </div>
+                {apiBaseUrl && (
+                  <p className="text-xs text-gray-500 font-mono break-all mb-2">
+                    {apiBaseUrl}{selectedEndpoint.path}
+                  </p>
+                )}
                 <p className="text-sm text-gray-600 mb-6">
                   {selectedEndpoint.description}
                 </p>
@@ -292,9 +335,25 @@ const ApiExplorer: React.FC = () => {
                 )}
 
                 <div className="mt-6">
+                  {!activeAccount && (
+                    <p className="mb-3 text-sm text-yellow-700">
+                      Connect a Walmart account on the Dashboard to run requests.
+                    </p>
+                  )}
+                  {missingScope && (
+                    <p className="mb-3 text-sm text-yellow-700">
+                      This account has not granted the {WalmartScopeService.getLabel(missingScope)} permission.
+                      Upgrade its permissions on the Dashboard to call this endpoint.
+                    </p>
+                  )}
+                  {activeAccount && !apiBaseUrl && (
+                    <p className="mb-3 text-sm text-yellow-700">
+                      This account uses the local mock environment, which is not configured in this build.
+                    </p>
+                  )}
                   <button
                     onClick={executeEndpoint}
-                    disabled={loading}
+                    disabled={loading || !apiBaseUrl || !!missingScope}
                     className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {loading ? (
@@ -312,6 +371,10 @@ const ApiExplorer: React.FC = () => {
                 </div>
               </div>
 
+              {requestError != null && (
+                <WalmartErrorAlert error={requestError} onRetry={executeEndpoint} className="" />
+              )}
+
               {response && (
                 <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
                   <div className="flex items-center space-x-3 mb-4">
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import WalmartConnection from '../Walmart/WalmartConnection';
+import LateShipmentAlerts from './LateShipmentAlerts';
 import { 
   Package, 
   ShoppingCart, 
@@ -111,6 +112,8 @@ const Dashboard: React.FC = () => {
         </p>
       </div>
 
+      <LateShipmentAlerts />
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {statCards.map((stat) => {
@@ -0,0 +1,86 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { OrderService, SHIP_BY_RISK_HOURS, ShipByAlerts } from '../../services/orderService';
+import { useNow } from '../../hooks/useNow';
+import ShipByCountdown from '../Orders/ShipByCountdown';
+import { AlertTriangle } from 'lucide-react';
+
+// Re-check synced orders this often while the dashboard is open
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Warns when unshipped orders of the active account are past, or within
+ * SHIP_BY_RISK_HOURS of, Walmart's ship-by time. Shows nothing while every order is on track.
+ */
+const LateShipmentAlerts: React.FC = () => {
+  const { activeAccount } = useWalmartAccount();
+  const [alerts, setAlerts] = useState<ShipByAlerts | null>(null);
+  const now = useNow();
+
+  const fetchAlerts = useCallback(async () => {
+    if (!activeAccount) {
+      setAlerts(null);
+      return;
+    }
+    try {
+      setAlerts(await OrderService.getShipByAlerts(activeAccount));
+    } catch (error) {
+      console.error('Error loading late shipment alerts:', error);
+    }
+  }, [activeAccount]);
+
+  useEffect(() => {
+    fetchAlerts();
+    const timer = setInterval(fetchAlerts, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchAlerts]);
+
+  if (!alerts || alerts.overdue + alerts.atRisk === 0) return null;
+
+  const overdue = alerts.overdue > 0;
+
+  return (
+    <div className={`rounded-md border p-4 ${overdue ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'}`}>
+      <div className="flex">
+        <AlertTriangle className={`h-5 w-5 flex-shrink-0 ${overdue ? 'text-red-400' : 'text-yellow-400'}`} />
+        <div className="ml-3 flex-1">
+          <h3 className={`text-sm font-medium ${overdue ? 'text-red-800' : 'text-yellow-800'}`}>
+            {overdue && `${alerts.overdue} order${alerts.overdue !== 1 ? 's' : ''} past the ship-by time`}
+            {overdue && alerts.atRisk > 0 && ' · '}
+            {alerts.atRisk > 0 && `${alerts.atRisk} due to ship within ${SHIP_BY_RISK_HOURS} hours`}
+          </h3>
+          <p className={`mt-1 text-sm ${overdue ? 'text-red-700' : 'text-yellow-700'}`}>
+            Late shipments count against your Walmart seller scorecard.
+          </p>
+          <ul className="mt-3 divide-y divide-gray-200 bg-white rounded-md border border-gray-200">
+            {alerts.orders.map((order) => (
+              <li key={order.id} className="flex items-center justify-between px-4 py-2">
+                <div>
+                  <Link
+                    to={`/orders/${encodeURIComponent(order.purchaseOrderId)}`}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    {order.purchaseOrderId}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {order.customerName} · {order.items.length} item{order.items.length !== 1 ? 's' : ''}
+                  </p>
+                </div>
+                <ShipByCountdown order={order} now={now} />
+              </li>
+            ))}
+          </ul>
+          <Link
+            to="/orders?shipBy=late"
+            className={`mt-3 inline-block text-sm font-medium ${overdue ? 'text-red-800 hover:text-red-900' : 'text-yellow-800 hover:text-yellow-900'}`}
+          >
+            View the late shipment queue →
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LateShipmentAlerts;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { DocumentSettings } from '../../services/documentService';
+
+interface LetterheadProps {
+  settings: DocumentSettings;
+  title: string;
+}
+
+/**
+ * The seller's logo, name and return address across the top of a printed document
+ */
+const Letterhead: React.FC<LetterheadProps> = ({ settings, title }) => {
+  const address = settings.returnAddress;
+
+  return (
+    <div className="flex items-start justify-between border-b border-gray-300 pb-4">
+      <div className="flex items-start space-x-4">
+        {settings.logoUrl && (
+          <img src={settings.logoUrl} alt="" className="h-16 max-w-[12rem] object-contain" />
+        )}
+        <div className="text-sm text-gray-700">
+          {settings.companyName && <p className="text-base font-semibold text-gray-900">{settings.companyName}</p>}
+          {address && (
+            <>
+              {address.name && address.name !== settings.companyName && <p>{address.name}</p>}
+              <p>{address.address1}</p>
+              {address.address2 && <p>{address.address2}</p>}
+              <p>{address.city}, {address.state} {address.postalCode}</p>
+              <p>{address.country}</p>
+            </>
+          )}
+        </div>
+      </div>
+      <h1 className="text-2xl font-bold text-gray-900 uppercase tracking-wide">{title}</h1>
+    </div>
+  );
+};
+
+export default Letterhead;
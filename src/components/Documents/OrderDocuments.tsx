@@ -0,0 +1,149 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import {
+  DocumentService,
+  DocumentSettings,
+  PickList as PickListData,
+} from '../../services/documentService';
+import { OrderDetail, OrderService } from '../../services/orderService';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import PackingSlip from './PackingSlip';
+import PickList from './PickList';
+import { ArrowLeft, Printer, Settings } from 'lucide-react';
+
+/**
+ * Printable packing slips (`?type=packing-slips`) or a pick list (`?type=pick-list`) for
+ * the orders in `?po=`, a comma-separated list of purchase order IDs. Print, or save as
+ * PDF, from the browser's print dialog; the toolbar is left off the printout.
+ */
+const OrderDocuments: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { activeAccount } = useWalmartAccount();
+  const type = searchParams.get('type') === 'pick-list' ? 'pick-list' : 'packing-slips';
+  const poParam = searchParams.get('po') ?? '';
+
+  const [orders, setOrders] = useState<OrderDetail[]>([]);
+  const [settings, setSettings] = useState<DocumentSettings>({});
+  const [pickList, setPickList] = useState<PickListData | null>(null);
+  const [generatedAt, setGeneratedAt] = useState(() => new Date());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  // Pick lists still print without locations when Walmart's inventory cannot be read
+  const [locationError, setLocationError] = useState<unknown>(null);
+
+  const purchaseOrderIds = poParam.split(',').map((id) => id.trim()).filter(Boolean);
+  const missing = loading ? [] : purchaseOrderIds.filter((id) => !orders.some((order) => order.purchaseOrderId === id));
+
+  const loadDocuments = useCallback(async () => {
+    if (!activeAccount) {
+      setLoading(false);
+      return;
+    }
+
+    const ids = poParam.split(',').map((id) => id.trim()).filter(Boolean);
+    setLoading(true);
+    setError(null);
+    setLocationError(null);
+    try {
+      const [found, documentSettings] = await Promise.all([
+        OrderService.getOrders(activeAccount, ids),
+        DocumentService.getSettings(activeAccount),
+      ]);
+      setOrders(found);
+      setSettings(documentSettings);
+
+      if (type === 'pick-list') {
+        const skus = found.flatMap((order) => order.items.map((line) => line.sku));
+        const { locations, error: inventoryError } = await DocumentService.getStockLocations(activeAccount, skus);
+        setLocationError(inventoryError);
+        setPickList(DocumentService.buildPickList(found, locations));
+      }
+      setGeneratedAt(new Date());
+    } catch (error) {
+      setError(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeAccount, poParam, type]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const hasLetterhead = Boolean(settings.companyName || settings.logoUrl || settings.returnAddress);
+
+  return (
+    <div className="space-y-6">
+      {/* Toolbar */}
+      <div className="print:hidden space-y-4">
+        <Link to="/orders" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to orders
+        </Link>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {type === 'pick-list' ? 'Pick list' : `Packing slip${purchaseOrderIds.length !== 1 ? 's' : ''}`}
+            </h1>
+            <p className="mt-1 text-sm text-gray-600">
+              {purchaseOrderIds.length} order{purchaseOrderIds.length !== 1 ? 's' : ''}. Use your browser's print dialog to print or save as PDF.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+            <Link
+              to="/settings"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Settings className="h-4 w-4 mr-2" />
+              Logo &amp; return address
+            </Link>
+            <button
+              onClick={() => window.print()}
+              disabled={loading || orders.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Print / Save as PDF
+            </button>
+          </div>
+        </div>
+
+        {error !== null && <WalmartErrorAlert error={error} onRetry={loadDocuments} className="" />}
+
+        {locationError !== null && (
+          <WalmartErrorAlert error={locationError} onRetry={loadDocuments} className="" />
+        )}
+
+        {!loading && !hasLetterhead && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+            No logo or return address is set for this account yet. Add them in{' '}
+            <Link to="/settings" className="font-medium underline">Settings</Link>.
+          </div>
+        )}
+
+        {missing.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+            Not synced yet, so left out: {missing.join(', ')}
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : type === 'pick-list' ? (
+        pickList && orders.length > 0 && <PickList pickList={pickList} settings={settings} generatedAt={generatedAt} />
+      ) : (
+        orders.map((order, index) => (
+          <div key={order.id} className={index < orders.length - 1 ? 'break-after-page' : ''}>
+            <PackingSlip order={order} settings={settings} />
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default OrderDocuments;
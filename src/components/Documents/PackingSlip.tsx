@@ -0,0 +1,80 @@
+import React from 'react';
+import { DocumentService, DocumentSettings } from '../../services/documentService';
+import { OrderDetail } from '../../services/orderService';
+import Letterhead from './Letterhead';
+import { format } from 'date-fns';
+
+interface PackingSlipProps {
+  order: OrderDetail;
+  settings: DocumentSettings;
+}
+
+/**
+ * One order's packing slip, printed on its own page
+ */
+const PackingSlip: React.FC<PackingSlipProps> = ({ order, settings }) => {
+  const address = order.shippingAddress;
+  const lines = order.items
+    .map((line) => ({ line, quantity: DocumentService.getPackedQuantity(line) }))
+    .filter(({ quantity }) => quantity > 0);
+
+  return (
+    <section className="bg-white p-8 shadow print:shadow-none">
+      <Letterhead settings={settings} title="Packing Slip" />
+
+      <div className="mt-6 grid grid-cols-2 gap-6 text-sm">
+        <div>
+          <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider">Ship to</h2>
+          <div className="mt-1 text-gray-900">
+            <p className="font-medium">{address.name}</p>
+            <p>{address.address1}</p>
+            {address.address2 && <p>{address.address2}</p>}
+            <p>{address.city}, {address.state} {address.postalCode}</p>
+            <p>{address.country}</p>
+          </div>
+        </div>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+          <dt className="text-gray-500">Purchase order</dt>
+          <dd className="text-gray-900 font-medium">{order.purchaseOrderId}</dd>
+          <dt className="text-gray-500">Customer order</dt>
+          <dd className="text-gray-900">{order.customerOrderId}</dd>
+          <dt className="text-gray-500">Order date</dt>
+          <dd className="text-gray-900">{format(new Date(order.orderDate), 'MMM d, yyyy')}</dd>
+          {order.shipMethod && (
+            <>
+              <dt className="text-gray-500">Ship method</dt>
+              <dd className="text-gray-900">{order.shipMethod}</dd>
+            </>
+          )}
+        </dl>
+      </div>
+
+      <table className="mt-6 min-w-full divide-y divide-gray-300 text-sm">
+        <thead>
+          <tr>
+            <th className="py-2 text-left font-medium text-gray-700">Line</th>
+            <th className="py-2 text-left font-medium text-gray-700">SKU</th>
+            <th className="py-2 text-left font-medium text-gray-700">Item</th>
+            <th className="py-2 text-right font-medium text-gray-700">Qty</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {lines.map(({ line, quantity }) => (
+            <tr key={line.id}>
+              <td className="py-2 text-gray-500">{line.lineNumber}</td>
+              <td className="py-2 text-gray-900 font-mono">{line.sku}</td>
+              <td className="py-2 text-gray-900">{line.productName}</td>
+              <td className="py-2 text-right text-gray-900 font-medium">{quantity}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {settings.packingSlipNote && (
+        <p className="mt-8 text-sm text-gray-600 whitespace-pre-line">{settings.packingSlipNote}</p>
+      )}
+    </section>
+  );
+};
+
+export default PackingSlip;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { DocumentSettings, PickList as PickListData } from '../../services/documentService';
+import Letterhead from './Letterhead';
+import { format } from 'date-fns';
+
+interface PickListProps {
+  pickList: PickListData;
+  settings: DocumentSettings;
+  generatedAt: Date;
+}
+
+/**
+ * Units to pick for a batch of orders, one row per SKU under each stock location
+ */
+const PickList: React.FC<PickListProps> = ({ pickList, settings, generatedAt }) => (
+  <section className="bg-white p-8 shadow print:shadow-none">
+    <Letterhead settings={settings} title="Pick List" />
+
+    <p className="mt-4 text-sm text-gray-600">
+      {pickList.totalUnits} unit{pickList.totalUnits !== 1 ? 's' : ''} for {pickList.orderCount} order{pickList.orderCount !== 1 ? 's' : ''}
+      {' '}· Generated {format(generatedAt, 'MMM d, yyyy h:mm a')}
+    </p>
+
+    {pickList.locations.length === 0 ? (
+      <p className="mt-6 text-sm text-gray-500">Nothing left to pick: every unit on these orders has shipped or been cancelled.</p>
+    ) : (
+      <table className="mt-6 min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-300">
+            <th className="py-2 w-8"><span className="sr-only">Picked</span></th>
+            <th className="py-2 text-left font-medium text-gray-700">SKU</th>
+            <th className="py-2 text-left font-medium text-gray-700">Item</th>
+            <th className="py-2 text-right font-medium text-gray-700">Qty</th>
+            <th className="py-2 pl-6 text-left font-medium text-gray-700">Orders</th>
+          </tr>
+        </thead>
+        {pickList.locations.map(({ location, entries }) => (
+          <tbody key={location} className="break-inside-avoid">
+            <tr className="bg-gray-100 print:bg-gray-100">
+              <td colSpan={5} className="px-2 py-1.5 font-semibold text-gray-900">{location}</td>
+            </tr>
+            {entries.map((entry) => (
+              <tr key={entry.sku} className="border-b border-gray-200 align-top">
+                <td className="py-2">
+                  <span className="inline-block h-4 w-4 border border-gray-500 rounded-sm"></span>
+                </td>
+                <td className="py-2 text-gray-900 font-mono">{entry.sku}</td>
+                <td className="py-2 text-gray-900">{entry.productName}</td>
+                <td className="py-2 text-right text-gray-900 font-semibold">{entry.quantity}</td>
+                <td className="py-2 pl-6 text-gray-600">
+                  {entry.orders.map((order) => `${order.purchaseOrderId} × ${order.quantity}`).join(', ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        ))}
+      </table>
+    )}
+  </section>
+);
+
+export default PickList;
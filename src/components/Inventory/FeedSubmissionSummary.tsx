@@ -0,0 +1,50 @@
+import React from 'react';
+import { InventoryFeedRejection, InventoryFeedSubmission } from '../../services/inventoryFeedService';
+import { X } from 'lucide-react';
+
+interface FeedSubmissionSummaryProps {
+  submission: InventoryFeedSubmission;
+  // Where a rejected update came from, e.g. its CSV line
+  locate: (rejection: InventoryFeedRejection) => string;
+  onDismiss: () => void;
+}
+
+// Rejections listed in full; the rest are counted
+const MAX_LISTED = 50;
+
+/**
+ * What a bulk update sent to Walmart, and the updates it could not send and why
+ */
+const FeedSubmissionSummary: React.FC<FeedSubmissionSummaryProps> = ({ submission, locate, onDismiss }) => {
+  const { feeds, submitted, unchanged, rejected } = submission;
+
+  return (
+    <div className={`rounded-md border p-4 text-sm ${rejected.length > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+      <div className="flex items-start justify-between">
+        <div className={rejected.length > 0 ? 'text-yellow-800' : 'text-green-800'}>
+          {submitted > 0
+            ? `Sent ${submitted} quantit${submitted !== 1 ? 'ies' : 'y'} to Walmart in ${feeds.length} feed${feeds.length !== 1 ? 's' : ''}. `
+              + 'Rows update once Walmart has processed the feed.'
+            : 'Nothing was sent to Walmart.'}
+          {unchanged > 0 && ` ${unchanged} SKU location${unchanged !== 1 ? 's' : ''} already had the quantity given.`}
+          {rejected.length > 0 && ` ${rejected.length} update${rejected.length !== 1 ? 's' : ''} could not be sent:`}
+        </div>
+        <button onClick={onDismiss} className="ml-3 text-gray-400 hover:text-gray-600" title="Dismiss">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      {rejected.length > 0 && (
+        <ul className="mt-2 space-y-1 text-yellow-800">
+          {rejected.slice(0, MAX_LISTED).map((rejection) => (
+            <li key={rejection.index}>
+              <span className="font-medium">{locate(rejection)}</span>: {rejection.reason}
+            </li>
+          ))}
+          {rejected.length > MAX_LISTED && <li>and {rejected.length - MAX_LISTED} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FeedSubmissionSummary;
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import {
+  InventoryCsv,
+  InventoryFeed,
+  InventoryFeedService,
+  InventoryFeedSubmission,
+} from '../../services/inventoryFeedService';
+import { WalmartTokenRecord } from '../../services/walmartTokenService';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import FeedSubmissionSummary from './FeedSubmissionSummary';
+import { CheckCircle, Clock, Upload, XCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface InventoryFeedPanelProps {
+  account: WalmartTokenRecord;
+  // The account's recent feeds, newest first
+  feeds: InventoryFeed[];
+  onSubmitted: () => void;
+  // Filter the inventory list to rows Walmart rejected
+  onShowFailed: () => void;
+  onClose: () => void;
+}
+
+// CSV read errors listed in full; the rest are counted
+const MAX_LISTED_ERRORS = 20;
+
+const feedStatusBadge = (feed: InventoryFeed) => {
+  if (feed.status === 'pending') {
+    return (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+        <Upload className="h-3 w-3 mr-1" />
+        Uploading
+      </span>
+    );
+  }
+  if (InventoryFeedService.isOpen(feed)) {
+    return (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+        <Clock className="h-3 w-3 mr-1" />
+        {feed.status === 'received' ? 'Received' : 'Processing'}
+      </span>
+    );
+  }
+  if (feed.status === 'error' || feed.itemsFailed > 0) {
+    return (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+        <XCircle className="h-3 w-3 mr-1" />
+        {feed.status === 'error' ? 'Failed' : 'Processed with errors'}
+      </span>
+    );
+  }
+  return (
+    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+      <CheckCircle className="h-3 w-3 mr-1" />
+      Processed
+    </span>
+  );
+};
+
+/**
+ * Upload a CSV of quantities as inventory feeds, and follow the feeds Walmart is processing
+ */
+const InventoryFeedPanel: React.FC<InventoryFeedPanelProps> = ({ account, feeds, onSubmitted, onShowFailed, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<InventoryCsv | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<unknown>(null);
+  const [submission, setSubmission] = useState<{ result: InventoryFeedSubmission; lines: number[] } | null>(null);
+
+  const readFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be chosen again after it is edited
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setSubmission(null);
+    setSubmitError(null);
+    setCsv(InventoryFeedService.parseCsv(await file.text()));
+  };
+
+  const submitCsv = async () => {
+    if (!csv || csv.updates.length === 0) return;
+
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const result = await InventoryFeedService.submit(account, 'csv', csv.updates);
+      setSubmission({ result, lines: csv.lines });
+      setCsv(null);
+      setFileName(null);
+      onSubmitted();
+    } catch (error) {
+      setSubmitError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow border border-gray-200 rounded-lg p-6 space-y-5">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Bulk inventory update</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Upload a CSV with <code>sku</code> and <code>quantity</code> columns, plus <code>ship_node</code> for SKUs
+            stocked at several ship nodes. Walmart's inventory report can be uploaded as it is. Quantities are sent as
+            Walmart inventory feeds, which Walmart processes within a few minutes.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="ml-4 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <label className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+          <Upload className="h-4 w-4 mr-2" />
+          Choose CSV file
+          <input type="file" accept=".csv,text/csv" onChange={readFile} className="sr-only" />
+        </label>
+        {fileName && csv && (
+          <span className="text-sm text-gray-700">
+            {fileName}: {csv.updates.length} row{csv.updates.length !== 1 ? 's' : ''} to send
+            {csv.errors.length > 0 && `, ${csv.errors.length} that cannot be read`}
+          </span>
+        )}
+        {csv && csv.updates.length > 0 && (
+          <button
+            onClick={submitCsv}
+            disabled={submitting}
+            className="sm:ml-auto px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Submitting...' : 'Submit to Walmart'}
+          </button>
+        )}
+      </div>
+
+      {csv && csv.errors.length > 0 && (
+        <ul className="text-sm text-red-600 space-y-1">
+          {csv.errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+            <li key={error.line}>Line {error.line}: {error.message}</li>
+          ))}
+          {csv.errors.length > MAX_LISTED_ERRORS && <li>and {csv.errors.length - MAX_LISTED_ERRORS} more</li>}
+        </ul>
+      )}
+
+      {submitError !== null && (
+        <WalmartErrorAlert error={submitError} onRetry={submitCsv} onDismiss={() => setSubmitError(null)} className="" />
+      )}
+
+      {submission && (
+        <FeedSubmissionSummary
+          submission={submission.result}
+          locate={(rejection) => `Line ${submission.lines[rejection.index]} (${rejection.sku})`}
+          onDismiss={() => setSubmission(null)}
+        />
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700">Recent feeds</h3>
+        {feeds.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-500">No inventory feeds submitted yet.</p>
+        ) : (
+          <table className="mt-2 min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="py-2 pr-4">Feed</th>
+                <th className="py-2 pr-4">Submitted</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">SKUs</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {feeds.map((feed) => (
+                <tr key={feed.id}>
+                  <td className="py-2 pr-4">
+                    {feed.feedId
+                      ? <div className="font-mono text-xs text-gray-900 truncate max-w-xs" title={feed.feedId}>{feed.feedId}</div>
+                      : <div className="text-xs text-gray-500">No Walmart feed ID</div>}
+                    <div className="text-xs text-gray-500">{feed.source === 'csv' ? 'CSV upload' : 'Bulk edit'}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                    {formatDistanceToNow(new Date(feed.submittedAt), { addSuffix: true })}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {feedStatusBadge(feed)}
+                    {feed.lastError && <div className="mt-1 text-xs text-red-600">{feed.lastError}</div>}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                    {feed.status === 'pending' || InventoryFeedService.isOpen(feed)
+                      ? feed.itemCount
+                      : `${feed.itemsSucceeded} of ${feed.itemCount} updated`}
+                  </td>
+                  <td className="py-2 text-right">
+                    {!InventoryFeedService.isOpen(feed) && feed.itemsFailed > 0 && (
+                      <button onClick={onShowFailed} className="text-sm font-medium text-blue-600 hover:text-blue-900">
+                        Show failed rows
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InventoryFeedPanel;
@@ -1,4 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import {
+  InventoryListFilters,
+  InventoryService,
+  InventorySyncState,
+  InventorySyncStatus,
+  StoredInventoryItem,
+} from '../../services/inventoryService';
+import { InventoryFeedService, InventoryFeedSubmission } from '../../services/inventoryFeedService';
+import { OpenPages, useWalmartPages } from '../../hooks/useWalmartPages';
+import { useInventoryFeeds } from '../../hooks/useInventoryFeeds';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import Pagination from '../Layout/Pagination';
+import InventoryFeedPanel from './InventoryFeedPanel';
+import FeedSubmissionSummary from './FeedSubmissionSummary';
 import { InventoryItem } from '../../types';
 import { 
   Package, 
@@ -8,136 +24,249 @@ import {
   AlertTriangle,
   CheckCircle,
   XCircle,
-  ChevronLeft,
-  ChevronRight,
-  RefreshCw
+  RefreshCw,
+  Check,
+  X,
+  Clock,
+  GitMerge,
+  Layers,
+  Upload
 } from 'lucide-react';
-import { format } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 
 const InventoryList: React.FC = () => {
-  const [inventory, setInventory] = useState<InventoryItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { activeAccount } = useWalmartAccount();
   const [searchTerm, setSearchTerm] = useState('');
+  const [sku, setSku] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [currentPage, setCurrentPage] = useState(1);
+  const [syncFilter, setSyncFilter] = useState<string>('all');
   const [itemsPerPage] = useState(10);
+  const [syncState, setSyncState] = useState<InventorySyncState | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<unknown>(null);
+  // Quantity being typed for the row in edit mode
+  const [editing, setEditing] = useState<{ id: string; quantity: string } | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<unknown>(null);
+  // Rows changed by an edit since their page was loaded, so the page stays where it is
+  const [updated, setUpdated] = useState<Map<string, StoredInventoryItem>>(new Map());
+  const [showFeeds, setShowFeeds] = useState(false);
+  // Bulk edit: quantities typed into the grid by row ID, kept across pages until submitted
+  const [bulkEditing, setBulkEditing] = useState(false);
+  const [bulkQuantities, setBulkQuantities] = useState<Map<string, { item: StoredInventoryItem; quantity: string }>>(new Map());
+  const [bulkSubmitting, setBulkSubmitting] = useState(false);
+  const [bulkError, setBulkError] = useState<unknown>(null);
+  const [bulkSubmission, setBulkSubmission] = useState<{ result: InventoryFeedSubmission; items: StoredInventoryItem[] } | null>(null);
+
+  // Inventory is listed from Supabase; Sync Inventory pulls Walmart's stock and pushes edits
+  const filters: InventoryListFilters = {
+    sku: sku || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter as InventoryItem['status'],
+    syncStatus: syncFilter === 'all' ? undefined : syncFilter as InventorySyncStatus,
+    limit: itemsPerPage,
+  };
+  const resetKey = JSON.stringify([activeAccount?.id, filters]);
+
+  const openInventory: OpenPages<StoredInventoryItem> | null = activeAccount
+    ? (cursor) => InventoryService.pages(activeAccount, filters, cursor)
+    : null;
+
+  const {
+    items: inventory,
+    loadedItems,
+    loadedPages,
+    pageIndex,
+    totalCount,
+    hasPrevious,
+    hasNext,
+    loading,
+    initialLoading,
+    error,
+    next,
+    previous,
+    retry,
+    reload,
+    refresh,
+  } = useWalmartPages(openInventory, resetKey);
 
   useEffect(() => {
-    fetchInventory();
-  }, []);
-
-  const fetchInventory = async () => {
-    setLoading(true);
-    
-    // Mock data
-    const mockInventory: InventoryItem[] = [
-      {
-        id: '1',
-        sku: 'SKU-001',
-        productName: 'Wireless Headphones',
-        availableQuantity: 45,
-        reservedQuantity: 5,
-        totalQuantity: 50,
-        lastUpdated: '2024-01-15T10:30:00Z',
-        location: 'Warehouse A',
-        status: 'in_stock'
-      },
-      {
-        id: '2',
-        sku: 'SKU-002',
-        productName: 'Phone Case',
-        availableQuantity: 8,
-        reservedQuantity: 2,
-        totalQuantity: 10,
-        lastUpdated: '2024-01-14T15:45:00Z',
-        location: 'Warehouse B',
-        status: 'low_stock'
-      },
-      {
-        id: '3',
-        sku: 'SKU-003',
-        productName: 'Bluetooth Speaker',
-        availableQuantity: 0,
-        reservedQuantity: 0,
-        totalQuantity: 0,
-        lastUpdated: '2024-01-13T09:15:00Z',
-        location: 'Warehouse A',
-        status: 'out_of_stock'
-      },
-      {
-        id: '4',
-        sku: 'SKU-004',
-        productName: 'Smart Watch',
-        availableQuantity: 25,
-        reservedQuantity: 3,
-        totalQuantity: 28,
-        lastUpdated: '2024-01-12T14:20:00Z',
-        location: 'Warehouse C',
-        status: 'in_stock'
-      },
-      {
-        id: '5',
-        sku: 'SKU-005',
-        productName: 'USB Cable',
-        availableQuantity: 3,
-        reservedQuantity: 1,
-        totalQuantity: 4,
-        lastUpdated: '2024-01-11T11:30:00Z',
-        location: 'Warehouse B',
-        status: 'low_stock'
-      },
-      {
-        id: '6',
-        sku: 'SKU-006',
-        productName: 'Laptop Stand',
-        availableQuantity: 15,
-        reservedQuantity: 2,
-        totalQuantity: 17,
-        lastUpdated: '2024-01-10T16:45:00Z',
-        location: 'Warehouse A',
-        status: 'in_stock'
-      },
-      {
-        id: '7',
-        sku: 'SKU-007',
-        productName: 'Wireless Mouse',
-        availableQuantity: 32,
-        reservedQuantity: 4,
-        totalQuantity: 36,
-        lastUpdated: '2024-01-09T12:15:00Z',
-        location: 'Warehouse C',
-        status: 'in_stock'
-      },
-      {
-        id: '8',
-        sku: 'SKU-008',
-        productName: 'Keyboard',
-        availableQuantity: 0,
-        reservedQuantity: 0,
-        totalQuantity: 0,
-        lastUpdated: '2024-01-08T08:30:00Z',
-        location: 'Warehouse B',
-        status: 'out_of_stock'
+    setUpdated(new Map());
+    setEditing(null);
+  }, [resetKey]);
+
+  useEffect(() => {
+    setBulkEditing(false);
+    setBulkQuantities(new Map());
+    setBulkSubmission(null);
+  }, [activeAccount?.id]);
+
+  // Finished feeds have recorded Walmart's results on their rows
+  const { feeds, processing: feedsProcessing, reload: reloadFeeds } = useInventoryFeeds(activeAccount, () => {
+    setUpdated(new Map());
+    refresh();
+  });
+
+  const withUpdates = (item: StoredInventoryItem) => updated.get(item.id) ?? item;
+  const pageInventory = inventory.map(withUpdates);
+  const loadedInventory = loadedItems.map(withUpdates);
+
+  const fetchSyncState = useCallback(async () => {
+    if (!activeAccount) {
+      setSyncState(null);
+      return;
+    }
+    try {
+      setSyncState(await InventoryService.getSyncState(activeAccount));
+    } catch (error) {
+      console.error('Error loading inventory sync state:', error);
+    }
+  }, [activeAccount]);
+
+  useEffect(() => {
+    fetchSyncState();
+  }, [fetchSyncState]);
+
+  const syncInventory = async () => {
+    if (!activeAccount) return;
+
+    setSyncing(true);
+    setSyncError(null);
+    try {
+      // Each sync reads part of a large catalog; keep going until Walmart has no more pages
+      let result;
+      do {
+        result = await InventoryService.sync(activeAccount);
+      } while (result.status === 'synced' && result.has_more);
+      setUpdated(new Map());
+      reload();
+    } catch (error) {
+      setSyncError(error);
+    } finally {
+      setSyncing(false);
+      fetchSyncState();
+    }
+  };
+
+  const applyChange = async (item: StoredInventoryItem, change: () => Promise<StoredInventoryItem>) => {
+    setSavingId(item.id);
+    setActionError(null);
+    try {
+      const changed = await change();
+      setUpdated((current) => new Map(current).set(changed.id, changed));
+      return true;
+    } catch (error) {
+      setActionError(error);
+      return false;
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const saveQuantity = async (item: StoredInventoryItem) => {
+    if (!activeAccount || !editing) return;
+
+    const quantity = Number(editing.quantity);
+    if (editing.quantity.trim() === '' || !Number.isInteger(quantity) || quantity < 0) {
+      setActionError(new Error('Enter a whole number of units, 0 or more.'));
+      return;
+    }
+
+    if (await applyChange(item, () => InventoryService.updateQuantity(activeAccount, item, quantity))) {
+      setEditing(null);
+    }
+  };
+
+  const bulkChanges = [...bulkQuantities.values()];
+  const bulkInvalid = bulkChanges.some(({ quantity }) => !/^\d+$/.test(quantity.trim()));
+
+  const setBulkQuantity = (item: StoredInventoryItem, quantity: string) => {
+    setBulkQuantities((current) => {
+      const next = new Map(current);
+      if (quantity === String(item.totalQuantity)) {
+        next.delete(item.id);
+      } else {
+        next.set(item.id, { item, quantity });
       }
-    ];
+      return next;
+    });
+  };
+
+  const submitBulkEdit = async () => {
+    if (!activeAccount || bulkChanges.length === 0 || bulkInvalid) return;
 
-    setTimeout(() => {
-      setInventory(mockInventory);
-      setLoading(false);
-    }, 500);
+    setBulkSubmitting(true);
+    setBulkError(null);
+    try {
+      const result = await InventoryFeedService.submit(
+        activeAccount,
+        'grid',
+        bulkChanges.map(({ item, quantity }) => ({ sku: item.sku, shipNode: item.shipNode, quantity: Number(quantity) }))
+      );
+      setBulkSubmission({ result, items: bulkChanges.map(({ item }) => item) });
+      setBulkQuantities(new Map());
+      setBulkEditing(false);
+      setUpdated(new Map());
+      refresh();
+      reloadFeeds();
+    } catch (error) {
+      setBulkError(error);
+    } finally {
+      setBulkSubmitting(false);
+    }
   };
 
-  const filteredInventory = inventory.filter(item => {
-    const matchesSearch = item.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         item.productName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         item.location.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || item.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  const feedSubmitted = () => {
+    setUpdated(new Map());
+    refresh();
+    reloadFeeds();
+  };
+
+  const resolveConflict = (item: StoredInventoryItem, keep: 'local' | 'walmart') => {
+    if (!activeAccount) return;
+    applyChange(item, () => InventoryService.resolveConflict(activeAccount, item, keep));
+  };
+
+  const searchInventory = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSku(searchTerm.trim());
+  };
+
+  const getSyncBadge = (item: StoredInventoryItem) => {
+    const syncStyles = {
+      synced: 'bg-green-100 text-green-800',
+      pending: 'bg-blue-100 text-blue-800',
+      conflict: 'bg-orange-100 text-orange-800',
+      failed: 'bg-red-100 text-red-800',
+    };
 
-  const totalPages = Math.ceil(filteredInventory.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedInventory = filteredInventory.slice(startIndex, startIndex + itemsPerPage);
+    const syncIcons = {
+      synced: CheckCircle,
+      pending: Clock,
+      conflict: GitMerge,
+      failed: XCircle,
+    };
+
+    const syncLabels = {
+      synced: 'In sync',
+      pending: 'Not pushed yet',
+      conflict: 'Conflict',
+      failed: 'Push failed',
+    };
+
+    const Icon = syncIcons[item.syncStatus];
+    // A feed Walmart has not finished processing is carrying the quantity
+    const label = item.syncStatus === 'pending' && item.feedId ? 'Feed processing' : syncLabels[item.syncStatus];
+
+    return (
+      <span
+        title={item.syncError}
+        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${syncStyles[item.syncStatus]}`}
+      >
+        <Icon className="h-3 w-3 mr-1" />
+        {label}
+      </span>
+    );
+  };
 
   const getStatusBadge = (status: string) => {
     const statusStyles = {
@@ -168,11 +297,7 @@ const InventoryList: React.FC = () => {
     );
   };
 
-  const refreshInventory = async () => {
-    await fetchInventory();
-  };
-
-  if (loading) {
+  if (initialLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -188,17 +313,126 @@ const InventoryList: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Inventory</h1>
           <p className="mt-1 text-sm text-gray-600">
             Monitor your stock levels and locations
+            {activeAccount && ` for ${WalmartTokenService.getAccountLabel(activeAccount)}`}
           </p>
+          {syncState?.last_completed_at && (
+            <p className="mt-1 text-xs text-gray-500">
+              Last synced {formatDistanceToNow(new Date(syncState.last_completed_at), { addSuffix: true })}
+              {' '}({syncState.last_pulled_count} SKU location{syncState.last_pulled_count !== 1 ? 's' : ''} read,
+              {' '}{syncState.last_pushed_count} edit{syncState.last_pushed_count !== 1 ? 's' : ''} pushed)
+              {syncState.next_cursor && '; the rest of the catalog is read on the next sync'}
+            </p>
+          )}
         </div>
-        <button
-          onClick={refreshInventory}
-          className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <RefreshCw className="h-4 w-4 mr-2" />
-          Sync Inventory
-        </button>
+        {activeAccount && (
+          <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+            <button
+              onClick={() => setBulkEditing(!bulkEditing)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Layers className="h-4 w-4 mr-2" />
+              {bulkEditing ? 'Stop Bulk Edit' : 'Bulk Edit'}
+            </button>
+            <button
+              onClick={() => setShowFeeds(!showFeeds)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              CSV &amp; Feeds
+            </button>
+            <button
+              onClick={syncInventory}
+              disabled={syncing}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+              {syncing ? 'Syncing...' : 'Sync Inventory'}
+            </button>
+          </div>
+        )}
       </div>
 
+      {activeAccount && showFeeds && (
+        <InventoryFeedPanel
+          account={activeAccount}
+          feeds={feeds}
+          onSubmitted={feedSubmitted}
+          onShowFailed={() => setSyncFilter('failed')}
+          onClose={() => setShowFeeds(false)}
+        />
+      )}
+
+      {!showFeeds && feedsProcessing && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-4 flex items-center justify-between text-sm text-blue-800">
+          <span>Walmart is processing an inventory feed. Its rows update when it finishes.</span>
+          <button onClick={() => setShowFeeds(true)} className="font-medium text-blue-700 hover:text-blue-900">
+            View feeds
+          </button>
+        </div>
+      )}
+
+      {bulkEditing && (
+        <div className="bg-white border border-blue-200 rounded-md p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-sm">
+          <span className="text-gray-700">
+            Type new quantities in the Total column on any page.{' '}
+            {bulkChanges.length > 0
+              ? `${bulkChanges.length} quantit${bulkChanges.length !== 1 ? 'ies' : 'y'} changed.`
+              : 'Nothing changed yet.'}
+            {bulkInvalid && <span className="text-red-600"> Quantities must be whole numbers, 0 or more.</span>}
+          </span>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setBulkQuantities(new Map())}
+              disabled={bulkChanges.length === 0 || bulkSubmitting}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Discard
+            </button>
+            <button
+              onClick={submitBulkEdit}
+              disabled={bulkChanges.length === 0 || bulkInvalid || bulkSubmitting}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {bulkSubmitting ? 'Submitting...' : 'Submit as Walmart feed'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {bulkError !== null && (
+        <WalmartErrorAlert error={bulkError} onRetry={submitBulkEdit} onDismiss={() => setBulkError(null)} className="" />
+      )}
+
+      {bulkSubmission && (
+        <FeedSubmissionSummary
+          submission={bulkSubmission.result}
+          locate={(rejection) => `${rejection.sku} at ${bulkSubmission.items[rejection.index]?.shipNode ?? rejection.shipNode}`}
+          onDismiss={() => setBulkSubmission(null)}
+        />
+      )}
+
+      {syncError !== null && (
+        <WalmartErrorAlert error={syncError} onRetry={syncInventory} onDismiss={() => setSyncError(null)} className="" />
+      )}
+
+      {syncError === null && syncState?.last_error && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+          The last inventory sync did not finish cleanly: {syncState.last_error}
+        </div>
+      )}
+
+      {syncState && syncState.last_conflict_count > 0 && syncFilter !== 'conflict' && (
+        <div className="bg-orange-50 border border-orange-200 rounded-md p-4 flex items-center justify-between text-sm text-orange-800">
+          <span>
+            {syncState.last_conflict_count} SKU location{syncState.last_conflict_count !== 1 ? 's' : ''} changed
+            both here and on Walmart since they were last in sync. Choose which quantity to keep.
+          </span>
+          <button onClick={() => setSyncFilter('conflict')} className="font-medium text-orange-700 hover:text-orange-900">
+            Review conflicts
+          </button>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="bg-white overflow-hidden shadow rounded-lg border border-gray-200">
@@ -215,7 +449,7 @@ const InventoryList: React.FC = () => {
                     In Stock
                   </dt>
                   <dd className="text-2xl font-semibold text-gray-900">
-                    {inventory.filter(item => item.status === 'in_stock').length}
+                    {loadedInventory.filter(item => item.status === 'in_stock').length}
                   </dd>
                 </dl>
               </div>
@@ -237,7 +471,7 @@ const InventoryList: React.FC = () => {
                     Low Stock
                   </dt>
                   <dd className="text-2xl font-semibold text-gray-900">
-                    {inventory.filter(item => item.status === 'low_stock').length}
+                    {loadedInventory.filter(item => item.status === 'low_stock').length}
                   </dd>
                 </dl>
               </div>
@@ -259,7 +493,7 @@ const InventoryList: React.FC = () => {
                     Out of Stock
                   </dt>
                   <dd className="text-2xl font-semibold text-gray-900">
-                    {inventory.filter(item => item.status === 'out_of_stock').length}
+                    {loadedInventory.filter(item => item.status === 'out_of_stock').length}
                   </dd>
                 </dl>
               </div>
@@ -281,7 +515,7 @@ const InventoryList: React.FC = () => {
                     Total Items
                   </dt>
                   <dd className="text-2xl font-semibold text-gray-900">
-                    {inventory.reduce((sum, item) => sum + item.totalQuantity, 0)}
+                    {loadedInventory.reduce((sum, item) => sum + item.totalQuantity, 0)}
                   </dd>
                 </dl>
               </div>
@@ -290,23 +524,30 @@ const InventoryList: React.FC = () => {
         </div>
       </div>
 
+      {hasNext && (
+        <p className="-mt-3 text-xs text-gray-500">
+          Counts cover the {loadedPages} {loadedPages === 1 ? 'page' : 'pages'} loaded so far
+          {totalCount !== null && ` of ${Math.ceil(totalCount / itemsPerPage)}`}.
+        </p>
+      )}
+
       {/* Filters */}
       <div className="bg-white p-4 rounded-lg shadow border border-gray-200">
         <div className="flex flex-col sm:flex-row gap-4">
-          <div className="flex-1">
+          <form onSubmit={searchInventory} className="flex-1">
             <div className="relative">
               <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                 <Search className="h-5 w-5 text-gray-400" />
               </div>
               <input
                 type="text"
-                placeholder="Search inventory..."
+                placeholder="Search by SKU..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               />
             </div>
-          </div>
+          </form>
           <div className="sm:w-48">
             <select
               value={statusFilter}
@@ -319,9 +560,28 @@ const InventoryList: React.FC = () => {
               <option value="out_of_stock">Out of Stock</option>
             </select>
           </div>
+          <div className="sm:w-48">
+            <select
+              value={syncFilter}
+              onChange={(e) => setSyncFilter(e.target.value)}
+              className="block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="all">Any Sync State</option>
+              <option value="synced">In Sync</option>
+              <option value="pending">Not Pushed Yet</option>
+              <option value="conflict">Conflicts</option>
+              <option value="failed">Push Failed</option>
+            </select>
+          </div>
         </div>
       </div>
 
+      {error !== null && <WalmartErrorAlert error={error} onRetry={retry} className="" />}
+
+      {actionError !== null && (
+        <WalmartErrorAlert error={actionError} onDismiss={() => setActionError(null)} className="" />
+      )}
+
       {/* Inventory Table */}
       <div className="bg-white shadow border border-gray-200 rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
@@ -346,6 +606,9 @@ const InventoryList: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Walmart
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Last Updated
                 </th>
@@ -355,7 +618,7 @@ const InventoryList: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {paginatedInventory.map((item) => (
+              {pageInventory.map((item) => (
                 <tr key={item.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
@@ -366,11 +629,13 @@ const InventoryList: React.FC = () => {
                       </div>
                       <div className="ml-4">
                         <div className="text-sm font-medium text-gray-900">
-                          {item.productName}
-                        </div>
-                        <div className="text-sm text-gray-500">
-                          {item.sku}
+                          {item.productName ?? item.sku}
                         </div>
+                        {item.productName && (
+                          <div className="text-sm text-gray-500">
+                            {item.sku}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </td>
@@ -381,7 +646,54 @@ const InventoryList: React.FC = () => {
                     {item.reservedQuantity}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {item.totalQuantity}
+                    {bulkEditing ? (
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={bulkQuantities.get(item.id)?.quantity ?? String(item.totalQuantity)}
+                        onChange={(e) => setBulkQuantity(item, e.target.value)}
+                        className={`w-20 px-2 py-1 border rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 ${
+                          bulkQuantities.has(item.id) ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+                        }`}
+                      />
+                    ) : editing?.id === item.id ? (
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          saveQuantity(item);
+                        }}
+                        className="flex items-center space-x-2"
+                      >
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          autoFocus
+                          value={editing.quantity}
+                          onChange={(e) => setEditing({ id: item.id, quantity: e.target.value })}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <button
+                          type="submit"
+                          disabled={savingId === item.id}
+                          className="text-green-600 hover:text-green-800 disabled:opacity-50"
+                          title="Save and push to Walmart"
+                        >
+                          <Check className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setEditing(null)}
+                          className="text-gray-500 hover:text-gray-700"
+                          title="Cancel"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </form>
+                    ) : (
+                      item.totalQuantity
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {item.location}
@@ -389,11 +701,45 @@ const InventoryList: React.FC = () => {
                   <td className="px-6 py-4 whitespace-nowrap">
                     {getStatusBadge(item.status)}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {getSyncBadge(item)}
+                    {item.syncStatus === 'failed' && item.syncError && (
+                      <div className="mt-1 text-xs text-red-600 max-w-xs truncate" title={item.syncError}>
+                        {item.syncError}
+                      </div>
+                    )}
+                    {item.syncStatus === 'conflict' && (
+                      <div className="mt-1 text-xs text-gray-600">
+                        Walmart has {item.walmartQuantity}, this app has {item.totalQuantity}
+                        <div className="mt-1 space-x-3">
+                          <button
+                            onClick={() => resolveConflict(item, 'local')}
+                            disabled={savingId === item.id}
+                            className="font-medium text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                          >
+                            Keep mine
+                          </button>
+                          <button
+                            onClick={() => resolveConflict(item, 'walmart')}
+                            disabled={savingId === item.id}
+                            className="font-medium text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                          >
+                            Use Walmart's
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {format(new Date(item.lastUpdated), 'MMM d, yyyy')}
+                    {item.lastUpdated ? format(new Date(item.lastUpdated), 'MMM d, yyyy') : '—'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <button className="text-blue-600 hover:text-blue-900">
+                    <button
+                      onClick={() => setEditing({ id: item.id, quantity: String(item.totalQuantity) })}
+                      disabled={bulkEditing || editing?.id === item.id || savingId === item.id}
+                      className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                      title="Edit quantity"
+                    >
                       <Edit className="h-4 w-4" />
                     </button>
                   </td>
@@ -403,77 +749,27 @@ const InventoryList: React.FC = () => {
           </table>
         </div>
 
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
-            <div className="flex-1 flex justify-between sm:hidden">
-              <button
-                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                disabled={currentPage === 1}
-                className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Previous
-              </button>
-              <button
-                onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                disabled={currentPage === totalPages}
-                className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Next
-              </button>
-            </div>
-            <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-              <div>
-                <p className="text-sm text-gray-700">
-                  Showing <span className="font-medium">{startIndex + 1}</span> to{' '}
-                  <span className="font-medium">
-                    {Math.min(startIndex + itemsPerPage, filteredInventory.length)}
-                  </span>{' '}
-                  of <span className="font-medium">{filteredInventory.length}</span> results
-                </p>
-              </div>
-              <div>
-                <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
-                  <button
-                    onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                    disabled={currentPage === 1}
-                    className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <ChevronLeft className="h-5 w-5" />
-                  </button>
-                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                    <button
-                      key={page}
-                      onClick={() => setCurrentPage(page)}
-                      className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
-                        page === currentPage
-                          ? 'z-10 bg-blue-50 border-blue-500 text-blue-600'
-                          : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
-                      }`}
-                    >
-                      {page}
-                    </button>
-                  ))}
-                  <button
-                    onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                    disabled={currentPage === totalPages}
-                    className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <ChevronRight className="h-5 w-5" />
-                  </button>
-                </nav>
-              </div>
-            </div>
-          </div>
-        )}
+        <Pagination
+          pageIndex={pageIndex}
+          pageSize={itemsPerPage}
+          totalCount={totalCount}
+          noun="SKUs"
+          hasPrevious={hasPrevious}
+          hasNext={hasNext}
+          loading={loading}
+          onPrevious={previous}
+          onNext={next}
+        />
       </div>
 
-      {filteredInventory.length === 0 && (
+      {!loading && error === null && pageInventory.length === 0 && (
         <div className="text-center py-12">
           <Package className="mx-auto h-12 w-12 text-gray-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">No inventory items</h3>
           <p className="mt-1 text-sm text-gray-500">
-            Inventory items will appear here when you sync with Walmart.
+            {activeAccount
+              ? 'Inventory items will appear here after you sync with Walmart.'
+              : 'Connect a Walmart account to see its stock.'}
           </p>
         </div>
       )}
@@ -1,20 +1,27 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import ReconnectAlert from '../Walmart/ReconnectAlert';
+import EnvironmentBanner from '../Walmart/EnvironmentBanner';
 import { 
   Store, 
   Package, 
   ShoppingCart,
   Truck,
+  RotateCcw,
   Settings, 
   LogOut, 
   Menu,
   X,
-  Search
+  Search,
+  Building2
 } from 'lucide-react';
 
 const Navbar: React.FC = () => {
   const { user, signOut } = useAuth();
+  const { accounts, activeAccount, setActiveAccount } = useWalmartAccount();
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = React.useState(false);
 
@@ -24,12 +31,33 @@ const Navbar: React.FC = () => {
     { name: 'Orders', href: '/orders', icon: ShoppingCart },
     { name: 'Inventory', href: '/inventory', icon: Package },
     { name: 'Shipping', href: '/shipping', icon: Truck },
+    { name: 'Returns', href: '/returns', icon: RotateCcw },
     { name: 'API Explorer', href: '/api-explorer', icon: Search },
     { name: 'Settings', href: '/settings', icon: Settings },
   ];
 
   const isActive = (path: string) => location.pathname === path;
 
+  const accountSwitcher = accounts.length > 0 && (
+    <div className="flex items-center space-x-2">
+      <Building2 className="h-4 w-4 text-gray-500 flex-shrink-0" />
+      <select
+        value={activeAccount?.seller_id ?? ''}
+        onChange={(e) => setActiveAccount(e.target.value || undefined)}
+        aria-label="Active Walmart account"
+        className="block w-full pl-2 pr-8 py-1 text-sm border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+      >
+        {accounts.map((account) => (
+          <option key={account.id} value={account.seller_id ?? ''}>
+            {account.environment === 'production'
+              ? WalmartTokenService.getAccountLabel(account)
+              : `${WalmartTokenService.getAccountLabel(account)} (${WalmartTokenService.getEnvironmentLabel(account.environment)})`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
   return (
     <nav className="bg-white shadow-lg border-b border-gray-200">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -64,6 +92,9 @@ const Navbar: React.FC = () => {
 
           {/* User Menu */}
           <div className="flex items-center space-x-4">
+            <div className="hidden md:block">
+              {accountSwitcher}
+            </div>
             <div className="hidden md:flex items-center space-x-2">
               <span className="text-sm text-gray-600">Welcome,</span>
               <span className="text-sm font-medium text-gray-900">
@@ -97,6 +128,11 @@ const Navbar: React.FC = () => {
       {isMobileMenuOpen && (
         <div className="md:hidden bg-white border-t border-gray-200">
           <div className="px-2 pt-2 pb-3 space-y-1">
+            {accounts.length > 0 && (
+              <div className="px-3 py-2">
+                {accountSwitcher}
+              </div>
+            )}
             {navigation.map((item) => {
               const Icon = item.icon;
               return (
@@ -118,6 +154,9 @@ const Navbar: React.FC = () => {
           </div>
         </div>
       )}
+
+      <EnvironmentBanner />
+      <ReconnectAlert />
     </nav>
   );
 };
@@ -0,0 +1,75 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationProps {
+  pageIndex: number;
+  pageSize: number;
+  // Size of the whole list on the server, when known
+  totalCount: number | null;
+  // What the total counts, e.g. "orders"
+  noun: string;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  loading: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+/**
+ * Previous/next controls for lists paged with a server cursor, where pages can only
+ * be reached in order
+ */
+const Pagination: React.FC<PaginationProps> = ({
+  pageIndex,
+  pageSize,
+  totalCount,
+  noun,
+  hasPrevious,
+  hasNext,
+  loading,
+  onPrevious,
+  onNext,
+}) => {
+  if (!hasPrevious && !hasNext) return null;
+
+  const pageCount = totalCount !== null ? Math.max(1, Math.ceil(totalCount / pageSize)) : null;
+
+  return (
+    <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
+      <p className="text-sm text-gray-700">
+        Page <span className="font-medium">{pageIndex + 1}</span>
+        {pageCount !== null && (
+          <>
+            {' '}of <span className="font-medium">{pageCount}</span>
+            <span className="hidden sm:inline">
+              {' '}· <span className="font-medium">{totalCount}</span> {noun}
+            </span>
+          </>
+        )}
+      </p>
+      <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
+        <button
+          onClick={onPrevious}
+          disabled={!hasPrevious || loading}
+          className="relative inline-flex items-center px-3 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ChevronLeft className="h-5 w-5" />
+          <span className="sr-only sm:not-sr-only sm:ml-1">Previous</span>
+        </button>
+        <button
+          onClick={onNext}
+          disabled={!hasNext || loading}
+          className="relative inline-flex items-center px-3 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-1"></div>
+          ) : null}
+          <span className="sr-only sm:not-sr-only sm:mr-1">Next</span>
+          <ChevronRight className="h-5 w-5" />
+        </button>
+      </nav>
+    </div>
+  );
+};
+
+export default Pagination;
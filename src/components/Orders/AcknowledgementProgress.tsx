@@ -0,0 +1,87 @@
+import React from 'react';
+import { describeWalmartError } from '../../services/walmartErrors';
+import { ACKNOWLEDGE_MAX_ATTEMPTS } from '../../hooks/useOrderAcknowledgement';
+import { AlertCircle, RefreshCw, X } from 'lucide-react';
+
+interface AcknowledgementProgressProps {
+  progress: {
+    total: number;
+    done: number;
+    retrying: { purchaseOrderId: string; attempt: number } | null;
+  } | null;
+  // Errors by purchase order ID
+  failures: Record<string, unknown>;
+  onRetryFailed: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Progress of a batch of acknowledgements and the orders Walmart would not acknowledge
+ */
+const AcknowledgementProgress: React.FC<AcknowledgementProgressProps> = ({
+  progress,
+  failures,
+  onRetryFailed,
+  onDismiss,
+}) => {
+  const failed = Object.entries(failures);
+
+  if (progress) {
+    const percent = Math.round((progress.done / progress.total) * 100);
+
+    return (
+      <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+        <div className="flex items-center justify-between text-sm text-blue-800">
+          <span className="font-medium">Acknowledging orders...</span>
+          <span>{progress.done} of {progress.total}</span>
+        </div>
+        <div className="mt-2 h-2 bg-blue-100 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        {progress.retrying && (
+          <p className="mt-2 text-xs text-blue-700">
+            Walmart did not accept {progress.retrying.purchaseOrderId} yet; trying again
+            (attempt {progress.retrying.attempt} of {ACKNOWLEDGE_MAX_ATTEMPTS})
+          </p>
+        )}
+        {failed.length > 0 && (
+          <p className="mt-1 text-xs text-red-700">{failed.length} failed so far</p>
+        )}
+      </div>
+    );
+  }
+
+  if (failed.length === 0) return null;
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+      <div className="flex items-start">
+        <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0" />
+        <div className="ml-3 flex-1">
+          <h3 className="text-sm font-medium text-red-800">
+            {failed.length} order{failed.length !== 1 ? 's' : ''} could not be acknowledged
+          </h3>
+          <ul className="mt-2 space-y-1 text-sm text-red-700">
+            {failed.map(([purchaseOrderId, error]) => (
+              <li key={purchaseOrderId}>
+                <span className="font-medium">{purchaseOrderId}</span>: {describeWalmartError(error).message}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onRetryFailed}
+            className="mt-3 inline-flex items-center text-sm font-medium text-red-800 underline hover:text-red-900"
+          >
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Retry failed
+          </button>
+        </div>
+        <button onClick={onDismiss} className="ml-3 text-red-400 hover:text-red-600">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AcknowledgementProgress;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { WalmartTokenRecord } from '../../services/walmartTokenService';
+import {
+  CANCELLATION_REASONS,
+  CancellationReason,
+  CancellationResult,
+  LineCancellation,
+  OrderDetail,
+  OrderService,
+} from '../../services/orderService';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import { XCircle } from 'lucide-react';
+
+interface CancelLinesFormProps {
+  account: WalmartTokenRecord;
+  order: OrderDetail;
+  onCancelled: (result: CancellationResult) => void;
+  onClose: () => void;
+}
+
+/**
+ * Pick order lines and how many of their open units to cancel, with Walmart's reason code
+ */
+const CancelLinesForm: React.FC<CancelLinesFormProps> = ({ account, order, onCancelled, onClose }) => {
+  const openLines = order.items
+    .map((line) => ({ line, open: OrderService.getOpenQuantity(line) }))
+    .filter(({ open }) => open > 0);
+
+  // Units to cancel by line number; lines without an entry are left alone
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState<CancellationReason>('SELLER_CANCEL_OUT_OF_STOCK');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const toggleLine = (lineNumber: string, open: number) => {
+    setQuantities((current) => {
+      const next = { ...current };
+      if (lineNumber in next) {
+        delete next[lineNumber];
+      } else {
+        next[lineNumber] = open;
+      }
+      return next;
+    });
+  };
+
+  const focusField = (field: string) => {
+    const target = field === 'reason'
+      ? 'cancel-reason'
+      : `cancel-quantity-${Object.keys(quantities)[0] ?? openLines[0]?.line.lineNumber}`;
+    document.getElementById(target)?.focus();
+  };
+
+  const cancelSelected = async () => {
+    const lines: LineCancellation[] = Object.entries(quantities).map(([lineNumber, quantity]) => ({
+      lineNumber,
+      quantity,
+      reason,
+    }));
+    if (lines.length === 0) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      onCancelled(await OrderService.cancelLines(account, order.purchaseOrderId, lines));
+    } catch (error) {
+      setError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    cancelSelected();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow border border-red-200 rounded-lg p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-medium text-gray-900">Cancel order lines</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Only units that have not shipped can be cancelled. Walmart releases the stock they reserved.
+        </p>
+      </div>
+
+      {error !== null && (
+        <WalmartErrorAlert error={error} onRetry={cancelSelected} onFixField={focusField} className="" />
+      )}
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+        {openLines.map(({ line, open }) => {
+          const selected = line.lineNumber in quantities;
+          return (
+            <div key={line.id} className="flex items-center justify-between px-4 py-3">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  onChange={() => toggleLine(line.lineNumber, open)}
+                  className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                />
+                <span className="ml-3">
+                  <span className="block text-sm font-medium text-gray-900">{line.productName}</span>
+                  <span className="block text-xs text-gray-500">
+                    Line {line.lineNumber} · {line.sku} · {open} of {line.quantity} open
+                  </span>
+                </span>
+              </label>
+              <input
+                id={`cancel-quantity-${line.lineNumber}`}
+                type="number"
+                min={1}
+                max={open}
+                disabled={!selected}
+                value={quantities[line.lineNumber] ?? open}
+                onChange={(e) => setQuantities((current) => ({
+                  ...current,
+                  [line.lineNumber]: Math.min(open, Math.max(1, Math.floor(Number(e.target.value) || 1))),
+                }))}
+                aria-label={`Units of line ${line.lineNumber} to cancel`}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100 focus:outline-none focus:ring-red-500 focus:border-red-500"
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div>
+        <label htmlFor="cancel-reason" className="block text-sm font-medium text-gray-700">Reason</label>
+        <select
+          id="cancel-reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value as CancellationReason)}
+          className="mt-1 block w-full sm:w-80 pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm rounded-md"
+        >
+          {CANCELLATION_REASONS.map((option) => (
+            <option key={option.code} value={option.code}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Keep order
+        </button>
+        <button
+          type="submit"
+          disabled={submitting || Object.keys(quantities).length === 0}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <XCircle className="h-4 w-4 mr-2" />
+          {submitting ? 'Cancelling...' : 'Cancel selected units'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CancelLinesForm;
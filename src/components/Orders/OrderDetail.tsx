@@ -0,0 +1,375 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import {
+  CANCELLATION_REASONS,
+  CancellationResult,
+  OrderDetail as OrderDetailData,
+  OrderService,
+  OrderStatusEvent,
+} from '../../services/orderService';
+import { useOrderNotifications } from '../../hooks/useOrderNotifications';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import CancelLinesForm from './CancelLinesForm';
+import OrderStatusBadge from './OrderStatusBadge';
+import { ArrowLeft, CheckCircle, Clock, FileText, MapPin, ShoppingCart, User, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+const reasonLabel = (code: string) =>
+  CANCELLATION_REASONS.find((reason) => reason.code === code)?.label ?? code;
+
+const OrderDetail: React.FC = () => {
+  const { purchaseOrderId = '' } = useParams();
+  const { activeAccount } = useWalmartAccount();
+  const [order, setOrder] = useState<OrderDetailData | null>(null);
+  const [history, setHistory] = useState<OrderStatusEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [cancellation, setCancellation] = useState<CancellationResult | null>(null);
+
+  const fetchOrder = useCallback(async () => {
+    if (!activeAccount) {
+      setOrder(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const found = await OrderService.getOrder(activeAccount, purchaseOrderId);
+      setOrder(found);
+      setHistory(found ? await OrderService.getStatusHistory(found) : []);
+    } catch (error) {
+      setError(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeAccount, purchaseOrderId]);
+
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  // Walmart notifications about this order have already been stored; show them
+  useOrderNotifications(activeAccount, (notification) => {
+    if (notification.purchaseOrderId === purchaseOrderId) fetchOrder();
+  });
+
+  const handleCancelled = (result: CancellationResult) => {
+    setCancelling(false);
+    setCancellation(result);
+    fetchOrder();
+  };
+
+  if (loading && !order) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const backLink = (
+    <Link to="/orders" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800">
+      <ArrowLeft className="h-4 w-4 mr-1" />
+      Back to orders
+    </Link>
+  );
+
+  if (!order) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        {error !== null && <WalmartErrorAlert error={error} onRetry={fetchOrder} className="" />}
+        {error === null && (
+          <div className="text-center py-12">
+            <ShoppingCart className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">Order not found</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {activeAccount
+                ? `${purchaseOrderId} has not been synced for this account. Sync orders and try again.`
+                : 'Connect a Walmart account to see its orders.'}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const hasOpenUnits = order.items.some((line) => OrderService.getOpenQuantity(line) > 0);
+  const charges = order.items.flatMap((line) => line.charges.map((charge) => ({ line, charge })));
+  const chargeTotal = charges.reduce((sum, { charge }) => sum + charge.amount, 0);
+  const taxTotal = charges.reduce((sum, { charge }) => sum + charge.tax, 0);
+  const money = (amount: number) => `${order.currency === 'USD' ? '$' : `${order.currency} `}${amount.toFixed(2)}`;
+  const address = order.shippingAddress;
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <div className="flex items-center space-x-3">
+            <h1 className="text-2xl font-bold text-gray-900">{order.purchaseOrderId}</h1>
+            <OrderStatusBadge status={order.status} />
+          </div>
+          <p className="mt-1 text-sm text-gray-600">
+            Placed {format(new Date(order.orderDate), 'MMM d, yyyy h:mm a')} · Customer order {order.customerOrderId}
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+          <Link
+            to={`/orders/documents?type=packing-slips&po=${encodeURIComponent(order.purchaseOrderId)}`}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            Packing slip
+          </Link>
+          {hasOpenUnits && !cancelling && (
+            <button
+              onClick={() => setCancelling(true)}
+              className="inline-flex items-center px-4 py-2 border border-red-300 rounded-md shadow-sm text-sm font-medium text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancel lines
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error !== null && <WalmartErrorAlert error={error} onRetry={fetchOrder} className="" />}
+
+      {cancellation && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <div className="flex">
+            <CheckCircle className="h-5 w-5 text-green-400 flex-shrink-0" />
+            <div className="ml-3 text-sm text-green-800">
+              <p className="font-medium">Walmart cancelled the selected units.</p>
+              {cancellation.inventory.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {cancellation.inventory.map((stock) => (
+                    <li key={stock.sku}>
+                      {stock.sku}: reservation released; now {stock.availableQuantity} available
+                      and {stock.reservedQuantity} reserved
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {cancellation.reservationReleaseError && (
+                <p className="mt-1 text-yellow-800">
+                  The stored inventory still holds these units ({cancellation.reservationReleaseError}). The next
+                  inventory sync will correct it.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {cancelling && activeAccount && (
+        <CancelLinesForm
+          account={activeAccount}
+          order={order}
+          onCancelled={handleCancelled}
+          onClose={() => setCancelling(false)}
+        />
+      )}
+
+      {/* Customer and shipping */}
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        <div className="bg-white shadow border border-gray-200 rounded-lg p-6">
+          <h2 className="flex items-center text-lg font-medium text-gray-900">
+            <User className="h-5 w-5 mr-2 text-gray-400" />
+            Customer
+          </h2>
+          <dl className="mt-4 space-y-2 text-sm">
+            <div>
+              <dt className="text-gray-500">Name</dt>
+              <dd className="text-gray-900">{order.customerName}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Email</dt>
+              <dd className="text-gray-900 break-all">{order.customerEmail}</dd>
+            </div>
+            {order.customerPhone && (
+              <div>
+                <dt className="text-gray-500">Phone</dt>
+                <dd className="text-gray-900">{order.customerPhone}</dd>
+              </div>
+            )}
+          </dl>
+        </div>
+        <div className="bg-white shadow border border-gray-200 rounded-lg p-6">
+          <h2 className="flex items-center text-lg font-medium text-gray-900">
+            <MapPin className="h-5 w-5 mr-2 text-gray-400" />
+            Shipping
+          </h2>
+          <address className="mt-4 not-italic text-sm text-gray-900">
+            {address.name}<br />
+            {address.address1}<br />
+            {address.address2 && <>{address.address2}<br /></>}
+            {address.city}, {address.state} {address.postalCode}<br />
+            {address.country}
+          </address>
+          <dl className="mt-4 grid grid-cols-2 gap-2 text-sm">
+            {order.shipMethod && (
+              <div>
+                <dt className="text-gray-500">Method</dt>
+                <dd className="text-gray-900">{order.shipMethod}</dd>
+              </div>
+            )}
+            {order.estimatedShipDate && (
+              <div>
+                <dt className="text-gray-500">Ship by</dt>
+                <dd className="text-gray-900">{format(new Date(order.estimatedShipDate), 'MMM d, yyyy')}</dd>
+              </div>
+            )}
+            {order.estimatedDeliveryDate && (
+              <div>
+                <dt className="text-gray-500">Deliver by</dt>
+                <dd className="text-gray-900">{format(new Date(order.estimatedDeliveryDate), 'MMM d, yyyy')}</dd>
+              </div>
+            )}
+          </dl>
+        </div>
+      </div>
+
+      {/* Lines */}
+      <div className="bg-white shadow border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Items</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Item
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Quantity
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Open
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {order.items.map((line) => (
+                <tr key={line.id}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{line.productName}</div>
+                    <div className="text-sm text-gray-500">Line {line.lineNumber} · {line.sku}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.quantity}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {OrderService.getOpenQuantity(line)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {money(line.totalPrice)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <OrderStatusBadge status={line.status} />
+                    {line.statuses.length > 1 && (
+                      <div className="mt-1 text-xs text-gray-500">
+                        {line.statuses.map((entry) => `${entry.statusQuantity.amount} ${entry.status}`).join(', ')}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Charges and taxes */}
+      <div className="bg-white shadow border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Charges and taxes</h2>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Charge</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tax</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {charges.map(({ line, charge }, index) => (
+              <tr key={`${line.lineNumber}-${index}`}>
+                <td className="px-6 py-3">
+                  <div className="text-gray-900">{charge.name}</div>
+                  <div className="text-xs text-gray-500">Line {line.lineNumber} · {charge.type}</div>
+                </td>
+                <td className="px-6 py-3 text-right text-gray-900">{money(charge.amount)}</td>
+                <td className="px-6 py-3 text-right text-gray-900">
+                  {money(charge.tax)}
+                  {charge.taxName && <div className="text-xs text-gray-500">{charge.taxName}</div>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-gray-50">
+            <tr>
+              <td className="px-6 py-3 font-medium text-gray-900">Total</td>
+              <td className="px-6 py-3 text-right text-gray-900">{money(chargeTotal)}</td>
+              <td className="px-6 py-3 text-right text-gray-900">{money(taxTotal)}</td>
+            </tr>
+            <tr>
+              <td className="px-6 py-3 font-medium text-gray-900" colSpan={2}>Order total with tax</td>
+              <td className="px-6 py-3 text-right font-medium text-gray-900">{money(order.totalAmount)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {/* Status history */}
+      <div className="bg-white shadow border border-gray-200 rounded-lg p-6">
+        <h2 className="flex items-center text-lg font-medium text-gray-900">
+          <Clock className="h-5 w-5 mr-2 text-gray-400" />
+          Status history
+        </h2>
+        {history.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500">
+            No status changes recorded yet. Changes are recorded from the order's first sync onwards.
+          </p>
+        ) : (
+          <ol className="mt-4 border-l border-gray-200 space-y-4">
+            {history.map((event) => {
+              const line = order.items.find((item) => item.lineNumber === event.lineNumber);
+              return (
+                <li key={event.id} className="relative ml-4">
+                  <div className="absolute -left-[1.3rem] top-1.5 h-2.5 w-2.5 rounded-full bg-blue-600"></div>
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">{event.status}</span>
+                    {' '}· {event.quantity} × {line?.productName ?? `line ${event.lineNumber}`}
+                    <span className="text-gray-500"> (line {event.lineNumber})</span>
+                  </p>
+                  {event.cancellationReason && (
+                    <p className="text-xs text-gray-500">Reason: {reasonLabel(event.cancellationReason)}</p>
+                  )}
+                  <time className="text-xs text-gray-500">
+                    {format(new Date(event.occurredAt), 'MMM d, yyyy h:mm a')}
+                  </time>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderDetail;
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { useOrderExport } from '../../hooks/useOrderExport';
+import { OrderListFilters } from '../../services/orderService';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  OrderExportFormat,
+  OrderExportLayout,
+  OrderExportService,
+} from '../../services/orderExportService';
+import { WalmartTokenRecord } from '../../services/walmartTokenService';
+import { Download } from 'lucide-react';
+import { addDays, format, parseISO, startOfMonth } from 'date-fns';
+
+interface OrderExportPanelProps {
+  account: WalmartTokenRecord;
+  // The Orders screen's current filters, without paging
+  filters: Omit<OrderListFilters, 'limit'>;
+  // Orders matching those filters, when known
+  filteredCount: number | null;
+  onClose: () => void;
+}
+
+const radioClass = 'h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300';
+const checkboxClass = 'h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded disabled:opacity-50';
+const dateInputClass = 'mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm disabled:bg-gray-100 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * Choose which orders, layout, format and columns to export. The export itself runs in
+ * the background through the OrderExportProvider.
+ */
+const OrderExportPanel: React.FC<OrderExportPanelProps> = ({ account, filters, filteredCount, onClose }) => {
+  const { job, startExport } = useOrderExport();
+  const [scope, setScope] = useState<'filtered' | 'range'>('filtered');
+  const [from, setFrom] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [layout, setLayout] = useState<OrderExportLayout>('lines');
+  const [exportFormat, setExportFormat] = useState<OrderExportFormat>('csv');
+  const [columns, setColumns] = useState<Set<string>>(new Set(DEFAULT_EXPORT_COLUMNS));
+
+  const available = OrderExportService.getColumns(layout);
+  const chosen = available.filter((column) => columns.has(column.key));
+  const rangeInvalid = scope === 'range' && (!from || !to || from > to);
+  const running = job?.status === 'running';
+
+  const toggleColumn = (key: string) => {
+    setColumns((current) => {
+      const next = new Set(current);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rangeInvalid || chosen.length === 0) return;
+
+    startExport(account, {
+      // Dates are the user's local days; the end date is included
+      filters: scope === 'filtered'
+        ? filters
+        : { orderedFrom: parseISO(from).toISOString(), orderedBefore: addDays(parseISO(to), 1).toISOString() },
+      columns: chosen.map((column) => column.key),
+      layout,
+      format: exportFormat,
+    });
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow border border-gray-200 rounded-lg p-6 space-y-5">
+      <div>
+        <h2 className="text-lg font-medium text-gray-900">Export orders</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Exports synced orders. Large exports run in the background and download when they finish.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700">Orders</legend>
+          <div className="mt-2 space-y-2 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input type="radio" checked={scope === 'filtered'} onChange={() => setScope('filtered')} className={radioClass} />
+              <span className="ml-2">
+                Current filters{filteredCount !== null && ` (${filteredCount} order${filteredCount !== 1 ? 's' : ''})`}
+              </span>
+            </label>
+            <label className="flex items-center">
+              <input type="radio" checked={scope === 'range'} onChange={() => setScope('range')} className={radioClass} />
+              <span className="ml-2">Order date range</span>
+            </label>
+            <div className="ml-6 flex items-end space-x-2">
+              <label className="text-xs text-gray-500">
+                From
+                <input
+                  type="date"
+                  value={from}
+                  disabled={scope !== 'range'}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className={dateInputClass}
+                />
+              </label>
+              <label className="text-xs text-gray-500">
+                To
+                <input
+                  type="date"
+                  value={to}
+                  disabled={scope !== 'range'}
+                  onChange={(e) => setTo(e.target.value)}
+                  className={dateInputClass}
+                />
+              </label>
+            </div>
+            {rangeInvalid && <p className="ml-6 text-xs text-red-600">The start date must be on or before the end date.</p>}
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700">Layout</legend>
+          <div className="mt-2 space-y-2 text-sm text-gray-700">
+            <label className="flex items-start">
+              <input type="radio" checked={layout === 'lines'} onChange={() => setLayout('lines')} className={`${radioClass} mt-0.5`} />
+              <span className="ml-2">
+                One row per order line
+                <span className="block text-xs text-gray-500">Order details repeat on each line, e.g. for a 3PL</span>
+              </span>
+            </label>
+            <label className="flex items-start">
+              <input type="radio" checked={layout === 'orders'} onChange={() => setLayout('orders')} className={`${radioClass} mt-0.5`} />
+              <span className="ml-2">
+                One row per order
+                <span className="block text-xs text-gray-500">Order totals only, e.g. for accounting</span>
+              </span>
+            </label>
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700">Format</legend>
+          <div className="mt-2 space-y-2 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input type="radio" checked={exportFormat === 'csv'} onChange={() => setExportFormat('csv')} className={radioClass} />
+              <span className="ml-2">CSV</span>
+            </label>
+            <label className="flex items-center">
+              <input type="radio" checked={exportFormat === 'xlsx'} onChange={() => setExportFormat('xlsx')} className={radioClass} />
+              <span className="ml-2">Excel (.xlsx)</span>
+            </label>
+          </div>
+        </fieldset>
+      </div>
+
+      <fieldset>
+        <div className="flex items-center justify-between">
+          <legend className="text-sm font-medium text-gray-700">Columns</legend>
+          <div className="space-x-3 text-xs">
+            <button
+              type="button"
+              onClick={() => setColumns(new Set([...columns, ...available.map((column) => column.key)]))}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              All
+            </button>
+            <button
+              type="button"
+              onClick={() => setColumns(new Set(DEFAULT_EXPORT_COLUMNS))}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Defaults
+            </button>
+          </div>
+        </div>
+        <div className="mt-2 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 text-sm text-gray-700">
+          {available.map((column) => (
+            <label key={column.key} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={columns.has(column.key)}
+                onChange={() => toggleColumn(column.key)}
+                className={checkboxClass}
+              />
+              <span className="ml-2">{column.label}</span>
+            </label>
+          ))}
+        </div>
+        {chosen.length === 0 && <p className="mt-2 text-xs text-red-600">Choose at least one column.</p>}
+      </fieldset>
+
+      <div className="flex items-center justify-end space-x-3">
+        {running && <span className="text-sm text-gray-500">Another export is still running.</span>}
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Close
+        </button>
+        <button
+          type="submit"
+          disabled={running || rangeInvalid || chosen.length === 0}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default OrderExportPanel;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { useOrderExport } from '../../hooks/useOrderExport';
+import { OrderExportService } from '../../services/orderExportService';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import { CheckCircle, Download, X } from 'lucide-react';
+
+/**
+ * Floating progress of the running order export, shown on every screen until dismissed
+ */
+const OrderExportStatus: React.FC = () => {
+  const { job, startExport, cancelExport, dismissExport } = useOrderExport();
+  if (!job) return null;
+
+  const { progress } = job;
+  const formatLabel = job.options.format === 'xlsx' ? 'Excel' : 'CSV';
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 print:hidden">
+      {job.status === 'running' && (
+        <div className="bg-white border border-blue-200 shadow-lg rounded-md p-4">
+          <div className="flex items-center justify-between text-sm text-blue-800">
+            <span className="font-medium">Exporting orders to {formatLabel}...</span>
+            <button onClick={cancelExport} className="text-xs text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+          <div className="mt-2 h-2 bg-blue-100 rounded-full overflow-hidden">
+            {progress.totalOrders ? (
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${Math.round((progress.orders / progress.totalOrders) * 100)}%` }}
+              />
+            ) : (
+              <div className="h-full w-1/3 bg-blue-600 animate-pulse" />
+            )}
+          </div>
+          <p className="mt-2 text-xs text-gray-600">
+            {progress.orders}{progress.totalOrders !== null && ` of ${progress.totalOrders}`} orders · {progress.rows} rows.
+            You can keep working while this runs.
+          </p>
+        </div>
+      )}
+
+      {job.status === 'done' && job.result && (
+        <div className="bg-white border border-green-200 shadow-lg rounded-md p-4">
+          <div className="flex items-start">
+            <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />
+            <div className="ml-3 flex-1 text-sm">
+              <p className="font-medium text-gray-900">Export ready</p>
+              <p className="mt-1 text-gray-600">
+                {job.result.orders} order{job.result.orders !== 1 ? 's' : ''} in {job.result.rows} row{job.result.rows !== 1 ? 's' : ''}
+              </p>
+              <button
+                onClick={() => OrderExportService.download(job.result!)}
+                className="mt-2 inline-flex items-center text-blue-600 hover:text-blue-800 font-medium"
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Download {job.result.fileName}
+              </button>
+            </div>
+            <button onClick={dismissExport} className="text-gray-400 hover:text-gray-600" aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {job.status === 'failed' && (
+        <div className="bg-white shadow-lg rounded-md">
+          <WalmartErrorAlert
+            error={job.error}
+            onRetry={() => startExport(job.account, job.options)}
+            onDismiss={dismissExport}
+            className=""
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderExportStatus;
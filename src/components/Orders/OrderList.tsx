@@ -1,225 +1,204 @@
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import {
+  OrderListFilters,
+  OrderService,
+  OrderSyncState,
+  SHIP_BY_RISK_HOURS,
+  ShipByFilter,
+} from '../../services/orderService';
+import { OpenPages, useWalmartPages } from '../../hooks/useWalmartPages';
+import { useOrderAcknowledgement } from '../../hooks/useOrderAcknowledgement';
+import { useNow } from '../../hooks/useNow';
+import { useOrderNotifications } from '../../hooks/useOrderNotifications';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import Pagination from '../Layout/Pagination';
+import AcknowledgementProgress from './AcknowledgementProgress';
+import OrderExportPanel from './OrderExportPanel';
+import OrderStatusBadge from './OrderStatusBadge';
+import ShipByCountdown from './ShipByCountdown';
 import { Order } from '../../types';
 import { 
   ShoppingCart, 
   Search, 
   Filter, 
   Eye,
-  Package,
-  Truck,
   CheckCircle,
-  XCircle,
-  Clock,
-  ChevronLeft,
-  ChevronRight
+  RefreshCw,
+  FileText,
+  ClipboardList,
+  Download
 } from 'lucide-react';
-import { format } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
+
+const SHIP_BY_FILTERS: ShipByFilter[] = ['late', 'at_risk', 'overdue'];
 
 const OrderList: React.FC = () => {
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { activeAccount } = useWalmartAccount();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [searchTerm, setSearchTerm] = useState('');
+  const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [currentPage, setCurrentPage] = useState(1);
+  // The late queue is linked to from the dashboard as /orders?shipBy=late
+  const shipByParam = searchParams.get('shipBy') as ShipByFilter | null;
+  const shipByFilter = shipByParam && SHIP_BY_FILTERS.includes(shipByParam) ? shipByParam : undefined;
   const [itemsPerPage] = useState(10);
+  const [syncState, setSyncState] = useState<OrderSyncState | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<unknown>(null);
+  const [settingsError, setSettingsError] = useState<unknown>(null);
+  const [exporting, setExporting] = useState(false);
+  // Selected orders by purchase order ID; kept across pages for printing and acknowledging in batches
+  const [selected, setSelected] = useState<Map<string, Order>>(new Map());
+  // Order notifications received while a later page was open
+  const [pendingUpdates, setPendingUpdates] = useState(0);
 
-  useEffect(() => {
-    fetchOrders();
-  }, []);
-
-  const fetchOrders = async () => {
-    setLoading(true);
-    
-    // Mock data
-    const mockOrders: Order[] = [
-      {
-        id: '1',
-        purchaseOrderId: 'PO-2024-001',
-        customerOrderId: 'CO-2024-001',
-        customerName: 'John Smith',
-        customerEmail: 'john.smith@email.com',
-        orderDate: '2024-01-15T10:30:00Z',
-        status: 'acknowledged',
-        totalAmount: 299.99,
-        shippingAddress: {
-          name: 'John Smith',
-          address1: '123 Main St',
-          city: 'New York',
-          state: 'NY',
-          postalCode: '10001',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '1',
-            sku: 'SKU-001',
-            productName: 'Wireless Headphones',
-            quantity: 1,
-            unitPrice: 299.99,
-            totalPrice: 299.99
-          }
-        ]
-      },
-      {
-        id: '2',
-        purchaseOrderId: 'PO-2024-002',
-        customerOrderId: 'CO-2024-002',
-        customerName: 'Sarah Johnson',
-        customerEmail: 'sarah.j@email.com',
-        orderDate: '2024-01-14T15:45:00Z',
-        status: 'shipped',
-        totalAmount: 149.98,
-        shippingAddress: {
-          name: 'Sarah Johnson',
-          address1: '456 Oak Ave',
-          city: 'Los Angeles',
-          state: 'CA',
-          postalCode: '90210',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '2',
-            sku: 'SKU-002',
-            productName: 'Phone Case',
-            quantity: 2,
-            unitPrice: 74.99,
-            totalPrice: 149.98
-          }
-        ]
-      },
-      {
-        id: '3',
-        purchaseOrderId: 'PO-2024-003',
-        customerOrderId: 'CO-2024-003',
-        customerName: 'Mike Davis',
-        customerEmail: 'mike.davis@email.com',
-        orderDate: '2024-01-13T09:15:00Z',
-        status: 'delivered',
-        totalAmount: 89.99,
-        shippingAddress: {
-          name: 'Mike Davis',
-          address1: '789 Pine St',
-          city: 'Chicago',
-          state: 'IL',
-          postalCode: '60601',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '3',
-            sku: 'SKU-003',
-            productName: 'Bluetooth Speaker',
-            quantity: 1,
-            unitPrice: 89.99,
-            totalPrice: 89.99
-          }
-        ]
-      },
-      {
-        id: '4',
-        purchaseOrderId: 'PO-2024-004',
-        customerOrderId: 'CO-2024-004',
-        customerName: 'Emily Wilson',
-        customerEmail: 'emily.w@email.com',
-        orderDate: '2024-01-12T14:20:00Z',
-        status: 'created',
-        totalAmount: 199.99,
-        shippingAddress: {
-          name: 'Emily Wilson',
-          address1: '321 Elm St',
-          city: 'Houston',
-          state: 'TX',
-          postalCode: '77001',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '4',
-            sku: 'SKU-004',
-            productName: 'Smart Watch',
-            quantity: 1,
-            unitPrice: 199.99,
-            totalPrice: 199.99
-          }
-        ]
-      },
-      {
-        id: '5',
-        purchaseOrderId: 'PO-2024-005',
-        customerOrderId: 'CO-2024-005',
-        customerName: 'David Brown',
-        customerEmail: 'david.brown@email.com',
-        orderDate: '2024-01-11T11:30:00Z',
-        status: 'cancelled',
-        totalAmount: 59.99,
-        shippingAddress: {
-          name: 'David Brown',
-          address1: '654 Maple Ave',
-          city: 'Phoenix',
-          state: 'AZ',
-          postalCode: '85001',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '5',
-            sku: 'SKU-005',
-            productName: 'USB Cable',
-            quantity: 1,
-            unitPrice: 59.99,
-            totalPrice: 59.99
-          }
-        ]
-      }
-    ];
-
-    setTimeout(() => {
-      setOrders(mockOrders);
-      setLoading(false);
-    }, 500);
+  // Orders are listed from Supabase; Sync Orders (and the schedule) pull changes from Walmart
+  const filters: OrderListFilters = {
+    status: statusFilter === 'all' ? undefined : statusFilter as Order['status'],
+    search: search || undefined,
+    shipBy: shipByFilter,
+    limit: itemsPerPage,
   };
 
-  const filteredOrders = orders.filter(order => {
-    const matchesSearch = order.purchaseOrderId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         order.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         order.customerEmail.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
-    return matchesSearch && matchesStatus;
+  const openOrders: OpenPages<Order> | null = activeAccount
+    ? (cursor) => OrderService.pages(activeAccount, filters, cursor)
+    : null;
+
+  const {
+    items: orders,
+    pageIndex,
+    totalCount,
+    hasPrevious,
+    hasNext,
+    loading,
+    initialLoading,
+    error,
+    next,
+    previous,
+    retry,
+    reload,
+    refresh,
+  } = useWalmartPages(openOrders, JSON.stringify([activeAccount?.id, filters]));
+
+  const {
+    acknowledge,
+    retryFailed,
+    dismissFailures,
+    progress,
+    statuses,
+    failures,
+  } = useOrderAcknowledgement(activeAccount);
+
+  const now = useNow();
+
+  // The receiver stores Walmart's order notifications before they arrive here. The first
+  // page is updated in place; on later pages that would move the user, so it waits.
+  useOrderNotifications(activeAccount, () => {
+    if (pageIndex === 0) {
+      refresh();
+    } else {
+      setPendingUpdates((count) => count + 1);
+    }
   });
 
-  const totalPages = Math.ceil(filteredOrders.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedOrders = filteredOrders.slice(startIndex, startIndex + itemsPerPage);
-
-  const getStatusBadge = (status: string) => {
-    const statusStyles = {
-      created: 'bg-blue-100 text-blue-800',
-      acknowledged: 'bg-yellow-100 text-yellow-800',
-      shipped: 'bg-purple-100 text-purple-800',
-      delivered: 'bg-green-100 text-green-800',
-      cancelled: 'bg-red-100 text-red-800',
-    };
-
-    const statusIcons = {
-      created: Clock,
-      acknowledged: CheckCircle,
-      shipped: Truck,
-      delivered: Package,
-      cancelled: XCircle,
-    };
-
-    const Icon = statusIcons[status as keyof typeof statusIcons];
+  const showLatest = () => {
+    setPendingUpdates(0);
+    refresh();
+  };
 
-    return (
-      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status as keyof typeof statusStyles]}`}>
-        <Icon className="h-3 w-3 mr-1" />
-        {status.charAt(0).toUpperCase() + status.slice(1)}
-      </span>
-    );
+  // Walmart's answer to an acknowledgement is shown until the list is reloaded
+  const statusOf = (order: Order) => statuses[order.purchaseOrderId] ?? order.status;
+  const allSelected = orders.length > 0 && orders.every((order) => selected.has(order.purchaseOrderId));
+  const selectedIds = [...selected.keys()];
+  const acknowledgeableIds = [...selected.values()]
+    .filter((order) => statusOf(order) === 'created')
+    .map((order) => order.purchaseOrderId);
+  const documentsLink = (type: 'packing-slips' | 'pick-list') =>
+    `/orders/documents?type=${type}&po=${selectedIds.map(encodeURIComponent).join(',')}`;
+
+  const toggleSelected = (order: Order) => {
+    setSelected((current) => {
+      const next = new Map(current);
+      if (!next.delete(order.purchaseOrderId)) next.set(order.purchaseOrderId, order);
+      return next;
+    });
   };
 
-  if (loading) {
+  const toggleAllSelected = () => {
+    setSelected((current) => {
+      const next = new Map(current);
+      orders.forEach((order) => (allSelected ? next.delete(order.purchaseOrderId) : next.set(order.purchaseOrderId, order)));
+      return next;
+    });
+  };
+
+  // Only created orders can be acknowledged; the rest stay selected for printing
+  const acknowledgeSelected = () => {
+    setSelected((current) => {
+      const next = new Map(current);
+      acknowledgeableIds.forEach((purchaseOrderId) => next.delete(purchaseOrderId));
+      return next;
+    });
+    acknowledge(acknowledgeableIds);
+  };
+
+  const fetchSyncState = useCallback(async () => {
+    if (!activeAccount) {
+      setSyncState(null);
+      return;
+    }
+    try {
+      setSyncState(await OrderService.getSyncState(activeAccount));
+    } catch (error) {
+      console.error('Error loading order sync state:', error);
+    }
+  }, [activeAccount]);
+
+  useEffect(() => {
+    fetchSyncState();
+  }, [fetchSyncState]);
+
+  const syncOrders = async () => {
+    if (!activeAccount) return;
+
+    setSyncing(true);
+    setSyncError(null);
+    try {
+      await OrderService.sync(activeAccount);
+      reload();
+    } catch (error) {
+      setSyncError(error);
+    } finally {
+      setSyncing(false);
+      fetchSyncState();
+    }
+  };
+
+  const toggleAutoAcknowledge = async () => {
+    if (!activeAccount) return;
+
+    setSettingsError(null);
+    try {
+      await OrderService.setAutoAcknowledge(activeAccount, !syncState?.auto_acknowledge);
+      await fetchSyncState();
+    } catch (error) {
+      setSettingsError(error);
+    }
+  };
+
+  const searchOrders = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchTerm.trim());
+  };
+
+  const changeShipByFilter = (value: string) => {
+    setSearchParams(value === 'all' ? {} : { shipBy: value });
+  };
+
+  if (initialLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -235,27 +214,105 @@ const OrderList: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Orders</h1>
           <p className="mt-1 text-sm text-gray-600">
             Manage your customer orders
+            {activeAccount && ` for ${WalmartTokenService.getAccountLabel(activeAccount)}`}
           </p>
+          {syncState?.last_completed_at && (
+            <p className="mt-1 text-xs text-gray-500">
+              Last synced {formatDistanceToNow(new Date(syncState.last_completed_at), { addSuffix: true })}
+              {' '}({syncState.last_synced_count} order{syncState.last_synced_count !== 1 ? 's' : ''} updated)
+            </p>
+          )}
+          {activeAccount && (
+            <label className="mt-2 inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={syncState?.auto_acknowledge ?? false}
+                onChange={toggleAutoAcknowledge}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2">Auto-acknowledge new orders on every sync</span>
+            </label>
+          )}
         </div>
+        {activeAccount && (
+          <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+            <button
+              onClick={() => setExporting(!exporting)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </button>
+            <button
+              onClick={syncOrders}
+              disabled={syncing}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+              {syncing ? 'Syncing...' : 'Sync Orders'}
+            </button>
+          </div>
+        )}
       </div>
 
+      {activeAccount && exporting && (
+        <OrderExportPanel
+          account={activeAccount}
+          filters={{ status: filters.status, search: filters.search, shipBy: filters.shipBy }}
+          filteredCount={totalCount}
+          onClose={() => setExporting(false)}
+        />
+      )}
+
+      {syncError !== null && (
+        <WalmartErrorAlert error={syncError} onRetry={syncOrders} onDismiss={() => setSyncError(null)} className="" />
+      )}
+
+      {settingsError !== null && (
+        <WalmartErrorAlert error={settingsError} onRetry={toggleAutoAcknowledge} onDismiss={() => setSettingsError(null)} className="" />
+      )}
+
+      <AcknowledgementProgress
+        progress={progress}
+        failures={failures}
+        onRetryFailed={retryFailed}
+        onDismiss={dismissFailures}
+      />
+
+      {pendingUpdates > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-4 flex items-center justify-between text-sm text-blue-800">
+          <span>
+            Walmart sent {pendingUpdates} order update{pendingUpdates !== 1 ? 's' : ''} since this page was loaded.
+          </span>
+          <button onClick={showLatest} className="font-medium text-blue-700 hover:text-blue-900">
+            Show latest orders
+          </button>
+        </div>
+      )}
+
+      {syncError === null && syncState?.last_error && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+          The last sync from Walmart failed: {syncState.last_error}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-white p-4 rounded-lg shadow border border-gray-200">
         <div className="flex flex-col sm:flex-row gap-4">
-          <div className="flex-1">
+          <form onSubmit={searchOrders} className="flex-1">
             <div className="relative">
               <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                 <Search className="h-5 w-5 text-gray-400" />
               </div>
               <input
                 type="text"
-                placeholder="Search orders..."
+                placeholder="Search by order ID, customer name or email..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               />
             </div>
-          </div>
+          </form>
           <div className="sm:w-48">
             <select
               value={statusFilter}
@@ -270,15 +327,77 @@ const OrderList: React.FC = () => {
               <option value="cancelled">Cancelled</option>
             </select>
           </div>
+          <div className="sm:w-56">
+            <select
+              value={shipByFilter ?? 'all'}
+              onChange={(e) => changeShipByFilter(e.target.value)}
+              aria-label="Ship-by deadline"
+              className="block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="all">Any ship-by time</option>
+              <option value="late">At risk or overdue</option>
+              <option value="at_risk">At risk (due within {SHIP_BY_RISK_HOURS}h)</option>
+              <option value="overdue">Overdue</option>
+            </select>
+          </div>
         </div>
       </div>
 
+      {error !== null && <WalmartErrorAlert error={error} onRetry={retry} className="" />}
+
+      {selected.size > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md px-4 py-3 flex items-center justify-between">
+          <span className="text-sm text-blue-800">
+            {selected.size} order{selected.size !== 1 ? 's' : ''} selected
+          </span>
+          <div className="flex items-center space-x-3">
+            <button onClick={() => setSelected(new Map())} className="text-sm text-blue-700 hover:text-blue-900">
+              Clear
+            </button>
+            <Link
+              to={documentsLink('packing-slips')}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <FileText className="h-4 w-4 mr-1" />
+              Packing slips
+            </Link>
+            <Link
+              to={documentsLink('pick-list')}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <ClipboardList className="h-4 w-4 mr-1" />
+              Pick list
+            </Link>
+            <button
+              onClick={acknowledgeSelected}
+              disabled={progress !== null || acknowledgeableIds.length === 0}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CheckCircle className="h-4 w-4 mr-1" />
+              {acknowledgeableIds.length > 0 && acknowledgeableIds.length < selected.size
+                ? `Acknowledge ${acknowledgeableIds.length} created`
+                : 'Acknowledge'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Orders Table */}
       <div className="bg-white shadow border border-gray-200 rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all orders on this page"
+                    checked={allSelected}
+                    disabled={orders.length === 0}
+                    onChange={toggleAllSelected}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded disabled:opacity-50"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Order
                 </th>
@@ -288,6 +407,9 @@ const OrderList: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Date
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ship By
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Total
                 </th>
@@ -300,8 +422,17 @@ const OrderList: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {paginatedOrders.map((order) => (
+              {orders.map((order) => (
                 <tr key={order.id} className="hover:bg-gray-50">
+                  <td className="pl-6 py-4 w-4">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${order.purchaseOrderId}`}
+                      checked={selected.has(order.purchaseOrderId)}
+                      onChange={() => toggleSelected(order)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
                       <div className="text-sm font-medium text-gray-900">
@@ -325,16 +456,35 @@ const OrderList: React.FC = () => {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {format(new Date(order.orderDate), 'MMM d, yyyy')}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <ShipByCountdown order={{ ...order, status: statusOf(order) }} now={now} />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     ${order.totalAmount.toFixed(2)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    {getStatusBadge(order.status)}
+                    <OrderStatusBadge status={statusOf(order)} />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <button className="text-blue-600 hover:text-blue-900">
-                      <Eye className="h-4 w-4" />
-                    </button>
+                    <div className="flex items-center justify-end space-x-3">
+                      {statusOf(order) === 'created' && (
+                        <button
+                          onClick={() => acknowledge([order.purchaseOrderId])}
+                          disabled={progress !== null}
+                          className="inline-flex items-center text-green-600 hover:text-green-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Acknowledge
+                        </button>
+                      )}
+                      <Link
+                        to={`/orders/${encodeURIComponent(order.purchaseOrderId)}`}
+                        className="text-blue-600 hover:text-blue-900"
+                        aria-label={`View ${order.purchaseOrderId}`}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Link>
+                    </div>
                   </td>
                 </tr>
               ))}
@@ -342,77 +492,29 @@ const OrderList: React.FC = () => {
           </table>
         </div>
 
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
-            <div className="flex-1 flex justify-between sm:hidden">
-              <button
-                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                disabled={currentPage === 1}
-                className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Previous
-              </button>
-              <button
-                onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                disabled={currentPage === totalPages}
-                className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Next
-              </button>
-            </div>
-            <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-              <div>
-                <p className="text-sm text-gray-700">
-                  Showing <span className="font-medium">{startIndex + 1}</span> to{' '}
-                  <span className="font-medium">
-                    {Math.min(startIndex + itemsPerPage, filteredOrders.length)}
-                  </span>{' '}
-                  of <span className="font-medium">{filteredOrders.length}</span> results
-                </p>
-              </div>
-              <div>
-                <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
-                  <button
-                    onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                    disabled={currentPage === 1}
-                    className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <ChevronLeft className="h-5 w-5" />
-                  </button>
-                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                    <button
-                      key={page}
-                      onClick={() => setCurrentPage(page)}
-                      className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
-                        page === currentPage
-                          ? 'z-10 bg-blue-50 border-blue-500 text-blue-600'
-                          : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
-                      }`}
-                    >
-                      {page}
-                    </button>
-                  ))}
-                  <button
-                    onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                    disabled={currentPage === totalPages}
-                    className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <ChevronRight className="h-5 w-5" />
-                  </button>
-                </nav>
-              </div>
-            </div>
-          </div>
-        )}
+        <Pagination
+          pageIndex={pageIndex}
+          pageSize={itemsPerPage}
+          totalCount={totalCount}
+          noun="orders"
+          hasPrevious={hasPrevious}
+          hasNext={hasNext}
+          loading={loading}
+          onPrevious={previous}
+          onNext={next}
+        />
       </div>
 
-      {filteredOrders.length === 0 && (
+      {!loading && error === null && orders.length === 0 && (
         <div className="text-center py-12">
           <ShoppingCart className="mx-auto h-12 w-12 text-gray-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">No orders</h3>
           <p className="mt-1 text-sm text-gray-500">
-            Orders will appear here when customers place them.
+            {activeAccount
+              ? shipByFilter
+                ? 'No unshipped orders are near or past their ship-by time.'
+                : 'Orders will appear here after the next sync from Walmart.'
+              : 'Connect a Walmart account to see its orders.'}
           </p>
         </div>
       )}
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Order } from '../../types';
+import { CheckCircle, Clock, Package, Truck, XCircle } from 'lucide-react';
+
+const statusStyles = {
+  created: 'bg-blue-100 text-blue-800',
+  acknowledged: 'bg-yellow-100 text-yellow-800',
+  shipped: 'bg-purple-100 text-purple-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const statusIcons = {
+  created: Clock,
+  acknowledged: CheckCircle,
+  shipped: Truck,
+  delivered: Package,
+  cancelled: XCircle,
+};
+
+const OrderStatusBadge: React.FC<{ status: Order['status'] }> = ({ status }) => {
+  const Icon = statusIcons[status];
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+      <Icon className="h-3 w-3 mr-1" />
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </span>
+  );
+};
+
+export default OrderStatusBadge;
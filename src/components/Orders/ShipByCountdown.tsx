@@ -0,0 +1,48 @@
+import React from 'react';
+import { OrderService } from '../../services/orderService';
+import { Order } from '../../types';
+import { AlertTriangle, Clock } from 'lucide-react';
+import { format, formatDistanceStrict } from 'date-fns';
+
+const stateStyles = {
+  on_track: 'text-gray-700',
+  at_risk: 'text-yellow-700',
+  overdue: 'text-red-700',
+};
+
+interface ShipByCountdownProps {
+  order: Order;
+  now: number;
+}
+
+/**
+ * Time left until Walmart's ship-by time, or how late the order is. Orders with nothing
+ * left to ship just show the date.
+ */
+const ShipByCountdown: React.FC<ShipByCountdownProps> = ({ order, now }) => {
+  if (!order.estimatedShipDate) {
+    return <span className="text-sm text-gray-400">—</span>;
+  }
+
+  const shipBy = new Date(order.estimatedShipDate);
+  const state = OrderService.getShipByState(order, now);
+
+  if (!state) {
+    return <span className="text-sm text-gray-500">{format(shipBy, 'MMM d, yyyy')}</span>;
+  }
+
+  const Icon = state === 'on_track' ? Clock : AlertTriangle;
+  const distance = formatDistanceStrict(shipBy, now);
+
+  return (
+    <div>
+      <div className={`flex items-center text-sm font-medium ${stateStyles[state]}`}>
+        <Icon className="h-4 w-4 mr-1" />
+        {state === 'overdue' ? `${distance} late` : `${distance} left`}
+      </div>
+      <div className="text-xs text-gray-500">Ship by {format(shipBy, 'MMM d, h:mm a')}</div>
+    </div>
+  );
+};
+
+export default ShipByCountdown;
@@ -1,7 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { supabase } from '../../lib/supabase';
-import { useAuth } from '../../contexts/AuthContext';
-import { Product } from '../../types';
+import React, { useState } from 'react';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import { mapPages } from '../../services/walmartApiClient';
+import { WalmartItemFilters, WalmartItemService } from '../../services/walmartItemService';
+import { OpenPages, useWalmartPages } from '../../hooks/useWalmartPages';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import Pagination from '../Layout/Pagination';
+import { CatalogItem } from '../../types';
 import { 
   Package, 
   Plus, 
@@ -10,70 +15,62 @@ import {
   Edit, 
   Trash2,
   Eye,
-  MoreVertical,
-  ChevronLeft,
-  ChevronRight
+  MoreVertical
 } from 'lucide-react';
-import { format } from 'date-fns';
 
 const ProductList: React.FC = () => {
-  const { user } = useAuth();
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { activeAccount } = useWalmartAccount();
   const [searchTerm, setSearchTerm] = useState('');
+  const [sku, setSku] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(10);
 
-  useEffect(() => {
-    fetchProducts();
-  }, [user]);
-
-  const fetchProducts = async () => {
-    if (!user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*')
-        .eq('seller_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setProducts(data || []);
-    } catch (error) {
-      console.error('Error fetching products:', error);
-    } finally {
-      setLoading(false);
-    }
+  // Retired items keep their last published status, so retirement is a lifecycle filter
+  const filters: WalmartItemFilters = {
+    sku: sku || undefined,
+    publishedStatus: statusFilter === 'all' || statusFilter === 'RETIRED' ? undefined : statusFilter,
+    lifecycleStatus: statusFilter === 'RETIRED' ? 'RETIRED' : undefined,
+    limit: itemsPerPage,
   };
 
-  const filteredProducts = products.filter(product => {
-    const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         product.sku.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || product.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
-
-  const totalPages = Math.ceil(filteredProducts.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedProducts = filteredProducts.slice(startIndex, startIndex + itemsPerPage);
+  const openItems: OpenPages<CatalogItem> | null = activeAccount
+    ? (cursor) => mapPages(WalmartItemService.pages(activeAccount, filters, cursor), (item) => WalmartItemService.toCatalogItem(item))
+    : null;
+
+  const {
+    items: products,
+    pageIndex,
+    totalCount,
+    hasPrevious,
+    hasNext,
+    loading,
+    initialLoading,
+    error,
+    next,
+    previous,
+    retry,
+  } = useWalmartPages(openItems, JSON.stringify([activeAccount?.id, filters]));
+
+  const searchProducts = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSku(searchTerm.trim());
+  };
 
   const getStatusBadge = (status: string) => {
     const statusStyles = {
-      active: 'bg-green-100 text-green-800',
-      inactive: 'bg-red-100 text-red-800',
-      draft: 'bg-yellow-100 text-yellow-800',
+      PUBLISHED: 'bg-green-100 text-green-800',
+      UNPUBLISHED: 'bg-red-100 text-red-800',
+      RETIRED: 'bg-gray-100 text-gray-800',
     };
 
     return (
-      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status as keyof typeof statusStyles]}`}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status as keyof typeof statusStyles] ?? 'bg-yellow-100 text-yellow-800'}`}>
+        {status.charAt(0) + status.slice(1).toLowerCase().replace(/_/g, ' ')}
       </span>
     );
   };
 
-  if (loading) {
+  if (initialLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -89,6 +86,7 @@ const ProductList: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Products</h1>
           <p className="mt-1 text-sm text-gray-600">
             Manage your product inventory
+            {activeAccount && ` for ${WalmartTokenService.getAccountLabel(activeAccount)}`}
           </p>
         </div>
         <button className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
@@ -100,20 +98,20 @@ const ProductList: React.FC = () => {
       {/* Filters */}
       <div className="bg-white p-4 rounded-lg shadow border border-gray-200">
         <div className="flex flex-col sm:flex-row gap-4">
-          <div className="flex-1">
+          <form onSubmit={searchProducts} className="flex-1">
             <div className="relative">
               <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                 <Search className="h-5 w-5 text-gray-400" />
               </div>
               <input
                 type="text"
-                placeholder="Search products..."
+                placeholder="Search by SKU..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               />
             </div>
-          </div>
+          </form>
           <div className="sm:w-48">
             <select
               value={statusFilter}
@@ -121,14 +119,16 @@ const ProductList: React.FC = () => {
               className="block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
             >
               <option value="all">All Status</option>
-              <option value="active">Active</option>
-              <option value="inactive">Inactive</option>
-              <option value="draft">Draft</option>
+              <option value="PUBLISHED">Published</option>
+              <option value="UNPUBLISHED">Unpublished</option>
+              <option value="RETIRED">Retired</option>
             </select>
           </div>
         </div>
       </div>
 
+      {error !== null && <WalmartErrorAlert error={error} onRetry={retry} className="" />}
+
       {/* Products Table */}
       <div className="bg-white shadow border border-gray-200 rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
@@ -145,13 +145,13 @@ const ProductList: React.FC = () => {
                   Price
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Quantity
+                  Lifecycle
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Updated
+                  WPID
                 </th>
                 <th className="relative px-6 py-3">
                   <span className="sr-only">Actions</span>
@@ -159,8 +159,8 @@ const ProductList: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {paginatedProducts.map((product) => (
-                <tr key={product.id} className="hover:bg-gray-50">
+              {products.map((product) => (
+                <tr key={product.sku} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       <div className="flex-shrink-0 h-10 w-10">
@@ -173,7 +173,7 @@ const ProductList: React.FC = () => {
                           {product.name}
                         </div>
                         <div className="text-sm text-gray-500">
-                          {product.category}
+                          {product.productType}
                         </div>
                       </div>
                     </div>
@@ -184,14 +184,14 @@ const ProductList: React.FC = () => {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     ${product.price.toFixed(2)}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {product.quantity}
-                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    {getStatusBadge(product.status)}
+                    {getStatusBadge(product.publishedStatus)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {product.lifecycleStatus.charAt(0) + product.lifecycleStatus.slice(1).toLowerCase()}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {format(new Date(product.updated_at), 'MMM d, yyyy')}
+                    {product.wpid}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex items-center space-x-2">
@@ -212,77 +212,27 @@ const ProductList: React.FC = () => {
           </table>
         </div>
 
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
-            <div className="flex-1 flex justify-between sm:hidden">
-              <button
-                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                disabled={currentPage === 1}
-                className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Previous
-              </button>
-              <button
-                onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                disabled={currentPage === totalPages}
-                className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Next
-              </button>
-            </div>
-            <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-              <div>
-                <p className="text-sm text-gray-700">
-                  Showing <span className="font-medium">{startIndex + 1}</span> to{' '}
-                  <span className="font-medium">
-                    {Math.min(startIndex + itemsPerPage, filteredProducts.length)}
-                  </span>{' '}
-                  of <span className="font-medium">{filteredProducts.length}</span> results
-                </p>
-              </div>
-              <div>
-                <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
-                  <button
-                    onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                    disabled={currentPage === 1}
-                    className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <ChevronLeft className="h-5 w-5" />
-                  </button>
-                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                    <button
-                      key={page}
-                      onClick={() => setCurrentPage(page)}
-                      className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
-                        page === currentPage
-                          ? 'z-10 bg-blue-50 border-blue-500 text-blue-600'
-                          : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
-                      }`}
-                    >
-                      {page}
-                    </button>
-                  ))}
-                  <button
-                    onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                    disabled={currentPage === totalPages}
-                    className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <ChevronRight className="h-5 w-5" />
-                  </button>
-                </nav>
-              </div>
-            </div>
-          </div>
-        )}
+        <Pagination
+          pageIndex={pageIndex}
+          pageSize={itemsPerPage}
+          totalCount={totalCount}
+          noun="items"
+          hasPrevious={hasPrevious}
+          hasNext={hasNext}
+          loading={loading}
+          onPrevious={previous}
+          onNext={next}
+        />
       </div>
 
-      {filteredProducts.length === 0 && (
+      {!loading && error === null && products.length === 0 && (
         <div className="text-center py-12">
           <Package className="mx-auto h-12 w-12 text-gray-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">No products</h3>
           <p className="mt-1 text-sm text-gray-500">
-            Get started by creating a new product.
+            {activeAccount
+              ? 'Get started by creating a new product.'
+              : 'Connect a Walmart account to see its catalog.'}
           </p>
           <div className="mt-6">
             <button className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
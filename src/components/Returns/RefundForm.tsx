@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { WalmartTokenRecord } from '../../services/walmartTokenService';
+import { ReturnLineRefund, WalmartReturnService } from '../../services/walmartReturnService';
+import { ReturnOrder } from '../../types';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import { DollarSign } from 'lucide-react';
+
+interface RefundFormProps {
+  account: WalmartTokenRecord;
+  returnOrder: ReturnOrder;
+  onRefunded: (returnOrder: ReturnOrder) => void;
+  onClose: () => void;
+}
+
+/**
+ * Pick return lines and how many of their unrefunded units to refund; all of them is a
+ * full refund, fewer a partial one
+ */
+const RefundForm: React.FC<RefundFormProps> = ({ account, returnOrder, onRefunded, onClose }) => {
+  const refundableLines = returnOrder.lines
+    .map((line) => ({ line, refundable: WalmartReturnService.getRefundableQuantity(line) }))
+    .filter(({ refundable }) => refundable > 0);
+
+  // Units to refund by line number; every refundable unit is selected to begin with
+  const [quantities, setQuantities] = useState<Record<string, number>>(() =>
+    Object.fromEntries(refundableLines.map(({ line, refundable }) => [line.lineNumber, refundable]))
+  );
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const toggleLine = (lineNumber: string, refundable: number) => {
+    setQuantities((current) => {
+      const next = { ...current };
+      if (lineNumber in next) {
+        delete next[lineNumber];
+      } else {
+        next[lineNumber] = refundable;
+      }
+      return next;
+    });
+  };
+
+  const refundTotal = refundableLines.reduce(
+    (sum, { line }) => sum + (quantities[line.lineNumber] ?? 0) * line.unitPrice,
+    0
+  );
+
+  const focusField = () => {
+    document.getElementById(`refund-quantity-${Object.keys(quantities)[0] ?? refundableLines[0]?.line.lineNumber}`)?.focus();
+  };
+
+  const refundSelected = async () => {
+    const lines: ReturnLineRefund[] = Object.entries(quantities).map(([lineNumber, quantity]) => ({ lineNumber, quantity }));
+    if (lines.length === 0) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      onRefunded(await WalmartReturnService.issueRefund(account, returnOrder, lines));
+    } catch (error) {
+      setError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    refundSelected();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-green-200 rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900">Issue refund</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Walmart refunds the customer at the unit price of each line. The refund also shows on the original order.
+        </p>
+      </div>
+
+      {error !== null && (
+        <WalmartErrorAlert error={error} onRetry={refundSelected} onFixField={focusField} className="" />
+      )}
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+        {refundableLines.map(({ line, refundable }) => {
+          const selected = line.lineNumber in quantities;
+          return (
+            <div key={line.lineNumber} className="flex items-center justify-between px-4 py-3">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  onChange={() => toggleLine(line.lineNumber, refundable)}
+                  className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                />
+                <span className="ml-3">
+                  <span className="block text-sm font-medium text-gray-900">{line.productName}</span>
+                  <span className="block text-xs text-gray-500">
+                    Line {line.lineNumber} · {line.sku} · {refundable} of {line.quantity} not refunded · ${line.unitPrice.toFixed(2)} each
+                  </span>
+                </span>
+              </label>
+              <input
+                id={`refund-quantity-${line.lineNumber}`}
+                type="number"
+                min={1}
+                max={refundable}
+                disabled={!selected}
+                value={quantities[line.lineNumber] ?? refundable}
+                onChange={(e) => setQuantities((current) => ({
+                  ...current,
+                  [line.lineNumber]: Math.min(refundable, Math.max(1, Math.floor(Number(e.target.value) || 1))),
+                }))}
+                aria-label={`Units of line ${line.lineNumber} to refund`}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100 focus:outline-none focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-700">
+          Refund total: <span className="font-medium">${refundTotal.toFixed(2)}</span>
+        </p>
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Not now
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || Object.keys(quantities).length === 0}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DollarSign className="h-4 w-4 mr-2" />
+            {submitting ? 'Refunding...' : 'Refund selected units'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default RefundForm;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { WalmartTokenRecord } from '../../services/walmartTokenService';
+import { WalmartReturnService } from '../../services/walmartReturnService';
+import { ReturnOrder } from '../../types';
+import RefundForm from './RefundForm';
+import { ReturnRefundBadge, ReturnShipmentBadge } from './ReturnStatusBadge';
+import { DollarSign, Truck, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ReturnDetailPanelProps {
+  account: WalmartTokenRecord;
+  returnOrder: ReturnOrder;
+  onRefunded: (returnOrder: ReturnOrder) => void;
+  onClose: () => void;
+}
+
+/**
+ * One return: its lines with the order they came from, why they were returned, where the
+ * return shipment is, and refunds
+ */
+const ReturnDetailPanel: React.FC<ReturnDetailPanelProps> = ({ account, returnOrder, onRefunded, onClose }) => {
+  const [refunding, setRefunding] = useState(false);
+  const refundable = returnOrder.lines.some((line) => WalmartReturnService.getRefundableQuantity(line) > 0);
+
+  const handleRefunded = (updated: ReturnOrder) => {
+    setRefunding(false);
+    onRefunded(updated);
+  };
+
+  return (
+    <div className="bg-white shadow border border-gray-200 rounded-lg p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Return {returnOrder.returnOrderId}</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            {returnOrder.customerName} · {returnOrder.customerEmail}
+          </p>
+          <p className="text-sm text-gray-600">
+            Started {format(new Date(returnOrder.returnDate), 'MMM d, yyyy')}
+            {returnOrder.returnByDate && ` · Return by ${format(new Date(returnOrder.returnByDate), 'MMM d, yyyy')}`}
+            {' '}· Refunded ${returnOrder.refundedAmount.toFixed(2)}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {refundable && !refunding && (
+            <button
+              onClick={() => setRefunding(true)}
+              className="inline-flex items-center px-3 py-2 border border-green-300 rounded-md text-sm font-medium text-green-700 bg-white hover:bg-green-50"
+            >
+              <DollarSign className="h-4 w-4 mr-1" />
+              Refund
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close return">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {refunding && (
+        <RefundForm
+          account={account}
+          returnOrder={returnOrder}
+          onRefunded={handleRefunded}
+          onClose={() => setRefunding(false)}
+        />
+      )}
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+        {returnOrder.lines.map((line) => (
+          <div key={line.lineNumber} className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{line.productName}</p>
+              <p className="text-xs text-gray-500">
+                {line.sku} · from{' '}
+                <Link to={`/orders/${line.purchaseOrderId}`} className="text-blue-600 hover:text-blue-800">
+                  order {line.purchaseOrderId}
+                </Link>
+                , line {line.purchaseOrderLineNumber}
+              </p>
+              <p className="mt-2 text-sm text-gray-700">
+                <span className="font-medium">{WalmartReturnService.getReasonLabel(line.reason)}</span>
+                {line.reasonDescription && <span className="text-gray-500"> — “{line.reasonDescription}”</span>}
+              </p>
+              <p className="mt-2 text-sm text-gray-700">
+                {line.quantity} returned · {line.refundedQuantity} refunded · ${line.unitPrice.toFixed(2)} each
+              </p>
+              <div className="mt-2 flex items-center space-x-2">
+                <ReturnShipmentBadge status={line.shipmentStatus} />
+                <ReturnRefundBadge status={line.refundStatus} />
+              </div>
+            </div>
+
+            <div>
+              <p className="flex items-center text-sm text-gray-700">
+                <Truck className="h-4 w-4 mr-1 text-gray-400" />
+                {line.trackingNumber ? `${line.carrier ?? 'Carrier'} ${line.trackingNumber}` : 'No return label yet'}
+              </p>
+              {line.trackingEvents.length > 0 && (
+                <ol className="mt-3 border-l border-gray-200 space-y-3">
+                  {line.trackingEvents.map((event, index) => (
+                    <li key={index} className="relative ml-4">
+                      <div className="absolute -left-[1.3rem] top-1.5 h-2.5 w-2.5 rounded-full bg-blue-600"></div>
+                      <p className="text-sm text-gray-900">{event.description}</p>
+                      <time className="text-xs text-gray-500">
+                        {format(new Date(event.occurredAt), 'MMM d, yyyy h:mm a')}
+                      </time>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReturnDetailPanel;
@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import { mapPages } from '../../services/walmartApiClient';
+import {
+  WalmartReturnFilters,
+  WalmartReturnLineStatus,
+  WalmartReturnService,
+} from '../../services/walmartReturnService';
+import { OpenPages, useWalmartPages } from '../../hooks/useWalmartPages';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import Pagination from '../Layout/Pagination';
+import ReturnDetailPanel from './ReturnDetailPanel';
+import { ReturnRefundBadge, ReturnShipmentBadge } from './ReturnStatusBadge';
+import { ReturnOrder } from '../../types';
+import { CheckCircle, Clock, DollarSign, Eye, Package, RotateCcw, Search, Truck } from 'lucide-react';
+import { format } from 'date-fns';
+
+const ReturnList: React.FC = () => {
+  const { activeAccount } = useWalmartAccount();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [customerOrderId, setCustomerOrderId] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [itemsPerPage] = useState(10);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Returns refunded since the page was loaded, as Walmart reported them afterwards
+  const [refunded, setRefunded] = useState<Record<string, ReturnOrder>>({});
+  const [lastRefund, setLastRefund] = useState<ReturnOrder | null>(null);
+
+  const filters: WalmartReturnFilters = {
+    status: statusFilter === 'all' ? undefined : statusFilter as WalmartReturnLineStatus,
+    customerOrderId: customerOrderId || undefined,
+    limit: itemsPerPage,
+  };
+
+  const openReturns: OpenPages<ReturnOrder> | null = activeAccount
+    ? (cursor) => mapPages(WalmartReturnService.pages(activeAccount, filters, cursor), (returnOrder) => WalmartReturnService.toReturnOrder(returnOrder))
+    : null;
+
+  const {
+    items,
+    loadedItems,
+    pageIndex,
+    totalCount,
+    hasPrevious,
+    hasNext,
+    loading,
+    initialLoading,
+    error,
+    next,
+    previous,
+    retry,
+  } = useWalmartPages(openReturns, JSON.stringify([activeAccount?.id, filters]));
+
+  const latest = (returnOrder: ReturnOrder) => refunded[returnOrder.id] ?? returnOrder;
+  const returns = items.map(latest);
+  const loadedLines = loadedItems.map(latest).flatMap((returnOrder) => returnOrder.lines);
+  const selected = returns.find((returnOrder) => returnOrder.id === selectedId) ?? null;
+
+  const searchReturns = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCustomerOrderId(searchTerm.trim());
+  };
+
+  const handleRefunded = (returnOrder: ReturnOrder) => {
+    setRefunded((current) => ({ ...current, [returnOrder.id]: returnOrder }));
+    setLastRefund(returnOrder);
+  };
+
+  if (initialLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: 'Awaiting Pickup', icon: Clock, color: 'yellow', count: loadedLines.filter((line) => line.shipmentStatus === 'awaiting_pickup').length },
+    { label: 'In Transit', icon: Truck, color: 'blue', count: loadedLines.filter((line) => line.shipmentStatus === 'in_transit').length },
+    { label: 'Received', icon: Package, color: 'green', count: loadedLines.filter((line) => line.shipmentStatus === 'delivered').length },
+    { label: 'To Refund', icon: DollarSign, color: 'red', count: loadedLines.filter((line) => line.refundStatus !== 'refunded').length },
+  ];
+
+  const statColors = {
+    yellow: 'bg-yellow-100 text-yellow-600',
+    blue: 'bg-blue-100 text-blue-600',
+    green: 'bg-green-100 text-green-600',
+    red: 'bg-red-100 text-red-600',
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Returns</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Track returned items and refund customers
+          {activeAccount && ` for ${WalmartTokenService.getAccountLabel(activeAccount)}`}
+        </p>
+      </div>
+
+      {/* Stats Cards (return lines on the pages loaded so far) */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {stats.map((stat) => {
+          const Icon = stat.icon;
+          return (
+            <div key={stat.label} className="bg-white overflow-hidden shadow rounded-lg border border-gray-200">
+              <div className="p-5">
+                <div className="flex items-center">
+                  <div className="flex-shrink-0">
+                    <div className={`p-3 rounded-md ${statColors[stat.color as keyof typeof statColors]}`}>
+                      <Icon className="h-6 w-6" />
+                    </div>
+                  </div>
+                  <div className="ml-5 w-0 flex-1">
+                    <dl>
+                      <dt className="text-sm font-medium text-gray-500 truncate">{stat.label}</dt>
+                      <dd className="text-2xl font-semibold text-gray-900">{stat.count}</dd>
+                    </dl>
+                  </div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg shadow border border-gray-200">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <form onSubmit={searchReturns} className="flex-1">
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                placeholder="Search by customer order ID..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+          </form>
+          <div className="sm:w-48">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="all">All Status</option>
+              <option value="INITIATED">Initiated</option>
+              <option value="DELIVERED">Received</option>
+              <option value="COMPLETED">Completed</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error !== null && <WalmartErrorAlert error={error} onRetry={retry} className="" />}
+
+      {lastRefund && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <div className="flex">
+            <CheckCircle className="h-5 w-5 text-green-400 flex-shrink-0" />
+            <p className="ml-3 text-sm text-green-800">
+              Walmart issued the refund for return {lastRefund.returnOrderId}. ${lastRefund.refundedAmount.toFixed(2)} refunded in total.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {selected && activeAccount && (
+        <ReturnDetailPanel
+          key={selected.id}
+          account={activeAccount}
+          returnOrder={selected}
+          onRefunded={handleRefunded}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+
+      {/* Returns Table */}
+      <div className="bg-white shadow border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Return
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Order
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Return Shipment
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Refund
+                </th>
+                <th className="relative px-6 py-3">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {returns.map((returnOrder) => {
+                const purchaseOrderIds = [...new Set(returnOrder.lines.map((line) => line.purchaseOrderId))];
+                const reasons = [...new Set(returnOrder.lines.map((line) => WalmartReturnService.getReasonLabel(line.reason)))];
+                return (
+                  <tr key={returnOrder.id} className={selectedId === returnOrder.id ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{returnOrder.returnOrderId}</div>
+                      <div className="text-sm text-gray-500">
+                        {returnOrder.customerName} · {format(new Date(returnOrder.returnDate), 'MMM d, yyyy')}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {purchaseOrderIds.map((purchaseOrderId) => (
+                        <Link key={purchaseOrderId} to={`/orders/${purchaseOrderId}`} className="block text-blue-600 hover:text-blue-800">
+                          {purchaseOrderId}
+                        </Link>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {reasons.join(', ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex flex-col items-start space-y-1">
+                        {returnOrder.lines.map((line) => (
+                          <ReturnShipmentBadge key={line.lineNumber} status={line.shipmentStatus} />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex flex-col items-start space-y-1">
+                        {returnOrder.lines.map((line) => (
+                          <ReturnRefundBadge key={line.lineNumber} status={line.refundStatus} />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => setSelectedId(returnOrder.id)}
+                        className="text-blue-600 hover:text-blue-900"
+                        aria-label={`View return ${returnOrder.returnOrderId}`}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <Pagination
+          pageIndex={pageIndex}
+          pageSize={itemsPerPage}
+          totalCount={totalCount}
+          noun="returns"
+          hasPrevious={hasPrevious}
+          hasNext={hasNext}
+          loading={loading}
+          onPrevious={previous}
+          onNext={next}
+        />
+      </div>
+
+      {!loading && error === null && returns.length === 0 && (
+        <div className="text-center py-12">
+          <RotateCcw className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No returns</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {activeAccount
+              ? 'Returns will appear here when customers send items back.'
+              : 'Connect a Walmart account to see its returns.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReturnList;
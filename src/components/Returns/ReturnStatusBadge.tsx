@@ -0,0 +1,67 @@
+import React from 'react';
+import { ReturnLine } from '../../types';
+import { CheckCircle, Clock, DollarSign, Package, Truck } from 'lucide-react';
+
+const shipmentStyles = {
+  awaiting_pickup: 'bg-yellow-100 text-yellow-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+};
+
+const shipmentIcons = {
+  awaiting_pickup: Clock,
+  in_transit: Truck,
+  delivered: Package,
+};
+
+const shipmentLabels = {
+  awaiting_pickup: 'Awaiting pickup',
+  in_transit: 'In transit',
+  delivered: 'Received',
+};
+
+const refundStyles = {
+  pending: 'bg-gray-100 text-gray-800',
+  partial: 'bg-orange-100 text-orange-800',
+  refunded: 'bg-green-100 text-green-800',
+};
+
+const refundIcons = {
+  pending: Clock,
+  partial: DollarSign,
+  refunded: CheckCircle,
+};
+
+const refundLabels = {
+  pending: 'Not refunded',
+  partial: 'Partly refunded',
+  refunded: 'Refunded',
+};
+
+/**
+ * Where the customer's return shipment is
+ */
+export const ReturnShipmentBadge: React.FC<{ status: ReturnLine['shipmentStatus'] }> = ({ status }) => {
+  const Icon = shipmentIcons[status];
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${shipmentStyles[status]}`}>
+      <Icon className="h-3 w-3 mr-1" />
+      {shipmentLabels[status]}
+    </span>
+  );
+};
+
+/**
+ * How much of the returned units the customer has been refunded for
+ */
+export const ReturnRefundBadge: React.FC<{ status: ReturnLine['refundStatus'] }> = ({ status }) => {
+  const Icon = refundIcons[status];
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${refundStyles[status]}`}>
+      <Icon className="h-3 w-3 mr-1" />
+      {refundLabels[status]}
+    </span>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { WalmartTokenRecord } from '../../services/walmartTokenService';
+import { DocumentService, DocumentSettings, MAX_LOGO_BYTES } from '../../services/documentService';
+import { Order } from '../../types';
+import { CheckCircle, FileText, Trash2, Upload } from 'lucide-react';
+
+interface DocumentSettingsFormProps {
+  account: WalmartTokenRecord;
+}
+
+type Address = Order['shippingAddress'];
+
+const EMPTY_ADDRESS: Address = {
+  name: '',
+  address1: '',
+  address2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: 'USA',
+};
+
+const ADDRESS_FIELDS: { field: keyof Address; label: string; required: boolean; wide: boolean }[] = [
+  { field: 'name', label: 'Name', required: true, wide: true },
+  { field: 'address1', label: 'Address line 1', required: true, wide: true },
+  { field: 'address2', label: 'Address line 2', required: false, wide: true },
+  { field: 'city', label: 'City', required: true, wide: false },
+  { field: 'state', label: 'State', required: true, wide: false },
+  { field: 'postalCode', label: 'Postal code', required: true, wide: false },
+  { field: 'country', label: 'Country', required: true, wide: false },
+];
+
+const inputClass = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * Logo, company name and return address printed on the account's packing slips and pick lists
+ */
+const DocumentSettingsForm: React.FC<DocumentSettingsFormProps> = ({ account }) => {
+  const [settings, setSettings] = useState<DocumentSettings>({});
+  const [address, setAddress] = useState<Address>(EMPTY_ADDRESS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    DocumentService.getSettings(account)
+      .then((loaded) => {
+        setSettings(loaded);
+        setAddress({ ...EMPTY_ADDRESS, ...loaded.returnAddress });
+      })
+      .catch((error) => setError(error instanceof Error ? error.message : 'Could not load document settings'))
+      .finally(() => setLoading(false));
+  }, [account]);
+
+  const updateSettings = (changes: Partial<DocumentSettings>) => {
+    setSettings((current) => ({ ...current, ...changes }));
+    setSaved(false);
+  };
+
+  const updateAddress = (field: keyof Address, value: string) => {
+    setAddress((current) => ({ ...current, [field]: value }));
+    setSaved(false);
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      updateSettings({ logoUrl: await DocumentService.readLogo(file) });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not read the logo');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // A partly filled address would print an unusable return label, so save all or nothing
+    // Country is prefilled, so it alone does not count as starting an address
+    const filled = ADDRESS_FIELDS.filter(({ field }) => field !== 'country' && address[field]?.trim());
+    const missing = ADDRESS_FIELDS.filter(({ field, required }) => required && !address[field]?.trim());
+    if (filled.length > 0 && missing.length > 0) {
+      setError(`Complete the return address: ${missing.map(({ label }) => label.toLowerCase()).join(', ')}`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await DocumentService.saveSettings(account, {
+        ...settings,
+        returnAddress: missing.length === 0
+          ? { ...address, address2: address.address2?.trim() || undefined }
+          : undefined,
+      });
+      setSaved(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not save document settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <FileText className="h-5 w-5 mr-2 text-gray-400" />
+          Packing slips and pick lists
+        </h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Printed at the top of every packing slip and pick list for {account.account_name || account.seller_id || 'this account'}.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div>
+        <label htmlFor="document-company-name" className="block text-sm font-medium text-gray-700">Company name</label>
+        <input
+          id="document-company-name"
+          type="text"
+          value={settings.companyName ?? ''}
+          onChange={(e) => updateSettings({ companyName: e.target.value })}
+          className={`${inputClass} sm:w-96`}
+        />
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700">Logo</span>
+        <div className="mt-2 flex items-center space-x-4">
+          <div className="h-16 w-40 flex items-center justify-center border border-dashed border-gray-300 rounded-md bg-gray-50">
+            {settings.logoUrl ? (
+              <img src={settings.logoUrl} alt="Logo preview" className="max-h-14 max-w-36 object-contain" />
+            ) : (
+              <span className="text-xs text-gray-400">No logo</span>
+            )}
+          </div>
+          <label className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+            <Upload className="h-4 w-4 mr-2" />
+            Upload image
+            <input type="file" accept="image/*" onChange={handleLogoUpload} className="sr-only" />
+          </label>
+          {settings.logoUrl && (
+            <button
+              type="button"
+              onClick={() => updateSettings({ logoUrl: undefined })}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-600 hover:text-red-800"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Remove
+            </button>
+          )}
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          PNG, JPEG or SVG up to {MAX_LOGO_BYTES / 1024} kB, or paste the URL of a hosted image:
+        </p>
+        <input
+          type="url"
+          placeholder="https://"
+          value={settings.logoUrl?.startsWith('data:') ? '' : settings.logoUrl ?? ''}
+          onChange={(e) => updateSettings({ logoUrl: e.target.value || undefined })}
+          aria-label="Logo URL"
+          className={`${inputClass} sm:w-96`}
+        />
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700">Return address</legend>
+        <p className="mt-1 text-xs text-gray-500">Leave every field empty to print slips without one.</p>
+        <div className="mt-2 grid grid-cols-1 sm:grid-cols-4 gap-4">
+          {ADDRESS_FIELDS.map(({ field, label, required, wide }) => (
+            <div key={field} className={wide ? 'sm:col-span-4' : ''}>
+              <label htmlFor={`return-${field}`} className="block text-xs font-medium text-gray-600">
+                {label}{!required && ' (optional)'}
+              </label>
+              <input
+                id={`return-${field}`}
+                type="text"
+                value={address[field] ?? ''}
+                onChange={(e) => updateAddress(field, e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      </fieldset>
+
+      <div>
+        <label htmlFor="document-note" className="block text-sm font-medium text-gray-700">Packing slip note</label>
+        <textarea
+          id="document-note"
+          rows={3}
+          value={settings.packingSlipNote ?? ''}
+          onChange={(e) => updateSettings({ packingSlipNote: e.target.value })}
+          placeholder="Thank you for your order! Returns are accepted within 30 days."
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex items-center justify-end space-x-3">
+        {saved && (
+          <span className="inline-flex items-center text-sm text-green-700">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Saved
+          </span>
+        )}
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default DocumentSettingsForm;
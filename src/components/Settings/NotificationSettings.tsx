@@ -0,0 +1,324 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import {
+  NotificationEventType,
+  NotificationService,
+  NotificationSettings as NotificationSettingsData,
+  NotificationSubscription,
+  OrderNotification,
+  ReplayResult,
+} from '../../services/notificationService';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import { ArrowLeft, Bell, RefreshCw, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+
+// Recent events listed under the subscriptions
+const RECENT_LIMIT = 50;
+
+const STATUS_STYLES: Record<OrderNotification['status'], string> = {
+  processed: 'bg-green-100 text-green-800',
+  ignored: 'bg-gray-100 text-gray-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+/**
+ * Subscribe the active account to Walmart's order notifications and watch events arrive.
+ * Each event is stored by the receiver, so the list updates live and failed events can
+ * be replayed.
+ */
+const NotificationSettings: React.FC = () => {
+  const { activeAccount } = useWalmartAccount();
+  const [settings, setSettings] = useState<NotificationSettingsData | null>(null);
+  const [notifications, setNotifications] = useState<OrderNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  const [actionError, setActionError] = useState<unknown>(null);
+  // Event type or notification an action is running for
+  const [busy, setBusy] = useState<string | null>(null);
+  const [replayResult, setReplayResult] = useState<ReplayResult | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    if (!activeAccount) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    // Stored events are shown even when Walmart cannot be reached
+    const [settingsResult, recentResult] = await Promise.allSettled([
+      NotificationService.getSettings(activeAccount),
+      NotificationService.getRecent(activeAccount, RECENT_LIMIT),
+    ]);
+    if (settingsResult.status === 'fulfilled') setSettings(settingsResult.value);
+    else setError(settingsResult.reason);
+    if (recentResult.status === 'fulfilled') setNotifications(recentResult.value);
+    else console.error('Error loading notifications:', recentResult.reason);
+    setLoading(false);
+  }, [activeAccount]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  // Every event, including ignored and failed ones, as the receiver stores it
+  useEffect(() => {
+    if (!activeAccount) return;
+    return NotificationService.watch(activeAccount, (notification) => {
+      setNotifications((current) => [notification, ...current.filter((existing) => existing.id !== notification.id)]
+        .slice(0, RECENT_LIMIT));
+    });
+  }, [activeAccount]);
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setActionError(null);
+    try {
+      await action();
+    } catch (error) {
+      setActionError(error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const subscribe = (eventType: NotificationEventType) => runAction(eventType.eventType, async () => {
+    await NotificationService.subscribe(activeAccount!, eventType);
+    await fetchSettings();
+  });
+
+  const unsubscribe = (subscription: NotificationSubscription) => runAction(subscription.eventType, async () => {
+    await NotificationService.unsubscribe(activeAccount!, subscription.subscriptionId);
+    await fetchSettings();
+  });
+
+  const replay = (notification: OrderNotification) => runAction(notification.id, async () => {
+    setReplayResult(null);
+    setReplayResult(await NotificationService.replay(activeAccount!, notification.id));
+  });
+
+  const backLink = (
+    <Link to="/settings" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800">
+      <ArrowLeft className="h-4 w-4 mr-1" />
+      Back to settings
+    </Link>
+  );
+
+  if (!activeAccount) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+          Connect a Walmart account on the Dashboard to manage its notifications.
+        </div>
+      </div>
+    );
+  }
+
+  if (loading && !settings) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const ours = settings?.subscriptions.filter((subscription) => subscription.ours) ?? [];
+  const elsewhere = settings?.subscriptions.filter((subscription) => !subscription.ours) ?? [];
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Order notifications</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Walmart tells this app about order events for {WalmartTokenService.getAccountLabel(activeAccount)} as they
+            happen, so orders update without waiting for the next sync.
+          </p>
+        </div>
+        <button
+          onClick={fetchSettings}
+          disabled={loading}
+          className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error !== null && <WalmartErrorAlert error={error} onRetry={fetchSettings} className="" />}
+      {actionError !== null && (
+        <WalmartErrorAlert error={actionError} onDismiss={() => setActionError(null)} className="" />
+      )}
+
+      {settings && (
+        <div className="bg-white shadow rounded-lg p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 flex items-center">
+              <Bell className="h-5 w-5 mr-2 text-gray-400" />
+              Subscriptions
+            </h2>
+            <p className="mt-1 text-sm text-gray-600">
+              {settings.endpointUrl ? (
+                <>Walmart delivers events to <code className="text-xs break-all">{settings.endpointUrl}</code>.</>
+              ) : (
+                'A delivery address for this account is created when you subscribe to the first event.'
+              )}
+            </p>
+          </div>
+
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {settings.eventTypes.map((eventType) => {
+              const subscription = ours.find((candidate) => candidate.eventType === eventType.eventType);
+              const active = subscription?.status === 'ACTIVE';
+              return (
+                <li key={eventType.eventType} className="px-4 py-3 flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{eventType.eventType}</div>
+                    {eventType.description && <div className="text-sm text-gray-500">{eventType.description}</div>}
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className={`text-xs ${active ? 'text-green-700' : 'text-gray-500'}`}>
+                      {active ? 'Subscribed' : subscription ? 'Paused' : 'Not subscribed'}
+                    </span>
+                    {active ? (
+                      <button
+                        onClick={() => unsubscribe(subscription)}
+                        disabled={busy !== null}
+                        className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {busy === eventType.eventType ? 'Unsubscribing...' : 'Unsubscribe'}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => subscribe(eventType)}
+                        disabled={busy !== null}
+                        className="px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {busy === eventType.eventType ? 'Subscribing...' : 'Subscribe'}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+            {settings.eventTypes.length === 0 && (
+              <li className="px-4 py-3 text-sm text-gray-500">Walmart offers no order events for this account.</li>
+            )}
+          </ul>
+
+          {elsewhere.length > 0 && (
+            <div className="text-sm text-gray-600">
+              <p className="font-medium text-gray-700">Delivered somewhere else</p>
+              <p className="mt-1">
+                These subscriptions send events to another address, such as another app or an earlier setup. This app
+                does not receive them.
+              </p>
+              <ul className="mt-2 space-y-1">
+                {elsewhere.map((subscription) => (
+                  <li key={subscription.subscriptionId} className="flex items-center justify-between">
+                    <span>
+                      {subscription.eventType} → <code className="text-xs break-all">{subscription.eventUrl}</code>
+                    </span>
+                    <button
+                      onClick={() => unsubscribe(subscription)}
+                      disabled={busy !== null}
+                      className="ml-3 text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {replayResult && (
+        <div
+          className={`rounded-md p-4 text-sm border ${
+            replayResult.deliveryStatus < 300 ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+          }`}
+        >
+          Replayed: the receiver answered {replayResult.deliveryStatus}
+          {replayResult.status && ` and marked the event ${replayResult.status}`}
+          {replayResult.error && ` (${replayResult.error})`}.
+        </div>
+      )}
+
+      {/* Recent events */}
+      <div className="bg-white shadow border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Recent events</h2>
+          <p className="mt-1 text-sm text-gray-600">New events appear here as Walmart delivers them.</p>
+        </div>
+        {notifications.length === 0 ? (
+          <div className="px-6 py-8 text-center text-sm text-gray-500">No events received yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>Received</th>
+                  <th className={headerClass}>Event</th>
+                  <th className={headerClass}>Order</th>
+                  <th className={headerClass}>Status</th>
+                  <th className={headerClass}>Deliveries</th>
+                  <th className="relative px-6 py-3">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {notifications.map((notification) => (
+                  <tr key={notification.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {format(new Date(notification.lastReceivedAt), 'MMM d, h:mm:ss a')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{notification.eventType}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {notification.purchaseOrderId ? (
+                        <Link to={`/orders/${notification.purchaseOrderId}`} className="text-blue-600 hover:text-blue-800">
+                          {notification.purchaseOrderId}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[notification.status]}`}>
+                        {notification.status}
+                      </span>
+                      {notification.error && <div className="mt-1 text-xs text-red-600">{notification.error}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{notification.deliveryCount}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => replay(notification)}
+                        disabled={busy !== null}
+                        className="inline-flex items-center text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                        aria-label={`Replay event ${notification.eventId}`}
+                      >
+                        <RotateCcw className={`h-4 w-4 mr-1 ${busy === notification.id ? 'animate-spin' : ''}`} />
+                        Replay
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import DocumentSettingsForm from './DocumentSettingsForm';
+import { Bell, ChevronRight } from 'lucide-react';
+
+const Settings: React.FC = () => {
+  const { activeAccount } = useWalmartAccount();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        <p className="mt-1 text-sm text-gray-600">Settings apply to the active Walmart account.</p>
+      </div>
+
+      {activeAccount ? (
+        <>
+          <Link
+            to="/settings/notifications"
+            className="bg-white shadow rounded-lg p-6 flex items-center justify-between hover:bg-gray-50"
+          >
+            <div>
+              <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                <Bell className="h-5 w-5 mr-2 text-gray-400" />
+                Order notifications
+              </h2>
+              <p className="mt-1 text-sm text-gray-600">
+                Choose which Walmart order events update your orders as they happen.
+              </p>
+            </div>
+            <ChevronRight className="h-5 w-5 text-gray-400" />
+          </Link>
+          {/* Keyed so switching accounts reloads the form instead of carrying edits across */}
+          <DocumentSettingsForm key={activeAccount.id} account={activeAccount} />
+        </>
+      ) : (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+          Connect a Walmart account on the Dashboard to manage its settings.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Settings;
@@ -1,4 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import { mapPages } from '../../services/walmartApiClient';
+import { WalmartOrderFilters, WalmartOrderService } from '../../services/walmartOrderService';
+import { OpenPages, useWalmartPages } from '../../hooks/useWalmartPages';
+import WalmartErrorAlert from '../Walmart/WalmartErrorAlert';
+import Pagination from '../Layout/Pagination';
 import { Shipment } from '../../types';
 import { 
   Truck, 
@@ -9,175 +16,50 @@ import {
   MapPin,
   Clock,
   CheckCircle,
-  AlertTriangle,
-  ChevronLeft,
-  ChevronRight
+  AlertTriangle
 } from 'lucide-react';
 import { format } from 'date-fns';
 
 const ShippingList: React.FC = () => {
-  const [shipments, setShipments] = useState<Shipment[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { activeAccount } = useWalmartAccount();
   const [searchTerm, setSearchTerm] = useState('');
+  const [purchaseOrderId, setPurchaseOrderId] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(10);
 
-  useEffect(() => {
-    fetchShipments();
-  }, []);
+  // Shipments are read from orders; without a status filter, orders with nothing shipped yet add no rows
+  const filters: WalmartOrderFilters = {
+    status: statusFilter === 'delivered' ? 'Delivered' : statusFilter === 'in_transit' ? 'Shipped' : undefined,
+    purchaseOrderId: purchaseOrderId || undefined,
+    limit: itemsPerPage,
+  };
 
-  const fetchShipments = async () => {
-    setLoading(true);
-    
-    // Mock data
-    const mockShipments: Shipment[] = [
-      {
-        id: '1',
-        orderId: 'PO-2024-001',
-        trackingNumber: '1Z999AA1234567890',
-        carrier: 'UPS',
-        status: 'in_transit',
-        shippedDate: '2024-01-15T10:30:00Z',
-        estimatedDelivery: '2024-01-18T17:00:00Z',
-        shippingAddress: {
-          name: 'John Smith',
-          address1: '123 Main St',
-          city: 'New York',
-          state: 'NY',
-          postalCode: '10001',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '1',
-            sku: 'SKU-001',
-            productName: 'Wireless Headphones',
-            quantity: 1
-          }
-        ]
-      },
-      {
-        id: '2',
-        orderId: 'PO-2024-002',
-        trackingNumber: '1Z999AA1234567891',
-        carrier: 'FedEx',
-        status: 'delivered',
-        shippedDate: '2024-01-14T15:45:00Z',
-        estimatedDelivery: '2024-01-17T12:00:00Z',
-        actualDelivery: '2024-01-17T11:30:00Z',
-        shippingAddress: {
-          name: 'Sarah Johnson',
-          address1: '456 Oak Ave',
-          city: 'Los Angeles',
-          state: 'CA',
-          postalCode: '90210',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '2',
-            sku: 'SKU-002',
-            productName: 'Phone Case',
-            quantity: 2
-          }
-        ]
-      },
-      {
-        id: '3',
-        orderId: 'PO-2024-003',
-        trackingNumber: '1Z999AA1234567892',
-        carrier: 'USPS',
-        status: 'pending',
-        shippedDate: '2024-01-16T09:15:00Z',
-        estimatedDelivery: '2024-01-19T16:00:00Z',
-        shippingAddress: {
-          name: 'Mike Davis',
-          address1: '789 Pine St',
-          city: 'Chicago',
-          state: 'IL',
-          postalCode: '60601',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '3',
-            sku: 'SKU-003',
-            productName: 'Bluetooth Speaker',
-            quantity: 1
-          }
-        ]
-      },
-      {
-        id: '4',
-        orderId: 'PO-2024-004',
-        trackingNumber: '1Z999AA1234567893',
-        carrier: 'DHL',
-        status: 'exception',
-        shippedDate: '2024-01-13T14:20:00Z',
-        estimatedDelivery: '2024-01-16T18:00:00Z',
-        shippingAddress: {
-          name: 'Emily Wilson',
-          address1: '321 Elm St',
-          city: 'Houston',
-          state: 'TX',
-          postalCode: '77001',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '4',
-            sku: 'SKU-004',
-            productName: 'Smart Watch',
-            quantity: 1
-          }
-        ]
-      },
-      {
-        id: '5',
-        orderId: 'PO-2024-005',
-        trackingNumber: '1Z999AA1234567894',
-        carrier: 'UPS',
-        status: 'in_transit',
-        shippedDate: '2024-01-15T11:30:00Z',
-        estimatedDelivery: '2024-01-18T14:00:00Z',
-        shippingAddress: {
-          name: 'David Brown',
-          address1: '654 Maple Ave',
-          city: 'Phoenix',
-          state: 'AZ',
-          postalCode: '85001',
-          country: 'US'
-        },
-        items: [
-          {
-            id: '5',
-            sku: 'SKU-005',
-            productName: 'USB Cable',
-            quantity: 1
-          }
-        ]
-      }
-    ];
+  const openShipments: OpenPages<Shipment> | null = activeAccount
+    ? (cursor) => mapPages(WalmartOrderService.pages(activeAccount, filters, cursor), (order) => WalmartOrderService.toShipments(order))
+    : null;
 
-    setTimeout(() => {
-      setShipments(mockShipments);
-      setLoading(false);
-    }, 500);
-  };
+  const {
+    items: shipments,
+    loadedItems,
+    pageIndex,
+    totalCount,
+    hasPrevious,
+    hasNext,
+    loading,
+    initialLoading,
+    error,
+    next,
+    previous,
+    retry,
+  } = useWalmartPages(openShipments, JSON.stringify([activeAccount?.id, filters]));
 
-  const filteredShipments = shipments.filter(shipment => {
-    const matchesSearch = shipment.trackingNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         shipment.orderId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         shipment.carrier.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         shipment.shippingAddress.name.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || shipment.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  // An order can hold both shipped and delivered lines, so narrow its rows to the chosen status
+  const filteredShipments = shipments.filter(shipment => statusFilter === 'all' || shipment.status === statusFilter);
 
-  const totalPages = Math.ceil(filteredShipments.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedShipments = filteredShipments.slice(startIndex, startIndex + itemsPerPage);
+  const searchShipments = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPurchaseOrderId(searchTerm.trim());
+  };
 
   const getStatusBadge = (status: string) => {
     const statusStyles = {
@@ -229,7 +111,7 @@ const ShippingList: React.FC = () => {
     );
   };
 
-  if (loading) {
+  if (initialLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -245,6 +127,7 @@ const ShippingList: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Shipping</h1>
           <p className="mt-1 text-sm text-gray-600">
             Track your shipments and deliveries
+            {activeAccount && ` for ${WalmartTokenService.getAccountLabel(activeAccount)}`}
           </p>
         </div>
       </div>
@@ -265,7 +148,7 @@ const ShippingList: React.FC = () => {
                     Pending
                   </dt>
                   <dd className="text-2xl font-semibold text-gray-900">
-                    {shipments.filter(s => s.status === 'pending').length}
+                    {loadedItems.filter(s => s.status === 'pending').length}
                   </dd>
                 </dl>
               </div>
@@ -287,7 +170,7 @@ const ShippingList: React.FC = () => {
                     In Transit
                   </dt>
                   <dd className="text-2xl font-semibold text-gray-900">
-                    {shipments.filter(s => s.status === 'in_transit').length}
+                    {loadedItems.filter(s => s.status === 'in_transit').length}
                   </dd>
                 </dl>
               </div>
@@ -309,7 +192,7 @@ const ShippingList: React.FC = () => {
                     Delivered
                   </dt>
                   <dd className="text-2xl font-semibold text-gray-900">
-                    {shipments.filter(s => s.status === 'delivered').length}
+                    {loadedItems.filter(s => s.status === 'delivered').length}
                   </dd>
                 </dl>
               </div>
@@ -331,7 +214,7 @@ const ShippingList: React.FC = () => {
                     Exceptions
                   </dt>
                   <dd className="text-2xl font-semibold text-gray-900">
-                    {shipments.filter(s => s.status === 'exception').length}
+                    {loadedItems.filter(s => s.status === 'exception').length}
                   </dd>
                 </dl>
               </div>
@@ -343,20 +226,20 @@ const ShippingList: React.FC = () => {
       {/* Filters */}
       <div className="bg-white p-4 rounded-lg shadow border border-gray-200">
         <div className="flex flex-col sm:flex-row gap-4">
-          <div className="flex-1">
+          <form onSubmit={searchShipments} className="flex-1">
             <div className="relative">
               <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                 <Search className="h-5 w-5 text-gray-400" />
               </div>
               <input
                 type="text"
-                placeholder="Search shipments..."
+                placeholder="Search by purchase order ID..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               />
             </div>
-          </div>
+          </form>
           <div className="sm:w-48">
             <select
               value={statusFilter}
@@ -364,15 +247,15 @@ const ShippingList: React.FC = () => {
               className="block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
             >
               <option value="all">All Status</option>
-              <option value="pending">Pending</option>
               <option value="in_transit">In Transit</option>
               <option value="delivered">Delivered</option>
-              <option value="exception">Exception</option>
             </select>
           </div>
         </div>
       </div>
 
+      {error !== null && <WalmartErrorAlert error={error} onRetry={retry} className="" />}
+
       {/* Shipments Table */}
       <div className="bg-white shadow border border-gray-200 rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
@@ -406,7 +289,7 @@ const ShippingList: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {paginatedShipments.map((shipment) => (
+              {filteredShipments.map((shipment) => (
                 <tr key={shipment.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-gray-900">
@@ -455,77 +338,29 @@ const ShippingList: React.FC = () => {
           </table>
         </div>
 
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
-            <div className="flex-1 flex justify-between sm:hidden">
-              <button
-                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                disabled={currentPage === 1}
-                className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Previous
-              </button>
-              <button
-                onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                disabled={currentPage === totalPages}
-                className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Next
-              </button>
-            </div>
-            <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-              <div>
-                <p className="text-sm text-gray-700">
-                  Showing <span className="font-medium">{startIndex + 1}</span> to{' '}
-                  <span className="font-medium">
-                    {Math.min(startIndex + itemsPerPage, filteredShipments.length)}
-                  </span>{' '}
-                  of <span className="font-medium">{filteredShipments.length}</span> results
-                </p>
-              </div>
-              <div>
-                <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
-                  <button
-                    onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                    disabled={currentPage === 1}
-                    className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <ChevronLeft className="h-5 w-5" />
-                  </button>
-                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                    <button
-                      key={page}
-                      onClick={() => setCurrentPage(page)}
-                      className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
-                        page === currentPage
-                          ? 'z-10 bg-blue-50 border-blue-500 text-blue-600'
-                          : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
-                      }`}
-                    >
-                      {page}
-                    </button>
-                  ))}
-                  <button
-                    onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                    disabled={currentPage === totalPages}
-                    className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <ChevronRight className="h-5 w-5" />
-                  </button>
-                </nav>
-              </div>
-            </div>
-          </div>
-        )}
+        <Pagination
+          pageIndex={pageIndex}
+          pageSize={itemsPerPage}
+          totalCount={totalCount}
+          noun="orders"
+          hasPrevious={hasPrevious}
+          hasNext={hasNext}
+          loading={loading}
+          onPrevious={previous}
+          onNext={next}
+        />
       </div>
 
-      {filteredShipments.length === 0 && (
+      {!loading && error === null && filteredShipments.length === 0 && (
         <div className="text-center py-12">
           <Truck className="mx-auto h-12 w-12 text-gray-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">No shipments</h3>
           <p className="mt-1 text-sm text-gray-500">
-            Shipments will appear here when orders are shipped.
+            {activeAccount
+              ? hasNext
+                ? 'Nothing shipped on this page of orders; try the next page.'
+                : 'Shipments will appear here when orders are shipped.'
+              : 'Connect a Walmart account to see its shipments.'}
           </p>
         </div>
       )}
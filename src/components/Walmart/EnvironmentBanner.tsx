@@ -0,0 +1,34 @@
+import React from 'react';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import { FlaskConical } from 'lucide-react';
+
+/**
+ * App-wide banner while the active account points at a non-production environment
+ */
+const EnvironmentBanner: React.FC = () => {
+  const { activeAccount } = useWalmartAccount();
+
+  if (!activeAccount || activeAccount.environment === 'production') {
+    return null;
+  }
+
+  const colors = activeAccount.environment === 'mock'
+    ? 'bg-purple-600 text-white'
+    : 'bg-orange-500 text-white';
+
+  return (
+    <div className={colors}>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-1.5 flex items-center justify-center text-sm font-medium">
+        <FlaskConical className="h-4 w-4 mr-2 flex-shrink-0" />
+        <span>
+          {WalmartTokenService.getEnvironmentLabel(activeAccount.environment)} environment:{' '}
+          {WalmartTokenService.getAccountLabel(activeAccount)} is not a live storefront. Orders, listings and
+          inventory changes here do not reach Walmart production.
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default EnvironmentBanner;
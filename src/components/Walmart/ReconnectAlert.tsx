@@ -0,0 +1,44 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import { AlertTriangle } from 'lucide-react';
+
+/**
+ * App-wide banner for accounts whose refresh token Walmart has rejected
+ */
+const ReconnectAlert: React.FC = () => {
+  const { accounts, setActiveAccount } = useWalmartAccount();
+  const disconnected = accounts.filter((account) => account.needs_reconnect);
+
+  if (disconnected.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 space-y-1">
+        {disconnected.map((account) => (
+          <div key={account.id} className="flex items-center justify-between text-sm text-yellow-800">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+              <span>
+                Walmart connection for <strong>{WalmartTokenService.getAccountLabel(account)}</strong> has
+                expired and could not be renewed automatically.
+              </span>
+            </div>
+            <Link
+              to="/dashboard"
+              onClick={() => setActiveAccount(account.seller_id)}
+              className="ml-4 font-medium text-yellow-900 underline hover:text-yellow-700 whitespace-nowrap"
+            >
+              Reconnect
+            </Link>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReconnectAlert;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService } from '../../services/walmartTokenService';
+import { WalmartOAuthService } from '../../services/walmartOAuthService';
+import { WalmartScope, WalmartScopeService } from '../../services/walmartScopeService';
+import { Lock, ExternalLink, AlertCircle } from 'lucide-react';
+
+interface ScopeGateProps {
+  scopes: WalmartScope[];
+  feature: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only when the active account has granted the scopes a
+ * feature needs; otherwise offers to re-run consent with the missing scopes added
+ */
+const ScopeGate: React.FC<ScopeGateProps> = ({ scopes, feature, children }) => {
+  const { activeAccount } = useWalmartAccount();
+  const location = useLocation();
+  const [error, setError] = useState('');
+
+  // Pages handle the no-account case themselves
+  if (!activeAccount) {
+    return <>{children}</>;
+  }
+
+  const missing = WalmartScopeService.getMissing(activeAccount, scopes);
+  if (missing.length === 0) {
+    return <>{children}</>;
+  }
+
+  const upgradePermissions = async () => {
+    setError('');
+
+    try {
+      const authUrl = await WalmartOAuthService.beginAuthorization(WalmartOAuthService.getRedirectUri(), {
+        accountName: activeAccount.account_name,
+        environment: activeAccount.environment,
+        scopes: WalmartScopeService.getUpgradeScopes(activeAccount, missing),
+        returnTo: location.pathname,
+      });
+      window.location.href = authUrl;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to start Walmart authorization');
+    }
+  };
+
+  const missingLabels = missing.map((scope) => WalmartScopeService.getLabel(scope)).join(', ');
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-gray-200 p-12 text-center">
+      <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-yellow-100 mb-4">
+        <Lock className="h-6 w-6 text-yellow-600" />
+      </div>
+      <h2 className="text-lg font-medium text-gray-900 mb-2">{feature} needs more permissions</h2>
+      <p className="text-sm text-gray-500 mb-6 max-w-md mx-auto">
+        {WalmartTokenService.getAccountLabel(activeAccount)} has not granted the {missingLabels}{' '}
+        {missing.length === 1 ? 'permission' : 'permissions'}. Ask Walmart for them to use this page.
+      </p>
+
+      {error && (
+        <div className="mb-4 max-w-md mx-auto bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm flex items-center">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={upgradePermissions}
+        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+      >
+        <ExternalLink className="h-4 w-4 mr-2" />
+        Upgrade Permissions
+      </button>
+    </div>
+  );
+};
+
+export default ScopeGate;
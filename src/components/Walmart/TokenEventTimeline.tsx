@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { WalmartTokenService, WalmartTokenEvent } from '../../services/walmartTokenService';
+import {
+  History,
+  CheckCircle,
+  XCircle,
+  ChevronDown,
+  ChevronRight,
+  RefreshCw
+} from 'lucide-react';
+import { format } from 'date-fns';
+
+interface TokenEventTimelineProps {
+  sellerId?: string;
+  // Changes whenever the connection does, so new events are picked up
+  version?: string;
+}
+
+const eventLabels: Record<WalmartTokenEvent['event_type'], string> = {
+  connect: 'Connected',
+  refresh: 'Token refreshed',
+  disconnect: 'Disconnected',
+};
+
+const failureLabels: Record<WalmartTokenEvent['event_type'], string> = {
+  connect: 'Connection failed',
+  refresh: 'Token refresh failed',
+  disconnect: 'Disconnect failed',
+};
+
+/**
+ * Connection history for one account, for answering "why did my connection drop"
+ */
+const TokenEventTimeline: React.FC<TokenEventTimelineProps> = ({ sellerId, version }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [events, setEvents] = useState<WalmartTokenEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      setEvents(await WalmartTokenService.getTokenEvents(sellerId));
+    } catch {
+      setError('Failed to load connection history');
+    } finally {
+      setLoading(false);
+    }
+  }, [sellerId]);
+
+  useEffect(() => {
+    if (expanded) {
+      loadEvents();
+    }
+  }, [expanded, loadEvents, version]);
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50"
+      >
+        <div className="flex items-center">
+          <History className="h-4 w-4 text-gray-500 mr-2" />
+          <span className="text-sm font-medium text-gray-700">Connection History</span>
+        </div>
+        {expanded ? (
+          <ChevronDown className="h-4 w-4 text-gray-400" />
+        ) : (
+          <ChevronRight className="h-4 w-4 text-gray-400" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-200 px-4 py-3">
+          {loading && events.length === 0 ? (
+            <div className="flex items-center text-sm text-gray-500">
+              <RefreshCw className="animate-spin h-4 w-4 mr-2" />
+              Loading history...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-gray-500">No connection events recorded yet.</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+              {events.map((event) => {
+                const succeeded = event.outcome === 'success';
+                const Icon = succeeded ? CheckCircle : XCircle;
+                return (
+                  <li key={event.id} className="relative ml-4">
+                    <span className="absolute -left-6 top-0.5 flex items-center justify-center h-4 w-4 bg-white">
+                      <Icon className={`h-4 w-4 ${succeeded ? 'text-green-500' : 'text-red-500'}`} />
+                    </span>
+                    <div className="flex flex-wrap items-baseline gap-x-2">
+                      <p className={`text-sm font-medium ${succeeded ? 'text-gray-900' : 'text-red-700'}`}>
+                        {succeeded ? eventLabels[event.event_type] : failureLabels[event.event_type]}
+                      </p>
+                      <span className="text-xs text-gray-500">
+                        {format(new Date(event.created_at), 'MMM d, yyyy HH:mm:ss')}
+                      </span>
+                      <span className="text-xs text-gray-400">
+                        {event.source === 'keeper' ? 'background renewal' : 'from the app'}
+                      </span>
+                    </div>
+                    {event.error && (
+                      <p className="text-xs text-red-600 mt-0.5">
+                        {event.error}
+                        {event.error_code && ` (${event.error_code})`}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-400 font-mono mt-0.5 break-all">
+                      Correlation ID: {event.correlation_id}
+                    </p>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TokenEventTimeline;
@@ -1,26 +1,45 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { WalmartTokenService, WalmartTokenRecord } from '../../services/walmartTokenService';
+import { useWalmartAccount } from '../../hooks/useWalmartAccount';
+import { WalmartTokenService, WalmartTokenRecord, WalmartAuthMode, WalmartEnvironment } from '../../services/walmartTokenService';
+import { WalmartOAuthService } from '../../services/walmartOAuthService';
+import { TokenRefreshCoordinator } from '../../services/tokenRefreshCoordinator';
+import { WALMART_SCOPES, WalmartScope, WalmartScopeService } from '../../services/walmartScopeService';
+import TokenEventTimeline from './TokenEventTimeline';
+import WalmartErrorAlert from './WalmartErrorAlert';
 import { 
   ShoppingCart, 
   CheckCircle, 
-  AlertCircle, 
   RefreshCw,
   Clock,
   Key,
   ExternalLink,
   Wifi,
   WifiOff,
-  Shield
+  Shield,
+  Plus,
+  AlertTriangle
 } from 'lucide-react';
 import { format } from 'date-fns';
 
 const WalmartConnection: React.FC = () => {
   const { user } = useAuth();
+  const { accounts, activeAccount, setActiveAccount, refreshAccounts } = useWalmartAccount();
+  const navigate = useNavigate();
   const [token, setToken] = useState<WalmartTokenRecord | null>(null);
   const [loading, setLoading] = useState(false);
   const [connecting, setConnecting] = useState(false);
-  const [error, setError] = useState('');
+  const [showConnectForm, setShowConnectForm] = useState(false);
+  const [accountName, setAccountName] = useState('');
+  const [connectMode, setConnectMode] = useState<WalmartAuthMode>('authorization_code');
+  const [connectEnvironment, setConnectEnvironment] = useState<WalmartEnvironment>('production');
+  const [requestedScopes, setRequestedScopes] = useState<WalmartScope[]>(WalmartScopeService.all());
+  const [scopeNotice, setScopeNotice] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [credentialsSellerId, setCredentialsSellerId] = useState('');
+  const [error, setError] = useState<unknown>(null);
   const [connectionStatus, setConnectionStatus] = useState<{
     isConnected: boolean;
     isExpiring?: boolean;
@@ -28,35 +47,46 @@ const WalmartConnection: React.FC = () => {
     wasRefreshed?: boolean;
   }>({ isConnected: false });
 
+  const activeSellerId = activeAccount?.seller_id;
+
   useEffect(() => {
-    checkConnectionStatus();
-    
     // Check for authorization code in URL (OAuth callback)
     const urlParams = new URLSearchParams(window.location.search);
-    const code = urlParams.get('code');
-    const state = urlParams.get('state');
-    const error = urlParams.get('error');
-    
-    if (error) {
-      setError(`Authorization failed: ${error}`);
-      // Clean up URL
-      window.history.replaceState({}, document.title, window.location.pathname);
-    } else if (code) {
-      handleAuthorizationCallback(code, state);
+    if (user && WalmartOAuthService.isAuthorizationCallback(urlParams)) {
+      handleAuthorizationCallback(urlParams);
     }
   }, [user]);
 
+  useEffect(() => {
+    checkConnectionStatus();
+  }, [user, activeAccount?.id]);
+
+  // Pick up refreshes made by other tabs or components
+  useEffect(() => {
+    return TokenRefreshCoordinator.subscribe((record) => {
+      setToken((current) => (current?.id === record.id ? record : current));
+    });
+  }, []);
+
   const checkConnectionStatus = async () => {
     if (!user) return;
 
+    if (!activeAccount) {
+      setConnectionStatus({ isConnected: false });
+      setToken(null);
+      return;
+    }
+
     try {
-      setError('');
-      const result = await WalmartTokenService.ensureValidConnection(user.id);
+      setError(null);
+      const result = await WalmartTokenService.ensureValidConnection(activeSellerId);
       
       if (result.error) {
         setError(result.error);
         setConnectionStatus({ isConnected: false });
         setToken(null);
+        // A rejected refresh token flags the account for reconnection
+        await refreshAccounts();
         return;
       }
 
@@ -74,75 +104,148 @@ const WalmartConnection: React.FC = () => {
     } catch (error) {
       console.error('Error checking connection status:', error);
       setConnectionStatus({ isConnected: false });
-      setError('Failed to check connection status');
+      setError(error);
     }
   };
 
-  const handleAuthorizationCallback = async (code: string, state: string | null) => {
+  const handleAuthorizationCallback = async (urlParams: URLSearchParams) => {
     if (!user) return;
-    
+
+    // Clean up URL before anything async so the callback is never handled twice
+    window.history.replaceState({}, document.title, window.location.pathname);
+
     setConnecting(true);
-    setError('');
+    setError(null);
+    setScopeNotice('');
 
     try {
-      const redirectUri = `${window.location.origin}${window.location.pathname}`;
-      const tokenData = await WalmartTokenService.getAccessToken(code, redirectUri);
-      const storedToken = await WalmartTokenService.storeToken(user.id, tokenData);
+      // Throws on a missing, mismatched or expired state before the code is ever sent
+      const callback = WalmartOAuthService.completeAuthorization(urlParams);
+      const storedToken = await WalmartTokenService.connectWithAuthorizationCode(
+        callback.code,
+        callback.redirectUri,
+        callback.codeVerifier,
+        callback.sellerId,
+        callback.accountName,
+        callback.environment
+      );
+
+      await refreshAccounts();
+      setActiveAccount(storedToken.seller_id);
       setToken(storedToken);
       setConnectionStatus({ isConnected: true });
-      
-      // Clean up URL
-      window.history.replaceState({}, document.title, window.location.pathname);
-    } catch (error: any) {
-      setError(error.message || 'Failed to complete Walmart authorization');
+
+      // Sellers can untick permissions on Walmart's consent page
+      const granted = WalmartScopeService.getGranted(storedToken);
+      const declined = callback.requestedScopes.filter((scope) => !granted.includes(scope));
+      if (declined.length > 0) {
+        setScopeNotice(
+          `Walmart did not grant ${declined.map((scope) => WalmartScopeService.getLabel(scope)).join(', ')}. ` +
+          'Pages that need these permissions stay unavailable until you upgrade permissions.'
+        );
+      } else if (callback.returnTo && callback.returnTo !== window.location.pathname) {
+        navigate(callback.returnTo);
+      }
+    } catch (error) {
+      setError(error);
     } finally {
       setConnecting(false);
     }
   };
 
-  const connectToWalmart = async () => {
+  const connectToWalmart = async (
+    name: string | undefined = accountName.trim() || undefined,
+    environment: WalmartEnvironment = connectEnvironment,
+    scopes: WalmartScope[] = requestedScopes
+  ) => {
     if (!user) return;
     
-    setError('');
+    setError(null);
 
     try {
-      const redirectUri = `${window.location.origin}${window.location.pathname}`;
-      const state = crypto.randomUUID(); // Generate random state for security
-      const authUrl = WalmartTokenService.generateAuthorizationUrl(redirectUri, state);
-      
-      // Store state in sessionStorage for validation
-      sessionStorage.setItem('walmart_oauth_state', state);
+      // State, PKCE verifier and account label are kept in sessionStorage until the callback
+      const authUrl = await WalmartOAuthService.beginAuthorization(WalmartOAuthService.getRedirectUri(), {
+        accountName: name,
+        environment,
+        scopes,
+      });
       
       // Redirect to Walmart authorization page
       window.location.href = authUrl;
-    } catch (error: any) {
-      setError(error.message || 'Failed to connect to Walmart');
+    } catch (error) {
+      setError(error);
     }
   };
 
+  const connectWithCredentials = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setConnecting(true);
+    setError(null);
+
+    try {
+      const storedToken = await WalmartTokenService.connectWithClientCredentials(
+        clientId.trim(),
+        clientSecret.trim(),
+        credentialsSellerId.trim(),
+        accountName.trim() || undefined,
+        connectEnvironment
+      );
+
+      // Never keep the secret around in component state
+      setClientSecret('');
+      setShowConnectForm(false);
+      await refreshAccounts();
+      setActiveAccount(storedToken.seller_id);
+      setToken(storedToken);
+      setConnectionStatus({ isConnected: true });
+    } catch (error) {
+      setError(error);
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const reconnect = (account: WalmartTokenRecord) => {
+    if (account.auth_mode !== 'client_credentials') {
+      // Ask again for everything the account had, so reconnecting never loses access
+      connectToWalmart(account.account_name, account.environment, WalmartScopeService.getGranted(account));
+      return;
+    }
+
+    // Credentials cannot be re-consented; ask for the current key pair instead
+    setConnectMode('client_credentials');
+    setClientId(account.client_id ?? '');
+    setClientSecret('');
+    setCredentialsSellerId(account.seller_id ?? '');
+    setAccountName(account.account_name ?? '');
+    setConnectEnvironment(account.environment);
+    setShowConnectForm(true);
+  };
+
   const refreshToken = async (silent: boolean = false) => {
-    if (!user || !token?.refresh_token) return;
+    if (!user || !token || !WalmartTokenService.canRenew(token)) return;
     
     if (!silent) {
       setLoading(true);
-      setError('');
+      setError(null);
     }
 
     try {
-      const newTokenData = await WalmartTokenService.refreshAccessToken(token.refresh_token, token.seller_id);
-      const updatedToken = await WalmartTokenService.storeToken(user.id, newTokenData, token.seller_id);
+      const updatedToken = await WalmartTokenService.refreshAccessToken(token.seller_id);
       setToken(updatedToken);
       setConnectionStatus({ isConnected: true, wasRefreshed: true });
       
       if (!silent) {
         console.log('Token refreshed successfully');
       }
-    } catch (error: any) {
-      const errorMessage = error.message || 'Failed to refresh token';
+    } catch (error) {
       if (!silent) {
-        setError(errorMessage);
+        setError(error);
       }
-      console.error('Token refresh failed:', errorMessage);
+      console.error('Token refresh failed:', error);
+      await refreshAccounts();
     } finally {
       if (!silent) {
         setLoading(false);
@@ -151,11 +254,12 @@ const WalmartConnection: React.FC = () => {
   };
 
   const disconnectWalmart = async () => {
-    if (!user) return;
-    await WalmartTokenService.deleteToken(user.id);
+    if (!user || !token) return;
+    await WalmartTokenService.deleteToken(token.seller_id);
     setToken(null);
     setConnectionStatus({ isConnected: false });
-    setError('');
+    setError(null);
+    await refreshAccounts();
   };
 
   const getConnectionStatusDisplay = () => {
@@ -168,6 +272,15 @@ const WalmartConnection: React.FC = () => {
       };
     }
 
+    if (token?.needs_reconnect) {
+      return {
+        icon: AlertTriangle,
+        text: 'Reconnect Required',
+        color: 'text-yellow-700',
+        bgColor: 'bg-yellow-100'
+      };
+    }
+
     if (connectionStatus.wasRefreshed) {
       return {
         icon: CheckCircle,
@@ -186,8 +299,189 @@ const WalmartConnection: React.FC = () => {
   };
 
   const statusDisplay = getConnectionStatusDisplay();
+  const missingScopes = token ? WalmartScopeService.getMissing(token, WalmartScopeService.all()) : [];
   const StatusIcon = statusDisplay.icon;
 
+  const inputClassName = 'block w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  const connectModeToggle = (
+    <div className="flex justify-center mb-4">
+      <div className="inline-flex rounded-md shadow-sm">
+        {([
+          ['authorization_code', 'Sign in with Walmart'],
+          ['client_credentials', 'Use API Credentials'],
+        ] as const).map(([mode, label], index) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => setConnectMode(mode)}
+            className={`px-4 py-2 text-sm font-medium border border-gray-300 ${
+              index === 0 ? 'rounded-l-md' : '-ml-px rounded-r-md'
+            } ${
+              connectMode === mode
+                ? 'bg-blue-50 text-blue-700 border-blue-300 z-10'
+                : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const credentialsForm = (
+    <form onSubmit={connectWithCredentials} className="flex flex-col items-center gap-2">
+      <input
+        type="text"
+        id="walmart-clientId"
+        value={clientId}
+        onChange={(e) => setClientId(e.target.value)}
+        placeholder="Client ID"
+        required
+        autoComplete="off"
+        className={inputClassName}
+      />
+      <input
+        type="password"
+        id="walmart-clientSecret"
+        value={clientSecret}
+        onChange={(e) => setClientSecret(e.target.value)}
+        placeholder="Client Secret"
+        required
+        autoComplete="new-password"
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        id="walmart-sellerId"
+        value={credentialsSellerId}
+        onChange={(e) => setCredentialsSellerId(e.target.value)}
+        placeholder="Seller ID (Partner ID)"
+        required
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={accountName}
+        onChange={(e) => setAccountName(e.target.value)}
+        placeholder="Account name (optional)"
+        className={inputClassName}
+      />
+      <p className="text-xs text-gray-500 sm:w-64">
+        Find these under API Keys in the Walmart Developer Portal. The secret is stored encrypted
+        and used only to renew your 15-minute access tokens.
+      </p>
+      <button
+        type="submit"
+        disabled={connecting}
+        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {connecting ? (
+          <>
+            <RefreshCw className="animate-spin h-4 w-4 mr-2" />
+            Connecting...
+          </>
+        ) : (
+          <>
+            <Key className="h-4 w-4 mr-2" />
+            Connect with Credentials
+          </>
+        )}
+      </button>
+    </form>
+  );
+
+  const toggleRequestedScope = (scope: WalmartScope) => {
+    setRequestedScopes((current) =>
+      current.includes(scope)
+        ? current.filter((id) => id !== scope)
+        : WalmartScopeService.all().filter((id) => id === scope || current.includes(id))
+    );
+  };
+
+  const scopePicker = (
+    <fieldset className="mb-4 max-w-md mx-auto text-left">
+      <legend className="text-sm font-medium text-gray-700 mb-2">Permissions to request</legend>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {WALMART_SCOPES.map((scope) => (
+          <label key={scope.id} className="flex items-start space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={requestedScopes.includes(scope.id)}
+              onChange={() => toggleRequestedScope(scope.id)}
+              className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span>
+              <span className="font-medium text-gray-900">{scope.label}</span>
+              <span className="block text-xs text-gray-500">{scope.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+
+  const authorizationForm = (
+    <>
+      {scopePicker}
+      <div className="flex flex-col sm:flex-row items-center justify-center gap-2">
+        <input
+          type="text"
+          value={accountName}
+          onChange={(e) => setAccountName(e.target.value)}
+          placeholder="Account name (optional)"
+          className={inputClassName}
+        />
+        <button
+          onClick={() => connectToWalmart()}
+          disabled={connecting || requestedScopes.length === 0}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {connecting ? (
+            <>
+              <RefreshCw className="animate-spin h-4 w-4 mr-2" />
+              Connecting...
+            </>
+          ) : (
+            <>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Connect to Walmart
+            </>
+          )}
+        </button>
+      </div>
+    </>
+  );
+
+  const environments = WalmartTokenService.getEnvironments();
+
+  const environmentSelect = environments.length > 1 && (
+    <div className="flex justify-center items-center gap-2 mb-4">
+      <label htmlFor="walmart-environment" className="text-sm text-gray-600">Environment</label>
+      <select
+        id="walmart-environment"
+        value={connectEnvironment}
+        onChange={(e) => setConnectEnvironment(e.target.value as WalmartEnvironment)}
+        className="block pl-2 pr-8 py-1 text-sm border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+      >
+        {environments.map((environment) => (
+          <option key={environment} value={environment}>
+            {WalmartTokenService.getEnvironmentLabel(environment)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const connectForm = (
+    <>
+      {connectModeToggle}
+      {environmentSelect}
+      {connectMode === 'client_credentials' ? credentialsForm : authorizationForm}
+    </>
+  );
+
   return (
     <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
       <div className="flex items-center justify-between mb-6">
@@ -210,10 +504,20 @@ const WalmartConnection: React.FC = () => {
         </div>
       </div>
 
-      {error && (
-        <div className="mb-4 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm flex items-center">
-          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
-          {error}
+      {error != null && (
+        <WalmartErrorAlert
+          error={error}
+          onRetry={checkConnectionStatus}
+          onReconnect={token ? () => reconnect(token) : undefined}
+          onFixField={(field) => document.getElementById(`walmart-${field}`)?.focus()}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      {scopeNotice && (
+        <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-center">
+          <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {scopeNotice}
         </div>
       )}
 
@@ -235,23 +539,7 @@ const WalmartConnection: React.FC = () => {
           <p className="text-sm text-gray-500 mb-6">
             Connect to Walmart Marketplace to start managing your products and orders.
           </p>
-          <button
-            onClick={connectToWalmart}
-            disabled={connecting}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {connecting ? (
-              <>
-                <RefreshCw className="animate-spin h-4 w-4 mr-2" />
-                Connecting...
-              </>
-            ) : (
-              <>
-                <ExternalLink className="h-4 w-4 mr-2" />
-                Connect to Walmart
-              </>
-            )}
-          </button>
+          {connectForm}
         </div>
       ) : (
         <div className="space-y-4">
@@ -259,7 +547,9 @@ const WalmartConnection: React.FC = () => {
             <div className="flex items-center">
               <CheckCircle className="h-5 w-5 text-green-500 mr-3" />
               <div>
-                <p className="text-sm font-medium text-green-800">Connected to Walmart</p>
+                <p className="text-sm font-medium text-green-800">
+                  Connected to Walmart: {WalmartTokenService.getAccountLabel(token!)}
+                </p>
                 <p className="text-xs text-green-600">
                   Connected on {format(new Date(token!.created_at), 'MMM d, yyyy HH:mm')}
                 </p>
@@ -268,18 +558,53 @@ const WalmartConnection: React.FC = () => {
                     Seller ID: {token.seller_id}
                   </p>
                 )}
+                {token && token.environment !== 'production' && (
+                  <p className="text-xs text-green-600">
+                    Environment: {WalmartTokenService.getEnvironmentLabel(token.environment)}
+                  </p>
+                )}
+                {token?.auth_mode === 'client_credentials' && (
+                  <p className="text-xs text-green-600">
+                    API credentials: {token.client_id}
+                  </p>
+                )}
               </div>
             </div>
           </div>
 
+          {token?.needs_reconnect && (
+            <div className="flex items-center justify-between p-4 bg-yellow-50 rounded-lg border border-yellow-200">
+              <div className="flex items-center">
+                <AlertTriangle className="h-5 w-5 text-yellow-500 mr-3 flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-medium text-yellow-800">
+                    {token.auth_mode === 'client_credentials'
+                      ? "Walmart no longer accepts this account's API credentials"
+                      : "Walmart no longer accepts this account's authorization"}
+                  </p>
+                  {token.last_refresh_error && (
+                    <p className="text-xs text-yellow-700">{token.last_refresh_error}</p>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => reconnect(token)}
+                className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-yellow-600 hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500 whitespace-nowrap"
+              >
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Reconnect
+              </button>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="bg-gray-50 p-4 rounded-lg">
               <div className="flex items-center mb-2">
                 <Shield className="h-4 w-4 text-gray-500 mr-2" />
                 <span className="text-sm font-medium text-gray-700">Access Token</span>
               </div>
-              <p className="text-xs font-mono text-gray-600 break-all">
-                {token!.access_token.substring(0, 20)}... (AES Encrypted)
+              <p className="text-xs text-gray-600">
+                Stored server-side (AES Encrypted)
               </p>
             </div>
 
@@ -293,24 +618,129 @@ const WalmartConnection: React.FC = () => {
                   {format(new Date(token!.expires_at), 'MMM d, yyyy HH:mm')}
                 </p>
               </div>
+              {token?.last_refreshed_at && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Last renewed {format(new Date(token.last_refreshed_at), 'MMM d, yyyy HH:mm')}
+                </p>
+              )}
             </div>
           </div>
 
-          {token?.refresh_token && (
+          {token && (
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center">
+                  <Key className="h-4 w-4 text-gray-500 mr-2" />
+                  <span className="text-sm font-medium text-gray-700">Permissions</span>
+                </div>
+                {missingScopes.length > 0 && token.auth_mode === 'authorization_code' && (
+                  <button
+                    onClick={() => connectToWalmart(
+                      token.account_name,
+                      token.environment,
+                      WalmartScopeService.getUpgradeScopes(token, missingScopes)
+                    )}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-900"
+                  >
+                    Upgrade Permissions
+                  </button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {WalmartScopeService.all().map((scope) => {
+                  const granted = !missingScopes.includes(scope);
+                  return (
+                    <span
+                      key={scope}
+                      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                        granted ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-500 line-through'
+                      }`}
+                    >
+                      {WalmartScopeService.getLabel(scope)}
+                    </span>
+                  );
+                })}
+              </div>
+              {!token.scope && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Walmart did not report scopes for this connection; access is decided by your API key.
+                </p>
+              )}
+            </div>
+          )}
+
+          {token && WalmartTokenService.canRenew(token) && !token.needs_reconnect && (
             <div className="bg-blue-50 p-4 rounded-lg">
               <div className="flex items-center mb-2">
                 <Shield className="h-4 w-4 text-blue-500 mr-2" />
-                <span className="text-sm font-medium text-blue-700">Refresh Token Available</span>
+                <span className="text-sm font-medium text-blue-700">
+                  {token.auth_mode === 'client_credentials' ? 'API Credentials Stored' : 'Refresh Token Available'}
+                </span>
               </div>
               <p className="text-xs text-blue-600">
-                Automatic token refresh is enabled. Your connection will be maintained seamlessly.
+                {token.auth_mode === 'client_credentials'
+                  ? 'A new 15-minute access token is minted from your encrypted credentials before the current one expires.'
+                  : 'Automatic token refresh is enabled. Your connection will be maintained seamlessly.'}
+              </p>
+            </div>
+          )}
+
+          <TokenEventTimeline sellerId={token?.seller_id} version={token?.updated_at} />
+
+          {accounts.length > 1 && (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {accounts.map((account) => (
+                <div key={account.id} className="flex items-center justify-between px-4 py-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {WalmartTokenService.getAccountLabel(account)}
+                      {account.environment !== 'production' && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                          {WalmartTokenService.getEnvironmentLabel(account.environment)}
+                        </span>
+                      )}
+                    </p>
+                    {account.seller_id && (
+                      <p className="text-xs text-gray-500">Seller ID: {account.seller_id}</p>
+                    )}
+                    {account.needs_reconnect && (
+                      <p className="text-xs font-medium text-yellow-700">Reconnect required</p>
+                    )}
+                  </div>
+                  {account.id === activeAccount?.id ? (
+                    <span className="text-xs font-medium text-blue-600">Active</span>
+                  ) : (
+                    <button
+                      onClick={() => setActiveAccount(account.seller_id)}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-900"
+                    >
+                      Switch
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {showConnectForm && (
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-600 mb-3">
+                Sign in with another Walmart seller account, or enter its API credentials, to add it.
               </p>
+              {connectForm}
             </div>
           )}
 
-          <div className="flex justify-end">
+          <div className="flex justify-between">
+            <button
+              onClick={() => setShowConnectForm(!showConnectForm)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Account
+            </button>
             <div className="flex space-x-2">
-              {token?.refresh_token && (
+              {token && WalmartTokenService.canRenew(token) && (
                 <button
                   onClick={() => refreshToken(false)}
                   disabled={loading}
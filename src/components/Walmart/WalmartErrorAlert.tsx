@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { describeWalmartError } from '../../services/walmartErrors';
+import { AlertCircle, RefreshCw, Clock, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface WalmartErrorAlertProps {
+  error: unknown;
+  onRetry?: () => void;
+  // Overrides the default link to the connection page, e.g. to reconnect in place
+  onReconnect?: () => void;
+  // Called with Walmart's field name so the form can focus the matching input
+  onFixField?: (field: string) => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+const linkClass = 'font-medium underline hover:text-red-800 whitespace-nowrap';
+
+/**
+ * Shared presentation of Walmart failures: what went wrong and the recovery that fits it
+ * (reconnect, sign in, grant permissions, fix a field, retry now or retry later)
+ */
+const WalmartErrorAlert: React.FC<WalmartErrorAlertProps> = ({
+  error,
+  onRetry,
+  onReconnect,
+  onFixField,
+  onDismiss,
+  className = 'mb-4',
+}) => {
+  const presentation = describeWalmartError(error);
+  const retryAt = presentation.retryAt?.getTime();
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while throttled so the retry button enables itself when Walmart's bucket refills
+  useEffect(() => {
+    if (!retryAt || retryAt <= Date.now()) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const waiting = retryAt !== undefined && retryAt > now;
+
+  const renderAction = () => {
+    switch (presentation.action) {
+      case 'reconnect':
+        return onReconnect ? (
+          <button onClick={onReconnect} className={linkClass}>Reconnect Walmart</button>
+        ) : (
+          <Link to="/dashboard" className={linkClass}>Reconnect Walmart</Link>
+        );
+      case 'sign_in':
+        return <Link to="/login" className={linkClass}>Sign in again</Link>;
+      case 'upgrade_permissions':
+        return <Link to="/dashboard" className={linkClass}>Review permissions</Link>;
+      case 'fix_field':
+        return onFixField && presentation.field ? (
+          <button onClick={() => onFixField(presentation.field!)} className={linkClass}>
+            Fix {presentation.field}
+          </button>
+        ) : null;
+      case 'retry_later':
+      case 'retry':
+        return onRetry ? (
+          <button
+            onClick={onRetry}
+            disabled={waiting}
+            className={`inline-flex items-center ${linkClass} disabled:no-underline disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Retry
+          </button>
+        ) : null;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className={`${className} bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm`}>
+      <div className="flex items-start">
+        <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-red-700">{presentation.title}</p>
+          <p>{presentation.message}</p>
+          {presentation.action === 'fix_field' && presentation.field && !onFixField && (
+            <p className="mt-1">Check the <span className="font-mono">{presentation.field}</span> field and try again.</p>
+          )}
+          {presentation.action === 'retry_later' && (
+            <p className="mt-1 flex items-center">
+              <Clock className="h-3 w-3 mr-1" />
+              {retryAt
+                ? waiting
+                  ? `Try again after ${format(new Date(retryAt), 'HH:mm:ss')}.`
+                  : 'You can try again now.'
+                : 'Wait a minute before trying again.'}
+            </p>
+          )}
+          {presentation.correlationId && (
+            <p className="mt-1 text-xs text-red-400 font-mono break-all">
+              Correlation ID: {presentation.correlationId}
+            </p>
+          )}
+        </div>
+        <div className="ml-4 flex items-center space-x-3">
+          {renderAction()}
+          {onDismiss && (
+            <button onClick={onDismiss} className="text-red-400 hover:text-red-600" aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WalmartErrorAlert;
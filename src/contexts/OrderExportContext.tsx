@@ -0,0 +1,65 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { OrderExportContext, OrderExportJob } from '../hooks/useOrderExport';
+import { OrderExportOptions, OrderExportService } from '../services/orderExportService';
+import { WalmartTokenRecord } from '../services/walmartTokenService';
+
+/**
+ * Runs order exports outside any one screen, so an export keeps going while the user
+ * moves around the app and downloads itself when it finishes
+ */
+export const OrderExportProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [job, setJob] = useState<OrderExportJob | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const startExport = useCallback((account: WalmartTokenRecord, options: OrderExportOptions) => {
+    if (controllerRef.current) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setJob({ account, options, status: 'running', progress: { orders: 0, totalOrders: null, rows: 0 } });
+
+    OrderExportService.export(
+      account,
+      options,
+      (progress) => setJob((current) => current && { ...current, progress }),
+      controller.signal
+    )
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setJob((current) => current && { ...current, status: 'done', result });
+        OrderExportService.download(result);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        setJob((current) => current && { ...current, status: 'failed', error });
+      })
+      .finally(() => {
+        if (controllerRef.current === controller) controllerRef.current = null;
+      });
+  }, []);
+
+  const cancelExport = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setJob(null);
+  }, []);
+
+  const dismissExport = useCallback(() => {
+    if (!controllerRef.current) setJob(null);
+  }, []);
+
+  // Another user signing in must not receive this user's orders
+  const userId = user?.id;
+  useEffect(() => cancelExport, [userId, cancelExport]);
+
+  const value = {
+    job,
+    startExport,
+    cancelExport,
+    dismissExport,
+  };
+
+  return <OrderExportContext.Provider value={value}>{children}</OrderExportContext.Provider>;
+};
@@ -0,0 +1,71 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { WalmartAccountContext } from '../hooks/useWalmartAccount';
+import { WalmartTokenService, WalmartTokenRecord } from '../services/walmartTokenService';
+import { TokenRefreshCoordinator } from '../services/tokenRefreshCoordinator';
+
+const activeAccountStorageKey = (userId: string) => `walmart_active_account:${userId}`;
+
+export const WalmartAccountProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [accounts, setAccounts] = useState<WalmartTokenRecord[]>([]);
+  const [activeSellerId, setActiveSellerId] = useState<string | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+
+  const refreshAccounts = useCallback(async () => {
+    if (!user) {
+      setAccounts([]);
+      setLoading(false);
+      return [];
+    }
+
+    try {
+      const connected = await WalmartTokenService.listAccounts();
+      setAccounts(connected);
+      return connected;
+    } catch (error) {
+      console.error('Error loading Walmart accounts:', error);
+      setAccounts([]);
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    setActiveSellerId(user ? localStorage.getItem(activeAccountStorageKey(user.id)) ?? undefined : undefined);
+    refreshAccounts();
+  }, [user, refreshAccounts]);
+
+  // Keep expiry details current when any tab refreshes a token
+  useEffect(() => {
+    return TokenRefreshCoordinator.subscribe((record) => {
+      setAccounts((current) => current.map((account) => (account.id === record.id ? record : account)));
+    });
+  }, []);
+
+  const setActiveAccount = (sellerId: string | undefined) => {
+    setActiveSellerId(sellerId);
+    if (!user) return;
+
+    if (sellerId) {
+      localStorage.setItem(activeAccountStorageKey(user.id), sellerId);
+    } else {
+      localStorage.removeItem(activeAccountStorageKey(user.id));
+    }
+  };
+
+  // Fall back to the first connected account when the remembered one is gone
+  const activeAccount = accounts.find((account) => account.seller_id === activeSellerId) ?? accounts[0] ?? null;
+
+  const value = {
+    accounts,
+    activeAccount,
+    loading,
+    setActiveAccount,
+    refreshAccounts,
+  };
+
+  return <WalmartAccountContext.Provider value={value}>{children}</WalmartAccountContext.Provider>;
+};
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { InventoryFeed, InventoryFeedService } from '../services/inventoryFeedService';
+import { WalmartTokenRecord } from '../services/walmartTokenService';
+
+// Ask Walmart about feeds still processing this often while the component is mounted
+const POLL_INTERVAL_MS = 10_000;
+
+/**
+ * The account's recent inventory feeds. While any is still processing, Walmart is polled
+ * until it finishes; `onSettled` is called when a poll finds feeds finished, as their
+ * rows then carry Walmart's results.
+ */
+export function useInventoryFeeds(account: WalmartTokenRecord | null, onSettled: () => void) {
+  const [feeds, setFeeds] = useState<InventoryFeed[]>([]);
+  const callbackRef = useRef(onSettled);
+  callbackRef.current = onSettled;
+
+  const reload = useCallback(async () => {
+    if (!account) {
+      setFeeds([]);
+      return;
+    }
+    try {
+      setFeeds(await InventoryFeedService.list(account));
+    } catch (error) {
+      console.error('Error loading inventory feeds:', error);
+    }
+  }, [account]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const processing = feeds.some((feed) => InventoryFeedService.isOpen(feed));
+
+  useEffect(() => {
+    if (!account || !processing) return;
+
+    let polling = false;
+    const timer = setInterval(async () => {
+      // A poll reading many per-SKU results can outlast the interval
+      if (polling) return;
+      polling = true;
+      try {
+        const polled = await InventoryFeedService.poll(account);
+        if (polled.some((feed) => !InventoryFeedService.isOpen(feed))) callbackRef.current();
+        await reload();
+      } catch (error) {
+        console.error('Error polling inventory feeds:', error);
+      } finally {
+        polling = false;
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [account, processing, reload]);
+
+  return { feeds, processing, reload };
+}
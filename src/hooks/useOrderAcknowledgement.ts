@@ -0,0 +1,98 @@
+import { useCallback, useRef, useState } from 'react';
+import { OrderService } from '../services/orderService';
+import { WalmartTokenRecord } from '../services/walmartTokenService';
+import { WalmartRateLimitError, toWalmartError } from '../services/walmartErrors';
+import { Order } from '../types';
+
+// Attempts per order before it is reported as failed
+export const ACKNOWLEDGE_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Longest wait for Walmart's rate-limit bucket before retrying
+const MAX_RETRY_DELAY_MS = 30_000;
+// Failures that every remaining order would hit too
+const BATCH_STOPPING_KINDS = ['auth', 'session', 'permission'];
+
+interface AcknowledgementProgress {
+  total: number;
+  done: number;
+  // Order currently waiting to be tried again, and which attempt comes next
+  retrying: { purchaseOrderId: string; attempt: number } | null;
+}
+
+function retryDelay(error: unknown, attempt: number): number | null {
+  const walmartError = toWalmartError(error);
+  if (!['rate_limit', 'server', 'network'].includes(walmartError.kind)) return null;
+
+  const retryAt = walmartError instanceof WalmartRateLimitError ? walmartError.retryAt?.getTime() : undefined;
+  const delay = retryAt !== undefined ? retryAt - Date.now() : RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, delay));
+}
+
+/**
+ * Acknowledge orders one after another, retrying throttled and transient failures.
+ * Statuses Walmart reports back are kept in `statuses` so the list can show them
+ * without reloading; orders that still fail are kept in `failures` for a manual retry.
+ */
+export function useOrderAcknowledgement(account: WalmartTokenRecord | null) {
+  const [progress, setProgress] = useState<AcknowledgementProgress | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, Order['status']>>({});
+  const [failures, setFailures] = useState<Record<string, unknown>>({});
+  const runningRef = useRef(false);
+
+  const acknowledgeOne = useCallback(async (purchaseOrderId: string) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await OrderService.acknowledge(account!, purchaseOrderId);
+      } catch (error) {
+        const delay = attempt < ACKNOWLEDGE_MAX_ATTEMPTS ? retryDelay(error, attempt) : null;
+        if (delay === null) throw error;
+
+        setProgress((current) => current && { ...current, retrying: { purchaseOrderId, attempt: attempt + 1 } });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        setProgress((current) => current && { ...current, retrying: null });
+      }
+    }
+  }, [account]);
+
+  const acknowledge = useCallback(async (purchaseOrderIds: string[]) => {
+    if (!account || runningRef.current || purchaseOrderIds.length === 0) return;
+
+    runningRef.current = true;
+    setProgress({ total: purchaseOrderIds.length, done: 0, retrying: null });
+    setFailures((current) => {
+      const remaining = { ...current };
+      purchaseOrderIds.forEach((id) => delete remaining[id]);
+      return remaining;
+    });
+
+    try {
+      for (const [index, purchaseOrderId] of purchaseOrderIds.entries()) {
+        try {
+          const status = await acknowledgeOne(purchaseOrderId);
+          setStatuses((current) => ({ ...current, [purchaseOrderId]: status }));
+        } catch (error) {
+          if (BATCH_STOPPING_KINDS.includes(toWalmartError(error).kind)) {
+            const skipped = Object.fromEntries(purchaseOrderIds.slice(index).map((id) => [id, error]));
+            setFailures((current) => ({ ...current, ...skipped }));
+            break;
+          }
+          setFailures((current) => ({ ...current, [purchaseOrderId]: error }));
+        }
+        setProgress((current) => current && { ...current, done: current.done + 1 });
+      }
+    } finally {
+      runningRef.current = false;
+      setProgress(null);
+    }
+  }, [account, acknowledgeOne]);
+
+  return {
+    acknowledge,
+    retryFailed: () => acknowledge(Object.keys(failures)),
+    dismissFailures: () => setFailures({}),
+    // Set while a batch runs
+    progress,
+    statuses,
+    failures,
+  };
+}
@@ -0,0 +1,34 @@
+import { createContext, useContext } from 'react';
+import { OrderExportOptions, OrderExportProgress, OrderExportResult } from '../services/orderExportService';
+import { WalmartTokenRecord } from '../services/walmartTokenService';
+
+export interface OrderExportJob {
+  account: WalmartTokenRecord;
+  options: OrderExportOptions;
+  status: 'running' | 'done' | 'failed';
+  progress: OrderExportProgress;
+  result?: OrderExportResult;
+  error?: unknown;
+}
+
+interface OrderExportContextType {
+  job: OrderExportJob | null;
+  // Ignored while another export is running
+  startExport: (account: WalmartTokenRecord, options: OrderExportOptions) => void;
+  cancelExport: () => void;
+  dismissExport: () => void;
+}
+
+// Provided by OrderExportProvider in contexts/OrderExportContext.tsx
+export const OrderExportContext = createContext<OrderExportContextType | undefined>(undefined);
+
+/**
+ * The app-wide order export: the job in progress or just finished, and the actions on it
+ */
+export function useOrderExport(): OrderExportContextType {
+  const context = useContext(OrderExportContext);
+  if (context === undefined) {
+    throw new Error('useOrderExport must be used within an OrderExportProvider');
+  }
+  return context;
+}
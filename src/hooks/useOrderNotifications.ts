@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react';
+import { NotificationService, OrderNotification } from '../services/notificationService';
+import { WalmartTokenRecord } from '../services/walmartTokenService';
+
+/**
+ * Call back as Walmart order notifications for the account arrive, while the component
+ * is mounted. Only events the receiver processed are passed on: those are the ones that
+ * changed an order.
+ */
+export function useOrderNotifications(
+  account: WalmartTokenRecord | null,
+  onNotification: (notification: OrderNotification) => void
+) {
+  const callbackRef = useRef(onNotification);
+  callbackRef.current = onNotification;
+
+  useEffect(() => {
+    if (!account) return;
+    return NotificationService.watch(account, (notification) => {
+      if (notification.status === 'processed') callbackRef.current(notification);
+    });
+  }, [account]);
+}
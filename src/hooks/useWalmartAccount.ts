@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import { WalmartTokenRecord } from '../services/walmartTokenService';
+
+interface WalmartAccountContextType {
+  accounts: WalmartTokenRecord[];
+  activeAccount: WalmartTokenRecord | null;
+  loading: boolean;
+  setActiveAccount: (sellerId: string | undefined) => void;
+  refreshAccounts: () => Promise<WalmartTokenRecord[]>;
+}
+
+// Provided by WalmartAccountProvider in contexts/WalmartAccountContext.tsx
+export const WalmartAccountContext = createContext<WalmartAccountContextType | undefined>(undefined);
+
+/**
+ * The signed-in user's connected Walmart accounts and the one the app is working with
+ */
+export function useWalmartAccount(): WalmartAccountContextType {
+  const context = useContext(WalmartAccountContext);
+  if (context === undefined) {
+    throw new Error('useWalmartAccount must be used within a WalmartAccountProvider');
+  }
+  return context;
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { WalmartPage } from '../services/walmartApiClient';
+
+type PageIterator<T> = AsyncGenerator<WalmartPage<T>, void, undefined>;
+
+/**
+ * Start a page iterator, from the beginning or from the cursor of a page already read
+ */
+export type OpenPages<T> = (cursor: string | null) => PageIterator<T>;
+
+interface PageState<T> {
+  pages: T[][];
+  // Cursor after each loaded page; the last one is where loading resumes
+  cursors: (string | null)[];
+  totalCount: number | null;
+}
+
+const emptyState = { pages: [], cursors: [], totalCount: null };
+
+/**
+ * Show a Walmart list one page at a time. Pages are fetched from the server only when
+ * the user moves past the last one loaded; earlier pages are kept for going back.
+ * Pass `null` while there is nothing to list (no connected account). Changing
+ * `resetKey` (e.g. the serialized filters) starts over from the first page.
+ */
+export function useWalmartPages<T>(open: OpenPages<T> | null, resetKey: string) {
+  const [state, setState] = useState<PageState<T>>(emptyState);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [loading, setLoading] = useState(open !== null);
+  const [error, setError] = useState<unknown>(null);
+  const iteratorRef = useRef<PageIterator<T> | null>(null);
+  const openRef = useRef(open);
+  openRef.current = open;
+
+  /**
+   * Pull the next page from the iterator. Results from an iterator that has since
+   * been replaced (filters changed mid-request) are dropped. A `fresh` page replaces
+   * every page loaded so far.
+   */
+  const loadNext = useCallback(async (iterator: PageIterator<T>, fresh: boolean = false): Promise<boolean> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await iterator.next();
+      if (iteratorRef.current !== iterator || result.done) return false;
+
+      const page = result.value;
+      setState((current) => ({
+        pages: [...(fresh ? [] : current.pages), page.items],
+        cursors: [...(fresh ? [] : current.cursors), page.nextCursor],
+        totalCount: page.totalCount,
+      }));
+      if (fresh) setPageIndex(0);
+      return true;
+    } catch (error) {
+      if (iteratorRef.current === iterator) setError(error);
+      return false;
+    } finally {
+      if (iteratorRef.current === iterator) setLoading(false);
+    }
+  }, []);
+
+  const replaceIterator = useCallback((iterator: PageIterator<T> | null) => {
+    iteratorRef.current?.return();
+    iteratorRef.current = iterator;
+    return iterator;
+  }, []);
+
+  const reload = useCallback(() => {
+    setState(emptyState);
+    setPageIndex(0);
+    setError(null);
+
+    const iterator = replaceIterator(openRef.current?.(null) ?? null);
+    if (iterator) {
+      loadNext(iterator);
+    } else {
+      setLoading(false);
+    }
+  }, [loadNext, replaceIterator]);
+
+  /**
+   * Start over from the first page like reload, but keep showing what is loaded until
+   * the new first page arrives, for updating a list in place
+   */
+  const refresh = useCallback(() => {
+    const iterator = replaceIterator(openRef.current?.(null) ?? null);
+    if (iterator) loadNext(iterator, true);
+  }, [loadNext, replaceIterator]);
+
+  useEffect(() => {
+    reload();
+    return () => {
+      replaceIterator(null);
+    };
+  }, [resetKey, reload, replaceIterator]);
+
+  const lastCursor = state.cursors[state.cursors.length - 1];
+  const exhausted = state.pages.length > 0 && lastCursor === null;
+
+  const next = async () => {
+    if (pageIndex + 1 < state.pages.length) {
+      setPageIndex(pageIndex + 1);
+      return;
+    }
+    if (exhausted || loading || !iteratorRef.current) return;
+
+    if (await loadNext(iteratorRef.current)) {
+      setPageIndex(pageIndex + 1);
+    }
+  };
+
+  const previous = () => setPageIndex(Math.max(0, pageIndex - 1));
+
+  /**
+   * A failed request ends its iterator, so pick up again from the last good page
+   */
+  const retry = async () => {
+    if (state.pages.length === 0) {
+      reload();
+      return;
+    }
+
+    const iterator = replaceIterator(openRef.current?.(lastCursor ?? null) ?? null);
+    if (iterator && await loadNext(iterator)) {
+      setPageIndex(state.pages.length);
+    }
+  };
+
+  return {
+    items: state.pages[pageIndex] ?? [],
+    // Everything fetched so far, for summaries over the loaded part of the list
+    loadedItems: state.pages.flat(),
+    pageIndex,
+    loadedPages: state.pages.length,
+    totalCount: state.totalCount,
+    hasPrevious: pageIndex > 0,
+    hasNext: pageIndex + 1 < state.pages.length || (state.pages.length > 0 && !exhausted),
+    loading,
+    // True until the first page arrives
+    initialLoading: loading && state.pages.length === 0,
+    error,
+    next,
+    previous,
+    retry,
+    reload,
+    refresh,
+  };
+}
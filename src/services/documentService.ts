@@ -0,0 +1,182 @@
+import { supabase } from '../lib/supabase';
+import { InventoryItem, Order } from '../types';
+import { OrderDetail, OrderLine, OrderService } from './orderService';
+import { WalmartInventoryService } from './walmartInventoryService';
+import { WalmartTokenRecord } from './walmartTokenService';
+import { scopeToSeller } from './sellerScope';
+
+// Largest logo accepted for upload; it is stored inline as a data: URL
+export const MAX_LOGO_BYTES = 500 * 1024;
+
+// Pick list group for SKUs Walmart reports no stock node for
+export const UNKNOWN_LOCATION = 'Location unknown';
+
+/**
+ * How packing slips and pick lists are branded for an account
+ */
+export interface DocumentSettings {
+  companyName?: string;
+  logoUrl?: string;
+  returnAddress?: Order['shippingAddress'];
+  packingSlipNote?: string;
+}
+
+interface DocumentSettingsRow {
+  company_name: string | null;
+  logo_url: string | null;
+  return_address: Order['shippingAddress'] | null;
+  packing_slip_note: string | null;
+}
+
+/**
+ * One SKU to pick from one location, summed over the selected orders
+ */
+export interface PickListEntry {
+  sku: string;
+  productName: string;
+  quantity: number;
+  // Units per order, for splitting the pick at the packing bench
+  orders: { purchaseOrderId: string; quantity: number }[];
+}
+
+export interface PickList {
+  // Sorted by location, then SKU
+  locations: { location: string; entries: PickListEntry[] }[];
+  totalUnits: number;
+  orderCount: number;
+}
+
+export class DocumentService {
+  /**
+   * The account's document settings; empty until they are first saved
+   */
+  static async getSettings(account: WalmartTokenRecord): Promise<DocumentSettings> {
+    const query = supabase
+      .from('document_settings')
+      .select('company_name, logo_url, return_address, packing_slip_note');
+
+    const { data, error } = await scopeToSeller(query, account.seller_id).maybeSingle();
+
+    if (error) throw error;
+    const row = data as DocumentSettingsRow | null;
+    return {
+      companyName: row?.company_name ?? undefined,
+      logoUrl: row?.logo_url ?? undefined,
+      returnAddress: row?.return_address ?? undefined,
+      packingSlipNote: row?.packing_slip_note ?? undefined,
+    };
+  }
+
+  static async saveSettings(account: WalmartTokenRecord, settings: DocumentSettings): Promise<void> {
+    const { error } = await supabase
+      .from('document_settings')
+      .upsert(
+        {
+          user_id: account.user_id,
+          walmart_seller_id: account.seller_id ?? null,
+          company_name: settings.companyName || null,
+          logo_url: settings.logoUrl || null,
+          return_address: settings.returnAddress ?? null,
+          packing_slip_note: settings.packingSlipNote || null,
+        },
+        { onConflict: 'user_id,walmart_seller_id' }
+      );
+
+    if (error) throw error;
+  }
+
+  /**
+   * Read an uploaded logo into a data: URL, rejecting files that are not images or too large
+   */
+  static readLogo(file: File): Promise<string> {
+    if (!file.type.startsWith('image/')) {
+      return Promise.reject(new Error('The logo must be an image file'));
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      return Promise.reject(new Error(`The logo must be ${MAX_LOGO_BYTES / 1024} kB or smaller`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error ?? new Error('Could not read the logo'));
+      reader.readAsDataURL(file);
+    });
+  }
+
+  /**
+   * Units of a line that go in the box: everything ordered except cancelled units
+   */
+  static getPackedQuantity(line: OrderLine): number {
+    const cancelled = line.statuses
+      .filter((entry) => entry.status === 'Cancelled')
+      .reduce((sum, entry) => sum + Number(entry.statusQuantity.amount), 0);
+    return Math.max(0, line.quantity - cancelled);
+  }
+
+  /**
+   * Where each SKU is stocked, from Walmart's inventory API. Stops at the first failure
+   * (usually a missing inventory permission) and reports it; SKUs not read by then have
+   * no locations.
+   */
+  static async getStockLocations(
+    account: WalmartTokenRecord,
+    skus: string[]
+  ): Promise<{ locations: Map<string, InventoryItem[]>; error: unknown }> {
+    const locations = new Map<string, InventoryItem[]>();
+
+    for (const sku of new Set(skus)) {
+      const pages = WalmartInventoryService.pages(account, { sku });
+      try {
+        const { value } = await pages.next();
+        const inventory = value?.items.find((candidate) => candidate.sku === sku);
+        locations.set(sku, inventory ? WalmartInventoryService.toInventoryItems(inventory) : []);
+      } catch (error) {
+        return { locations, error };
+      } finally {
+        await pages.return();
+      }
+    }
+
+    return { locations, error: null };
+  }
+
+  /**
+   * Consolidate the units still to ship on the orders into one pick per SKU and location.
+   * A SKU is picked from the location holding the most sellable stock.
+   */
+  static buildPickList(orders: OrderDetail[], locations: Map<string, InventoryItem[]>): PickList {
+    const byLocation = new Map<string, Map<string, PickListEntry>>();
+    let totalUnits = 0;
+
+    orders.forEach((order) => {
+      order.items.forEach((line) => {
+        const quantity = OrderService.getOpenQuantity(line);
+        if (quantity === 0) return;
+
+        const stock = [...(locations.get(line.sku) ?? [])]
+          .sort((a, b) => b.availableQuantity - a.availableQuantity)[0];
+        const location = stock?.location ?? UNKNOWN_LOCATION;
+
+        const entries = byLocation.get(location) ?? new Map<string, PickListEntry>();
+        const entry = entries.get(line.sku) ?? { sku: line.sku, productName: line.productName, quantity: 0, orders: [] };
+        entry.quantity += quantity;
+        entry.orders.push({ purchaseOrderId: order.purchaseOrderId, quantity });
+        entries.set(line.sku, entry);
+        byLocation.set(location, entries);
+        totalUnits += quantity;
+      });
+    });
+
+    return {
+      locations: [...byLocation.entries()]
+        .sort(([a], [b]) => (a === UNKNOWN_LOCATION ? 1 : b === UNKNOWN_LOCATION ? -1 : a.localeCompare(b)))
+        .map(([location, entries]) => ({
+          location,
+          entries: [...entries.values()].sort((a, b) => a.sku.localeCompare(b.sku)),
+        })),
+      totalUnits,
+      orderCount: orders.length,
+    };
+  }
+}
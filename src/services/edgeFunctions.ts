@@ -0,0 +1,25 @@
+import { supabase } from '../lib/supabase';
+import { WalmartNetworkError, createWalmartError } from './walmartErrors';
+
+/**
+ * Invoke one of the Walmart Edge Functions on behalf of the signed-in user. The functions
+ * answer failures with { error, code, field, correlationId } JSON; that is surfaced as the
+ * matching WalmartApiError instead of the generic HTTP error.
+ */
+export async function invokeEdgeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    const response = error.context instanceof Response ? error.context : null;
+    const details = await response?.json().catch(() => null);
+    if (!response) {
+      throw new WalmartNetworkError(error.message, { status: 0 });
+    }
+    throw createWalmartError(response.status, details, {
+      correlationId: details?.correlationId,
+      fallbackMessage: error.message,
+    });
+  }
+
+  return data as T;
+}
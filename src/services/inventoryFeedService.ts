@@ -0,0 +1,251 @@
+import { supabase } from '../lib/supabase';
+import { WalmartTokenRecord } from './walmartTokenService';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { scopeToSeller } from './sellerScope';
+
+// Supabase Edge Function that submits inventory feeds to Walmart and polls them
+const INVENTORY_FEEDS_FUNCTION = 'walmart-inventory-feeds';
+
+// Walmart's feed status; received and in_progress feeds are still being processed. A pending
+// feed is being uploaded and has no Walmart feed ID yet.
+export type InventoryFeedStatus = 'pending' | 'received' | 'in_progress' | 'processed' | 'error';
+
+// Bulk edit on the Inventory screen, or a CSV upload
+export type InventoryFeedSource = 'grid' | 'csv';
+
+/**
+ * An inventory feed submitted to Walmart, as tracked by the feeds function
+ */
+export interface InventoryFeed {
+  id: string;
+  feedId?: string;
+  source: InventoryFeedSource;
+  status: InventoryFeedStatus;
+  // SKUs in the feed, and how many Walmart took or rejected once processed
+  itemCount: number;
+  itemsSucceeded: number;
+  itemsFailed: number;
+  lastError?: string;
+  submittedAt: string;
+  processedAt?: string;
+}
+
+export interface InventoryFeedUpdate {
+  sku: string;
+  // May be left out for SKUs stocked at a single ship node
+  shipNode?: string;
+  quantity: number;
+}
+
+/**
+ * An update the feeds function did not send, by its position in the submitted list
+ */
+export interface InventoryFeedRejection {
+  index: number;
+  sku: string;
+  shipNode: string | null;
+  reason: string;
+}
+
+export interface InventoryFeedSubmission {
+  feeds: InventoryFeed[];
+  // Rows sent in the feeds
+  submitted: number;
+  // Updates that matched the quantity Walmart already has
+  unchanged: number;
+  rejected: InventoryFeedRejection[];
+}
+
+/**
+ * Updates read from a CSV file. `lines` holds the file line of each update, for reporting
+ * rejections against the file.
+ */
+export interface InventoryCsv {
+  updates: InventoryFeedUpdate[];
+  lines: number[];
+  errors: { line: number; message: string }[];
+}
+
+interface InventoryFeedRow {
+  id: string;
+  feed_id: string | null;
+  source: InventoryFeedSource;
+  status: InventoryFeedStatus;
+  item_count: number;
+  items_succeeded: number;
+  items_failed: number;
+  last_error: string | null;
+  submitted_at: string;
+  processed_at: string | null;
+}
+
+const FEED_COLUMNS = 'id, feed_id, source, status, item_count, items_succeeded, items_failed, last_error, submitted_at, processed_at';
+
+// Column names accepted in a CSV header, matched case-insensitively
+const CSV_COLUMNS = {
+  sku: ['sku'],
+  shipNode: ['ship_node', 'ship node', 'shipnode'],
+  quantity: ['quantity', 'qty', 'input qty'],
+};
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may hold commas, quotes and
+ * line breaks). Returns each row with the file line it starts on.
+ */
+function parseCsvRows(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim() !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Bulk inventory updates through Walmart inventory feeds
+ */
+export class InventoryFeedService {
+  private static toFeed(row: InventoryFeedRow): InventoryFeed {
+    return {
+      id: row.id,
+      feedId: row.feed_id ?? undefined,
+      source: row.source,
+      status: row.status,
+      itemCount: row.item_count,
+      itemsSucceeded: row.items_succeeded,
+      itemsFailed: row.items_failed,
+      lastError: row.last_error ?? undefined,
+      submittedAt: row.submitted_at,
+      processedAt: row.processed_at ?? undefined,
+    };
+  }
+
+  static isOpen(feed: InventoryFeed): boolean {
+    return feed.status === 'received' || feed.status === 'in_progress';
+  }
+
+  /**
+   * Submit quantities as inventory feeds. Large submissions are split into several feeds;
+   * updates that cannot be sent come back as rejections.
+   */
+  static async submit(
+    account: WalmartTokenRecord,
+    source: InventoryFeedSource,
+    updates: InventoryFeedUpdate[]
+  ): Promise<InventoryFeedSubmission> {
+    const result = await invokeEdgeFunction<Omit<InventoryFeedSubmission, 'feeds'> & { feeds: InventoryFeedRow[] }>(INVENTORY_FEEDS_FUNCTION, {
+      action: 'submit',
+      sellerId: account.seller_id,
+      source,
+      updates,
+    });
+    return { ...result, feeds: result.feeds.map((feed) => this.toFeed(feed)) };
+  }
+
+  /**
+   * Ask Walmart about the account's feeds still processing; returns them as they are now
+   */
+  static async poll(account: WalmartTokenRecord): Promise<InventoryFeed[]> {
+    const { feeds } = await invokeEdgeFunction<{ feeds: InventoryFeedRow[] }>(INVENTORY_FEEDS_FUNCTION, {
+      action: 'poll',
+      sellerId: account.seller_id,
+    });
+    return feeds.map((feed) => this.toFeed(feed));
+  }
+
+  /**
+   * The account's most recent feeds, newest first
+   */
+  static async list(account: WalmartTokenRecord, limit: number = 10): Promise<InventoryFeed[]> {
+    const query = supabase
+      .from('walmart_inventory_feeds')
+      .select(FEED_COLUMNS);
+
+    const { data, error } = await scopeToSeller(query, account.seller_id)
+      .order('submitted_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data as InventoryFeedRow[]).map((row) => this.toFeed(row));
+  }
+
+  /**
+   * Read updates from a CSV file with a header row naming `sku`, `quantity` and, for SKUs
+   * stocked at several ship nodes, `ship_node`. Rows that cannot be read are reported by
+   * line and left out.
+   */
+  static parseCsv(text: string): InventoryCsv {
+    const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    const result: InventoryCsv = { updates: [], lines: [], errors: [] };
+    if (!header) {
+      result.errors.push({ line: 1, message: 'The file is empty' });
+      return result;
+    }
+
+    const names = header.cells.map((cell) => cell.trim().toLowerCase());
+    const column = (aliases: string[]) => names.findIndex((name) => aliases.includes(name));
+    const skuColumn = column(CSV_COLUMNS.sku);
+    const shipNodeColumn = column(CSV_COLUMNS.shipNode);
+    const quantityColumn = column(CSV_COLUMNS.quantity);
+
+    if (skuColumn === -1 || quantityColumn === -1) {
+      result.errors.push({ line: header.line, message: 'The header row must name a sku and a quantity column' });
+      return result;
+    }
+
+    rows.forEach(({ line, cells }) => {
+      const sku = (cells[skuColumn] ?? '').trim();
+      const shipNode = shipNodeColumn === -1 ? '' : (cells[shipNodeColumn] ?? '').trim();
+      const quantityText = (cells[quantityColumn] ?? '').trim();
+      const quantity = Number(quantityText);
+
+      if (!sku) {
+        result.errors.push({ line, message: 'SKU is missing' });
+      } else if (!/^\d+$/.test(quantityText) || !Number.isSafeInteger(quantity)) {
+        result.errors.push({ line, message: `Quantity "${quantityText}" is not a whole number of units` });
+      } else {
+        result.updates.push({ sku, shipNode: shipNode || undefined, quantity });
+        result.lines.push(line);
+      }
+    });
+
+    return result;
+  }
+}
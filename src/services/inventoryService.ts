@@ -0,0 +1,258 @@
+import { supabase } from '../lib/supabase';
+import { InventoryItem } from '../types';
+import { WalmartPage } from './walmartApiClient';
+import { LOW_STOCK_THRESHOLD } from './walmartInventoryService';
+import { WalmartTokenRecord } from './walmartTokenService';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { scopeToSeller } from './sellerScope';
+
+// Supabase Edge Function that keeps the inventory table and Walmart in step
+const INVENTORY_SYNC_FUNCTION = 'walmart-inventory-sync';
+
+/**
+ * Where a SKU's quantity stands against Walmart's: `pending` is an edit not pushed yet,
+ * `conflict` means the quantity changed both in the app and at Walmart since they last
+ * agreed, and `failed` means Walmart rejected the push
+ */
+export type InventorySyncStatus = 'synced' | 'pending' | 'conflict' | 'failed';
+
+/**
+ * A SKU's stock at one ship node as stored by the inventory sync. `totalQuantity` is the
+ * quantity set in the app, which Walmart is brought in line with.
+ */
+export interface StoredInventoryItem extends InventoryItem {
+  shipNode: string;
+  syncStatus: InventorySyncStatus;
+  // Walmart's quantity when last read, and the one the app's quantity was last in step with
+  walmartQuantity: number;
+  baseQuantity: number;
+  syncError?: string;
+  // Set while an inventory feed is carrying the quantity to Walmart
+  feedId?: string;
+}
+
+/**
+ * Progress of an account's inventory sync, written by the sync function
+ */
+export interface InventorySyncState {
+  lease_until?: string;
+  last_started_at?: string;
+  last_completed_at?: string;
+  last_error?: string;
+  last_pulled_count: number;
+  last_pushed_count: number;
+  last_conflict_count: number;
+  // Set while the catalog is read over several syncs: where the next one resumes
+  next_cursor?: string;
+}
+
+export interface InventorySyncResult {
+  seller_id?: string;
+  correlation_id: string;
+  // 'skipped' when another sync of the account was already running
+  status: 'synced' | 'skipped';
+  pulled: number;
+  // Walmart has more pages; another sync resumes from them
+  has_more: boolean;
+  pushed: number;
+  conflicts: number;
+  push_failed: number;
+}
+
+export interface InventoryListFilters {
+  // Matched against the start of the SKU
+  sku?: string;
+  status?: InventoryItem['status'];
+  syncStatus?: InventorySyncStatus;
+  limit?: number;
+}
+
+interface InventoryRow {
+  id: string;
+  sku: string;
+  ship_node: string;
+  quantity: number;
+  walmart_quantity: number;
+  base_quantity: number;
+  available_quantity: number;
+  reserved_quantity: number;
+  sync_status: InventorySyncStatus;
+  last_error: string | null;
+  walmart_synced_at: string;
+  local_updated_at: string | null;
+  feed_id: string | null;
+}
+
+const INVENTORY_COLUMNS = [
+  'id',
+  'sku',
+  'ship_node',
+  'quantity',
+  'walmart_quantity',
+  'base_quantity',
+  'available_quantity',
+  'reserved_quantity',
+  'sync_status',
+  'last_error',
+  'walmart_synced_at',
+  'local_updated_at',
+  'feed_id',
+].join(', ');
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Inventory stored in Supabase by the inventory sync, and edits to it
+ */
+export class InventoryService {
+  /**
+   * Page through the account's synced inventory by SKU. The cursor is the offset of the
+   * next page.
+   */
+  static async *pages(
+    account: WalmartTokenRecord,
+    filters: InventoryListFilters = {},
+    cursor?: string | null
+  ): AsyncGenerator<WalmartPage<StoredInventoryItem>, void, undefined> {
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+    let offset = cursor ? Number(cursor) : 0;
+
+    while (true) {
+      let query = supabase
+        .from('inventory')
+        .select(INVENTORY_COLUMNS, { count: 'exact' });
+
+      query = scopeToSeller(query, account.seller_id);
+
+      // Wildcards typed into the search are matched literally
+      const sku = filters.sku?.replace(/[%_\\]/g, '\\$&');
+      if (sku) {
+        query = query.ilike('sku', `${sku}%`);
+      }
+
+      if (filters.status === 'out_of_stock') {
+        query = query.eq('available_quantity', 0);
+      } else if (filters.status === 'low_stock') {
+        query = query.gt('available_quantity', 0).lte('available_quantity', LOW_STOCK_THRESHOLD);
+      } else if (filters.status === 'in_stock') {
+        query = query.gt('available_quantity', LOW_STOCK_THRESHOLD);
+      }
+
+      if (filters.syncStatus) {
+        query = query.eq('sync_status', filters.syncStatus);
+      }
+
+      const { data, count, error } = await query
+        .order('sku')
+        .order('ship_node')
+        .range(offset, offset + limit - 1);
+      if (error) throw error;
+
+      const rows = data as unknown as InventoryRow[];
+      offset += rows.length;
+      const hasMore = rows.length === limit && (count === null || offset < count);
+
+      yield {
+        items: rows.map((row) => this.toInventoryItem(row)),
+        totalCount: count,
+        nextCursor: hasMore ? String(offset) : null,
+      };
+
+      if (!hasMore) return;
+    }
+  }
+
+  private static toInventoryItem(row: InventoryRow): StoredInventoryItem {
+    const available = row.available_quantity;
+    return {
+      id: row.id,
+      sku: row.sku,
+      availableQuantity: available,
+      reservedQuantity: row.reserved_quantity,
+      totalQuantity: row.quantity,
+      lastUpdated: row.local_updated_at && row.local_updated_at > row.walmart_synced_at
+        ? row.local_updated_at
+        : row.walmart_synced_at,
+      location: row.ship_node,
+      status: available === 0 ? 'out_of_stock' : available <= LOW_STOCK_THRESHOLD ? 'low_stock' : 'in_stock',
+      shipNode: row.ship_node,
+      syncStatus: row.sync_status,
+      walmartQuantity: row.walmart_quantity,
+      baseQuantity: row.base_quantity,
+      syncError: row.last_error ?? undefined,
+      feedId: row.feed_id ?? undefined,
+    };
+  }
+
+  /**
+   * Pull the next part of the account's stock from Walmart; once it has all been read, push
+   * edits Walmart has not taken yet
+   */
+  static async sync(account: WalmartTokenRecord): Promise<InventorySyncResult> {
+    return invokeEdgeFunction<InventorySyncResult>(INVENTORY_SYNC_FUNCTION, { action: 'sync', sellerId: account.seller_id });
+  }
+
+  /**
+   * The row as stored now, after an edit or a conflict was settled
+   */
+  private static async getItem(id: string): Promise<StoredInventoryItem> {
+    const { data, error } = await supabase
+      .from('inventory')
+      .select(INVENTORY_COLUMNS)
+      .eq('id', id)
+      .single();
+    if (error) throw error;
+    return this.toInventoryItem(data as unknown as InventoryRow);
+  }
+
+  /**
+   * Set a SKU's quantity at a ship node and push it to Walmart. The item comes back as a
+   * conflict when Walmart's quantity changed since the last sync; nothing is pushed then.
+   */
+  static async updateQuantity(
+    account: WalmartTokenRecord,
+    item: StoredInventoryItem,
+    quantity: number
+  ): Promise<StoredInventoryItem> {
+    await invokeEdgeFunction(INVENTORY_SYNC_FUNCTION, {
+      action: 'update',
+      sellerId: account.seller_id,
+      sku: item.sku,
+      shipNode: item.shipNode,
+      quantity,
+    });
+    return this.getItem(item.id);
+  }
+
+  /**
+   * Settle a conflict by pushing the app's quantity to Walmart or taking Walmart's
+   */
+  static async resolveConflict(
+    account: WalmartTokenRecord,
+    item: StoredInventoryItem,
+    keep: 'local' | 'walmart'
+  ): Promise<StoredInventoryItem> {
+    await invokeEdgeFunction(INVENTORY_SYNC_FUNCTION, {
+      action: 'resolve',
+      sellerId: account.seller_id,
+      sku: item.sku,
+      shipNode: item.shipNode,
+      keep,
+    });
+    return this.getItem(item.id);
+  }
+
+  /**
+   * Sync progress for the account, or null before its first sync
+   */
+  static async getSyncState(account: WalmartTokenRecord): Promise<InventorySyncState | null> {
+    const query = supabase
+      .from('walmart_inventory_sync')
+      .select('lease_until, last_started_at, last_completed_at, last_error, last_pulled_count, last_pushed_count, last_conflict_count, next_cursor');
+
+    const { data, error } = await scopeToSeller(query, account.seller_id).maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+}
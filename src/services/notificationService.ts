@@ -0,0 +1,161 @@
+import { supabase } from '../lib/supabase';
+import { WalmartTokenRecord } from './walmartTokenService';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { scopeToSeller } from './sellerScope';
+
+// Supabase Edge Function that manages Walmart notification subscriptions; it holds the
+// signing secret Walmart needs, so subscriptions are never made from the browser
+const SUBSCRIPTIONS_FUNCTION = 'walmart-notification-subscriptions';
+
+export interface NotificationEventType {
+  eventType: string;
+  eventVersion: string;
+  resourceName: string;
+  description?: string;
+}
+
+export interface NotificationSubscription extends NotificationEventType {
+  subscriptionId: string;
+  eventUrl: string;
+  status: 'ACTIVE' | 'INACTIVE';
+  // Delivered to this app's receiver, rather than another app or an old endpoint
+  ours: boolean;
+}
+
+export interface NotificationSettings {
+  // Where Walmart delivers the account's events; null until the first subscription
+  endpointUrl: string | null;
+  eventTypes: NotificationEventType[];
+  subscriptions: NotificationSubscription[];
+}
+
+/**
+ * An event Walmart delivered, as the receiver stored it
+ */
+export interface OrderNotification {
+  id: string;
+  eventId: string;
+  eventType: string;
+  purchaseOrderId?: string;
+  status: 'processed' | 'ignored' | 'failed';
+  error?: string;
+  eventTime?: string;
+  receivedAt: string;
+  lastReceivedAt: string;
+  deliveryCount: number;
+}
+
+/**
+ * What the receiver answered to a replayed event
+ */
+export interface ReplayResult {
+  deliveryStatus: number;
+  eventId?: string;
+  status?: OrderNotification['status'];
+  error?: string;
+}
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  walmart_seller_id: string | null;
+  event_id: string;
+  event_type: string;
+  purchase_order_id: string | null;
+  status: OrderNotification['status'];
+  error: string | null;
+  event_time: string | null;
+  received_at: string;
+  last_received_at: string;
+  delivery_count: number;
+}
+
+const NOTIFICATION_COLUMNS =
+  'id, user_id, walmart_seller_id, event_id, event_type, purchase_order_id, status, error, event_time, received_at, last_received_at, delivery_count';
+
+function toNotification(row: NotificationRow): OrderNotification {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    purchaseOrderId: row.purchase_order_id ?? undefined,
+    status: row.status,
+    error: row.error ?? undefined,
+    eventTime: row.event_time ?? undefined,
+    receivedAt: row.received_at,
+    lastReceivedAt: row.last_received_at,
+    deliveryCount: row.delivery_count,
+  };
+}
+
+export class NotificationService {
+  private static async invokeSubscriptions<T>(action: string, account: WalmartTokenRecord, payload: Record<string, unknown> = {}): Promise<T> {
+    return invokeEdgeFunction<T>(SUBSCRIPTIONS_FUNCTION, { action, sellerId: account.seller_id, ...payload });
+  }
+
+  /**
+   * The order event types Walmart offers and the account's subscriptions to them
+   */
+  static async getSettings(account: WalmartTokenRecord): Promise<NotificationSettings> {
+    return this.invokeSubscriptions<NotificationSettings>('list', account);
+  }
+
+  static async subscribe(account: WalmartTokenRecord, eventType: NotificationEventType): Promise<void> {
+    await this.invokeSubscriptions('subscribe', account, {
+      eventType: eventType.eventType,
+      eventVersion: eventType.eventVersion,
+      resourceName: eventType.resourceName,
+    });
+  }
+
+  static async unsubscribe(account: WalmartTokenRecord, subscriptionId: string): Promise<void> {
+    await this.invokeSubscriptions('unsubscribe', account, { subscriptionId });
+  }
+
+  /**
+   * Deliver a stored event to the receiver again, signed as Walmart would sign it
+   */
+  static async replay(account: WalmartTokenRecord, notificationId: string): Promise<ReplayResult> {
+    return this.invokeSubscriptions<ReplayResult>('replay', account, { notificationId });
+  }
+
+  /**
+   * Events delivered for the account, most recently received first
+   */
+  static async getRecent(account: WalmartTokenRecord, limit: number = 50): Promise<OrderNotification[]> {
+    const query = supabase
+      .from('walmart_notifications')
+      .select(NOTIFICATION_COLUMNS)
+      .order('last_received_at', { ascending: false })
+      .limit(limit);
+
+    const { data, error } = await scopeToSeller(query, account.seller_id);
+
+    if (error) throw error;
+    return (data as NotificationRow[]).map(toNotification);
+  }
+
+  /**
+   * Call back whenever an event for the account is stored or delivered again. Returns
+   * a function that stops listening.
+   */
+  static watch(account: WalmartTokenRecord, onNotification: (notification: OrderNotification) => void): () => void {
+    const channel = supabase
+      .channel(`walmart-notifications:${account.user_id}:${account.seller_id ?? 'legacy'}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'walmart_notifications', filter: `user_id=eq.${account.user_id}` },
+        (change) => {
+          const row = change.new as Partial<NotificationRow>;
+          // Realtime filters on one column only; the account is matched here
+          if (!row.id || (row.walmart_seller_id ?? null) !== (account.seller_id ?? null)) return;
+          onNotification(toNotification(row as NotificationRow));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import { format } from 'date-fns';
+import { OrderDetail, OrderLine, OrderListFilters, OrderService } from './orderService';
+import { CsvWriter, SpreadsheetCell, SpreadsheetWriter, XlsxWriter } from './spreadsheetWriter';
+import { WalmartTokenRecord } from './walmartTokenService';
+
+// One row per order line, or one row per order
+export type OrderExportLayout = 'lines' | 'orders';
+
+export type OrderExportFormat = 'csv' | 'xlsx';
+
+export interface OrderExportColumn {
+  key: string;
+  label: string;
+  // Line columns only apply to the per-line layout
+  level: 'order' | 'line';
+  value: (order: OrderDetail, line?: OrderLine) => SpreadsheetCell;
+}
+
+const dateTime = (value?: string) => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : null);
+
+export const ORDER_EXPORT_COLUMNS: OrderExportColumn[] = [
+  { key: 'purchaseOrderId', label: 'Purchase Order', level: 'order', value: (order) => order.purchaseOrderId },
+  { key: 'customerOrderId', label: 'Customer Order', level: 'order', value: (order) => order.customerOrderId },
+  { key: 'orderDate', label: 'Order Date', level: 'order', value: (order) => dateTime(order.orderDate) },
+  { key: 'status', label: 'Order Status', level: 'order', value: (order) => order.status },
+  { key: 'customerName', label: 'Customer', level: 'order', value: (order) => order.customerName },
+  { key: 'customerEmail', label: 'Customer Email', level: 'order', value: (order) => order.customerEmail },
+  { key: 'shipToName', label: 'Ship To Name', level: 'order', value: (order) => order.shippingAddress.name },
+  { key: 'shipToAddress1', label: 'Ship To Address 1', level: 'order', value: (order) => order.shippingAddress.address1 },
+  { key: 'shipToAddress2', label: 'Ship To Address 2', level: 'order', value: (order) => order.shippingAddress.address2 },
+  { key: 'shipToCity', label: 'Ship To City', level: 'order', value: (order) => order.shippingAddress.city },
+  { key: 'shipToState', label: 'Ship To State', level: 'order', value: (order) => order.shippingAddress.state },
+  { key: 'shipToPostalCode', label: 'Ship To Postal Code', level: 'order', value: (order) => order.shippingAddress.postalCode },
+  { key: 'shipToCountry', label: 'Ship To Country', level: 'order', value: (order) => order.shippingAddress.country },
+  { key: 'shipMethod', label: 'Ship Method', level: 'order', value: (order) => order.shipMethod },
+  { key: 'shipBy', label: 'Ship By', level: 'order', value: (order) => dateTime(order.estimatedShipDate) },
+  { key: 'deliverBy', label: 'Deliver By', level: 'order', value: (order) => dateTime(order.estimatedDeliveryDate) },
+  { key: 'lineCount', label: 'Lines', level: 'order', value: (order) => order.items.length },
+  {
+    key: 'units',
+    label: 'Units',
+    level: 'order',
+    value: (order) => order.items.reduce((sum, line) => sum + line.quantity, 0),
+  },
+  { key: 'orderTotal', label: 'Order Total', level: 'order', value: (order) => order.totalAmount },
+  { key: 'currency', label: 'Currency', level: 'order', value: (order) => order.currency },
+  { key: 'lineNumber', label: 'Line', level: 'line', value: (_order, line) => line?.lineNumber },
+  { key: 'sku', label: 'SKU', level: 'line', value: (_order, line) => line?.sku },
+  { key: 'productName', label: 'Item', level: 'line', value: (_order, line) => line?.productName },
+  { key: 'quantity', label: 'Quantity', level: 'line', value: (_order, line) => line?.quantity },
+  { key: 'unitPrice', label: 'Unit Price', level: 'line', value: (_order, line) => line?.unitPrice },
+  { key: 'lineTotal', label: 'Line Total', level: 'line', value: (_order, line) => line?.totalPrice },
+  { key: 'lineStatus', label: 'Line Status', level: 'line', value: (_order, line) => line?.status },
+];
+
+// Selected until the user picks their own columns
+export const DEFAULT_EXPORT_COLUMNS = [
+  'purchaseOrderId',
+  'customerOrderId',
+  'orderDate',
+  'status',
+  'customerName',
+  'shipToCity',
+  'shipToState',
+  'shipBy',
+  'orderTotal',
+  'lineNumber',
+  'sku',
+  'productName',
+  'quantity',
+  'unitPrice',
+  'lineTotal',
+];
+
+export interface OrderExportOptions {
+  // The list's filters, or an order date range
+  filters: Omit<OrderListFilters, 'limit'>;
+  columns: string[];
+  layout: OrderExportLayout;
+  format: OrderExportFormat;
+}
+
+export interface OrderExportProgress {
+  orders: number;
+  // Unknown until the first page arrives
+  totalOrders: number | null;
+  rows: number;
+}
+
+export interface OrderExportResult {
+  blob: Blob;
+  fileName: string;
+  orders: number;
+  rows: number;
+}
+
+// Orders read per request; each page is written out before the next is fetched
+const EXPORT_PAGE_SIZE = 500;
+
+export class OrderExportService {
+  /**
+   * The columns that apply to a layout, in export order
+   */
+  static getColumns(layout: OrderExportLayout): OrderExportColumn[] {
+    return ORDER_EXPORT_COLUMNS.filter((column) => layout === 'lines' || column.level === 'order');
+  }
+
+  static getFileName(account: WalmartTokenRecord, options: OrderExportOptions, now: Date = new Date()): string {
+    const seller = account.seller_id ? `-${account.seller_id}` : '';
+    const layout = options.layout === 'lines' ? 'order-lines' : 'orders';
+    return `walmart${seller}-${layout}-${format(now, 'yyyyMMdd-HHmmss')}.${options.format}`;
+  }
+
+  /**
+   * Write every order matching the filters to a CSV or XLSX file, a page at a time.
+   * Reports progress after each page and stops with an AbortError when the signal fires.
+   */
+  static async export(
+    account: WalmartTokenRecord,
+    options: OrderExportOptions,
+    onProgress: (progress: OrderExportProgress) => void,
+    signal?: AbortSignal
+  ): Promise<OrderExportResult> {
+    const columns = this.getColumns(options.layout).filter((column) => options.columns.includes(column.key));
+    if (columns.length === 0) {
+      throw new Error('Choose at least one column to export');
+    }
+
+    const writer: SpreadsheetWriter = options.format === 'xlsx'
+      ? new XlsxWriter(options.layout === 'lines' ? 'Order lines' : 'Orders')
+      : new CsvWriter();
+    writer.addRows([columns.map((column) => column.label)]);
+
+    const progress: OrderExportProgress = { orders: 0, totalOrders: null, rows: 0 };
+    onProgress({ ...progress });
+
+    // Pages are keyed on the sort time (order date, or ship-by time for a late-queue filter)
+    // and order ID, and the late-queue window is fixed when the first page is read, so orders
+    // synced or changing status while the export runs are neither skipped nor written twice
+    const filters: OrderListFilters = { ...options.filters, limit: EXPORT_PAGE_SIZE };
+
+    for await (const page of OrderService.pages(account, filters)) {
+      if (signal?.aborted) {
+        throw new DOMException('The export was cancelled', 'AbortError');
+      }
+
+      const rows = page.items.flatMap((order) => {
+        // Orders without lines still get a row in the per-line layout
+        const lines: (OrderLine | undefined)[] = options.layout === 'lines' && order.items.length > 0
+          ? order.items
+          : [undefined];
+        return lines.map((line) => columns.map((column) => column.value(order, line)));
+      });
+      writer.addRows(rows);
+
+      progress.orders += page.items.length;
+      progress.totalOrders = page.totalCount ?? null;
+      progress.rows += rows.length;
+      onProgress({ ...progress });
+    }
+
+    return {
+      blob: writer.finish(),
+      fileName: this.getFileName(account, options),
+      orders: progress.orders,
+      rows: progress.rows,
+    };
+  }
+
+  /**
+   * Hand a finished export to the browser as a download
+   */
+  static download(result: OrderExportResult): void {
+    const url = URL.createObjectURL(result.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser time to start reading the file before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
+}
@@ -0,0 +1,509 @@
+import { supabase } from '../lib/supabase';
+import { Order, OrderItem } from '../types';
+import { WalmartPage } from './walmartApiClient';
+import { WalmartOrder, WalmartOrderLineStatus, WalmartOrderLineStatusEntry } from './walmartOrderService';
+import { WalmartTokenRecord } from './walmartTokenService';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { scopeToSeller } from './sellerScope';
+
+// Supabase Edge Function that copies Walmart orders into the orders tables
+const ORDER_SYNC_FUNCTION = 'walmart-order-sync';
+// Supabase Edge Function that acts on orders in Walmart and records the result
+const ORDER_ACTIONS_FUNCTION = 'walmart-order-actions';
+
+/**
+ * One charge on an order line (the product itself, shipping, ...) and the tax on it
+ */
+export interface OrderCharge {
+  type: string;
+  name: string;
+  amount: number;
+  taxName?: string;
+  tax: number;
+}
+
+/**
+ * An order line with Walmart's per-unit statuses
+ */
+export interface OrderLine extends OrderItem {
+  lineNumber: string;
+  status: Order['status'];
+  statuses: WalmartOrderLineStatusEntry[];
+  // Only filled in by getOrder
+  charges: OrderCharge[];
+}
+
+export interface OrderDetail extends Order {
+  items: OrderLine[];
+  currency: string;
+  customerPhone?: string;
+  shipMethod?: string;
+}
+
+/**
+ * Units of an order line reaching a Walmart status, as recorded by the order sync
+ */
+export interface OrderStatusEvent {
+  id: string;
+  lineNumber: string;
+  status: WalmartOrderLineStatus;
+  quantity: number;
+  cancellationReason?: string;
+  occurredAt: string;
+}
+
+// Reasons Walmart accepts when a seller cancels order lines
+export const CANCELLATION_REASONS = [
+  { code: 'SELLER_CANCEL_OUT_OF_STOCK', label: 'Out of stock' },
+  { code: 'CUSTOMER_REQUESTED_SELLER_TO_CANCEL', label: 'Customer asked to cancel' },
+  { code: 'SELLER_CANCEL_PRICING_ERROR', label: 'Pricing error' },
+  { code: 'SELLER_CANCEL_FRAUD_STOP_SHIPMENT', label: 'Suspected fraud' },
+  { code: 'SELLER_CANCEL_ADDRESS_NOT_SERVICEABLE', label: 'Address not serviceable' },
+] as const;
+
+export type CancellationReason = typeof CANCELLATION_REASONS[number]['code'];
+
+export interface LineCancellation {
+  lineNumber: string;
+  quantity: number;
+  reason: CancellationReason;
+}
+
+export interface CancellationResult {
+  status: Order['status'];
+  // Units the cancelled lines had reserved, released in the stored inventory
+  reservationsReleased: number;
+  // Set when the stored inventory could not be updated; the cancellation itself went through
+  reservationReleaseError?: string;
+  // Stock of the cancelled SKUs afterwards; Walmart released what the units had reserved
+  inventory: { sku: string; availableQuantity: number; reservedQuantity: number }[];
+}
+
+interface OrderLineRow {
+  id: string;
+  line_number: string;
+  sku: string;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  status: Order['status'];
+  statuses: WalmartOrderLineStatusEntry[];
+}
+
+interface OrderRow {
+  id: string;
+  purchase_order_id: string;
+  customer_order_id: string;
+  customer_name: string;
+  customer_email: string;
+  order_date: string;
+  status: Order['status'];
+  total_amount: number;
+  currency: string;
+  shipping_address: Order['shippingAddress'];
+  ship_method?: string;
+  estimated_ship_date: string | null;
+  estimated_delivery_date: string | null;
+  // Only selected for a single order
+  raw?: WalmartOrder;
+  order_lines: OrderLineRow[];
+}
+
+// Everything but the raw Walmart order, which only the detail page needs
+const ORDER_LIST_COLUMNS = [
+  'id',
+  'purchase_order_id',
+  'customer_order_id',
+  'customer_name',
+  'customer_email',
+  'order_date',
+  'status',
+  'total_amount',
+  'currency',
+  'shipping_address',
+  'ship_method',
+  'estimated_ship_date',
+  'estimated_delivery_date',
+  'order_lines(*)',
+].join(', ');
+
+/**
+ * Progress of an account's order sync, written by the sync function
+ */
+export interface OrderSyncState {
+  watermark?: string;
+  lease_until?: string;
+  last_started_at?: string;
+  last_completed_at?: string;
+  last_error?: string;
+  last_synced_count: number;
+  // Acknowledge created orders on every sync
+  auto_acknowledge: boolean;
+}
+
+export interface OrderSyncResult {
+  seller_id?: string;
+  correlation_id: string;
+  // 'skipped' when a scheduled sync of the account was already running
+  status: 'synced' | 'skipped';
+  synced: number;
+  // Set when the auto-acknowledge rule is on
+  acknowledged?: number;
+  acknowledge_failed?: string[];
+}
+
+// Hours before Walmart's ship-by time at which an unshipped order counts as at risk
+export const SHIP_BY_RISK_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Orders with units still to ship; partly shipped orders keep their least advanced status
+const UNSHIPPED_STATUSES: Order['status'][] = ['created', 'acknowledged'];
+
+/**
+ * Where an unshipped order stands against its ship-by time
+ */
+export type ShipByState = 'on_track' | 'at_risk' | 'overdue';
+
+// 'late' is at risk or overdue
+export type ShipByFilter = 'at_risk' | 'overdue' | 'late';
+
+export interface ShipByAlerts {
+  overdue: number;
+  atRisk: number;
+  // The most urgent late orders, earliest ship-by first
+  orders: Order[];
+}
+
+export interface OrderListFilters {
+  status?: Order['status'];
+  // Matched against purchase order ID, customer name and email
+  search?: string;
+  // Only unshipped orders near or past their ship-by time, most urgent first
+  shipBy?: ShipByFilter;
+  // Order date range as ISO timestamps; the end is exclusive
+  orderedFrom?: string;
+  orderedBefore?: string;
+  limit?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Sort time and ID of the last order on a page
+type OrderPageKey = [string, string];
+
+/**
+ * Orders stored in Supabase by the order sync, for the account's order screens
+ */
+export class OrderService {
+  /**
+   * Page through the account's synced orders, newest first (or by ship-by time for the
+   * late queue). Pages are keyed on the sort time and order ID of the last row read, which
+   * is also the cursor, so orders synced or changing status between pages never shift
+   * later pages. The ship-by window is fixed when paging starts, so every page reads the same
+   * window. The total is counted with the first page.
+   */
+  static async *pages(
+    account: WalmartTokenRecord,
+    filters: OrderListFilters = {},
+    cursor?: string | null
+  ): AsyncGenerator<WalmartPage<OrderDetail>, void, undefined> {
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+    const sortColumn = filters.shipBy ? 'estimated_ship_date' : 'order_date';
+    const ascending = Boolean(filters.shipBy);
+    const shipByWindow = filters.shipBy ? this.shipByWindow(filters.shipBy, Date.now()) : null;
+    let after: OrderPageKey | null = cursor ? JSON.parse(cursor) : null;
+    let totalCount: number | null = null;
+
+    while (true) {
+      let query = supabase
+        .from('orders')
+        .select(ORDER_LIST_COLUMNS, after ? {} : { count: 'exact' });
+
+      query = scopeToSeller(query, account.seller_id);
+
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      // Commas and parentheses would end the or() filter early
+      const search = filters.search?.replace(/[,()]/g, ' ').trim();
+      if (search) {
+        query = query.or(
+          ['purchase_order_id', 'customer_name', 'customer_email']
+            .map((column) => `${column}.ilike.%${search}%`)
+            .join(',')
+        );
+      }
+
+      if (shipByWindow) {
+        query = query.in('status', UNSHIPPED_STATUSES).lte('estimated_ship_date', shipByWindow.until);
+        if (shipByWindow.after) query = query.gt('estimated_ship_date', shipByWindow.after);
+      }
+
+      if (filters.orderedFrom) {
+        query = query.gte('order_date', filters.orderedFrom);
+      }
+      if (filters.orderedBefore) {
+        query = query.lt('order_date', filters.orderedBefore);
+      }
+
+      if (after) {
+        const [time, id] = after;
+        const past = ascending ? 'gt' : 'lt';
+        query = query.or(`${sortColumn}.${past}."${time}",and(${sortColumn}.eq."${time}",id.${past}.${id})`);
+      }
+
+      // One row beyond the page tells whether another page follows
+      const { data, count, error } = await query
+        .order(sortColumn, { ascending })
+        .order('id', { ascending })
+        .limit(limit + 1);
+      if (error) throw error;
+
+      const rows = (data as unknown as OrderRow[]).slice(0, limit);
+      const hasMore = data.length > limit;
+      if (!after) totalCount = count;
+
+      const last = rows[rows.length - 1];
+      after = hasMore ? [filters.shipBy ? last.estimated_ship_date! : last.order_date, last.id] : null;
+
+      yield {
+        items: rows.map((row) => this.toOrder(row)),
+        totalCount,
+        nextCursor: after && JSON.stringify(after),
+      };
+
+      if (!hasMore) return;
+    }
+  }
+
+  private static toOrder(row: OrderRow): OrderDetail {
+    const rawLines = row.raw?.orderLines.orderLine ?? [];
+
+    return {
+      id: row.id,
+      purchaseOrderId: row.purchase_order_id,
+      customerOrderId: row.customer_order_id,
+      customerName: row.customer_name,
+      customerEmail: row.customer_email,
+      orderDate: row.order_date,
+      status: row.status,
+      totalAmount: Number(row.total_amount),
+      shippingAddress: row.shipping_address,
+      currency: row.currency,
+      customerPhone: row.raw?.shippingInfo.phone,
+      shipMethod: row.ship_method,
+      estimatedShipDate: row.estimated_ship_date ?? undefined,
+      estimatedDeliveryDate: row.estimated_delivery_date ?? undefined,
+      items: [...row.order_lines]
+        .sort((a, b) => Number(a.line_number) - Number(b.line_number))
+        .map((line) => ({
+          id: line.id,
+          sku: line.sku,
+          productName: line.product_name,
+          quantity: line.quantity,
+          unitPrice: Number(line.unit_price),
+          totalPrice: Number(line.total_price),
+          lineNumber: line.line_number,
+          status: line.status,
+          statuses: line.statuses,
+          charges: (rawLines.find((rawLine) => rawLine.lineNumber === line.line_number)?.charges.charge ?? [])
+            .map((charge) => ({
+              type: charge.chargeType,
+              name: charge.chargeName,
+              amount: charge.chargeAmount.amount,
+              taxName: charge.tax?.taxName,
+              tax: charge.tax?.taxAmount.amount ?? 0,
+            })),
+        })),
+    };
+  }
+
+  /**
+   * One synced order of the account, or null when it has not been synced
+   */
+  static async getOrder(account: WalmartTokenRecord, purchaseOrderId: string): Promise<OrderDetail | null> {
+    const query = supabase
+      .from('orders')
+      .select('*, order_lines(*)')
+      .eq('purchase_order_id', purchaseOrderId);
+
+    const { data, error } = await scopeToSeller(query, account.seller_id).maybeSingle();
+
+    if (error) throw error;
+    return data ? this.toOrder(data as OrderRow) : null;
+  }
+
+  /**
+   * Several synced orders of the account, in the order asked for. Orders that have not
+   * been synced are left out.
+   */
+  static async getOrders(account: WalmartTokenRecord, purchaseOrderIds: string[]): Promise<OrderDetail[]> {
+    if (purchaseOrderIds.length === 0) return [];
+
+    const query = supabase
+      .from('orders')
+      .select(ORDER_LIST_COLUMNS)
+      .in('purchase_order_id', purchaseOrderIds);
+
+    const { data, error } = await scopeToSeller(query, account.seller_id);
+
+    if (error) throw error;
+    const orders = (data as unknown as OrderRow[]).map((row) => this.toOrder(row));
+    return purchaseOrderIds
+      .map((purchaseOrderId) => orders.find((order) => order.purchaseOrderId === purchaseOrderId))
+      .filter((order): order is OrderDetail => order !== undefined);
+  }
+
+  /**
+   * Every recorded status change of an order's lines, oldest first
+   */
+  static async getStatusHistory(order: Order): Promise<OrderStatusEvent[]> {
+    const { data, error } = await supabase
+      .from('order_status_events')
+      .select('id, line_number, status, quantity, cancellation_reason, occurred_at')
+      .eq('order_id', order.id)
+      .order('occurred_at')
+      .order('recorded_at');
+
+    if (error) throw error;
+    return data.map((row) => ({
+      id: row.id,
+      lineNumber: row.line_number,
+      status: row.status,
+      quantity: row.quantity,
+      cancellationReason: row.cancellation_reason ?? undefined,
+      occurredAt: row.occurred_at,
+    }));
+  }
+
+  /**
+   * Ship-by times a late-queue filter covers: up to `until`, and after `after` when set
+   */
+  private static shipByWindow(shipBy: ShipByFilter, now: number): { after?: string; until: string } {
+    const nowIso = new Date(now).toISOString();
+    const riskCutoff = new Date(now + SHIP_BY_RISK_HOURS * HOUR_MS).toISOString();
+
+    if (shipBy === 'overdue') return { until: nowIso };
+    if (shipBy === 'at_risk') return { after: nowIso, until: riskCutoff };
+    return { until: riskCutoff };
+  }
+
+  /**
+   * Where an order stands against its ship-by time, or null once nothing is left to ship
+   * (or Walmart gave no ship-by date)
+   */
+  static getShipByState(order: Order, now: number = Date.now()): ShipByState | null {
+    if (!order.estimatedShipDate || !UNSHIPPED_STATUSES.includes(order.status)) return null;
+
+    const remaining = new Date(order.estimatedShipDate).getTime() - now;
+    if (remaining < 0) return 'overdue';
+    return remaining <= SHIP_BY_RISK_HOURS * HOUR_MS ? 'at_risk' : 'on_track';
+  }
+
+  /**
+   * How many of the account's unshipped orders are overdue or at risk, with the most urgent
+   * few, for the dashboard
+   */
+  static async getShipByAlerts(account: WalmartTokenRecord, limit: number = 5): Promise<ShipByAlerts> {
+    const now = Date.now();
+
+    const lateOrders = (shipBy: ShipByFilter, columns: string, head: boolean) => {
+      const { after, until } = this.shipByWindow(shipBy, now);
+      let query = supabase
+        .from('orders')
+        .select(columns, { count: 'exact', head })
+        .in('status', UNSHIPPED_STATUSES)
+        .lte('estimated_ship_date', until);
+
+      if (after) query = query.gt('estimated_ship_date', after);
+      return scopeToSeller(query, account.seller_id);
+    };
+
+    const [overdue, atRisk, urgent] = await Promise.all([
+      lateOrders('overdue', 'id', true),
+      lateOrders('at_risk', 'id', true),
+      lateOrders('late', ORDER_LIST_COLUMNS, false).order('estimated_ship_date').order('purchase_order_id').limit(limit),
+    ]);
+
+    const error = overdue.error ?? atRisk.error ?? urgent.error;
+    if (error) throw error;
+
+    return {
+      overdue: overdue.count ?? 0,
+      atRisk: atRisk.count ?? 0,
+      orders: (urgent.data as unknown as OrderRow[]).map((row) => this.toOrder(row)),
+    };
+  }
+
+  /**
+   * Units of a line that can still be cancelled (not yet shipped or cancelled)
+   */
+  static getOpenQuantity(line: OrderLine): number {
+    return line.statuses
+      .filter((entry) => entry.status === 'Created' || entry.status === 'Acknowledged')
+      .reduce((sum, entry) => sum + Number(entry.statusQuantity.amount), 0);
+  }
+
+  /**
+   * Ask the sync function to pull orders changed since the account's last sync
+   */
+  static async sync(account: WalmartTokenRecord): Promise<OrderSyncResult> {
+    return invokeEdgeFunction<OrderSyncResult>(ORDER_SYNC_FUNCTION, { sellerId: account.seller_id });
+  }
+
+  /**
+   * Acknowledge an order in Walmart; returns its status afterwards
+   */
+  static async acknowledge(account: WalmartTokenRecord, purchaseOrderId: string): Promise<Order['status']> {
+    const { status } = await invokeEdgeFunction<{ status: Order['status'] }>(ORDER_ACTIONS_FUNCTION, {
+      action: 'acknowledge',
+      sellerId: account.seller_id,
+      purchaseOrderId,
+    });
+    return status;
+  }
+
+  /**
+   * Cancel units of order lines in Walmart with a reason code
+   */
+  static async cancelLines(
+    account: WalmartTokenRecord,
+    purchaseOrderId: string,
+    lines: LineCancellation[]
+  ): Promise<CancellationResult> {
+    return invokeEdgeFunction<CancellationResult>(ORDER_ACTIONS_FUNCTION, {
+      action: 'cancelLines',
+      sellerId: account.seller_id,
+      purchaseOrderId,
+      lines,
+    });
+  }
+
+  /**
+   * Turn the account's auto-acknowledge rule on or off
+   */
+  static async setAutoAcknowledge(account: WalmartTokenRecord, enabled: boolean): Promise<void> {
+    await invokeEdgeFunction(ORDER_ACTIONS_FUNCTION, {
+      action: 'setAutoAcknowledge',
+      sellerId: account.seller_id,
+      enabled,
+    });
+  }
+
+  /**
+   * Sync progress for the account, or null before its first sync
+   */
+  static async getSyncState(account: WalmartTokenRecord): Promise<OrderSyncState | null> {
+    const query = supabase
+      .from('walmart_order_sync')
+      .select('watermark, lease_until, last_started_at, last_completed_at, last_error, last_synced_count, auto_acknowledge');
+
+    const { data, error } = await scopeToSeller(query, account.seller_id).maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+}
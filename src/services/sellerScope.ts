@@ -0,0 +1,12 @@
+interface SellerFilter<Q> {
+  eq(column: string, value: string): Q;
+  is(column: string, value: null): Q;
+}
+
+/**
+ * Narrow a query to one seller's rows. Accounts connected before multi-account support
+ * have no seller ID; their rows are matched on a null column instead.
+ */
+export function scopeToSeller<Q extends SellerFilter<Q>>(query: Q, sellerId: string | null | undefined, column = 'walmart_seller_id'): Q {
+  return sellerId ? query.eq(column, sellerId) : query.is(column, null);
+}
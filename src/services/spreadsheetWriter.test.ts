@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { crc32 } from 'node:zlib';
+import ExcelJS from 'exceljs';
+import { CsvWriter, SpreadsheetCell, XLSX_MAX_ROWS, XlsxWriter } from './spreadsheetWriter';
+
+const HEADER = ['Order', 'Customer', 'Total'];
+
+/**
+ * The files in a stored ZIP archive, checking the end record, central directory and local
+ * headers against each other and every file's CRC-32 against the bytes stored
+ */
+function readZip(archive: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+
+  const end = archive.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const directorySize = view.getUint32(end + 12, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  expect(view.getUint16(end + 8, true)).toBe(count);
+  expect(directoryOffset + directorySize).toBe(end);
+
+  const files = new Map<string, Uint8Array>();
+  let at = directoryOffset;
+  let localEnd = 0;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    // Stored, with UTF-8 names
+    expect(view.getUint16(at + 8, true) & 0x0800).toBe(0x0800);
+    expect(view.getUint16(at + 10, true)).toBe(0);
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 20, true);
+    expect(view.getUint32(at + 24, true)).toBe(size);
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true) + view.getUint16(at + 32, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = decoder.decode(archive.subarray(at + 46, at + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    expect(view.getUint32(offset + 18, true)).toBe(size);
+    expect(view.getUint16(offset + 26, true)).toBe(nameLength);
+    const dataStart = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+    const data = archive.subarray(dataStart, dataStart + size);
+    expect(crc32(data), name).toBe(crc);
+
+    files.set(name, data);
+    localEnd = Math.max(localEnd, dataStart + size);
+    at += 46 + nameLength + extraLength;
+  }
+  expect(at).toBe(end);
+  expect(localEnd).toBe(directoryOffset);
+  return files;
+}
+
+async function writeXlsx(rows: SpreadsheetCell[][], sheetName?: string) {
+  const writer = new XlsxWriter(sheetName);
+  writer.addRows(rows);
+  const archive = new Uint8Array(await writer.finish().arrayBuffer());
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(archive);
+  return { files: readZip(archive), workbook, sheet: workbook.worksheets[0] };
+}
+
+describe('XlsxWriter', () => {
+  it('writes a ZIP archive whose directory and CRCs check out', async () => {
+    const { files } = await writeXlsx([HEADER, ['1001', 'Ada', 12.5]]);
+
+    expect([...files.keys()].sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+  });
+
+  it('opens as a workbook with the rows, numbers as numbers and a bold header', async () => {
+    const { sheet } = await writeXlsx([HEADER, ['1001', 'Ada', 12.5], ['1002', null, 0]], 'Orders: July/August');
+
+    expect(sheet.name).toBe('Orders  July August');
+    expect(sheet.rowCount).toBe(3);
+    expect(sheet.getRow(1).values).toEqual([undefined, ...HEADER]);
+    expect(sheet.getCell('A1').font?.bold).toBe(true);
+    expect(sheet.getCell('A2').value).toBe('1001');
+    expect(sheet.getCell('C2').value).toBe(12.5);
+    expect(sheet.getCell('B3').value).toBeNull();
+    expect(sheet.getCell('C3').value).toBe(0);
+  });
+
+  it('references cells past column Z', async () => {
+    const wide = Array.from({ length: 703 }, (_, i) => i);
+    const { sheet } = await writeXlsx([HEADER, wide]);
+
+    expect(sheet.getCell('Z2').value).toBe(25);
+    expect(sheet.getCell('AA2').value).toBe(26);
+    expect(sheet.getCell('ZZ2').value).toBe(701);
+    expect(sheet.getCell('AAA2').value).toBe(702);
+  });
+
+  it('drops characters XML cannot hold and escapes markup', async () => {
+    const { files, sheet } = await writeXlsx([
+      HEADER,
+      ['\u0000\u0001order\u0007', 'tab\there\nnew line', 'x\u000B\u000C\u001F\uFFFEy'],
+      ['<b>&"quoted"</b>', '=HYPERLINK("x")', ']]>'],
+    ]);
+
+    const xml = new TextDecoder().decode(files.get('xl/worksheets/sheet1.xml'));
+    expect([...xml].filter((char) => char < ' ' && !'\t\n\r'.includes(char))).toEqual([]);
+    expect(sheet.getCell('A2').value).toBe('order');
+    expect(sheet.getCell('B2').value).toBe('tab\there\nnew line');
+    expect(sheet.getCell('C2').value).toBe('xy');
+    expect(sheet.getCell('A3').value).toBe('<b>&"quoted"</b>');
+    // Inline strings are never evaluated as formulas
+    expect(sheet.getCell('B3').value).toBe('=HYPERLINK("x")');
+    expect(sheet.getCell('C3').value).toBe(']]>');
+  });
+
+  it('keeps non-ASCII text, including characters outside the Basic Multilingual Plane', async () => {
+    const text = ['Zoë Ångström', '東京都渋谷区', 'Ελληνικά ✓ 📦'];
+    const { sheet } = await writeXlsx([HEADER, text], 'Bestellungen für März');
+
+    expect(sheet.name).toBe('Bestellungen für März');
+    expect(sheet.getRow(2).values).toEqual([undefined, ...text]);
+  });
+
+  it('writes a large export added in batches', async () => {
+    const batches = 20;
+    const batchSize = 2_500;
+    const writer = new XlsxWriter();
+    writer.addRows([HEADER]);
+    for (let batch = 0; batch < batches; batch++) {
+      writer.addRows(Array.from({ length: batchSize }, (_, i) => {
+        const order = batch * batchSize + i + 1;
+        return [`PO-${order}`, `Customer ${order} — Ünïcödé`, order / 100];
+      }));
+    }
+    const archive = new Uint8Array(await writer.finish().arrayBuffer());
+    readZip(archive);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(archive);
+    const sheet = workbook.worksheets[0];
+    const last = batches * batchSize;
+    expect(sheet.rowCount).toBe(last + 1);
+    expect(sheet.getRow(last + 1).values).toEqual([undefined, `PO-${last}`, `Customer ${last} — Ünïcödé`, last / 100]);
+  }, 60_000);
+
+  it('refuses more rows than a sheet holds', () => {
+    const writer = new XlsxWriter();
+    writer.addRows([HEADER]);
+    expect(() => writer.addRows(new Array(XLSX_MAX_ROWS).fill(['x']))).toThrow(/at most/);
+  });
+});
+
+describe('CsvWriter', () => {
+  it('quotes delimiters and defuses formulas behind a UTF-8 byte order mark', async () => {
+    const writer = new CsvWriter();
+    writer.addRows([HEADER, ['1001', 'Smith, "Ada"', '=1+1'], ['1002', 'Zoë', 3]]);
+    const bytes = new Uint8Array(await writer.finish().arrayBuffer());
+
+    expect([...bytes.subarray(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+    expect(new TextDecoder().decode(bytes)).toBe(
+      'Order,Customer,Total\r\n1001,"Smith, ""Ada""",\'=1+1\r\n1002,Zoë,3\r\n'
+    );
+  });
+});
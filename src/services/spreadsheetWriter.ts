@@ -0,0 +1,271 @@
+/**
+ * Writers that build a CSV or XLSX file a batch of rows at a time. Rows are encoded as
+ * they arrive and kept as Blob parts, so large exports never hold the whole file as one
+ * string.
+ */
+
+export type SpreadsheetCell = string | number | null | undefined;
+
+export interface SpreadsheetWriter {
+  readonly extension: string;
+  readonly mimeType: string;
+  addRows(rows: SpreadsheetCell[][]): void;
+  finish(): Blob;
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export class CsvWriter implements SpreadsheetWriter {
+  readonly extension = 'csv';
+  readonly mimeType = 'text/csv;charset=utf-8';
+  // The byte order mark makes Excel read the file as UTF-8
+  private parts: BlobPart[] = ['\uFEFF'];
+
+  private static cell(value: SpreadsheetCell): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return String(value);
+
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  addRows(rows: SpreadsheetCell[][]): void {
+    if (rows.length === 0) return;
+    this.parts.push(new Blob([rows.map((row) => row.map(CsvWriter.cell).join(',')).join('\r\n') + '\r\n']));
+  }
+
+  finish(): Blob {
+    return new Blob(this.parts, { type: this.mimeType });
+  }
+}
+
+// Excel's limits per worksheet row count and per cell text
+export const XLSX_MAX_ROWS = 1_048_576;
+const XLSX_MAX_CELL_LENGTH = 32_767;
+
+// XML 1.0 cannot contain the control characters other than tab and line breaks, or
+// U+FFFE and U+FFFF
+const isXmlChar = (code: number) =>
+  code >= 0x20 ? code !== 0xfffe && code !== 0xffff : code === 0x09 || code === 0x0a || code === 0x0d;
+
+function stripInvalidXmlChars(text: string): string {
+  let valid = '';
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (isXmlChar(text.charCodeAt(i))) continue;
+    valid += text.slice(start, i);
+    start = i + 1;
+  }
+  return start === 0 ? text : valid + text.slice(start);
+}
+
+const escapeXml = (text: string) =>
+  stripInvalidXmlChars(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array, crc: number = 0): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  parts: BlobPart[];
+  crc: number;
+  size: number;
+}
+
+const encoder = new TextEncoder();
+
+const WORKBOOK_FILES: Record<string, string> = {
+  '[Content_Types].xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/_rels/workbook.xml.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>',
+  // Style 1 is the bold header row
+  'xl/styles.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>',
+};
+
+/**
+ * Single-sheet XLSX workbook. The sheet uses inline strings and is packed into an
+ * uncompressed ZIP, which every spreadsheet app reads and needs no compression library.
+ */
+export class XlsxWriter implements SpreadsheetWriter {
+  readonly extension = 'xlsx';
+  readonly mimeType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  private sheet: ZipEntry = { name: encoder.encode('xl/worksheets/sheet1.xml'), parts: [], crc: 0, size: 0 };
+  private rowCount = 0;
+
+  constructor(private sheetName: string = 'Sheet1') {
+    this.append(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      // Keep the header row in view while scrolling
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      '<sheetData>'
+    );
+  }
+
+  private append(xml: string) {
+    const bytes = encoder.encode(xml);
+    this.sheet.crc = crc32(bytes, this.sheet.crc);
+    this.sheet.size += bytes.length;
+    this.sheet.parts.push(new Blob([bytes]));
+  }
+
+  // Column letters of a zero-based index: A..Z, AA..ZZ, AAA..
+  private static column(index: number): string {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+  }
+
+  // Cell references are optional in the format, but some readers reject rows and cells without them
+  private static cell(value: SpreadsheetCell, ref: string, style: string): string {
+    if (value === null || value === undefined || value === '') return `<c r="${ref}"/>`;
+    if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${style}><v>${value}</v></c>`;
+
+    const text = escapeXml(String(value).slice(0, XLSX_MAX_CELL_LENGTH));
+    return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+  }
+
+  addRows(rows: SpreadsheetCell[][]): void {
+    if (rows.length === 0) return;
+    if (this.rowCount + rows.length > XLSX_MAX_ROWS) {
+      throw new Error(`Excel sheets hold at most ${XLSX_MAX_ROWS.toLocaleString()} rows. Export a shorter date range or use CSV.`);
+    }
+
+    this.append(rows.map((row) => {
+      // The first row written is the header
+      const number = ++this.rowCount;
+      const style = number === 1 ? ' s="1"' : '';
+      const cells = row.map((value, index) => XlsxWriter.cell(value, `${XlsxWriter.column(index)}${number}`, style));
+      return `<row r="${number}">${cells.join('')}</row>`;
+    }).join(''));
+  }
+
+  finish(): Blob {
+    this.append('</sheetData></worksheet>');
+
+    const workbook =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(this.sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>';
+
+    const entries = [
+      ...Object.entries({ ...WORKBOOK_FILES, 'xl/workbook.xml': workbook }).map(([name, xml]) => {
+        const bytes = encoder.encode(xml);
+        return { name: encoder.encode(name), parts: [bytes], crc: crc32(bytes), size: bytes.length };
+      }),
+      this.sheet,
+    ];
+    return new Blob(XlsxWriter.zip(entries, new Date()), { type: this.mimeType });
+  }
+
+  /**
+   * Stored (uncompressed) ZIP archive of the entries. Entries over 4 GB would need ZIP64,
+   * far beyond what a browser can hold anyway.
+   */
+  private static zip(entries: ZipEntry[], modified: Date): BlobPart[] {
+    const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+    const date = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+    // Bit 11: file names are UTF-8
+    const flags = 0x0800;
+
+    const parts: BlobPart[] = [];
+    const directory: BlobPart[] = [];
+    let offset = 0;
+    let directorySize = 0;
+
+    entries.forEach((entry) => {
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, 0x04034b50, true);
+      local.setUint16(4, 20, true);
+      local.setUint16(6, flags, true);
+      local.setUint16(8, 0, true);
+      local.setUint16(10, time, true);
+      local.setUint16(12, date, true);
+      local.setUint32(14, entry.crc, true);
+      local.setUint32(18, entry.size, true);
+      local.setUint32(22, entry.size, true);
+      local.setUint16(26, entry.name.length, true);
+      local.setUint16(28, 0, true);
+      parts.push(local.buffer, entry.name, ...entry.parts);
+
+      const central = new DataView(new ArrayBuffer(46));
+      central.setUint32(0, 0x02014b50, true);
+      central.setUint16(4, 20, true);
+      central.setUint16(6, 20, true);
+      central.setUint16(8, flags, true);
+      central.setUint16(10, 0, true);
+      central.setUint16(12, time, true);
+      central.setUint16(14, date, true);
+      central.setUint32(16, entry.crc, true);
+      central.setUint32(20, entry.size, true);
+      central.setUint32(24, entry.size, true);
+      central.setUint16(28, entry.name.length, true);
+      central.setUint32(42, offset, true);
+      directory.push(central.buffer, entry.name);
+
+      offset += 30 + entry.name.length + entry.size;
+      directorySize += 46 + entry.name.length;
+    });
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, offset, true);
+
+    return [...parts, ...directory, end.buffer];
+  }
+}
@@ -0,0 +1,91 @@
+import { WalmartTokenRecord } from './walmartTokenService';
+
+// Web Locks name prefix and BroadcastChannel shared by every tab of the app
+const LOCK_PREFIX = 'walmart-token-refresh';
+const CHANNEL_NAME = 'walmart-token-refresh';
+
+type RefreshListener = (record: WalmartTokenRecord) => void;
+
+interface RefreshedMessage {
+  type: 'refreshed';
+  record: WalmartTokenRecord;
+}
+
+/**
+ * Single-flight coordination for Walmart token refreshes in the browser.
+ *
+ * Within a tab, concurrent callers for the same key share one promise. Across tabs,
+ * the work runs under a Web Lock so only one tab refreshes at a time; tabs that
+ * waited re-check the token inside the lock instead of refreshing again. Refreshed
+ * records are broadcast so every tab (and this one) can update its view.
+ */
+export class TokenRefreshCoordinator {
+  private static inFlight = new Map<string, Promise<unknown>>();
+  private static listeners = new Set<RefreshListener>();
+  private static channel: BroadcastChannel | null = null;
+
+  /**
+   * Run a refresh task under the cross-tab lock for a key. Concurrent calls in this
+   * tab that pass the same dedupe key share the running task instead of queueing.
+   */
+  static run<T>(key: string, dedupeKey: string, task: () => Promise<T>): Promise<T> {
+    return this.dedupe(`${dedupeKey}:${key}`, () => this.withCrossTabLock(key, task));
+  }
+
+  /**
+   * Share one in-flight promise between concurrent callers in this tab
+   */
+  static dedupe<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const promise = task().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Tell every tab, including this one, about a refreshed record
+   */
+  static announce(record: WalmartTokenRecord): void {
+    const message: RefreshedMessage = { type: 'refreshed', record };
+    this.getChannel()?.postMessage(message);
+    this.listeners.forEach((listener) => listener(record));
+  }
+
+  /**
+   * Listen for refreshes made by any tab; returns an unsubscribe function
+   */
+  static subscribe(listener: RefreshListener): () => void {
+    this.listeners.add(listener);
+    this.getChannel();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static withCrossTabLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(`${LOCK_PREFIX}:${key}`, task);
+    }
+    // No Web Locks (older browsers): fall back to in-tab dedupe; the broker's
+    // row lease still keeps concurrent refreshes from different tabs safe
+    return task();
+  }
+
+  private static getChannel(): BroadcastChannel | null {
+    if (this.channel || typeof BroadcastChannel === 'undefined') {
+      return this.channel;
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.addEventListener('message', (event: MessageEvent<RefreshedMessage>) => {
+      if (event.data?.type === 'refreshed') {
+        this.listeners.forEach((listener) => listener(event.data.record));
+      }
+    });
+    return this.channel;
+  }
+}
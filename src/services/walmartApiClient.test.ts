@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WalmartApiClient } from './walmartApiClient';
+import { WalmartTokenRecord, WalmartTokenService } from './walmartTokenService';
+
+const account = { id: 'account-1', seller_id: '10000001', environment: 'mock' } as WalmartTokenRecord;
+
+function respond(status: number, headers: Record<string, string> = {}, body: unknown = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(WalmartTokenService, 'getValidAccessToken').mockResolvedValue({ token: 'mock-access-test', isRefreshed: false });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('WalmartApiClient rate limits', () => {
+  it('keeps a bucket per endpoint template, shared by the ids in the path', async () => {
+    const replenishAt = String(Date.now() + 60_000);
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const tokens = new URL(url).pathname.endsWith('/acknowledge') ? '0' : '7';
+      return respond(200, { 'x-current-token-count': tokens, 'x-next-replenish-time': replenishAt });
+    }));
+
+    await WalmartApiClient.post(account, '/v3/orders/1001/acknowledge');
+    await WalmartApiClient.get(account, '/v3/orders/1001');
+
+    // Another order's acknowledgement shares the drained bucket...
+    expect(WalmartApiClient.getRateLimit(account, 'POST', '/v3/orders/2002/acknowledge')?.remaining).toBe(0);
+    // ...but reading an order, or the released list, is limited separately
+    expect(WalmartApiClient.getRateLimit(account, 'GET', '/v3/orders/2002')?.remaining).toBe(7);
+    expect(WalmartApiClient.getRateLimit(account, 'GET', '/v3/orders/released')).toBeNull();
+    expect(WalmartApiClient.getRateLimit(account, 'POST', '/v3/orders/2002/cancel')).toBeNull();
+  });
+
+  it('backs off before retrying a 429 whose replenish time has already passed', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(respond(429, { 'x-current-token-count': '0', 'x-next-replenish-time': String(Date.now() - 5000) }))
+      .mockResolvedValueOnce(respond(200, {}, { ok: true }));
+    vi.stubGlobal('fetch', fetch);
+
+    const request = WalmartApiClient.get(account, '/v3/items/stale-sku');
+    await vi.advanceTimersByTimeAsync(200);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect((await request).data).toEqual({ ok: true });
+  });
+
+  it('backs off before retrying a 429 without a replenish time', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(respond(429))
+      .mockResolvedValueOnce(respond(200, {}, { ok: true }));
+    vi.stubGlobal('fetch', fetch);
+
+    const request = WalmartApiClient.get(account, '/v3/inventories');
+    await vi.advanceTimersByTimeAsync(200);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect((await request).data).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,438 @@
+import { WalmartTokenService, WalmartTokenRecord } from './walmartTokenService';
+import { WalmartNetworkError, WalmartRateLimitError, createWalmartError } from './walmartErrors';
+
+// Sent as WM_SVC.NAME on every Marketplace request
+const SERVICE_NAME = 'Walmart Marketplace';
+
+// Optional consumer channel type Walmart assigns to solution providers
+const CHANNEL_TYPE = import.meta.env.VITE_WALMART_CHANNEL_TYPE;
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+
+// Longest a request waits for Walmart to replenish a drained rate-limit bucket before giving up
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+
+// Endpoints as Walmart rate-limits them, each with its own bucket. `{...}` stands for one path
+// segment; a path matching several templates takes the one with the most literal segments.
+const ENDPOINT_TEMPLATES = [
+  '/v3/items',
+  '/v3/items/{sku}',
+  '/v3/orders',
+  '/v3/orders/released',
+  '/v3/orders/{purchaseOrderId}',
+  '/v3/orders/{purchaseOrderId}/acknowledge',
+  '/v3/orders/{purchaseOrderId}/cancel',
+  '/v3/orders/{purchaseOrderId}/shipping',
+  '/v3/orders/{purchaseOrderId}/refund',
+  '/v3/returns',
+  '/v3/returns/{returnOrderId}/refund',
+  '/v3/inventory',
+  '/v3/inventories',
+  '/v3/inventories/{sku}',
+  '/v3/feeds',
+  '/v3/feeds/{feedId}',
+  '/v3/reports/reportRequests',
+  '/v3/reports/reportRequests/{requestId}',
+  '/v3/reports/downloadReport',
+  '/v3/webhooks/eventTypes',
+  '/v3/webhooks/subscriptions',
+  '/v3/webhooks/subscriptions/{subscriptionId}',
+].map((template) => template.split('/'));
+
+/**
+ * The endpoint template a request path belongs to, e.g. `/v3/orders/{purchaseOrderId}/acknowledge`.
+ * Paths no template covers are their own endpoint.
+ */
+function endpointTemplate(path: string): string {
+  const segments = path.split('?')[0].split('/');
+  const literals = (template: string[]) => template.filter((segment) => !segment.startsWith('{')).length;
+
+  const match = ENDPOINT_TEMPLATES
+    .filter((template) => template.length === segments.length
+      && template.every((segment, i) => segment.startsWith('{') || segment === segments[i]))
+    .sort((a, b) => literals(b) - literals(a))[0];
+
+  return match ? match.join('/') : segments.join('/');
+}
+
+export type WalmartHttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export type WalmartQueryValue = string | number | boolean | null | undefined;
+
+export interface WalmartRequestOptions {
+  method?: WalmartHttpMethod;
+  path: string;
+  query?: Record<string, WalmartQueryValue>;
+  // Plain objects are sent as JSON; strings and FormData (feed uploads) are sent as-is
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Retry 5xx and network failures. Defaults to true for everything except POST,
+  // which Walmart may have applied before failing.
+  retryable?: boolean;
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Rate-limit state Walmart reports for an endpoint: tokens left in its bucket
+ * and when the bucket is next refilled
+ */
+export interface WalmartRateLimit {
+  remaining: number | null;
+  replenishAt: Date | null;
+}
+
+export interface WalmartApiResponse<T> {
+  status: number;
+  data: T;
+  headers: Record<string, string>;
+  correlationId: string;
+  rateLimit: WalmartRateLimit;
+}
+
+/**
+ * One page of a Walmart list endpoint
+ */
+export interface WalmartPage<T> {
+  items: T[];
+  // Size of the whole result set, when the endpoint reports it
+  totalCount: number | null;
+  // Cursor for the page after this one; null on the last page
+  nextCursor: string | null;
+}
+
+export interface WalmartPaginateOptions<TResponse, TItem> extends Omit<WalmartRequestOptions, 'method' | 'body'> {
+  // Where the endpoint puts its entries, total and next cursor
+  getItems: (data: TResponse) => TItem[] | undefined;
+  getTotalCount: (data: TResponse) => number | null | undefined;
+  getNextCursor: (data: TResponse) => string | null | undefined;
+  // Query parameter the cursor is sent back in. Without one the cursor is a complete
+  // query string (as /v3/orders returns it) that replaces the original query.
+  cursorParam?: string;
+  // Start after a page that has already been read
+  cursor?: string | null;
+}
+
+/**
+ * Transform each page's entries as they arrive, e.g. from Walmart's shape into the app's.
+ * The mapper may return several rows per entry, or none.
+ */
+export async function* mapPages<TItem, TRow>(
+  pages: AsyncGenerator<WalmartPage<TItem>, void, undefined>,
+  map: (item: TItem) => TRow | TRow[]
+): AsyncGenerator<WalmartPage<TRow>, void, undefined> {
+  try {
+    for await (const page of pages) {
+      yield { ...page, items: page.items.flatMap((item) => map(item)) };
+    }
+  } finally {
+    await pages.return();
+  }
+}
+
+/**
+ * HTTP client for the Walmart Marketplace API, shared by every feature module.
+ *
+ * Requests go to the account's environment with its current access token and the
+ * WM_* headers Walmart requires. Throttled requests wait for Walmart's bucket to
+ * refill, transient failures are retried with exponential backoff, and a rejected
+ * token is refreshed once before giving up.
+ */
+export class WalmartApiClient {
+  // Last rate-limit state seen per account and endpoint
+  private static rateLimits = new Map<string, WalmartRateLimit>();
+
+  static get<T>(account: WalmartTokenRecord, path: string, query?: Record<string, WalmartQueryValue>, options: Partial<WalmartRequestOptions> = {}): Promise<WalmartApiResponse<T>> {
+    return this.request<T>(account, { ...options, method: 'GET', path, query });
+  }
+
+  static post<T>(account: WalmartTokenRecord, path: string, body?: unknown, options: Partial<WalmartRequestOptions> = {}): Promise<WalmartApiResponse<T>> {
+    return this.request<T>(account, { ...options, method: 'POST', path, body });
+  }
+
+  static put<T>(account: WalmartTokenRecord, path: string, body?: unknown, options: Partial<WalmartRequestOptions> = {}): Promise<WalmartApiResponse<T>> {
+    return this.request<T>(account, { ...options, method: 'PUT', path, body });
+  }
+
+  static delete<T>(account: WalmartTokenRecord, path: string, options: Partial<WalmartRequestOptions> = {}): Promise<WalmartApiResponse<T>> {
+    return this.request<T>(account, { ...options, method: 'DELETE', path });
+  }
+
+  /**
+   * Send a request on behalf of an account. Resolves with the parsed body for 2xx
+   * responses and throws the matching WalmartApiError subclass for everything else.
+   */
+  static async request<T>(account: WalmartTokenRecord, options: WalmartRequestOptions): Promise<WalmartApiResponse<T>> {
+    const method = options.method ?? 'GET';
+    const url = this.buildUrl(account, options.path, options.query);
+    const limitKey = this.rateLimitKey(account, method, options.path);
+    const retryable = options.retryable ?? method !== 'POST';
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    // One correlation ID for every attempt, so retries can be traced together
+    const correlationId = crypto.randomUUID();
+
+    let { token } = await WalmartTokenService.getValidAccessToken(account.seller_id);
+    let tokenRefreshed = false;
+    let attempt = 0;
+
+    for (;;) {
+      await this.waitForRateLimit(limitKey, correlationId, options.signal);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: this.buildHeaders(account, token, correlationId, options),
+          body: this.serializeBody(options.body),
+          signal: options.signal,
+        });
+      } catch (error) {
+        if (options.signal?.aborted || !retryable || attempt >= maxRetries) {
+          throw new WalmartNetworkError(
+            error instanceof Error ? error.message : 'Network request to Walmart failed',
+            { status: 0, correlationId }
+          );
+        }
+        await this.sleep(this.backoffDelay(attempt++), options.signal);
+        continue;
+      }
+
+      const headers = this.readHeaders(response);
+      const rateLimit = this.readRateLimit(headers);
+      this.rateLimits.set(limitKey, rateLimit);
+
+      if (response.ok) {
+        return {
+          status: response.status,
+          data: await this.parseBody(response) as T,
+          headers,
+          correlationId,
+          rateLimit,
+        };
+      }
+
+      const body = await this.parseBody(response);
+
+      // The token may have been revoked or expired early; refresh it once and retry
+      if (response.status === 401 && !tokenRefreshed) {
+        tokenRefreshed = true;
+        await WalmartTokenService.refreshAccessToken(account.seller_id);
+        ({ token } = await WalmartTokenService.getValidAccessToken(account.seller_id));
+        continue;
+      }
+
+      // Throttled requests were not processed, so they are safe to retry whatever the method
+      if (response.status === 429) {
+        if (attempt >= maxRetries) {
+          throw createWalmartError(429, body, { correlationId, headers, fallbackMessage: 'Walmart rate limit exceeded' });
+        }
+        const retryAt = rateLimit.replenishAt ?? this.retryAfter(headers);
+        this.rateLimits.set(limitKey, { remaining: 0, replenishAt: retryAt });
+        // Without a replenish time still ahead, retrying straight away would only be throttled again
+        if (!retryAt || retryAt.getTime() <= Date.now()) {
+          await this.sleep(this.throttleBackoffDelay(attempt), options.signal);
+        }
+        attempt++;
+        continue;
+      }
+
+      if (response.status >= 500 && retryable && attempt < maxRetries) {
+        await this.sleep(this.backoffDelay(attempt++), options.signal);
+        continue;
+      }
+
+      throw createWalmartError(response.status, body, { correlationId, headers });
+    }
+  }
+
+  /**
+   * Walk a cursor-paginated list endpoint one page at a time. Pages are only requested
+   * as the caller asks for them, so breaking out of the loop stops fetching.
+   */
+  static async *paginate<TResponse, TItem>(
+    account: WalmartTokenRecord,
+    options: WalmartPaginateOptions<TResponse, TItem>
+  ): AsyncGenerator<WalmartPage<TItem>, void, undefined> {
+    const { getItems, getTotalCount, getNextCursor, cursorParam, cursor: startCursor, ...request } = options;
+    let cursor = startCursor ?? null;
+
+    do {
+      let query = request.query;
+      if (cursor !== null) {
+        query = cursorParam
+          ? { ...request.query, [cursorParam]: cursor }
+          : Object.fromEntries(new URLSearchParams(cursor));
+      }
+
+      const { data } = await this.request<TResponse>(account, { ...request, method: 'GET', query });
+      cursor = getNextCursor(data) || null;
+
+      yield {
+        items: getItems(data) ?? [],
+        totalCount: getTotalCount(data) ?? null,
+        nextCursor: cursor,
+      };
+    } while (cursor !== null);
+  }
+
+  /**
+   * Last rate-limit state Walmart reported for an endpoint, if it has been called
+   */
+  static getRateLimit(account: WalmartTokenRecord, method: WalmartHttpMethod, path: string): WalmartRateLimit | null {
+    return this.rateLimits.get(this.rateLimitKey(account, method, path)) ?? null;
+  }
+
+  private static buildUrl(account: WalmartTokenRecord, path: string, query?: Record<string, WalmartQueryValue>): string {
+    const url = new URL(path, WalmartTokenService.getApiBaseUrl(account.environment));
+
+    Object.entries(query ?? {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        url.searchParams.set(key, String(value));
+      }
+    });
+
+    return url.toString();
+  }
+
+  private static buildHeaders(
+    account: WalmartTokenRecord,
+    token: string,
+    correlationId: string,
+    options: WalmartRequestOptions
+  ): Record<string, string> {
+    const headers: Record<string, string> = {
+      'WM_SEC.ACCESS_TOKEN': token,
+      'WM_QOS.CORRELATION_ID': correlationId,
+      'WM_SVC.NAME': SERVICE_NAME,
+      'Accept': 'application/json',
+    };
+
+    if (account.seller_id) {
+      headers['WM_PARTNER.ID'] = account.seller_id;
+    }
+    if (CHANNEL_TYPE) {
+      headers['WM_CONSUMER.CHANNEL.TYPE'] = CHANNEL_TYPE;
+    }
+    if (this.isJsonBody(options.body)) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    return { ...headers, ...options.headers };
+  }
+
+  private static isJsonBody(body: unknown): boolean {
+    return body !== undefined && body !== null && typeof body !== 'string' && !(body instanceof FormData) && !(body instanceof Blob);
+  }
+
+  private static serializeBody(body: unknown): BodyInit | undefined {
+    if (body === undefined || body === null) return undefined;
+    return this.isJsonBody(body) ? JSON.stringify(body) : body as BodyInit;
+  }
+
+  private static async parseBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (!text) return null;
+
+    // Some endpoints answer in XML regardless of Accept; callers get the raw text
+    if (!(response.headers.get('content-type') ?? '').includes('json')) {
+      return text;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  private static readHeaders(response: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+    return headers;
+  }
+
+  private static readRateLimit(headers: Record<string, string>): WalmartRateLimit {
+    const remaining = Number.parseInt(headers['x-current-token-count'] ?? '', 10);
+    // Walmart sends the replenish time as epoch milliseconds
+    const replenishAt = Number.parseInt(headers['x-next-replenish-time'] ?? '', 10);
+
+    return {
+      remaining: Number.isNaN(remaining) ? null : remaining,
+      replenishAt: Number.isNaN(replenishAt) ? null : new Date(replenishAt),
+    };
+  }
+
+  private static retryAfter(headers: Record<string, string>): Date | null {
+    const seconds = Number.parseInt(headers['retry-after'] ?? '', 10);
+    return Number.isNaN(seconds) ? null : new Date(Date.now() + seconds * 1000);
+  }
+
+  /**
+   * Walmart limits each endpoint separately; ids in the path share their endpoint's bucket
+   */
+  private static rateLimitKey(account: WalmartTokenRecord, method: WalmartHttpMethod, path: string): string {
+    return `${account.id}:${method} ${endpointTemplate(path)}`;
+  }
+
+  /**
+   * Hold the request until the endpoint's bucket has tokens again
+   */
+  private static async waitForRateLimit(key: string, correlationId: string, signal?: AbortSignal): Promise<void> {
+    const limit = this.rateLimits.get(key);
+    if (!limit || limit.remaining !== 0 || !limit.replenishAt) return;
+
+    const wait = limit.replenishAt.getTime() - Date.now();
+    if (wait <= 0) return;
+
+    if (wait > MAX_RATE_LIMIT_WAIT_MS) {
+      throw new WalmartRateLimitError(
+        `Walmart rate limit reached; try again after ${limit.replenishAt.toLocaleTimeString()}`,
+        { status: 429, correlationId, retryAt: limit.replenishAt }
+      );
+    }
+
+    await this.sleep(wait, signal);
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private static backoffDelay(attempt: number): number {
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * Exponential backoff for a throttled request, at least half the ceiling so the retry is
+   * never immediate
+   */
+  private static throttleBackoffDelay(attempt: number): number {
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    return ceiling / 2 + Math.random() * ceiling / 2;
+  }
+
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * One entry of a Walmart error payload
+ */
+export interface WalmartErrorDetail {
+  code: string;
+  field?: string;
+  description: string;
+  info?: string;
+  severity?: string;
+  category?: string;
+}
+
+/**
+ * What went wrong, in terms of what the user can do about it
+ */
+export type WalmartErrorKind =
+  | 'auth'
+  | 'session'
+  | 'permission'
+  | 'validation'
+  | 'not_found'
+  | 'rate_limit'
+  | 'server'
+  | 'network';
+
+/**
+ * Recovery the UI offers for an error
+ */
+export type WalmartRecoveryAction =
+  | 'reconnect'
+  | 'sign_in'
+  | 'upgrade_permissions'
+  | 'fix_field'
+  | 'retry_later'
+  | 'retry'
+  | 'none';
+
+interface WalmartErrorInit {
+  status: number;
+  correlationId?: string;
+  details?: WalmartErrorDetail[];
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A failed Walmart call, whether made directly or through the token broker.
+ * Subclasses say what kind of failure it was; `details` holds Walmart's own errors.
+ */
+export class WalmartApiError extends Error {
+  readonly kind: WalmartErrorKind = 'server';
+  readonly status: number;
+  readonly correlationId?: string;
+  readonly details: WalmartErrorDetail[];
+  readonly body?: unknown;
+  readonly headers: Record<string, string>;
+
+  constructor(message: string, init: WalmartErrorInit) {
+    super(message);
+    this.name = 'WalmartApiError';
+    this.status = init.status;
+    this.correlationId = init.correlationId;
+    this.details = init.details ?? [];
+    this.body = init.body;
+    this.headers = init.headers ?? {};
+  }
+
+  get code(): string | undefined {
+    return this.details[0]?.code;
+  }
+
+  get field(): string | undefined {
+    return this.details.find((detail) => detail.field)?.field;
+  }
+
+  get severity(): string | undefined {
+    return this.details[0]?.severity;
+  }
+}
+
+/**
+ * Walmart no longer accepts the account's tokens or credentials; the seller must reconnect
+ */
+export class WalmartAuthError extends WalmartApiError {
+  readonly kind = 'auth';
+}
+
+/**
+ * The app's own sign-in expired, so the broker would not act for the user
+ */
+export class WalmartSessionError extends WalmartApiError {
+  readonly kind = 'session';
+}
+
+/**
+ * The seller has not granted the permission the call needs
+ */
+export class WalmartPermissionError extends WalmartApiError {
+  readonly kind = 'permission';
+}
+
+/**
+ * Walmart rejected the request's content; `field` names the offending input when known
+ */
+export class WalmartValidationError extends WalmartApiError {
+  readonly kind = 'validation';
+}
+
+export class WalmartNotFoundError extends WalmartApiError {
+  readonly kind = 'not_found';
+}
+
+/**
+ * Walmart throttled the call; it can be retried once `retryAt` has passed
+ */
+export class WalmartRateLimitError extends WalmartApiError {
+  readonly kind = 'rate_limit';
+  readonly retryAt: Date | null;
+
+  constructor(message: string, init: WalmartErrorInit & { retryAt?: Date | null }) {
+    super(message, init);
+    this.retryAt = init.retryAt ?? null;
+  }
+}
+
+/**
+ * Walmart (or the broker) failed on its side; retrying may work
+ */
+export class WalmartServerError extends WalmartApiError {
+  readonly kind = 'server';
+}
+
+/**
+ * The request never got an answer
+ */
+export class WalmartNetworkError extends WalmartApiError {
+  readonly kind = 'network';
+}
+
+// Broker codes meaning the account has no usable connection until the seller connects again
+const RECONNECT_CODES = ['reconnect_required', 'invalid_grant', 'not_connected'];
+
+function readXmlErrors(xml: string): WalmartErrorDetail[] {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) return [];
+
+  return Array.from(document.getElementsByTagNameNS('*', 'error')).map((element) => {
+    const child = (name: string) => element.getElementsByTagNameNS('*', name)[0]?.textContent?.trim() || undefined;
+    return {
+      code: child('code') ?? 'UNKNOWN',
+      field: child('field'),
+      description: child('description') ?? child('info') ?? '',
+      info: child('info'),
+      severity: child('severity'),
+      category: child('category'),
+    };
+  });
+}
+
+function toDetail(entry: Record<string, unknown>): WalmartErrorDetail {
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+  return {
+    code: text(entry.code) ?? 'UNKNOWN',
+    field: text(entry.field),
+    description: text(entry.description) ?? text(entry.info) ?? '',
+    info: text(entry.info),
+    severity: text(entry.severity),
+    category: text(entry.category),
+  };
+}
+
+/**
+ * Read the errors out of any Walmart error payload: Marketplace JSON
+ * ({ errors: [...] }, { errors: { error: [...] } }, { error: [...] }), OAuth JSON
+ * ({ error, error_description }), the token broker's { error, code, field } or XML
+ */
+export function parseWalmartErrors(body: unknown): WalmartErrorDetail[] {
+  if (typeof body === 'string') {
+    const trimmed = body.trim();
+    if (trimmed.startsWith('<')) return readXmlErrors(trimmed);
+    try {
+      return parseWalmartErrors(JSON.parse(trimmed));
+    } catch {
+      return [];
+    }
+  }
+
+  if (!body || typeof body !== 'object') return [];
+
+  const { errors, error, error_description: errorDescription, code, field, severity } = body as Record<string, unknown>;
+  const list = (errors as { error?: unknown } | undefined)?.error ?? errors ?? error;
+  if (Array.isArray(list)) {
+    return list.filter((entry) => entry && typeof entry === 'object').map(toDetail);
+  }
+
+  // OAuth errors use the code as `error`; broker errors put the message there
+  if (typeof error === 'string') {
+    return [typeof code === 'string' || typeof errorDescription !== 'string'
+      ? toDetail({ code, description: error, field, severity })
+      : toDetail({ code: error, description: errorDescription })];
+  }
+
+  return [];
+}
+
+function retryTime(headers: Record<string, string>): Date | null {
+  const replenish = Number.parseInt(headers['x-next-replenish-time'] ?? '', 10);
+  if (!Number.isNaN(replenish)) return new Date(replenish);
+
+  const seconds = Number.parseInt(headers['retry-after'] ?? '', 10);
+  return Number.isNaN(seconds) ? null : new Date(Date.now() + seconds * 1000);
+}
+
+/**
+ * Build the typed error for a failed response from Walmart or the token broker
+ */
+export function createWalmartError(
+  status: number,
+  body: unknown,
+  options: { correlationId?: string; headers?: Record<string, string>; fallbackMessage?: string } = {}
+): WalmartApiError {
+  const details = parseWalmartErrors(body);
+  const headers = options.headers ?? {};
+  const init: WalmartErrorInit = { status, correlationId: options.correlationId, details, body, headers };
+  const message = details[0]?.description || options.fallbackMessage || `Walmart request failed with status ${status}`;
+  const code = details[0]?.code;
+
+  if (code === 'unauthenticated') return new WalmartSessionError(message, init);
+  if (code && RECONNECT_CODES.includes(code)) return new WalmartAuthError(message, init);
+  if (status === 429) return new WalmartRateLimitError(message, { ...init, retryAt: retryTime(headers) });
+  if (status === 401) return new WalmartAuthError(message, init);
+  if (status === 403) return new WalmartPermissionError(message, init);
+  if (status === 404) return new WalmartNotFoundError(message, init);
+  if (status === 0) return new WalmartNetworkError(message, init);
+  if (status >= 400 && status < 500) return new WalmartValidationError(message, init);
+  return new WalmartServerError(message, init);
+}
+
+/**
+ * Normalize anything thrown around a Walmart call into a WalmartApiError
+ */
+export function toWalmartError(error: unknown, fallbackMessage: string = 'Something went wrong talking to Walmart'): WalmartApiError {
+  if (error instanceof WalmartApiError) return error;
+
+  const message = error instanceof Error ? error.message : fallbackMessage;
+  // fetch reports unreachable hosts and CORS failures as a TypeError
+  if (error instanceof TypeError) {
+    return new WalmartNetworkError(message, { status: 0 });
+  }
+  return new WalmartServerError(message, { status: 500 });
+}
+
+/**
+ * How the UI should present an error: a title, the message and the recovery to offer
+ */
+export interface WalmartErrorPresentation {
+  title: string;
+  message: string;
+  action: WalmartRecoveryAction;
+  field?: string;
+  retryAt?: Date | null;
+  correlationId?: string;
+}
+
+export function describeWalmartError(error: unknown): WalmartErrorPresentation {
+  const walmartError = toWalmartError(error);
+  const base = { message: walmartError.message, correlationId: walmartError.correlationId };
+
+  switch (walmartError.kind) {
+    case 'auth':
+      return { ...base, title: 'Walmart connection expired', action: 'reconnect' };
+    case 'session':
+      return { ...base, title: 'You have been signed out', action: 'sign_in' };
+    case 'permission':
+      return { ...base, title: 'Permission not granted', action: 'upgrade_permissions' };
+    case 'validation':
+      return walmartError.field
+        ? { ...base, title: 'Walmart rejected a field', action: 'fix_field', field: walmartError.field }
+        : { ...base, title: 'Walmart rejected the request', action: 'none' };
+    case 'not_found':
+      return { ...base, title: 'Not found on Walmart', action: 'none' };
+    case 'rate_limit':
+      return {
+        ...base,
+        title: 'Walmart is throttling requests',
+        action: 'retry_later',
+        retryAt: walmartError instanceof WalmartRateLimitError ? walmartError.retryAt : null,
+      };
+    case 'network':
+      return { ...base, title: 'Could not reach Walmart', action: 'retry' };
+    default:
+      return { ...base, title: 'Walmart request failed', action: 'retry' };
+  }
+}
@@ -0,0 +1,73 @@
+import { WalmartApiClient, WalmartPage } from './walmartApiClient';
+import { WalmartTokenRecord } from './walmartTokenService';
+import { InventoryItem } from '../types';
+
+// Sellable units at or below which a SKU counts as low on stock
+export const LOW_STOCK_THRESHOLD = 10;
+
+interface WalmartInventoryQuantity {
+  unit: string;
+  amount: number;
+}
+
+/**
+ * A SKU's stock at each ship node, as Walmart's multi-node inventory API returns it
+ */
+export interface WalmartInventory {
+  sku: string;
+  nodes: {
+    shipNode: string;
+    inputQty: WalmartInventoryQuantity;
+    availToSellQty: WalmartInventoryQuantity;
+    reservedQty: WalmartInventoryQuantity;
+  }[];
+}
+
+interface WalmartInventoryListResponse {
+  meta?: { totalCount?: number; nextCursor?: string | null };
+  elements?: { inventories?: WalmartInventory[] };
+}
+
+export interface WalmartInventoryFilters {
+  sku?: string;
+  limit?: number;
+}
+
+export class WalmartInventoryService {
+  /**
+   * Page through stock for every SKU in the account's catalog
+   */
+  static pages(
+    account: WalmartTokenRecord,
+    filters: WalmartInventoryFilters = {},
+    cursor?: string | null
+  ): AsyncGenerator<WalmartPage<WalmartInventory>, void, undefined> {
+    return WalmartApiClient.paginate<WalmartInventoryListResponse, WalmartInventory>(account, {
+      path: '/v3/inventories',
+      query: { ...filters },
+      cursorParam: 'nextCursor',
+      cursor,
+      getItems: (data) => data.elements?.inventories,
+      getTotalCount: (data) => data.meta?.totalCount,
+      getNextCursor: (data) => data.meta?.nextCursor,
+    });
+  }
+
+  /**
+   * One row per ship node holding the SKU
+   */
+  static toInventoryItems(inventory: WalmartInventory): InventoryItem[] {
+    return inventory.nodes.map((node) => {
+      const available = node.availToSellQty.amount;
+      return {
+        id: `${inventory.sku}:${node.shipNode}`,
+        sku: inventory.sku,
+        availableQuantity: available,
+        reservedQuantity: node.reservedQty.amount,
+        totalQuantity: node.inputQty.amount,
+        location: node.shipNode,
+        status: available === 0 ? 'out_of_stock' : available <= LOW_STOCK_THRESHOLD ? 'low_stock' : 'in_stock',
+      };
+    });
+  }
+}
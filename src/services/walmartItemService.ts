@@ -0,0 +1,70 @@
+import { WalmartApiClient, WalmartPage } from './walmartApiClient';
+import { WalmartTokenRecord } from './walmartTokenService';
+import { CatalogItem } from '../types';
+
+/**
+ * An item as Walmart's v3 Items API returns it
+ */
+export interface WalmartItem {
+  mart: string;
+  sku: string;
+  wpid: string;
+  upc?: string;
+  gtin?: string;
+  productName: string;
+  shelf?: string;
+  productType: string;
+  price: { currency: string; amount: number };
+  publishedStatus: string;
+  lifecycleStatus: string;
+}
+
+interface WalmartItemListResponse {
+  ItemResponse?: WalmartItem[];
+  totalItems?: number;
+  nextCursor?: string | null;
+}
+
+export interface WalmartItemFilters {
+  sku?: string;
+  publishedStatus?: string;
+  lifecycleStatus?: string;
+  limit?: number;
+}
+
+export class WalmartItemService {
+  /**
+   * Page through the account's catalog
+   */
+  static pages(
+    account: WalmartTokenRecord,
+    filters: WalmartItemFilters = {},
+    cursor?: string | null
+  ): AsyncGenerator<WalmartPage<WalmartItem>, void, undefined> {
+    return WalmartApiClient.paginate<WalmartItemListResponse, WalmartItem>(account, {
+      path: '/v3/items',
+      // Walmart starts cursor paging from "*"
+      query: { ...filters, nextCursor: '*' },
+      cursorParam: 'nextCursor',
+      cursor,
+      getItems: (data) => data.ItemResponse,
+      getTotalCount: (data) => data.totalItems,
+      getNextCursor: (data) => data.nextCursor,
+    });
+  }
+
+  static toCatalogItem(item: WalmartItem): CatalogItem {
+    return {
+      sku: item.sku,
+      wpid: item.wpid,
+      upc: item.upc,
+      gtin: item.gtin,
+      name: item.productName,
+      productType: item.productType,
+      price: item.price.amount,
+      currency: item.price.currency,
+      publishedStatus: item.publishedStatus,
+      lifecycleStatus: item.lifecycleStatus,
+    };
+  }
+}
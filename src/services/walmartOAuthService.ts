@@ -0,0 +1,178 @@
+import { WalmartTokenService, WalmartEnvironment } from './walmartTokenService';
+import { WalmartScope, WalmartScopeService } from './walmartScopeService';
+
+// Pending authorization request, kept for the round trip to Walmart's consent page
+const PENDING_REQUEST_KEY = 'walmart_oauth_request';
+
+// A consent round trip that takes longer than this is treated as abandoned
+const REQUEST_TTL_MINUTES = 10;
+
+// The callback is completed by WalmartConnection, which lives on the dashboard
+const CALLBACK_PATH = '/dashboard';
+
+interface PendingAuthorizationRequest {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  accountName?: string;
+  environment: WalmartEnvironment;
+  scopes: WalmartScope[];
+  // App path to return to once connected, e.g. the page that asked for more permissions
+  returnTo?: string;
+  createdAt: number;
+}
+
+export type WalmartOAuthErrorCode =
+  | 'authorization_denied'
+  | 'missing_state'
+  | 'state_mismatch'
+  | 'request_expired'
+  | 'missing_code';
+
+/**
+ * Authorization callback rejected before any code exchange took place
+ */
+export class WalmartOAuthError extends Error {
+  constructor(public code: WalmartOAuthErrorCode, message: string) {
+    super(message);
+    this.name = 'WalmartOAuthError';
+  }
+}
+
+export interface AuthorizationCallback {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  sellerId?: string;
+  accountName?: string;
+  environment: WalmartEnvironment;
+  requestedScopes: WalmartScope[];
+  returnTo?: string;
+}
+
+export interface AuthorizationOptions {
+  accountName?: string;
+  environment?: WalmartEnvironment;
+  scopes?: WalmartScope[];
+  returnTo?: string;
+}
+
+export class WalmartOAuthService {
+  /**
+   * Start the authorization-code flow with PKCE; returns the URL to redirect to
+   */
+  static async beginAuthorization(redirectUri: string, options: AuthorizationOptions = {}): Promise<string> {
+    const { accountName, environment = 'production', scopes = WalmartScopeService.all(), returnTo } = options;
+    const state = crypto.randomUUID();
+    const codeVerifier = this.generateCodeVerifier();
+    const codeChallenge = await this.generateCodeChallenge(codeVerifier);
+
+    const authUrl = WalmartTokenService.generateAuthorizationUrl(redirectUri, state, codeChallenge, environment, scopes);
+
+    const pending: PendingAuthorizationRequest = {
+      state,
+      codeVerifier,
+      redirectUri,
+      accountName,
+      environment,
+      scopes,
+      returnTo,
+      createdAt: Date.now(),
+    };
+    sessionStorage.setItem(PENDING_REQUEST_KEY, JSON.stringify(pending));
+
+    return authUrl;
+  }
+
+  /**
+   * Redirect URI registered with Walmart for this app
+   */
+  static getRedirectUri(): string {
+    return `${window.location.origin}${CALLBACK_PATH}`;
+  }
+
+  /**
+   * Whether the current URL is an OAuth callback that still needs handling
+   */
+  static isAuthorizationCallback(params: URLSearchParams): boolean {
+    return params.has('code') || params.has('error');
+  }
+
+  /**
+   * Validate an OAuth callback against the pending request. Fails closed: the pending
+   * request is consumed on every call, so a callback can only ever be handled once.
+   */
+  static completeAuthorization(params: URLSearchParams): AuthorizationCallback {
+    const raw = sessionStorage.getItem(PENDING_REQUEST_KEY);
+    sessionStorage.removeItem(PENDING_REQUEST_KEY);
+
+    const error = params.get('error');
+    if (error) {
+      const description = params.get('error_description');
+      throw new WalmartOAuthError('authorization_denied', `Authorization failed: ${description || error}`);
+    }
+
+    const pending = raw ? (JSON.parse(raw) as PendingAuthorizationRequest) : null;
+    const state = params.get('state');
+
+    if (!pending || !state) {
+      throw new WalmartOAuthError(
+        'missing_state',
+        'This authorization response was not started from this browser session. Please connect to Walmart again.'
+      );
+    }
+
+    if (state !== pending.state) {
+      throw new WalmartOAuthError(
+        'state_mismatch',
+        'The authorization response did not match the request that was sent. Please connect to Walmart again.'
+      );
+    }
+
+    if (Date.now() - pending.createdAt > REQUEST_TTL_MINUTES * 60 * 1000) {
+      throw new WalmartOAuthError(
+        'request_expired',
+        'The authorization request expired before it was completed. Please connect to Walmart again.'
+      );
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new WalmartOAuthError('missing_code', 'Walmart did not return an authorization code.');
+    }
+
+    return {
+      code,
+      codeVerifier: pending.codeVerifier,
+      redirectUri: pending.redirectUri,
+      sellerId: params.get('sellerId') ?? undefined,
+      accountName: pending.accountName,
+      environment: pending.environment,
+      requestedScopes: pending.scopes,
+      returnTo: pending.returnTo,
+    };
+  }
+
+  /**
+   * RFC 7636 code verifier: 32 random bytes, base64url encoded (43 characters)
+   */
+  private static generateCodeVerifier(): string {
+    return this.base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  }
+
+  /**
+   * S256 code challenge for a verifier
+   */
+  private static async generateCodeChallenge(codeVerifier: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+    return this.base64UrlEncode(new Uint8Array(digest));
+  }
+
+  private static base64UrlEncode(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+}
@@ -0,0 +1,223 @@
+import { WalmartApiClient, WalmartPage } from './walmartApiClient';
+import { WalmartTokenRecord } from './walmartTokenService';
+import { Order, Shipment } from '../types';
+
+export type WalmartOrderLineStatus = 'Created' | 'Acknowledged' | 'Shipped' | 'Delivered' | 'Cancelled';
+
+export interface WalmartMoney {
+  currency: string;
+  amount: number;
+}
+
+export interface WalmartQuantity {
+  unitOfMeasurement: string;
+  amount: string;
+}
+
+export interface WalmartTrackingInfo {
+  shipDateTime: number;
+  carrierName: { carrier?: string; otherCarrier?: string };
+  methodCode: string;
+  trackingNumber: string;
+  trackingURL?: string;
+}
+
+export interface WalmartOrderLineStatusEntry {
+  status: WalmartOrderLineStatus;
+  statusQuantity: WalmartQuantity;
+  cancellationReason?: string;
+  trackingInfo?: WalmartTrackingInfo | null;
+}
+
+export interface WalmartOrderLine {
+  lineNumber: string;
+  item: { productName: string; sku: string };
+  charges: {
+    charge: {
+      chargeType: string;
+      chargeName: string;
+      chargeAmount: WalmartMoney;
+      tax: { taxName: string; taxAmount: WalmartMoney } | null;
+    }[];
+  };
+  orderLineQuantity: WalmartQuantity;
+  statusDate: number;
+  orderLineStatuses: { orderLineStatus: WalmartOrderLineStatusEntry[] };
+}
+
+/**
+ * An order as Walmart's v3 Orders API returns it
+ */
+export interface WalmartOrder {
+  purchaseOrderId: string;
+  customerOrderId: string;
+  customerEmailId: string;
+  orderDate: number;
+  shippingInfo: {
+    phone: string;
+    estimatedDeliveryDate: number;
+    estimatedShipDate: number;
+    methodCode: string;
+    postalAddress: {
+      name: string;
+      address1: string;
+      address2?: string | null;
+      city: string;
+      state: string;
+      postalCode: string;
+      country: string;
+      addressType?: string;
+    };
+  };
+  orderLines: { orderLine: WalmartOrderLine[] };
+}
+
+interface WalmartOrderListResponse {
+  list?: {
+    meta?: { totalCount?: number; limit?: number; nextCursor?: string | null };
+    elements?: { order?: WalmartOrder[] };
+  };
+}
+
+export interface WalmartOrderFilters {
+  status?: WalmartOrderLineStatus;
+  purchaseOrderId?: string;
+  customerOrderId?: string;
+  sku?: string;
+  limit?: number;
+}
+
+// An order takes the status of its least advanced line, so it stays "created" until every line is acknowledged
+const STATUS_PRECEDENCE: [WalmartOrderLineStatus, Order['status']][] = [
+  ['Created', 'created'],
+  ['Acknowledged', 'acknowledged'],
+  ['Shipped', 'shipped'],
+  ['Delivered', 'delivered'],
+  ['Cancelled', 'cancelled'],
+];
+
+export class WalmartOrderService {
+  /**
+   * Page through the account's orders, newest first
+   */
+  static pages(
+    account: WalmartTokenRecord,
+    filters: WalmartOrderFilters = {},
+    cursor?: string | null
+  ): AsyncGenerator<WalmartPage<WalmartOrder>, void, undefined> {
+    const { limit, ...query } = filters;
+
+    return WalmartApiClient.paginate<WalmartOrderListResponse, WalmartOrder>(account, {
+      path: '/v3/orders',
+      query: { ...query, limit },
+      cursor,
+      getItems: (data) => data.list?.elements?.order,
+      getTotalCount: (data) => data.list?.meta?.totalCount,
+      getNextCursor: (data) => data.list?.meta?.nextCursor,
+    });
+  }
+
+  static getStatus(order: WalmartOrder): Order['status'] {
+    const statuses = new Set(
+      order.orderLines.orderLine.flatMap((line) => line.orderLineStatuses.orderLineStatus.map((entry) => entry.status))
+    );
+    return STATUS_PRECEDENCE.find(([status]) => statuses.has(status))?.[1] ?? 'created';
+  }
+
+  static toOrder(order: WalmartOrder): Order {
+    const address = order.shippingInfo.postalAddress;
+    const items = order.orderLines.orderLine.map((line) => {
+      const quantity = Number(line.orderLineQuantity.amount);
+      const totalPrice = line.charges.charge
+        .filter((charge) => charge.chargeType === 'PRODUCT')
+        .reduce((sum, charge) => sum + charge.chargeAmount.amount, 0);
+
+      return {
+        id: line.lineNumber,
+        sku: line.item.sku,
+        productName: line.item.productName,
+        quantity,
+        unitPrice: quantity > 0 ? totalPrice / quantity : totalPrice,
+        totalPrice,
+      };
+    });
+
+    // What the customer paid: every charge on every line, with tax
+    const totalAmount = order.orderLines.orderLine.reduce(
+      (sum, line) => sum + line.charges.charge.reduce(
+        (lineSum, charge) => lineSum + charge.chargeAmount.amount + (charge.tax?.taxAmount.amount ?? 0),
+        0
+      ),
+      0
+    );
+
+    return {
+      id: order.purchaseOrderId,
+      purchaseOrderId: order.purchaseOrderId,
+      customerOrderId: order.customerOrderId,
+      customerName: address.name,
+      customerEmail: order.customerEmailId,
+      orderDate: new Date(order.orderDate).toISOString(),
+      status: this.getStatus(order),
+      totalAmount,
+      estimatedShipDate: new Date(order.shippingInfo.estimatedShipDate).toISOString(),
+      estimatedDeliveryDate: new Date(order.shippingInfo.estimatedDeliveryDate).toISOString(),
+      shippingAddress: {
+        name: address.name,
+        address1: address.address1,
+        address2: address.address2 ?? undefined,
+        city: address.city,
+        state: address.state,
+        postalCode: address.postalCode,
+        country: address.country,
+      },
+      items,
+    };
+  }
+
+  /**
+   * The order's shipped units, one shipment per tracking number
+   */
+  static toShipments(order: WalmartOrder): Shipment[] {
+    const shipments = new Map<string, Shipment>();
+    const address = order.shippingInfo.postalAddress;
+
+    order.orderLines.orderLine.forEach((line) => {
+      line.orderLineStatuses.orderLineStatus.forEach((entry) => {
+        if ((entry.status !== 'Shipped' && entry.status !== 'Delivered') || !entry.trackingInfo) return;
+
+        const tracking = entry.trackingInfo;
+        const id = `${order.purchaseOrderId}:${tracking.trackingNumber}`;
+        const shipment: Shipment = shipments.get(id) ?? {
+          id,
+          orderId: order.purchaseOrderId,
+          trackingNumber: tracking.trackingNumber,
+          carrier: tracking.carrierName.carrier ?? tracking.carrierName.otherCarrier ?? 'Other',
+          status: entry.status === 'Delivered' ? 'delivered' : 'in_transit',
+          shippedDate: new Date(tracking.shipDateTime).toISOString(),
+          estimatedDelivery: new Date(order.shippingInfo.estimatedDeliveryDate).toISOString(),
+          shippingAddress: {
+            name: address.name,
+            address1: address.address1,
+            address2: address.address2 ?? undefined,
+            city: address.city,
+            state: address.state,
+            postalCode: address.postalCode,
+            country: address.country,
+          },
+          items: [],
+        };
+
+        shipment.items.push({
+          id: line.lineNumber,
+          sku: line.item.sku,
+          productName: line.item.productName,
+          quantity: Number(entry.statusQuantity.amount),
+        });
+        shipments.set(id, shipment);
+      });
+    });
+
+    return Array.from(shipments.values());
+  }
+}
@@ -0,0 +1,181 @@
+import { WalmartApiClient, WalmartPage } from './walmartApiClient';
+import { WalmartTokenRecord } from './walmartTokenService';
+import { ReturnLine, ReturnOrder } from '../types';
+
+export type WalmartReturnLineStatus = 'INITIATED' | 'DELIVERED' | 'COMPLETED';
+
+interface WalmartReturnMoney {
+  currencyAmount: number;
+  currencyUnit: string;
+}
+
+interface WalmartReturnQuantity {
+  unitOfMeasure: string;
+  measurementValue: number;
+}
+
+export interface WalmartReturnOrderLine {
+  returnOrderLineNumber: number;
+  purchaseOrderId: string;
+  purchaseOrderLineNumber: number;
+  returnReason: string;
+  returnDescription?: string;
+  item: { sku: string; productName: string };
+  unitPrice: WalmartReturnMoney;
+  quantity: WalmartReturnQuantity;
+  refundedQty?: WalmartReturnQuantity;
+  status: WalmartReturnLineStatus;
+  currentDeliveryStatus?: 'INITIATED' | 'IN_TRANSIT' | 'DELIVERED';
+  currentRefundStatus?: 'REFUND_PENDING' | 'REFUND_PARTIAL' | 'REFUND_COMPLETED';
+  carrierInfoList?: { carrierName: string; trackingNo: string }[];
+  returnTrackingDetail?: { sequenceNo: number; eventTag: string; eventDescription: string; eventTime: string }[];
+}
+
+/**
+ * A return order as Walmart's v3 Returns API returns it
+ */
+export interface WalmartReturnOrder {
+  returnOrderId: string;
+  customerOrderId: string;
+  customerEmailId: string;
+  customerName: { firstName: string; lastName: string };
+  returnOrderDate: string;
+  returnByDate?: string;
+  totalRefundAmount?: WalmartReturnMoney;
+  returnOrderLines: WalmartReturnOrderLine[];
+}
+
+interface WalmartReturnListResponse {
+  meta?: { totalCount?: number; limit?: number; nextCursor?: string | null };
+  returnOrders?: WalmartReturnOrder[];
+}
+
+export interface WalmartReturnFilters {
+  status?: WalmartReturnLineStatus;
+  returnOrderId?: string;
+  customerOrderId?: string;
+  limit?: number;
+}
+
+// Walmart's return reason codes, as the seller sees them
+export const RETURN_REASON_LABELS: Record<string, string> = {
+  ARRIVED_DAMAGED: 'Arrived damaged',
+  DEFECTIVE: 'Defective',
+  WRONG_ITEM: 'Wrong item sent',
+  NOT_AS_DESCRIBED: 'Not as described',
+  NO_LONGER_NEEDED: 'No longer needed',
+  MISSING_PARTS: 'Missing parts',
+};
+
+/**
+ * Units of one return line to refund
+ */
+export interface ReturnLineRefund {
+  lineNumber: string;
+  quantity: number;
+}
+
+export class WalmartReturnService {
+  /**
+   * Page through the account's return orders, newest first
+   */
+  static pages(
+    account: WalmartTokenRecord,
+    filters: WalmartReturnFilters = {},
+    cursor?: string | null
+  ): AsyncGenerator<WalmartPage<WalmartReturnOrder>, void, undefined> {
+    const { limit, ...query } = filters;
+
+    return WalmartApiClient.paginate<WalmartReturnListResponse, WalmartReturnOrder>(account, {
+      path: '/v3/returns',
+      query: { ...query, limit },
+      cursor,
+      getItems: (data) => data.returnOrders,
+      getTotalCount: (data) => data.meta?.totalCount,
+      getNextCursor: (data) => data.meta?.nextCursor,
+    });
+  }
+
+  /**
+   * One return order, or null when Walmart has no return with that ID
+   */
+  static async getReturn(account: WalmartTokenRecord, returnOrderId: string): Promise<ReturnOrder | null> {
+    const { data } = await WalmartApiClient.get<WalmartReturnListResponse>(account, '/v3/returns', { returnOrderId });
+    const returnOrder = data.returnOrders?.find((candidate) => candidate.returnOrderId === returnOrderId);
+    return returnOrder ? this.toReturnOrder(returnOrder) : null;
+  }
+
+  /**
+   * Refund units of return lines: every unit still unrefunded for a full refund, fewer for
+   * a partial one. Returns the return order as Walmart has it afterwards.
+   */
+  static async issueRefund(
+    account: WalmartTokenRecord,
+    returnOrder: ReturnOrder,
+    lines: ReturnLineRefund[]
+  ): Promise<ReturnOrder> {
+    await WalmartApiClient.post(account, `/v3/returns/${encodeURIComponent(returnOrder.returnOrderId)}/refund`, {
+      customerOrderId: returnOrder.customerOrderId,
+      refundLines: lines.map((line) => ({
+        returnOrderLineNumber: Number(line.lineNumber),
+        quantity: { unitOfMeasure: 'EACH', measurementValue: line.quantity },
+      })),
+    });
+
+    return await this.getReturn(account, returnOrder.returnOrderId) ?? returnOrder;
+  }
+
+  /**
+   * Units of a line not yet refunded
+   */
+  static getRefundableQuantity(line: ReturnLine): number {
+    return line.quantity - line.refundedQuantity;
+  }
+
+  static getReasonLabel(reason: string): string {
+    return RETURN_REASON_LABELS[reason] ?? reason;
+  }
+
+  static toReturnOrder(returnOrder: WalmartReturnOrder): ReturnOrder {
+    const lines: ReturnLine[] = returnOrder.returnOrderLines.map((line) => {
+      const carrier = line.carrierInfoList?.[0];
+      return {
+        lineNumber: String(line.returnOrderLineNumber),
+        purchaseOrderId: line.purchaseOrderId,
+        purchaseOrderLineNumber: String(line.purchaseOrderLineNumber),
+        sku: line.item.sku,
+        productName: line.item.productName,
+        reason: line.returnReason,
+        reasonDescription: line.returnDescription,
+        quantity: line.quantity.measurementValue,
+        refundedQuantity: line.refundedQty?.measurementValue ?? 0,
+        unitPrice: line.unitPrice.currencyAmount,
+        status: line.status === 'COMPLETED' ? 'completed' : line.status === 'DELIVERED' ? 'delivered' : 'initiated',
+        shipmentStatus: line.currentDeliveryStatus === 'DELIVERED'
+          ? 'delivered'
+          : line.currentDeliveryStatus === 'IN_TRANSIT' ? 'in_transit' : 'awaiting_pickup',
+        refundStatus: line.currentRefundStatus === 'REFUND_COMPLETED'
+          ? 'refunded'
+          : line.currentRefundStatus === 'REFUND_PARTIAL' ? 'partial' : 'pending',
+        carrier: carrier?.carrierName,
+        trackingNumber: carrier?.trackingNo,
+        trackingEvents: [...(line.returnTrackingDetail ?? [])]
+          .sort((a, b) => a.sequenceNo - b.sequenceNo)
+          .map((event) => ({ description: event.eventDescription, occurredAt: event.eventTime })),
+      };
+    });
+
+    return {
+      id: returnOrder.returnOrderId,
+      returnOrderId: returnOrder.returnOrderId,
+      customerOrderId: returnOrder.customerOrderId,
+      customerName: `${returnOrder.customerName.firstName} ${returnOrder.customerName.lastName}`.trim(),
+      customerEmail: returnOrder.customerEmailId,
+      returnDate: returnOrder.returnOrderDate,
+      returnByDate: returnOrder.returnByDate,
+      refundedAmount: returnOrder.totalRefundAmount?.currencyAmount ?? 0,
+      currency: returnOrder.totalRefundAmount?.currencyUnit ?? 'USD',
+      lines,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { WalmartTokenRecord } from './walmartTokenService';
+
+/**
+ * Permission areas a seller can grant the app during authorization
+ */
+export type WalmartScope = 'item' | 'orders' | 'inventory' | 'reports';
+
+export interface WalmartScopeDefinition {
+  id: WalmartScope;
+  label: string;
+  description: string;
+}
+
+export const WALMART_SCOPES: WalmartScopeDefinition[] = [
+  { id: 'item', label: 'Items', description: 'View and update your catalog listings' },
+  { id: 'orders', label: 'Orders', description: 'Read, acknowledge, ship and cancel orders, and refund returns' },
+  { id: 'inventory', label: 'Inventory', description: 'Read and update stock levels' },
+  { id: 'reports', label: 'Reports', description: 'Request and download marketplace reports' },
+];
+
+export class WalmartScopeService {
+  /**
+   * Every scope the app knows about, in display order
+   */
+  static all(): WalmartScope[] {
+    return WALMART_SCOPES.map((scope) => scope.id);
+  }
+
+  static getLabel(scope: WalmartScope): string {
+    return WALMART_SCOPES.find((definition) => definition.id === scope)?.label ?? scope;
+  }
+
+  /**
+   * Parse a granted scope string ("item orders", "item,orders") into known scopes
+   */
+  static parse(scope?: string | null): WalmartScope[] {
+    if (!scope) return [];
+
+    const granted = new Set(scope.split(/[\s,]+/).filter(Boolean));
+    return this.all().filter((id) => granted.has(id));
+  }
+
+  /**
+   * Scopes granted to an account. Walmart does not report scopes for client-credentials
+   * tokens (and older connections never stored them); those accounts are treated as
+   * having everything, and Walmart itself rejects calls their key is not permitted to make.
+   */
+  static getGranted(account: WalmartTokenRecord): WalmartScope[] {
+    return account.scope ? this.parse(account.scope) : this.all();
+  }
+
+  /**
+   * Required scopes the account has not been granted
+   */
+  static getMissing(account: WalmartTokenRecord, required: WalmartScope[]): WalmartScope[] {
+    const granted = this.getGranted(account);
+    return required.filter((scope) => !granted.includes(scope));
+  }
+
+  /**
+   * Scopes to request when asking the seller to grant more: what they have plus what is needed
+   */
+  static getUpgradeScopes(account: WalmartTokenRecord, required: WalmartScope[]): WalmartScope[] {
+    const wanted = new Set([...this.getGranted(account), ...required]);
+    return this.all().filter((scope) => wanted.has(scope));
+  }
+}
@@ -1,138 +1,219 @@
 import { supabase } from '../lib/supabase';
-import { EncryptionService } from './encryptionService';
-
-// Walmart API configuration
-const WALMART_API_BASE_URL = 'https://marketplace.walmartapis.com';
-const WALMART_TOKEN_URL = `${WALMART_API_BASE_URL}/v3/token`;
-
-// These should be stored in environment variables in production
-const WALMART_CLIENT_ID = import.meta.env.VITE_WALMART_CLIENT_ID;
-const WALMART_CLIENT_SECRET = import.meta.env.VITE_WALMART_CLIENT_SECRET;
-
-export interface WalmartTokenResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-  refresh_token?: string;
-  scope?: string;
+import { TokenRefreshCoordinator } from './tokenRefreshCoordinator';
+import { WalmartScope, WalmartScopeService } from './walmartScopeService';
+import { WalmartApiError, toWalmartError } from './walmartErrors';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { scopeToSeller } from './sellerScope';
+
+/**
+ * Walmart environment an account is connected to
+ */
+export type WalmartEnvironment = 'production' | 'sandbox' | 'mock';
+
+interface WalmartEnvironmentConfig {
+  label: string;
+  apiBaseUrl: string;
+  // Client IDs are public; the client secrets live only in the token broker's function secrets
+  clientId?: string;
+  clientIdVariable: string;
 }
 
+const WALMART_MOCK_BASE_URL = import.meta.env.VITE_WALMART_MOCK_BASE_URL;
+
+const WALMART_ENVIRONMENTS: Record<WalmartEnvironment, WalmartEnvironmentConfig> = {
+  production: {
+    label: 'Production',
+    apiBaseUrl: 'https://marketplace.walmartapis.com',
+    clientId: import.meta.env.VITE_WALMART_CLIENT_ID,
+    clientIdVariable: 'VITE_WALMART_CLIENT_ID',
+  },
+  sandbox: {
+    label: 'Sandbox',
+    apiBaseUrl: 'https://sandbox.walmartapis.com',
+    clientId: import.meta.env.VITE_WALMART_SANDBOX_CLIENT_ID,
+    clientIdVariable: 'VITE_WALMART_SANDBOX_CLIENT_ID',
+  },
+  // Local stand-in; only offered when VITE_WALMART_MOCK_BASE_URL is set
+  mock: {
+    label: 'Local Mock',
+    apiBaseUrl: WALMART_MOCK_BASE_URL ?? '',
+    clientId: 'mock-client',
+    clientIdVariable: 'VITE_WALMART_MOCK_BASE_URL',
+  },
+};
+
+// Supabase Edge Function that performs code exchange, refresh and encrypted storage
+const TOKEN_BROKER_FUNCTION = 'walmart-token-broker';
+
+/**
+ * How an account obtains tokens: the seller's consent through Walmart's OAuth page,
+ * or the seller's own client ID and secret
+ */
+export type WalmartAuthMode = 'authorization_code' | 'client_credentials';
+
+/**
+ * Stored Walmart connection (one per seller account) as returned by the token broker.
+ * The encrypted access and refresh tokens never leave the server.
+ */
 export interface WalmartTokenRecord {
   id: string;
   user_id: string;
-  access_token: string; // This will be encrypted in the database
-  refresh_token?: string; // This will be encrypted in the database
   token_type: string;
   expires_in: number;
   expires_at: string;
   scope?: string;
   seller_id?: string;
+  account_name?: string;
+  environment: WalmartEnvironment;
+  auth_mode: WalmartAuthMode;
+  client_id?: string;
+  has_refresh_token: boolean;
+  needs_reconnect: boolean;
+  last_refreshed_at?: string;
+  last_refresh_error?: string;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Audit trail entry written by the token broker and the background keeper
+ */
+export interface WalmartTokenEvent {
+  id: string;
+  token_id?: string;
+  seller_id?: string;
+  environment?: WalmartEnvironment;
+  event_type: 'connect' | 'refresh' | 'disconnect';
+  source: 'broker' | 'keeper';
+  correlation_id: string;
+  outcome: 'success' | 'failure';
+  error?: string;
+  error_code?: string;
+  created_at: string;
+}
+
 export class WalmartTokenService {
   /**
-   * Refresh access token using encrypted refresh token (matches C# implementation)
+   * Invoke a token broker action on behalf of the signed-in user
    */
-  static async refreshAccessToken(encryptedRefreshToken: string, sellerId?: string): Promise<WalmartTokenResponse> {
-    if (!WALMART_CLIENT_ID || !WALMART_CLIENT_SECRET) {
-      throw new Error('Walmart API credentials not configured. Please set VITE_WALMART_CLIENT_ID and VITE_WALMART_CLIENT_SECRET in your environment variables.');
-    }
+  private static async invokeBroker<T>(action: string, payload: Record<string, unknown> = {}): Promise<T> {
+    return invokeEdgeFunction<T>(TOKEN_BROKER_FUNCTION, { action, ...payload });
+  }
 
+  /**
+   * List every Walmart seller account connected by the signed-in user
+   */
+  static async listAccounts(): Promise<WalmartTokenRecord[]> {
     try {
-      // Decrypt the refresh token
-      const refreshToken = await EncryptionService.decryptToken(encryptedRefreshToken);
+      const { accounts } = await this.invokeBroker<{ accounts: WalmartTokenRecord[] }>('accounts');
+      return accounts;
+    } catch (error) {
+      console.error('Error listing Walmart accounts:', error);
+      throw error;
+    }
+  }
 
-      const params = new URLSearchParams({
-        grant_type: 'refresh_token',
-        refresh_token: refreshToken,
-      });
+  /**
+   * Display name for an account
+   */
+  static getAccountLabel(account: WalmartTokenRecord): string {
+    return account.account_name || (account.seller_id ? `Seller ${account.seller_id}` : 'Walmart account');
+  }
 
-      const credentials = btoa(`${WALMART_CLIENT_ID}:${WALMART_CLIENT_SECRET}`);
-      
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Accept': 'application/json',
-        'Authorization': `Basic ${credentials}`,
-        'WM_QOS.CORRELATION_ID': crypto.randomUUID(),
-        'WM_SVC.NAME': 'VNLWFS',
-      };
+  /**
+   * Environments a new account can be connected to
+   */
+  static getEnvironments(): WalmartEnvironment[] {
+    return WALMART_MOCK_BASE_URL ? ['production', 'sandbox', 'mock'] : ['production', 'sandbox'];
+  }
 
-      // Add seller ID if provided (matches C# implementation)
-      if (sellerId) {
-        headers['WM_PARTNER.ID'] = sellerId;
-      }
+  static getEnvironmentLabel(environment: WalmartEnvironment): string {
+    return WALMART_ENVIRONMENTS[environment].label;
+  }
 
-      const response = await fetch(WALMART_TOKEN_URL, {
-        method: 'POST',
-        headers,
-        body: params.toString(),
-      });
+  /**
+   * Base URL for Walmart API requests made on behalf of an account in this environment
+   */
+  static getApiBaseUrl(environment: WalmartEnvironment): string {
+    const { apiBaseUrl } = WALMART_ENVIRONMENTS[environment];
+    if (!apiBaseUrl) {
+      throw new Error('The local mock environment is not configured. Please set VITE_WALMART_MOCK_BASE_URL in your environment variables.');
+    }
+    return apiBaseUrl;
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Walmart API Error: ${response.status} - ${errorData.error_description || response.statusText}`);
-      }
+  /**
+   * Most recent token events for an account, newest first
+   */
+  static async getTokenEvents(sellerId?: string, limit: number = 50): Promise<WalmartTokenEvent[]> {
+    const query = supabase
+      .from('walmart_token_events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
 
-      const tokenData: WalmartTokenResponse = await response.json();
-      return tokenData;
-    } catch (error) {
-      console.error('Error refreshing Walmart access token:', error);
+    const { data, error } = await scopeToSeller(query, sellerId, 'seller_id');
+
+    if (error) {
+      console.error('Error loading Walmart token events:', error);
       throw error;
     }
+    return data as WalmartTokenEvent[];
   }
 
   /**
-   * Store encrypted token in database (matches C# SellerToken model)
+   * Whether the broker can renew this account's token without the seller:
+   * with a refresh token, or by minting a new one from stored client credentials
    */
-  static async storeToken(userId: string, tokenData: WalmartTokenResponse, sellerId?: string): Promise<WalmartTokenRecord> {
+  static canRenew(account: WalmartTokenRecord): boolean {
+    return account.auth_mode === 'client_credentials' || account.has_refresh_token;
+  }
+
+  /**
+   * Refresh the stored access token through the broker.
+   * Concurrent calls for the same account, in this tab or others, share one refresh.
+   */
+  static async refreshAccessToken(sellerId?: string): Promise<WalmartTokenRecord> {
     try {
-      // Encrypt tokens before storing
-      const encryptedAccessToken = await EncryptionService.encryptToken(tokenData.access_token);
-      const encryptedRefreshToken = tokenData.refresh_token 
-        ? await EncryptionService.encryptToken(tokenData.refresh_token)
-        : null;
-
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + (tokenData.expires_in * 1000));
-
-      const { data, error } = await supabase
-        .from('walmart_tokens')
-        .upsert({
-          user_id: userId,
-          access_token: encryptedAccessToken,
-          refresh_token: encryptedRefreshToken,
-          token_type: tokenData.token_type,
-          expires_in: tokenData.expires_in,
-          expires_at: expiresAt.toISOString(),
-          scope: tokenData.scope,
-          seller_id: sellerId,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
+      return await TokenRefreshCoordinator.run(this.refreshKey(sellerId), 'refresh', async () => {
+        const record = await this.invokeBroker<WalmartTokenRecord>('refresh', { sellerId });
+        TokenRefreshCoordinator.announce(record);
+        return record;
+      });
     } catch (error) {
-      console.error('Error storing Walmart token:', error);
+      console.error('Error refreshing Walmart access token:', error);
       throw error;
     }
   }
 
   /**
-   * Get stored token from database
+   * Refresh only if the token is still expiring once this caller holds the refresh lock,
+   * so callers that queued behind another tab's refresh reuse its result
    */
-  static async getStoredToken(userId: string): Promise<WalmartTokenRecord | null> {
+  static async refreshIfExpiring(sellerId?: string, bufferMinutes: number = 5): Promise<{ token: WalmartTokenRecord | null; wasRefreshed: boolean }> {
+    return await TokenRefreshCoordinator.run(this.refreshKey(sellerId), 'refresh-if-expiring', async () => {
+      const current = await this.getStoredToken(sellerId);
+      if (!current || !this.isTokenExpiring(current, bufferMinutes)) {
+        return { token: current, wasRefreshed: false };
+      }
+
+      const record = await this.invokeBroker<WalmartTokenRecord>('refresh', { sellerId });
+      TokenRefreshCoordinator.announce(record);
+      return { token: record, wasRefreshed: true };
+    });
+  }
+
+  private static refreshKey(sellerId?: string): string {
+    return sellerId ?? 'default';
+  }
+
+  /**
+   * Get stored connection from the broker
+   */
+  static async getStoredToken(sellerId?: string): Promise<WalmartTokenRecord | null> {
     try {
-      const { data, error } = await supabase
-        .from('walmart_tokens')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
-
-      if (error && error.code !== 'PGRST116') throw error;
-      return data;
+      const { connection } = await this.invokeBroker<{ connection: WalmartTokenRecord | null }>('status', { sellerId });
+      return connection;
     } catch (error) {
       console.error('Error getting stored Walmart token:', error);
       throw error;
@@ -146,53 +227,38 @@ export class WalmartTokenService {
     const expiresAt = new Date(token.expires_at);
     const now = new Date();
     const bufferTime = bufferMinutes * 60 * 1000; // Convert to milliseconds
-    
+
     return (expiresAt.getTime() - now.getTime()) <= bufferTime;
   }
 
   /**
-   * Get valid decrypted access token (refresh if needed)
+   * Get valid decrypted access token (the broker refreshes it if needed).
+   * Concurrent callers in this tab share one request; the broker's row lease
+   * makes callers from other tabs wait for the same refreshed token.
    */
-  static async getValidAccessToken(userId: string): Promise<{ token: string; isRefreshed: boolean }> {
-    const storedToken = await this.getStoredToken(userId);
-    
-    if (!storedToken) {
-      throw new Error('No Walmart token found. Please connect to Walmart first.');
-    }
-
-    // If token is not expiring, decrypt and return it
-    if (!this.isTokenExpiring(storedToken)) {
-      const decryptedToken = await EncryptionService.decryptToken(storedToken.access_token);
-      return { token: decryptedToken, isRefreshed: false };
-    }
+  static async getValidAccessToken(sellerId?: string): Promise<{ token: string; isRefreshed: boolean }> {
+    try {
+      const result = await TokenRefreshCoordinator.dedupe(`access:${this.refreshKey(sellerId)}`, () =>
+        this.invokeBroker<{ token: string; isRefreshed: boolean; connection: WalmartTokenRecord }>('access_token', { sellerId })
+      );
 
-    // If token is expiring and we have a refresh token, refresh it
-    if (storedToken.refresh_token) {
-      try {
-        const newTokenData = await this.refreshAccessToken(storedToken.refresh_token, storedToken.seller_id);
-        const updatedToken = await this.storeToken(userId, newTokenData, storedToken.seller_id);
-        const decryptedToken = await EncryptionService.decryptToken(updatedToken.access_token);
-        return { token: decryptedToken, isRefreshed: true };
-      } catch (error) {
-        console.error('Error refreshing token:', error);
-        throw new Error('Token expired and refresh failed. Please reconnect to Walmart.');
+      if (result.isRefreshed) {
+        TokenRefreshCoordinator.announce(result.connection);
       }
-    }
 
-    throw new Error('Token expired and no refresh token available. Please reconnect to Walmart.');
+      return { token: result.token, isRefreshed: result.isRefreshed };
+    } catch (error) {
+      console.error('Error getting valid Walmart access token:', error);
+      throw error;
+    }
   }
 
   /**
    * Delete stored token
    */
-  static async deleteToken(userId: string): Promise<void> {
+  static async deleteToken(sellerId?: string): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('walmart_tokens')
-        .delete()
-        .eq('user_id', userId);
-
-      if (error) throw error;
+      await this.invokeBroker('disconnect', { sellerId });
     } catch (error) {
       console.error('Error deleting Walmart token:', error);
       throw error;
@@ -200,64 +266,90 @@ export class WalmartTokenService {
   }
 
   /**
-   * Generate Walmart authorization URL
+   * Generate Walmart authorization URL for an environment (PKCE S256 when a code challenge is given)
    */
-  static generateAuthorizationUrl(redirectUri: string, state?: string): string {
-    if (!WALMART_CLIENT_ID) {
-      throw new Error('Walmart Client ID not configured. Please set VITE_WALMART_CLIENT_ID in your environment variables.');
+  static generateAuthorizationUrl(
+    redirectUri: string,
+    state?: string,
+    codeChallenge?: string,
+    environment: WalmartEnvironment = 'production',
+    scopes: WalmartScope[] = WalmartScopeService.all()
+  ): string {
+    if (scopes.length === 0) {
+      throw new Error('Select at least one permission to request from Walmart.');
+    }
+
+    const { clientId, clientIdVariable } = WALMART_ENVIRONMENTS[environment];
+    if (!clientId) {
+      throw new Error(`Walmart Client ID not configured. Please set ${clientIdVariable} in your environment variables.`);
     }
 
     const params = new URLSearchParams({
-      client_id: WALMART_CLIENT_ID,
+      client_id: clientId,
       redirect_uri: redirectUri,
       response_type: 'code',
-      scope: 'item orders inventory reports', // Adjust scopes as needed
+      scope: scopes.join(' '),
     });
 
     if (state) {
       params.append('state', state);
     }
 
-    return `${WALMART_API_BASE_URL}/v3/token/authorize?${params.toString()}`;
+    if (codeChallenge) {
+      params.append('code_challenge', codeChallenge);
+      params.append('code_challenge_method', 'S256');
+    }
+
+    return `${this.getApiBaseUrl(environment)}/v3/token/authorize?${params.toString()}`;
   }
 
   /**
-   * Get access token using authorization code flow
+   * Exchange an authorization code for tokens; the broker stores them encrypted
    */
-  static async getAccessToken(authorizationCode: string, redirectUri: string): Promise<WalmartTokenResponse> {
-    if (!WALMART_CLIENT_ID || !WALMART_CLIENT_SECRET) {
-      throw new Error('Walmart API credentials not configured. Please set VITE_WALMART_CLIENT_ID and VITE_WALMART_CLIENT_SECRET in your environment variables.');
+  static async connectWithAuthorizationCode(
+    authorizationCode: string,
+    redirectUri: string,
+    codeVerifier: string,
+    sellerId?: string,
+    accountName?: string,
+    environment: WalmartEnvironment = 'production'
+  ): Promise<WalmartTokenRecord> {
+    try {
+      return await this.invokeBroker<WalmartTokenRecord>('exchange', {
+        code: authorizationCode,
+        redirectUri,
+        codeVerifier,
+        sellerId,
+        accountName,
+        environment,
+      });
+    } catch (error) {
+      console.error('Error getting Walmart access token:', error);
+      throw error;
     }
+  }
 
-    const params = new URLSearchParams({
-      grant_type: 'authorization_code',
-      code: authorizationCode,
-      redirect_uri: redirectUri,
-      client_id: WALMART_CLIENT_ID,
-      client_secret: WALMART_CLIENT_SECRET,
-    });
-
+  /**
+   * Connect an account with the seller's own Walmart API credentials. The broker mints a
+   * token to verify them, then stores the secret encrypted; it is never returned.
+   */
+  static async connectWithClientCredentials(
+    clientId: string,
+    clientSecret: string,
+    sellerId: string,
+    accountName?: string,
+    environment: WalmartEnvironment = 'production'
+  ): Promise<WalmartTokenRecord> {
     try {
-      const response = await fetch(WALMART_TOKEN_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Accept': 'application/json',
-          'WM_SVC.NAME': 'VNLWFS',
-          'WM_QOS.CORRELATION_ID': crypto.randomUUID(),
-        },
-        body: params.toString(),
+      return await this.invokeBroker<WalmartTokenRecord>('connect_credentials', {
+        clientId,
+        clientSecret,
+        sellerId,
+        accountName,
+        environment,
       });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Walmart API Error: ${response.status} - ${errorData.error_description || response.statusText}`);
-      }
-
-      const tokenData: WalmartTokenResponse = await response.json();
-      return tokenData;
     } catch (error) {
-      console.error('Error getting Walmart access token:', error);
+      console.error('Error connecting Walmart client credentials:', error);
       throw error;
     }
   }
@@ -265,15 +357,15 @@ export class WalmartTokenService {
   /**
    * Check connection status and get token info
    */
-  static async getConnectionStatus(userId: string): Promise<{
+  static async getConnectionStatus(sellerId?: string): Promise<{
     isConnected: boolean;
     token?: WalmartTokenRecord;
     isExpiring?: boolean;
     needsRefresh?: boolean;
   }> {
     try {
-      const token = await this.getStoredToken(userId);
-      
+      const token = await this.getStoredToken(sellerId);
+
       if (!token) {
         return { isConnected: false };
       }
@@ -296,34 +388,42 @@ export class WalmartTokenService {
   /**
    * Auto-refresh token if needed and return connection status
    */
-  static async ensureValidConnection(userId: string): Promise<{
+  static async ensureValidConnection(sellerId?: string): Promise<{
     isConnected: boolean;
     token?: WalmartTokenRecord;
     wasRefreshed?: boolean;
-    error?: string;
+    error?: WalmartApiError;
   }> {
     try {
-      const status = await this.getConnectionStatus(userId);
-      
+      const status = await this.getConnectionStatus(sellerId);
+
       if (!status.isConnected) {
         return { isConnected: false };
       }
 
-      // If token needs refresh, try to refresh it
-      if (status.needsRefresh && status.token?.refresh_token) {
+      // Walmart already rejected the refresh token; only a new authorization will help
+      if (status.token?.needs_reconnect) {
+        return {
+          isConnected: true,
+          token: status.token,
+          wasRefreshed: false
+        };
+      }
+
+      // If token needs refresh, try to refresh it (once, even if several callers notice at the same time)
+      if (status.needsRefresh && status.token && this.canRenew(status.token)) {
         try {
-          const newTokenData = await this.refreshAccessToken(status.token.refresh_token, status.token.seller_id);
-          const updatedToken = await this.storeToken(userId, newTokenData, status.token.seller_id);
-          
+          const { token: updatedToken, wasRefreshed } = await this.refreshIfExpiring(sellerId);
+
           return {
-            isConnected: true,
-            token: updatedToken,
-            wasRefreshed: true
+            isConnected: !!updatedToken,
+            token: updatedToken ?? undefined,
+            wasRefreshed
           };
-        } catch (refreshError) {
+        } catch (error) {
           return {
             isConnected: false,
-            error: 'Token refresh failed. Please reconnect to Walmart.'
+            error: toWalmartError(error, 'Token refresh failed. Please reconnect to Walmart.')
           };
         }
       }
@@ -337,8 +437,8 @@ export class WalmartTokenService {
       console.error('Error ensuring valid connection:', error);
       return {
         isConnected: false,
-        error: 'Failed to check connection status'
+        error: toWalmartError(error, 'Failed to check connection status')
       };
     }
   }
-}
\ No newline at end of file
+}
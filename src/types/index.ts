@@ -20,6 +20,19 @@ export interface Product {
   sellerId: string;
 }
 
+export interface CatalogItem {
+  sku: string;
+  wpid: string;
+  upc?: string;
+  gtin?: string;
+  name: string;
+  productType: string;
+  price: number;
+  currency: string;
+  publishedStatus: string;
+  lifecycleStatus: string;
+}
+
 export interface WalmartToken {
   id: string;
   seller_id: string;
@@ -65,6 +78,9 @@ export interface Order {
   orderDate: string;
   status: 'created' | 'acknowledged' | 'shipped' | 'delivered' | 'cancelled';
   totalAmount: number;
+  // Walmart's shipping promise: ship by, and deliver by
+  estimatedShipDate?: string;
+  estimatedDeliveryDate?: string;
   shippingAddress: {
     name: string;
     address1: string;
@@ -89,11 +105,12 @@ export interface OrderItem {
 export interface InventoryItem {
   id: string;
   sku: string;
-  productName: string;
+  // Walmart's inventory API only reports SKUs
+  productName?: string;
   availableQuantity: number;
   reservedQuantity: number;
   totalQuantity: number;
-  lastUpdated: string;
+  lastUpdated?: string;
   location: string;
   status: 'in_stock' | 'low_stock' | 'out_of_stock';
 }
@@ -124,4 +141,42 @@ export interface ShipmentItem {
   sku: string;
   productName: string;
   quantity: number;
-}
\ No newline at end of file
+}
+export interface ReturnOrder {
+  id: string;
+  returnOrderId: string;
+  customerOrderId: string;
+  customerName: string;
+  customerEmail: string;
+  returnDate: string;
+  returnByDate?: string;
+  // Refunded so far
+  refundedAmount: number;
+  currency: string;
+  lines: ReturnLine[];
+}
+
+export interface ReturnLine {
+  lineNumber: string;
+  // The order line the units were bought on
+  purchaseOrderId: string;
+  purchaseOrderLineNumber: string;
+  sku: string;
+  productName: string;
+  reason: string;
+  reasonDescription?: string;
+  quantity: number;
+  refundedQuantity: number;
+  unitPrice: number;
+  status: 'initiated' | 'delivered' | 'completed';
+  shipmentStatus: 'awaiting_pickup' | 'in_transit' | 'delivered';
+  refundStatus: 'pending' | 'partial' | 'refunded';
+  carrier?: string;
+  trackingNumber?: string;
+  trackingEvents: ReturnTrackingEvent[];
+}
+
+export interface ReturnTrackingEvent {
+  description: string;
+  occurredAt: string;
+}
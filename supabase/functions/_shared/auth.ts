@@ -0,0 +1,36 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { BrokerError } from './walmartTokens.ts';
+
+// Caller identification shared by the Edge Functions the browser and pg_cron call
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+/**
+ * Resolve the calling user from the Authorization header
+ */
+export async function getCallerId(req: Request): Promise<string> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    throw new BrokerError('Missing Authorization header', 401, 'unauthenticated');
+  }
+
+  const client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+
+  const { data, error } = await client.auth.getUser();
+  if (error || !data.user) {
+    throw new BrokerError('Invalid or expired session', 401, 'unauthenticated');
+  }
+  return data.user.id;
+}
+
+/**
+ * Whether the request carries the service role key (scheduled jobs and manual runs)
+ */
+export function isServiceRoleRequest(req: Request): boolean {
+  return req.headers.get('Authorization') === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`;
+}
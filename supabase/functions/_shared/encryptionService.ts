@@ -0,0 +1,212 @@
+/**
+ * Token encryption with a versioned, key-rotatable envelope.
+ *
+ * Current format:  v1:<keyId>:<base64(iv || AES-GCM ciphertext+tag)>
+ * Legacy format:   <base64(iv || AES-CBC ciphertext)>  (C# SellerToken compatible, decrypt only)
+ *
+ * Keys come from function secrets, never from source:
+ *   WALMART_TOKEN_KEYS        comma-separated "<keyId>:<base64 256-bit key>" entries, current key first
+ *   WALMART_TOKEN_LEGACY_KEY  base64 AES key used by the C#-compatible CBC format
+ */
+export class EncryptionService {
+  private static readonly ENVELOPE_VERSION = 'v1';
+  private static readonly GCM_IV_LENGTH = 12;
+  private static readonly CBC_IV_LENGTH = 16;
+
+  private static keyring: Map<string, string> | null = null;
+  private static cryptoKeys = new Map<string, Promise<CryptoKey>>();
+
+  /**
+   * Encrypt token with the current key using AES-GCM
+   */
+  static async encryptToken(token: string): Promise<string> {
+    try {
+      const keyId = this.getCurrentKeyId();
+      const iv = crypto.getRandomValues(new Uint8Array(this.GCM_IV_LENGTH));
+      const cryptoKey = await this.getGcmKey(keyId);
+
+      const encrypted = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: this.envelopeHeader(keyId) },
+        cryptoKey,
+        new TextEncoder().encode(token)
+      );
+
+      const combined = new Uint8Array(iv.length + encrypted.byteLength);
+      combined.set(iv);
+      combined.set(new Uint8Array(encrypted), iv.length);
+
+      return `${this.ENVELOPE_VERSION}:${keyId}:${this.arrayBufferToBase64(combined.buffer)}`;
+    } catch (error) {
+      console.error('Encryption error:', error);
+      throw new Error('Failed to encrypt token');
+    }
+  }
+
+  /**
+   * Decrypt a token in either the versioned envelope or the legacy CBC format
+   */
+  static async decryptToken(encryptedToken: string): Promise<string> {
+    try {
+      const envelope = this.parseEnvelope(encryptedToken);
+      if (!envelope) {
+        return await this.decryptLegacyToken(encryptedToken);
+      }
+
+      const fullCipher = this.base64ToArrayBuffer(envelope.payload);
+      const iv = fullCipher.slice(0, this.GCM_IV_LENGTH);
+      const cipher = fullCipher.slice(this.GCM_IV_LENGTH);
+      const cryptoKey = await this.getGcmKey(envelope.keyId);
+
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: this.envelopeHeader(envelope.keyId) },
+        cryptoKey,
+        cipher
+      );
+
+      return new TextDecoder().decode(decrypted);
+    } catch (error) {
+      console.error('Decryption error:', error);
+      throw new Error('Failed to decrypt token');
+    }
+  }
+
+  /**
+   * Whether a stored ciphertext should be rewritten with the current key
+   */
+  static needsReEncryption(encryptedToken: string): boolean {
+    const envelope = this.parseEnvelope(encryptedToken);
+    return !envelope || envelope.keyId !== this.getCurrentKeyId();
+  }
+
+  /**
+   * Decrypt with whichever key produced the ciphertext and encrypt again with the current key
+   */
+  static async reEncryptToken(encryptedToken: string): Promise<string> {
+    return await this.encryptToken(await this.decryptToken(encryptedToken));
+  }
+
+  /**
+   * Decrypt the C#-compatible format: AES-CBC with the IV prepended
+   */
+  private static async decryptLegacyToken(encryptedToken: string): Promise<string> {
+    const legacyKey = Deno.env.get('WALMART_TOKEN_LEGACY_KEY');
+    if (!legacyKey) {
+      throw new Error('WALMART_TOKEN_LEGACY_KEY is required to decrypt legacy tokens');
+    }
+
+    const fullCipher = this.base64ToArrayBuffer(encryptedToken);
+    const iv = fullCipher.slice(0, this.CBC_IV_LENGTH);
+    const cipher = fullCipher.slice(this.CBC_IV_LENGTH);
+
+    const cryptoKey = await crypto.subtle.importKey(
+      'raw',
+      this.base64ToArrayBuffer(legacyKey),
+      { name: 'AES-CBC' },
+      false,
+      ['decrypt']
+    );
+
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-CBC', iv },
+      cryptoKey,
+      cipher
+    );
+
+    return new TextDecoder().decode(decrypted);
+  }
+
+  /**
+   * Split a versioned envelope; returns null for legacy ciphertexts (plain base64 has no ':')
+   */
+  private static parseEnvelope(encryptedToken: string): { keyId: string; payload: string } | null {
+    const parts = encryptedToken.split(':');
+    if (parts.length === 1) return null;
+
+    const [version, keyId, payload] = parts;
+    if (parts.length !== 3 || version !== this.ENVELOPE_VERSION || !keyId || !payload) {
+      throw new Error(`Unsupported ciphertext envelope: ${version}`);
+    }
+    return { keyId, payload };
+  }
+
+  /**
+   * Version and key ID are bound to the ciphertext as additional authenticated data
+   */
+  private static envelopeHeader(keyId: string): Uint8Array {
+    return new TextEncoder().encode(`${this.ENVELOPE_VERSION}:${keyId}`);
+  }
+
+  private static getKeyring(): Map<string, string> {
+    if (this.keyring) return this.keyring;
+
+    const entries = (Deno.env.get('WALMART_TOKEN_KEYS') || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    if (entries.length === 0) {
+      throw new Error('WALMART_TOKEN_KEYS is not configured');
+    }
+
+    const keyring = new Map<string, string>();
+    for (const entry of entries) {
+      const separator = entry.indexOf(':');
+      const keyId = entry.slice(0, separator);
+      const key = entry.slice(separator + 1);
+      if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(keyId) || !key) {
+        throw new Error('WALMART_TOKEN_KEYS entries must look like "<keyId>:<base64 key>"');
+      }
+      keyring.set(keyId, key);
+    }
+
+    this.keyring = keyring;
+    return keyring;
+  }
+
+  private static getCurrentKeyId(): string {
+    return this.getKeyring().keys().next().value as string;
+  }
+
+  private static getGcmKey(keyId: string): Promise<CryptoKey> {
+    let cryptoKey = this.cryptoKeys.get(keyId);
+    if (!cryptoKey) {
+      const rawKey = this.getKeyring().get(keyId);
+      if (!rawKey) {
+        throw new Error(`Unknown encryption key ID: ${keyId}`);
+      }
+      cryptoKey = crypto.subtle.importKey(
+        'raw',
+        this.base64ToArrayBuffer(rawKey),
+        { name: 'AES-GCM' },
+        false,
+        ['encrypt', 'decrypt']
+      );
+      this.cryptoKeys.set(keyId, cryptoKey);
+    }
+    return cryptoKey;
+  }
+
+  /**
+   * Convert base64 string to ArrayBuffer
+   */
+  private static base64ToArrayBuffer(base64: string): ArrayBuffer {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
+  /**
+   * Convert ArrayBuffer to base64 string
+   */
+  private static arrayBufferToBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
+}
@@ -0,0 +1,64 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Audit trail of token operations, written to walmart_tokens' companion table walmart_token_events
+
+export type TokenEventType = 'connect' | 'refresh' | 'disconnect';
+
+// Who started the operation: a signed-in user through the broker, or the scheduled keeper
+export type TokenEventSource = 'broker' | 'keeper';
+
+/**
+ * Identifies one operation across our logs, the audit trail and Walmart's
+ * (sent to Walmart as WM_QOS.CORRELATION_ID)
+ */
+export interface TokenOperationContext {
+  correlationId: string;
+  source: TokenEventSource;
+}
+
+export interface TokenEvent {
+  user_id: string;
+  token_id?: string | null;
+  seller_id: string | null;
+  environment?: string | null;
+  event_type: TokenEventType;
+  outcome: 'success' | 'failure';
+  error?: string | null;
+  error_code?: string | null;
+}
+
+export function createOperationContext(source: TokenEventSource): TokenOperationContext {
+  return { correlationId: crypto.randomUUID(), source };
+}
+
+/**
+ * Outcome fields for an event describing a failed operation
+ */
+export function failureDetails(error: unknown): Pick<TokenEvent, 'outcome' | 'error' | 'error_code'> {
+  const code = (error as { code?: unknown } | null)?.code;
+  return {
+    outcome: 'failure',
+    error: error instanceof Error ? error.message : String(error),
+    error_code: typeof code === 'string' ? code : null,
+  };
+}
+
+/**
+ * Append an event to the audit trail. Never throws: a failed audit write must not
+ * fail the token operation it describes.
+ */
+export async function recordTokenEvent(
+  db: SupabaseClient,
+  context: TokenOperationContext,
+  event: TokenEvent
+): Promise<void> {
+  const { error } = await db
+    .from('walmart_token_events')
+    .insert({
+      ...event,
+      source: context.source,
+      correlation_id: context.correlationId,
+    });
+
+  if (error) console.error('Failed to record token event:', error);
+}
@@ -0,0 +1,189 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { BrokerError, WalmartTokenRow, isReconnectRequired, scopeToSeller } from './walmartTokens.ts';
+import { MarketplaceSession, marketplaceRequest } from './walmartMarketplace.ts';
+
+// Walmart stock as stored in the inventory table. `quantity` is what the seller wants
+// Walmart to have, `walmart_quantity` what Walmart had when last read and `base_quantity`
+// the Walmart quantity the two were last in step at (see the sturdy_pantry migration).
+
+export type InventorySyncStatus = 'synced' | 'pending' | 'conflict' | 'failed';
+
+interface WalmartQuantity {
+  unit: string;
+  amount: number;
+}
+
+/**
+ * A SKU's stock at each ship node, as `/v3/inventories` returns it
+ */
+export interface WalmartInventory {
+  sku: string;
+  nodes: {
+    shipNode: string;
+    inputQty: WalmartQuantity;
+    availToSellQty: WalmartQuantity;
+    reservedQty: WalmartQuantity;
+  }[];
+}
+
+export interface InventoryRow {
+  id: string;
+  user_id: string;
+  walmart_seller_id: string | null;
+  sku: string;
+  ship_node: string;
+  quantity: number;
+  walmart_quantity: number;
+  base_quantity: number;
+  reserved_quantity: number;
+  sync_status: InventorySyncStatus;
+  last_error: string | null;
+}
+
+// PostgREST's default largest response
+const LIST_PAGE_SIZE = 1000;
+
+const INVENTORY_COLUMNS = 'id, user_id, walmart_seller_id, sku, ship_node, quantity, walmart_quantity, base_quantity, reserved_quantity, sync_status, last_error';
+
+function accountQuery(db: SupabaseClient, row: WalmartTokenRow) {
+  const query = db
+    .from('inventory')
+    .select(INVENTORY_COLUMNS)
+    .eq('user_id', row.user_id);
+  return scopeToSeller(query, row.seller_id);
+}
+
+export async function findInventoryRow(db: SupabaseClient, row: WalmartTokenRow, sku: string, shipNode: string): Promise<InventoryRow> {
+  const { data, error } = await accountQuery(db, row).eq('sku', sku).eq('ship_node', shipNode).maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new BrokerError(`SKU ${sku} at ${shipNode} is not in the synced inventory; sync inventory first`, 404, undefined, { field: 'sku' });
+  }
+  return data as InventoryRow;
+}
+
+/**
+ * Every row of the account, read a page at a time
+ */
+export async function listInventoryRows(db: SupabaseClient, row: WalmartTokenRow): Promise<InventoryRow[]> {
+  const rows: InventoryRow[] = [];
+  while (true) {
+    const { data, error } = await accountQuery(db, row)
+      .order('id')
+      .range(rows.length, rows.length + LIST_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...data as InventoryRow[]);
+    if (data.length < LIST_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * The account's rows in the given statuses, oldest edit first. Rows an inventory feed is
+ * still carrying to Walmart are left out; the feed settles them.
+ */
+export async function findInventoryRows(db: SupabaseClient, row: WalmartTokenRow, statuses: InventorySyncStatus[], limit: number): Promise<InventoryRow[]> {
+  const { data, error } = await accountQuery(db, row)
+    .in('sync_status', statuses)
+    .is('feed_id', null)
+    .order('local_updated_at', { ascending: true, nullsFirst: true })
+    .limit(limit);
+  if (error) throw error;
+  return data as InventoryRow[];
+}
+
+export async function updateInventoryRow(db: SupabaseClient, id: string, values: Record<string, unknown>): Promise<void> {
+  const { error } = await db.from('inventory').update(values).eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Merge a page of Walmart stock into the table; returns each row's status afterwards
+ */
+export async function reconcileInventory(
+  db: SupabaseClient,
+  row: WalmartTokenRow,
+  inventories: WalmartInventory[]
+): Promise<{ sku: string; ship_node: string; sync_status: InventorySyncStatus }[]> {
+  const stock = inventories.flatMap((inventory) => inventory.nodes.map((node) => ({
+    sku: inventory.sku,
+    ship_node: node.shipNode,
+    input_qty: node.inputQty.amount,
+    available_qty: node.availToSellQty.amount,
+    reserved_qty: node.reservedQty.amount,
+  })));
+  if (stock.length === 0) return [];
+
+  const { data, error } = await db.rpc('reconcile_walmart_inventory', {
+    p_user_id: row.user_id,
+    p_walmart_seller_id: row.seller_id,
+    p_stock: stock,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Give back the stock cancelled order lines held, per SKU; returns the units released
+ */
+export async function releaseReservations(
+  db: SupabaseClient,
+  row: WalmartTokenRow,
+  releases: { sku: string; quantity: number }[]
+): Promise<number> {
+  if (releases.length === 0) return 0;
+
+  const { data, error } = await db.rpc('release_inventory_reservations', {
+    p_user_id: row.user_id,
+    p_walmart_seller_id: row.seller_id,
+    p_releases: releases,
+  });
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Walmart's current quantity for one SKU at one ship node
+ */
+export async function readWalmartQuantity(session: MarketplaceSession, sku: string, shipNode: string): Promise<number> {
+  const data = await marketplaceRequest<{ quantity?: WalmartQuantity }>(
+    session,
+    `/v3/inventory?${new URLSearchParams({ sku, shipNode })}`
+  );
+  return data?.quantity?.amount ?? 0;
+}
+
+/**
+ * Send a row's quantity to Walmart and record the outcome on the row. Walmart rejecting
+ * the update marks the row failed; a failure every other call would hit too (the seller
+ * must reconnect) is thrown instead.
+ */
+export async function pushInventoryRow(db: SupabaseClient, session: MarketplaceSession, item: InventoryRow): Promise<InventoryRow> {
+  try {
+    await marketplaceRequest(session, `/v3/inventory?${new URLSearchParams({ sku: item.sku, shipNode: item.ship_node })}`, {
+      method: 'PUT',
+      body: { sku: item.sku, quantity: { unit: 'EACH', amount: item.quantity } },
+    });
+  } catch (error) {
+    if (isReconnectRequired(error)) throw error;
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    await updateInventoryRow(db, item.id, { sync_status: 'failed', last_error: message });
+    return { ...item, sync_status: 'failed', last_error: message };
+  }
+
+  const synced = {
+    walmart_quantity: item.quantity,
+    base_quantity: item.quantity,
+    // Walmart sells what is on hand less what open orders hold
+    available_quantity: Math.max(0, item.quantity - item.reserved_quantity),
+    sync_status: 'synced' as const,
+    last_error: null,
+  };
+  // Only if the quantity was not edited again meanwhile; that edit is still to be pushed
+  const { error } = await db
+    .from('inventory')
+    .update(synced)
+    .eq('id', item.id)
+    .eq('quantity', item.quantity);
+  if (error) throw error;
+  return { ...item, ...synced };
+}
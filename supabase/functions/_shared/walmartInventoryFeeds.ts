@@ -0,0 +1,297 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { WalmartTokenRow, isReconnectRequired, scopeToSeller } from './walmartTokens.ts';
+import { MarketplaceSession, marketplaceRequest } from './walmartMarketplace.ts';
+
+// Inventory feeds submitted to Walmart and their outcome, as stored in walmart_inventory_feeds
+// (see the copper_crate migration). Walmart processes a feed some time after accepting it, so
+// open feeds are polled until they finish and their per-SKU results are then recorded on the
+// inventory rows they carried. A feed is stored as pending before it is uploaded, so an upload
+// Walmart accepted is never left untracked; one still pending long after is matched to the
+// feeds Walmart lists.
+
+export type InventoryFeedStatus = 'pending' | 'received' | 'in_progress' | 'processed' | 'error';
+
+export interface InventoryFeedRow {
+  id: string;
+  // Walmart's ID; null while the feed is pending
+  feed_id: string | null;
+  source: 'grid' | 'csv';
+  status: InventoryFeedStatus;
+  item_count: number;
+  items_succeeded: number;
+  items_failed: number;
+  last_error: string | null;
+  submitted_at: string;
+  processed_at: string | null;
+}
+
+const FEED_COLUMNS = 'id, feed_id, source, status, item_count, items_succeeded, items_failed, last_error, submitted_at, processed_at';
+
+const FEED_STATUSES: Record<string, InventoryFeedStatus> = {
+  RECEIVED: 'received',
+  INPROGRESS: 'in_progress',
+  PROCESSED: 'processed',
+  ERROR: 'error',
+};
+
+export const FEED_TYPE = 'MP_INVENTORY';
+
+// Largest page of per-SKU results Walmart returns
+const DETAILS_PAGE_SIZE = 1000;
+// Open feeds checked per poll; older ones first
+const POLL_BATCH = 20;
+// A feed still pending this long after it was stored belongs to an upload that stopped before
+// recording Walmart's feed ID
+const PENDING_CUTOFF_MS = 10 * 60 * 1000;
+// Allowance for Walmart's clock running behind the database's when matching a pending feed
+const CLOCK_SKEW_MS = 60 * 1000;
+// Most recent feeds read from Walmart's feed list when matching pending feeds
+const FEED_LIST_LIMIT = 50;
+
+interface IngestionError {
+  code?: string;
+  field?: string;
+  description?: string;
+}
+
+interface FeedStatusResponse {
+  feedStatus: string;
+  itemsReceived?: number;
+  itemsSucceeded?: number;
+  itemsFailed?: number;
+  ingestionErrors?: { ingestionError?: IngestionError[] | null };
+  itemDetails?: {
+    itemIngestionStatus?: {
+      sku: string;
+      // Set on multi-node inventory feeds: the ship node the result is for
+      shipNode?: string | null;
+      ingestionStatus: string;
+      ingestionErrors?: { ingestionError?: IngestionError[] | null };
+    }[];
+  };
+}
+
+interface FeedListResponse {
+  results?: {
+    feed?: { feedId: string; feedType?: string; feedDate?: number; itemsReceived?: number }[];
+  };
+}
+
+// A rejected item; ship_node is null when Walmart's result covers every node of the SKU
+interface Rejection {
+  sku: string;
+  ship_node: string | null;
+  error: string;
+}
+
+// Feeds past pending always carry Walmart's ID
+type SubmittedFeedRow = InventoryFeedRow & { feed_id: string };
+
+function describeErrors(errors: IngestionError[] | null | undefined): string | null {
+  const descriptions = (errors ?? []).map((error) => error.description).filter(Boolean);
+  return descriptions.length > 0 ? descriptions.join('; ') : null;
+}
+
+/**
+ * Store a feed about to be uploaded, as pending until Walmart gives it an ID
+ */
+export async function insertInventoryFeed(
+  db: SupabaseClient,
+  row: WalmartTokenRow,
+  feed: { source: 'grid' | 'csv'; item_count: number }
+): Promise<InventoryFeedRow> {
+  const { data, error } = await db
+    .from('walmart_inventory_feeds')
+    .insert({ user_id: row.user_id, walmart_seller_id: row.seller_id, status: 'pending', ...feed })
+    .select(FEED_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as InventoryFeedRow;
+}
+
+async function saveInventoryFeed(db: SupabaseClient, id: string, values: Record<string, unknown>): Promise<InventoryFeedRow> {
+  const { data, error } = await db
+    .from('walmart_inventory_feeds')
+    .update(values)
+    .eq('id', id)
+    .select(FEED_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as InventoryFeedRow;
+}
+
+function updateInventoryFeed(db: SupabaseClient, id: string, values: Record<string, unknown>): Promise<InventoryFeedRow> {
+  return saveInventoryFeed(db, id, { ...values, last_polled_at: new Date().toISOString() });
+}
+
+/**
+ * A pending feed Walmart accepted: record its feed ID, so it is polled from now on
+ */
+export function recordFeedUploaded(db: SupabaseClient, id: string, feedId: string): Promise<InventoryFeedRow> {
+  return saveInventoryFeed(db, id, { feed_id: feedId, status: 'received', submitted_at: new Date().toISOString() });
+}
+
+/**
+ * A pending feed whose upload failed: Walmart has none of its SKUs
+ */
+export function recordFeedUploadFailed(db: SupabaseClient, feed: InventoryFeedRow, message: string): Promise<InventoryFeedRow> {
+  return saveInventoryFeed(db, feed.id, {
+    status: 'error',
+    items_failed: feed.item_count,
+    last_error: message,
+    processed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Walmart's per-SKU results for a processed feed: the SKUs (and ship nodes) it rejected and why
+ */
+async function readRejections(session: MarketplaceSession, feedId: string, first: FeedStatusResponse): Promise<Rejection[]> {
+  const rejected: Rejection[] = [];
+  let page = first;
+  let offset = 0;
+
+  while (true) {
+    const results = page.itemDetails?.itemIngestionStatus ?? [];
+    results
+      .filter((result) => result.ingestionStatus !== 'SUCCESS')
+      .forEach((result) => rejected.push({
+        sku: result.sku,
+        ship_node: result.shipNode ?? null,
+        error: describeErrors(result.ingestionErrors?.ingestionError) ?? `Walmart reported ${result.ingestionStatus}`,
+      }));
+
+    offset += DETAILS_PAGE_SIZE;
+    if (results.length < DETAILS_PAGE_SIZE || offset >= (page.itemsReceived ?? 0)) return rejected;
+
+    page = await marketplaceRequest<FeedStatusResponse>(session, feedStatusPath(feedId, offset));
+  }
+}
+
+function feedStatusPath(feedId: string, offset: number): string {
+  const params = new URLSearchParams({ includeDetails: 'true', offset: String(offset), limit: String(DETAILS_PAGE_SIZE) });
+  return `/v3/feeds/${encodeURIComponent(feedId)}?${params}`;
+}
+
+/**
+ * Check one feed with Walmart. Once it has finished, its outcome is recorded on the feed
+ * and on the inventory rows it carried.
+ */
+async function pollInventoryFeed(db: SupabaseClient, session: MarketplaceSession, feed: SubmittedFeedRow): Promise<InventoryFeedRow> {
+  const summary = await marketplaceRequest<FeedStatusResponse>(session, feedStatusPath(feed.feed_id, 0));
+  const status = FEED_STATUSES[summary.feedStatus] ?? 'in_progress';
+
+  if (status === 'received' || status === 'in_progress') {
+    return await updateInventoryFeed(db, feed.id, { status, last_error: null });
+  }
+
+  const feedError = status === 'error'
+    ? describeErrors(summary.ingestionErrors?.ingestionError) ?? 'Walmart could not process the feed'
+    : null;
+  const rejected = feedError ? [] : await readRejections(session, feed.feed_id, summary);
+
+  const { error } = await db.rpc('settle_walmart_inventory_feed', {
+    p_feed_id: feed.id,
+    p_errors: rejected,
+    p_feed_error: feedError,
+  });
+  if (error) throw error;
+
+  return await updateInventoryFeed(db, feed.id, {
+    status,
+    items_succeeded: feedError ? 0 : summary.itemsSucceeded ?? feed.item_count - rejected.length,
+    items_failed: feedError ? feed.item_count : summary.itemsFailed ?? rejected.length,
+    last_error: feedError,
+    processed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Settle the account's feeds left pending by an upload that stopped before recording Walmart's
+ * feed ID. Each is matched to the oldest inventory feed Walmart lists since it was stored, with
+ * the same number of SKUs and not recorded on another feed; one Walmart does not list was never
+ * received. Rows of a matched feed were not staged, so the next inventory sync reads their
+ * quantities back from Walmart.
+ */
+async function repairPendingFeeds(db: SupabaseClient, session: MarketplaceSession): Promise<void> {
+  const query = db
+    .from('walmart_inventory_feeds')
+    .select(FEED_COLUMNS)
+    .eq('user_id', session.row.user_id)
+    .eq('status', 'pending')
+    .lt('submitted_at', new Date(Date.now() - PENDING_CUTOFF_MS).toISOString());
+  const { data, error } = await scopeToSeller(query, session.row.seller_id)
+    .order('submitted_at', { ascending: true })
+    .limit(POLL_BATCH);
+  if (error) throw error;
+
+  const pending = data as InventoryFeedRow[];
+  if (pending.length === 0) return;
+
+  const params = new URLSearchParams({ offset: '0', limit: String(FEED_LIST_LIMIT) });
+  const listed = await marketplaceRequest<FeedListResponse>(session, `/v3/feeds?${params}`);
+  const candidates = (listed.results?.feed ?? [])
+    .filter((feed) => feed.feedType === FEED_TYPE)
+    .sort((a, b) => (a.feedDate ?? 0) - (b.feedDate ?? 0));
+
+  const claimed = new Set<string>();
+  if (candidates.length > 0) {
+    const { data: recorded, error: recordedError } = await db
+      .from('walmart_inventory_feeds')
+      .select('feed_id')
+      .in('feed_id', candidates.map((feed) => feed.feedId));
+    if (recordedError) throw recordedError;
+    (recorded as { feed_id: string }[]).forEach((feed) => claimed.add(feed.feed_id));
+  }
+
+  for (const feed of pending) {
+    const storedAt = Date.parse(feed.submitted_at) - CLOCK_SKEW_MS;
+    const match = candidates.find((candidate) => !claimed.has(candidate.feedId)
+      && (candidate.feedDate ?? 0) >= storedAt
+      && candidate.itemsReceived === feed.item_count);
+
+    if (match) {
+      claimed.add(match.feedId);
+      await saveInventoryFeed(db, feed.id, { feed_id: match.feedId, status: 'received', last_error: null });
+    } else {
+      await recordFeedUploadFailed(db, feed, 'The upload did not finish and Walmart lists no matching feed');
+    }
+  }
+}
+
+/**
+ * Poll the account's feeds Walmart has not finished processing. A feed that cannot be
+ * checked keeps its status and records why; a failure every call would hit (the seller
+ * must reconnect) is thrown instead.
+ */
+export async function pollInventoryFeeds(db: SupabaseClient, session: MarketplaceSession): Promise<InventoryFeedRow[]> {
+  try {
+    await repairPendingFeeds(db, session);
+  } catch (repairError) {
+    if (isReconnectRequired(repairError)) throw repairError;
+    // Left pending for the next poll
+    console.error('Could not match pending inventory feeds:', repairError);
+  }
+
+  const query = db
+    .from('walmart_inventory_feeds')
+    .select(FEED_COLUMNS)
+    .eq('user_id', session.row.user_id)
+    .in('status', ['received', 'in_progress']);
+  const { data, error } = await scopeToSeller(query, session.row.seller_id)
+    .order('submitted_at', { ascending: true })
+    .limit(POLL_BATCH);
+  if (error) throw error;
+
+  const polled: InventoryFeedRow[] = [];
+  for (const feed of data as SubmittedFeedRow[]) {
+    try {
+      polled.push(await pollInventoryFeed(db, session, feed));
+    } catch (pollError) {
+      if (isReconnectRequired(pollError)) throw pollError;
+      const message = pollError instanceof Error ? pollError.message : 'Unexpected error';
+      polled.push(await updateInventoryFeed(db, feed.id, { last_error: message }));
+    }
+  }
+  return polled;
+}
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { throttleDelay } from './walmartMarketplace.ts';
+
+function throttled(replenishAt?: number): Response {
+  return new Response(null, {
+    status: 429,
+    headers: replenishAt === undefined ? {} : { 'x-next-replenish-time': String(replenishAt) },
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('throttleDelay', () => {
+  it('waits until the replenish time Walmart reports', () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    expect(throttleDelay(throttled(1_004_000), 0)).toBe(4000);
+  });
+
+  it('backs off exponentially when the replenish time is missing', () => {
+    expect([0, 1, 2].map((attempt) => throttleDelay(throttled(), attempt))).toEqual([1000, 2000, 4000]);
+  });
+
+  it('backs off exponentially when the replenish time has already passed', () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    expect(throttleDelay(throttled(990_000), 0)).toBe(1000);
+    expect(throttleDelay(throttled(1_000_000), 2)).toBe(4000);
+  });
+
+  it('never waits longer than the cap', () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    expect(throttleDelay(throttled(1_000_000 + 120_000), 0)).toBe(30_000);
+    expect(throttleDelay(throttled(), 10)).toBe(30_000);
+  });
+});
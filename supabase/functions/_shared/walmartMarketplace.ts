@@ -0,0 +1,125 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { EncryptionService } from './encryptionService.ts';
+import { TokenOperationContext } from './tokenEvents.ts';
+import {
+  BrokerError,
+  WalmartTokenRow,
+  getEnvironmentConfig,
+  isTokenExpiring,
+  parseWalmartError,
+  refreshSingleFlight,
+} from './walmartTokens.ts';
+
+// Marketplace API calls made by Edge Functions on a seller's behalf (the browser uses
+// WalmartApiClient instead)
+
+// Refresh when the access token expires within this window
+const REFRESH_BUFFER_MINUTES = 5;
+
+const MAX_THROTTLE_RETRIES = 3;
+// First wait when Walmart gives no usable replenish time; doubles on each retry
+const THROTTLE_BACKOFF_MS = 1000;
+// Longest a job waits for Walmart to replenish a rate-limit bucket
+const MAX_THROTTLE_WAIT_MS = 30_000;
+
+/**
+ * Holds a seller's current token for a series of calls, refreshing it when needed
+ */
+export interface MarketplaceSession {
+  db: SupabaseClient;
+  row: WalmartTokenRow;
+  context: TokenOperationContext;
+  accessToken?: string;
+}
+
+async function currentAccessToken(session: MarketplaceSession, forceRefresh: boolean = false): Promise<string> {
+  if (forceRefresh || isTokenExpiring(session.row, REFRESH_BUFFER_MINUTES)) {
+    session.row = await refreshSingleFlight(session.db, session.row.user_id, session.row, session.context);
+    session.accessToken = undefined;
+  }
+  session.accessToken ??= await EncryptionService.decryptToken(session.row.access_token);
+  return session.accessToken;
+}
+
+/**
+ * How long to wait before retrying a throttled call: until Walmart's replenish time, or with
+ * exponential backoff when the time is missing or already past
+ */
+export function throttleDelay(response: Response, attempt: number): number {
+  const replenishAt = Number.parseInt(response.headers.get('x-next-replenish-time') ?? '', 10);
+  const delay = Number.isNaN(replenishAt) || replenishAt <= Date.now()
+    ? THROTTLE_BACKOFF_MS * 2 ** attempt
+    : replenishAt - Date.now();
+  return Math.min(MAX_THROTTLE_WAIT_MS, delay);
+}
+
+/**
+ * Call a Marketplace endpoint (path and query, e.g. `/v3/orders?limit=100`) and return
+ * its JSON body. Plain bodies are sent as JSON and FormData (feed uploads) as multipart.
+ * Throttled calls wait and retry; a rejected token is refreshed once.
+ * Failures throw a BrokerError carrying Walmart's code, field and status.
+ */
+export async function marketplaceRequest<T>(
+  session: MarketplaceSession,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const { baseUrl } = getEnvironmentConfig(session.row.environment);
+  let refreshed = false;
+  let attempt = 0;
+
+  while (true) {
+    const headers: Record<string, string> = {
+      'WM_SEC.ACCESS_TOKEN': await currentAccessToken(session),
+      'WM_QOS.CORRELATION_ID': session.context.correlationId,
+      'WM_SVC.NAME': 'Walmart Marketplace',
+      'Accept': 'application/json',
+    };
+    if (session.row.seller_id) {
+      headers['WM_PARTNER.ID'] = session.row.seller_id;
+    }
+    const multipart = init.body instanceof FormData;
+    // fetch sets the multipart Content-Type itself, with the boundary
+    if (init.body !== undefined && !multipart) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: init.method ?? 'GET',
+      headers,
+      body: multipart ? init.body as FormData : init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+
+    if (response.ok) {
+      const text = await response.text();
+      return (text ? JSON.parse(text) : null) as T;
+    }
+
+    if (response.status === 401 && !refreshed) {
+      refreshed = true;
+      await currentAccessToken(session, true);
+      continue;
+    }
+
+    if (response.status === 429 && attempt < MAX_THROTTLE_RETRIES) {
+      await new Promise((resolve) => setTimeout(resolve, throttleDelay(response, attempt++)));
+      continue;
+    }
+
+    // Walmart's 4xx answers pass through so the browser can tell validation from permission
+    // problems; a token rejected even after a refresh means the seller must reconnect
+    const error = parseWalmartError(await response.text(), response.headers.get('Content-Type') ?? '');
+    const status = response.status === 401 ? 409 : response.status < 500 ? response.status : 502;
+    throw new BrokerError(
+      `Walmart rejected ${init.method ?? 'GET'} ${path.split('?')[0]} (${response.status}): ${error.description || response.statusText}`,
+      status,
+      response.status === 401 ? 'reconnect_required' : error.code,
+      {
+        field: error.field,
+        severity: error.severity,
+        walmartStatus: response.status,
+        correlationId: session.context.correlationId,
+      }
+    );
+  }
+}
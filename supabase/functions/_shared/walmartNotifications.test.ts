@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { BrokerError } from './walmartTokens.ts';
+import { isRetryableFailure, signBody, verifySignature } from './walmartNotifications.ts';
+
+describe('isRetryableFailure', () => {
+  it('is final for a purchase order Walmart does not have', () => {
+    expect(isRetryableFailure(new BrokerError('Walmart rejected GET /v3/orders/404 (404): Not found', 404))).toBe(false);
+  });
+
+  it('is final when the seller must reconnect', () => {
+    expect(isRetryableFailure(new BrokerError('Walmart needs you to reconnect this account first', 409, 'reconnect_required'))).toBe(false);
+  });
+
+  it('retries outages, throttling and network failures', () => {
+    expect(isRetryableFailure(new BrokerError('Walmart rejected GET /v3/orders/1 (503): Unavailable', 502))).toBe(true);
+    expect(isRetryableFailure(new BrokerError('Walmart rejected GET /v3/orders/1 (429): Too many requests', 429))).toBe(true);
+    expect(isRetryableFailure(new TypeError('fetch failed'))).toBe(true);
+  });
+});
+
+describe('verifySignature', () => {
+  const body = JSON.stringify({ source: { eventType: 'PO_CREATED', eventId: 'event-1' } });
+
+  it('accepts the signature of the exact body', async () => {
+    expect(await verifySignature('secret', body, await signBody('secret', body))).toBe(true);
+  });
+
+  it('rejects another body, another secret or no signature', async () => {
+    const signature = await signBody('secret', body);
+    expect(await verifySignature('secret', body.replace('event-1', 'event-2'), signature)).toBe(false);
+    expect(await verifySignature('other', body, signature)).toBe(false);
+    expect(await verifySignature('secret', body, null)).toBe(false);
+    expect(await verifySignature('secret', body, 'not base64!')).toBe(false);
+  });
+});
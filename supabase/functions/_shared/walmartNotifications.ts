@@ -0,0 +1,132 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { EncryptionService } from './encryptionService.ts';
+import { BrokerError, scopeToSeller } from './walmartTokens.ts';
+
+// Walmart Notifications API deliveries, shared by walmart-notifications (the receiver)
+// and walmart-notification-subscriptions (subscribe, unsubscribe and replay)
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+// Public address of the functions gateway, when Walmart cannot reach SUPABASE_URL
+const WALMART_NOTIFICATIONS_BASE_URL = Deno.env.get('WALMART_NOTIFICATIONS_BASE_URL')?.replace(/\/$/, '');
+
+export const RECEIVER_FUNCTION = 'walmart-notifications';
+
+// Header Walmart puts the HMAC-SHA256 signature of the raw body in (base64), as
+// registered in each subscription's authDetails
+export const SIGNATURE_HEADER = 'WM_SEC.AUTH_SIGNATURE';
+
+// Resource of the order event types this app offers; the receiver ignores any other event
+export const ORDER_RESOURCE = 'ORDER';
+
+/**
+ * One event as Walmart delivers it
+ */
+export interface WalmartNotification {
+  source: {
+    eventType: string;
+    eventId: string;
+    eventTime?: string;
+    domain?: string;
+    version?: string;
+  };
+  payload?: {
+    purchaseOrderId?: string;
+    [key: string]: unknown;
+  };
+}
+
+export interface NotificationEndpointRow {
+  id: string;
+  user_id: string;
+  walmart_seller_id: string | null;
+  secret: string;
+}
+
+const encoder = new TextEncoder();
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+function toBase64(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array | null {
+  try {
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signature of a raw delivery body, as Walmart computes it
+ */
+export async function signBody(secret: string, body: string): Promise<string> {
+  return toBase64(await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(body)));
+}
+
+/**
+ * Check a delivery's signature header against its raw body. crypto.subtle.verify
+ * compares in constant time.
+ */
+export async function verifySignature(secret: string, body: string, signature: string | null): Promise<boolean> {
+  const bytes = signature ? fromBase64(signature.trim()) : null;
+  if (!bytes) return false;
+  return crypto.subtle.verify('HMAC', await hmacKey(secret), bytes, encoder.encode(body));
+}
+
+/**
+ * Whether processing an event that failed this way could succeed when Walmart redelivers
+ * it: outages, throttling and network failures. A 4xx, such as a purchase order Walmart
+ * does not have or an authorization the seller revoked, is final.
+ */
+export function isRetryableFailure(error: unknown): boolean {
+  if (!(error instanceof BrokerError)) return true;
+  return error.status >= 500 || error.status === 408 || error.status === 429;
+}
+
+/**
+ * Where Walmart delivers an endpoint's events
+ */
+export function endpointUrl(endpointId: string): string {
+  return `${WALMART_NOTIFICATIONS_BASE_URL ?? `${SUPABASE_URL}/functions/v1`}/${RECEIVER_FUNCTION}/${endpointId}`;
+}
+
+function endpointQuery(db: SupabaseClient, userId: string, sellerId: string | null) {
+  const query = db
+    .from('walmart_notification_endpoints')
+    .select('id, user_id, walmart_seller_id, secret')
+    .eq('user_id', userId);
+  return scopeToSeller(query, sellerId);
+}
+
+export async function findEndpoint(db: SupabaseClient, userId: string, sellerId: string | null): Promise<NotificationEndpointRow | null> {
+  const { data, error } = await endpointQuery(db, userId, sellerId).maybeSingle();
+  if (error) throw error;
+  return data as NotificationEndpointRow | null;
+}
+
+/**
+ * The account's endpoint, created with a fresh secret on first use. The secret stays
+ * the same afterwards, since every subscription registered with Walmart carries it.
+ */
+export async function getOrCreateEndpoint(db: SupabaseClient, userId: string, sellerId: string | null): Promise<NotificationEndpointRow> {
+  const existing = await findEndpoint(db, userId, sellerId);
+  if (existing) return existing;
+
+  const secret = toBase64(crypto.getRandomValues(new Uint8Array(32)).buffer);
+  const { error } = await db
+    .from('walmart_notification_endpoints')
+    .insert({ user_id: userId, walmart_seller_id: sellerId, secret: await EncryptionService.encryptToken(secret) });
+
+  // Another request created it first
+  if (error && error.code !== '23505') throw error;
+
+  return (await findEndpoint(db, userId, sellerId))!;
+}
+
+export function decryptSecret(endpoint: NotificationEndpointRow): Promise<string> {
+  return EncryptionService.decryptToken(endpoint.secret);
+}
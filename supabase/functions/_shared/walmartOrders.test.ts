@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { WalmartOrderLine, cancelledReservations } from './walmartOrders.ts';
+
+function line(lineNumber: string, sku: string): WalmartOrderLine {
+  return { lineNumber, item: { productName: sku, sku } } as WalmartOrderLine;
+}
+
+describe('cancelledReservations', () => {
+  const lines = [line('1', 'SKU-1'), line('2', 'SKU-2'), line('3', 'SKU-1')];
+
+  it('releases the cancelled units of each SKU, adding up its lines', () => {
+    expect(cancelledReservations(lines, [
+      { lineNumber: '1', quantity: 2, reason: 'SELLER_CANCEL_OUT_OF_STOCK' },
+      { lineNumber: '3', quantity: 1, reason: 'SELLER_CANCEL_OUT_OF_STOCK' },
+      { lineNumber: '2', quantity: 1, reason: 'CUSTOMER_REQUESTED_SELLER_TO_CANCEL' },
+    ])).toEqual([{ sku: 'SKU-1', quantity: 3 }, { sku: 'SKU-2', quantity: 1 }]);
+  });
+
+  it('releases only the units cancelled, not the whole line', () => {
+    expect(cancelledReservations(lines, [{ lineNumber: '2', quantity: 1, reason: 'SELLER_CANCEL_PRICING_ERROR' }]))
+      .toEqual([{ sku: 'SKU-2', quantity: 1 }]);
+  });
+
+  it('skips lines the order does not have', () => {
+    expect(cancelledReservations(lines, [{ lineNumber: '9', quantity: 1, reason: 'SELLER_CANCEL_PRICING_ERROR' }])).toEqual([]);
+  });
+});
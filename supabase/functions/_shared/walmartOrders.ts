@@ -0,0 +1,314 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { WalmartTokenRow } from './walmartTokens.ts';
+import { MarketplaceSession, marketplaceRequest } from './walmartMarketplace.ts';
+
+// Walmart orders as stored in the orders and order_lines tables
+
+export type WalmartOrderLineStatus = 'Created' | 'Acknowledged' | 'Shipped' | 'Delivered' | 'Cancelled';
+
+export type OrderStatus = 'created' | 'acknowledged' | 'shipped' | 'delivered' | 'cancelled';
+
+// Reasons Walmart accepts when a seller cancels order lines
+export const CANCELLATION_REASONS = [
+  'CUSTOMER_REQUESTED_SELLER_TO_CANCEL',
+  'SELLER_CANCEL_OUT_OF_STOCK',
+  'SELLER_CANCEL_PRICING_ERROR',
+  'SELLER_CANCEL_FRAUD_STOP_SHIPMENT',
+  'SELLER_CANCEL_ADDRESS_NOT_SERVICEABLE',
+] as const;
+
+export type CancellationReason = typeof CANCELLATION_REASONS[number];
+
+/**
+ * Units of one order line to cancel
+ */
+export interface LineCancellation {
+  lineNumber: string;
+  quantity: number;
+  reason: CancellationReason;
+}
+
+interface WalmartMoney {
+  currency: string;
+  amount: number;
+}
+
+export interface WalmartOrderLine {
+  lineNumber: string;
+  item: { productName: string; sku: string };
+  charges: {
+    charge: {
+      chargeType: string;
+      chargeName: string;
+      chargeAmount: WalmartMoney;
+      tax: { taxName: string; taxAmount: WalmartMoney } | null;
+    }[];
+  };
+  orderLineQuantity: { unitOfMeasurement: string; amount: string };
+  statusDate: number;
+  orderLineStatuses: {
+    orderLineStatus: {
+      status: WalmartOrderLineStatus;
+      statusQuantity: { amount: string };
+      cancellationReason?: string;
+    }[];
+  };
+}
+
+export interface WalmartOrder {
+  purchaseOrderId: string;
+  customerOrderId: string;
+  customerEmailId: string;
+  orderDate: number;
+  shippingInfo: {
+    phone: string;
+    estimatedDeliveryDate: number;
+    estimatedShipDate: number;
+    methodCode: string;
+    postalAddress: {
+      name: string;
+      address1: string;
+      address2?: string | null;
+      city: string;
+      state: string;
+      postalCode: string;
+      country: string;
+    };
+  };
+  orderLines: { orderLine: WalmartOrderLine[] };
+}
+
+// Least advanced first: an order (or line) stays "created" until every unit is acknowledged
+const STATUS_PRECEDENCE: [WalmartOrderLineStatus, OrderStatus][] = [
+  ['Created', 'created'],
+  ['Acknowledged', 'acknowledged'],
+  ['Shipped', 'shipped'],
+  ['Delivered', 'delivered'],
+  ['Cancelled', 'cancelled'],
+];
+
+export function leastAdvancedStatus(lines: WalmartOrderLine[]): OrderStatus {
+  const statuses = new Set(
+    lines.flatMap((line) => line.orderLineStatuses.orderLineStatus.map((entry) => entry.status))
+  );
+  return STATUS_PRECEDENCE.find(([status]) => statuses.has(status))?.[1] ?? 'created';
+}
+
+function toTimestamp(value: number | undefined): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toOrderRow(userId: string, account: WalmartTokenRow, order: WalmartOrder, syncedAt: string) {
+  const lines = order.orderLines.orderLine;
+  const address = order.shippingInfo.postalAddress;
+  const charges = lines.flatMap((line) => line.charges.charge);
+
+  return {
+    seller_id: userId,
+    walmart_seller_id: account.seller_id,
+    purchase_order_id: order.purchaseOrderId,
+    customer_order_id: order.customerOrderId,
+    customer_name: address.name,
+    customer_email: order.customerEmailId,
+    order_date: new Date(order.orderDate).toISOString(),
+    status: leastAdvancedStatus(lines),
+    total_amount: charges.reduce((sum, charge) => sum + charge.chargeAmount.amount + (charge.tax?.taxAmount.amount ?? 0), 0),
+    currency: charges[0]?.chargeAmount.currency ?? 'USD',
+    shipping_address: {
+      name: address.name,
+      address1: address.address1,
+      address2: address.address2 ?? undefined,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postalCode,
+      country: address.country,
+    },
+    ship_method: order.shippingInfo.methodCode,
+    estimated_ship_date: toTimestamp(order.shippingInfo.estimatedShipDate),
+    estimated_delivery_date: toTimestamp(order.shippingInfo.estimatedDeliveryDate),
+    raw: order,
+    synced_at: syncedAt,
+  };
+}
+
+function toLineRow(userId: string, orderId: string, line: WalmartOrderLine) {
+  const quantity = Number(line.orderLineQuantity.amount);
+  const totalPrice = line.charges.charge
+    .filter((charge) => charge.chargeType === 'PRODUCT')
+    .reduce((sum, charge) => sum + charge.chargeAmount.amount, 0);
+
+  return {
+    order_id: orderId,
+    seller_id: userId,
+    line_number: line.lineNumber,
+    sku: line.item.sku,
+    product_name: line.item.productName,
+    quantity,
+    unit_price: quantity > 0 ? totalPrice / quantity : totalPrice,
+    total_price: totalPrice,
+    status: leastAdvancedStatus([line]),
+    statuses: line.orderLineStatuses.orderLineStatus,
+  };
+}
+
+type LineStatusEntry = WalmartOrderLine['orderLineStatuses']['orderLineStatus'][number];
+
+function quantitiesByStatus(entries: LineStatusEntry[]): Map<WalmartOrderLineStatus, number> {
+  const quantities = new Map<WalmartOrderLineStatus, number>();
+  entries.forEach((entry) => {
+    quantities.set(entry.status, (quantities.get(entry.status) ?? 0) + Number(entry.statusQuantity.amount));
+  });
+  return quantities;
+}
+
+/**
+ * Status history rows for the units of a line that reached a status since it was last
+ * stored. Walmart only reports current statuses, so a status whose quantity grew is a change.
+ */
+function statusEvents(
+  userId: string,
+  orderId: string,
+  order: WalmartOrder,
+  line: WalmartOrderLine,
+  previous: LineStatusEntry[] | undefined
+) {
+  const before = quantitiesByStatus(previous ?? []);
+  const entries = line.orderLineStatuses.orderLineStatus;
+
+  return [...quantitiesByStatus(entries)]
+    .filter(([status, quantity]) => quantity > (before.get(status) ?? 0))
+    .map(([status, quantity]) => ({
+      order_id: orderId,
+      seller_id: userId,
+      line_number: line.lineNumber,
+      status,
+      quantity: quantity - (before.get(status) ?? 0),
+      cancellation_reason: entries.find((entry) => entry.status === status)?.cancellationReason ?? null,
+      occurred_at: new Date(status === 'Created' ? order.orderDate : line.statusDate || Date.now()).toISOString(),
+    }));
+}
+
+/**
+ * Insert or update orders and their lines, keyed by purchase order ID and line number,
+ * so writing the same Walmart orders twice leaves the tables unchanged. Status changes
+ * since the previous write are appended to order_status_events.
+ */
+export async function upsertOrders(
+  db: SupabaseClient,
+  account: WalmartTokenRow,
+  orders: WalmartOrder[]
+): Promise<void> {
+  if (orders.length === 0) return;
+
+  const userId = account.user_id;
+  const syncedAt = new Date().toISOString();
+
+  const { data, error } = await db
+    .from('orders')
+    .upsert(orders.map((order) => toOrderRow(userId, account, order, syncedAt)), {
+      onConflict: 'seller_id,walmart_seller_id,purchase_order_id',
+    })
+    .select('id, purchase_order_id');
+
+  if (error) throw error;
+
+  const orderIds = new Map((data as { id: string; purchase_order_id: string }[]).map((row) => [row.purchase_order_id, row.id]));
+
+  const { data: stored, error: storedError } = await db
+    .from('order_lines')
+    .select('order_id, line_number, statuses')
+    .in('order_id', [...orderIds.values()]);
+
+  if (storedError) throw storedError;
+
+  const previousStatuses = new Map(
+    (stored as { order_id: string; line_number: string; statuses: LineStatusEntry[] }[])
+      .map((row) => [`${row.order_id}:${row.line_number}`, row.statuses])
+  );
+
+  const lines = [];
+  const events = [];
+  for (const order of orders) {
+    const orderId = orderIds.get(order.purchaseOrderId)!;
+    for (const line of order.orderLines.orderLine) {
+      lines.push(toLineRow(userId, orderId, line));
+      events.push(...statusEvents(userId, orderId, order, line, previousStatuses.get(`${orderId}:${line.lineNumber}`)));
+    }
+  }
+
+  const { error: linesError } = await db
+    .from('order_lines')
+    .upsert(lines, { onConflict: 'order_id,line_number' });
+
+  if (linesError) throw linesError;
+
+  if (events.length > 0) {
+    const { error: eventsError } = await db.from('order_status_events').insert(events);
+    if (eventsError) throw eventsError;
+  }
+}
+
+/**
+ * Acknowledge every open line of an order and store the order as Walmart returns it.
+ * Acknowledging an already acknowledged order is harmless.
+ */
+export async function acknowledgeOrder(session: MarketplaceSession, purchaseOrderId: string): Promise<WalmartOrder> {
+  const { order } = await marketplaceRequest<{ order: WalmartOrder }>(
+    session,
+    `/v3/orders/${encodeURIComponent(purchaseOrderId)}/acknowledge`,
+    { method: 'POST' }
+  );
+  await upsertOrders(session.db, session.row, [order]);
+  return order;
+}
+
+/**
+ * Units of each SKU that cancelled lines had reserved, as
+ * `release_inventory_reservations` takes them
+ */
+export function cancelledReservations(lines: WalmartOrderLine[], cancellations: LineCancellation[]): { sku: string; quantity: number }[] {
+  const bySku = new Map<string, number>();
+  for (const cancellation of cancellations) {
+    const line = lines.find((candidate) => candidate.lineNumber === cancellation.lineNumber);
+    if (line) {
+      bySku.set(line.item.sku, (bySku.get(line.item.sku) ?? 0) + cancellation.quantity);
+    }
+  }
+  return [...bySku].map(([sku, quantity]) => ({ sku, quantity }));
+}
+
+/**
+ * Cancel some or all open units of order lines and store the order as Walmart returns it.
+ * Walmart releases the inventory the cancelled units had reserved.
+ */
+export async function cancelOrderLines(
+  session: MarketplaceSession,
+  purchaseOrderId: string,
+  cancellations: LineCancellation[]
+): Promise<WalmartOrder> {
+  const { order } = await marketplaceRequest<{ order: WalmartOrder }>(
+    session,
+    `/v3/orders/${encodeURIComponent(purchaseOrderId)}/cancel`,
+    {
+      method: 'POST',
+      body: {
+        orderCancellation: {
+          orderLines: {
+            orderLine: cancellations.map((cancellation) => ({
+              lineNumber: cancellation.lineNumber,
+              orderLineStatuses: {
+                orderLineStatus: [{
+                  status: 'Cancelled',
+                  cancellationReason: cancellation.reason,
+                  statusQuantity: { unitOfMeasurement: 'EACH', amount: String(cancellation.quantity) },
+                }],
+              },
+            })),
+          },
+        },
+      },
+    }
+  );
+  await upsertOrders(session.db, session.row, [order]);
+  return order;
+}
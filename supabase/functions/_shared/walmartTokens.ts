@@ -0,0 +1,533 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { jsonResponse } from './cors.ts';
+import { EncryptionService } from './encryptionService.ts';
+import { TokenOperationContext, failureDetails, recordTokenEvent } from './tokenEvents.ts';
+
+// Token storage and refresh shared by walmart-token-broker and walmart-token-keeper
+
+export type WalmartEnvironment = 'production' | 'sandbox' | 'mock';
+
+/**
+ * Where an environment's token endpoint lives and the app credentials used there
+ * (server-side only, never shipped to the browser)
+ */
+export interface WalmartEnvironmentConfig {
+  baseUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  // Function secrets to set when the app credentials are missing
+  secretNames: string;
+}
+
+// The mock base URL is a server setting rather than per account, so a user can never
+// make the broker send credentials to an arbitrary host
+const WALMART_MOCK_BASE_URL = Deno.env.get('WALMART_MOCK_BASE_URL');
+
+export function isWalmartEnvironment(value: unknown): value is WalmartEnvironment {
+  return value === 'production' || value === 'sandbox' || value === 'mock';
+}
+
+export function getEnvironmentConfig(environment: WalmartEnvironment): WalmartEnvironmentConfig {
+  switch (environment) {
+    case 'sandbox':
+      return {
+        baseUrl: 'https://sandbox.walmartapis.com',
+        clientId: Deno.env.get('WALMART_SANDBOX_CLIENT_ID'),
+        clientSecret: Deno.env.get('WALMART_SANDBOX_CLIENT_SECRET'),
+        secretNames: 'WALMART_SANDBOX_CLIENT_ID and WALMART_SANDBOX_CLIENT_SECRET',
+      };
+
+    case 'mock':
+      if (!WALMART_MOCK_BASE_URL) {
+        throw new BrokerError('The local mock environment is not enabled. Set WALMART_MOCK_BASE_URL to use it.', 400);
+      }
+      // The stand-in accepts any non-empty key pair
+      return {
+        baseUrl: WALMART_MOCK_BASE_URL,
+        clientId: 'mock-client',
+        clientSecret: 'mock-secret',
+        secretNames: 'WALMART_MOCK_BASE_URL',
+      };
+
+    default:
+      return {
+        baseUrl: 'https://marketplace.walmartapis.com',
+        clientId: Deno.env.get('WALMART_CLIENT_ID'),
+        clientSecret: Deno.env.get('WALMART_CLIENT_SECRET'),
+        secretNames: 'WALMART_CLIENT_ID and WALMART_CLIENT_SECRET',
+      };
+  }
+}
+
+// Walmart issues client-credentials tokens for 15 minutes; used if a response omits expires_in
+const CLIENT_CREDENTIALS_TOKEN_TTL_SECONDS = 900;
+
+// How long one request may own a row's refresh before others may take over
+const REFRESH_LEASE_SECONDS = 30;
+const REFRESH_POLL_INTERVAL_MS = 500;
+
+export interface WalmartTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+export type WalmartAuthMode = 'authorization_code' | 'client_credentials';
+
+/**
+ * A seller's own API key pair, used instead of the app's credentials in client_credentials mode
+ */
+export interface WalmartClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface WalmartTokenRow {
+  id: string;
+  user_id: string;
+  access_token: string;
+  refresh_token: string | null;
+  token_type: string;
+  expires_in: number;
+  expires_at: string;
+  scope: string | null;
+  seller_id: string | null;
+  account_name: string | null;
+  environment: WalmartEnvironment;
+  auth_mode: WalmartAuthMode;
+  client_id: string | null;
+  client_secret: string | null;
+  refresh_lease_until: string | null;
+  needs_reconnect: boolean;
+  last_refreshed_at: string | null;
+  last_refresh_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * What Walmart said about a failed call, passed on to the browser so it can pick a recovery
+ */
+export interface WalmartErrorDetails {
+  field?: string;
+  severity?: string;
+  // Status Walmart answered with, when the broker's own status differs
+  walmartStatus?: number;
+  correlationId?: string;
+  // ID of a feed Walmart accepted but the broker could not record
+  feedId?: string;
+}
+
+export class BrokerError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+    public code?: string,
+    public details: WalmartErrorDetails = {}
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * JSON error response for a failed request: { error, code, field, correlationId, ... }
+ * from a BrokerError, a plain 500 for anything else
+ */
+export function errorResponse(functionName: string, error: unknown): Response {
+  console.error(`${functionName} error:`, error);
+  const status = error instanceof BrokerError ? error.status : 500;
+  const code = error instanceof BrokerError ? error.code : undefined;
+  const details = error instanceof BrokerError ? error.details : {};
+  const message = error instanceof Error ? error.message : 'Unexpected error';
+  return jsonResponse({ error: message, code, ...details }, status);
+}
+
+/**
+ * Read Walmart's error payload: OAuth JSON ({ error, error_description }), Marketplace
+ * JSON ({ errors: [{ code, field, description, severity }] }) or the XML equivalent
+ */
+export function parseWalmartError(body: string, contentType: string): { code?: string; description?: string; field?: string; severity?: string } {
+  if (contentType.includes('xml') || body.trimStart().startsWith('<')) {
+    const tag = (name: string) => body.match(new RegExp(`<(?:\\w+:)?${name}>([^<]*)</(?:\\w+:)?${name}>`))?.[1];
+    return { code: tag('code'), description: tag('description') ?? tag('info'), field: tag('field'), severity: tag('severity') };
+  }
+
+  try {
+    const data = JSON.parse(body);
+    if (typeof data.error === 'string') {
+      return { code: data.error, description: data.error_description };
+    }
+    const list = data.errors?.error ?? data.errors ?? data.error;
+    const first = Array.isArray(list) ? list[0] : undefined;
+    return first
+      ? { code: first.code, description: first.description ?? first.info, field: first.field ?? undefined, severity: first.severity }
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Strip the encrypted token material before returning a record to the browser
+ */
+export function toConnection(row: WalmartTokenRow) {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    token_type: row.token_type,
+    expires_in: row.expires_in,
+    expires_at: row.expires_at,
+    scope: row.scope,
+    seller_id: row.seller_id,
+    account_name: row.account_name,
+    environment: row.environment,
+    auth_mode: row.auth_mode,
+    client_id: row.client_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    has_refresh_token: !!row.refresh_token,
+    needs_reconnect: row.needs_reconnect,
+    last_refreshed_at: row.last_refreshed_at,
+    last_refresh_error: row.last_refresh_error,
+  };
+}
+
+export function isTokenExpiring(row: WalmartTokenRow, bufferMinutes: number): boolean {
+  return new Date(row.expires_at).getTime() - Date.now() <= bufferMinutes * 60 * 1000;
+}
+
+/**
+ * Call an environment's token endpoint with the given grant. Authenticates as the
+ * app unless the seller's own credentials are given.
+ */
+export async function requestToken(
+  params: URLSearchParams,
+  environment: WalmartEnvironment,
+  context: TokenOperationContext,
+  sellerId?: string | null,
+  credentials?: WalmartClientCredentials
+): Promise<WalmartTokenResponse> {
+  const config = getEnvironmentConfig(environment);
+  const clientId = credentials?.clientId ?? config.clientId;
+  const clientSecret = credentials?.clientSecret ?? config.clientSecret;
+
+  if (!clientId || !clientSecret) {
+    throw new BrokerError(`Walmart ${environment} API credentials not configured. Please set ${config.secretNames} as function secrets.`, 500);
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    'Accept': 'application/json',
+    'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+    'WM_QOS.CORRELATION_ID': context.correlationId,
+    'WM_SVC.NAME': 'VNLWFS',
+  };
+
+  if (sellerId) {
+    headers['WM_PARTNER.ID'] = sellerId;
+  }
+
+  const response = await fetch(`${config.baseUrl}/v3/token`, {
+    method: 'POST',
+    headers,
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const error = parseWalmartError(await response.text(), response.headers.get('Content-Type') ?? '');
+    // The token endpoint reports bad client credentials as a bare 401
+    const code = error.code ?? (response.status === 401 ? 'invalid_client' : undefined);
+    throw new BrokerError(
+      `Walmart rejected the token request (${response.status}): ${error.description || response.statusText}`,
+      response.status === 429 ? 429 : 502,
+      code,
+      {
+        field: error.field,
+        severity: error.severity,
+        walmartStatus: response.status,
+        correlationId: context.correlationId,
+      }
+    );
+  }
+
+  return await response.json();
+}
+
+interface SellerFilter<Q> {
+  eq(column: string, value: string): Q;
+  is(column: string, value: null): Q;
+}
+
+/**
+ * Narrow a query to one seller's rows. Accounts connected before multi-account support
+ * have no seller ID; their rows are matched on a null column instead.
+ */
+export function scopeToSeller<Q extends SellerFilter<Q>>(query: Q, sellerId: string | null, column = 'walmart_seller_id'): Q {
+  return sellerId ? query.eq(column, sellerId) : query.is(column, null);
+}
+
+export async function getStoredToken(db: SupabaseClient, userId: string, sellerId: string | null): Promise<WalmartTokenRow | null> {
+  const query = db
+    .from('walmart_tokens')
+    .select('*')
+    .eq('user_id', userId);
+
+  const { data, error } = await scopeToSeller(query, sellerId, 'seller_id').maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function requireStoredToken(db: SupabaseClient, userId: string, sellerId: string | null): Promise<WalmartTokenRow> {
+  const row = await getStoredToken(db, userId, sellerId);
+  if (!row) {
+    throw new BrokerError('No Walmart token found for this account. Please connect to Walmart first.', 404, 'not_connected');
+  }
+  return row;
+}
+
+/**
+ * The caller's stored account, for calls to Walmart on its behalf; an account flagged for
+ * reconnection is refused rather than sent to Walmart with a dead token
+ */
+export async function requireConnectedAccount(db: SupabaseClient, userId: string, sellerId: string | null): Promise<WalmartTokenRow> {
+  const row = await requireStoredToken(db, userId, sellerId);
+  if (row.needs_reconnect) {
+    throw new BrokerError('Walmart needs you to reconnect this account first', 409, 'reconnect_required');
+  }
+  return row;
+}
+
+export interface StoreTokenOptions {
+  // Encrypted refresh token already on the row, kept when Walmart does not rotate it
+  existingRefreshToken?: string | null;
+  accountName?: string;
+  // Set when connecting; renewals keep the account's environment
+  environment?: WalmartEnvironment;
+  // Seller-supplied credentials for client_credentials mode (secret encrypted here);
+  // null switches the account to authorization_code and drops stored credentials
+  credentials?: WalmartClientCredentials | null;
+}
+
+/**
+ * Encrypt and upsert a token response for the user's seller account
+ */
+export async function storeToken(
+  db: SupabaseClient,
+  userId: string,
+  tokenData: WalmartTokenResponse,
+  sellerId: string | null,
+  options: StoreTokenOptions = {}
+): Promise<WalmartTokenRow> {
+  const { existingRefreshToken, accountName, environment, credentials } = options;
+  const encryptedAccessToken = await EncryptionService.encryptToken(tokenData.access_token);
+  // Walmart may omit refresh_token on refresh; keep the one we already hold
+  const encryptedRefreshToken = tokenData.refresh_token
+    ? await EncryptionService.encryptToken(tokenData.refresh_token)
+    : existingRefreshToken ?? null;
+
+  const expiresIn = tokenData.expires_in ?? CLIENT_CREDENTIALS_TOKEN_TTL_SECONDS;
+  const expiresAt = new Date(Date.now() + expiresIn * 1000);
+
+  const { data, error } = await db
+    .from('walmart_tokens')
+    .upsert({
+      user_id: userId,
+      access_token: encryptedAccessToken,
+      refresh_token: encryptedRefreshToken,
+      token_type: tokenData.token_type,
+      expires_in: expiresIn,
+      expires_at: expiresAt.toISOString(),
+      scope: tokenData.scope,
+      seller_id: sellerId,
+      refresh_lease_until: null,
+      needs_reconnect: false,
+      last_refreshed_at: new Date().toISOString(),
+      last_refresh_error: null,
+      ...(accountName ? { account_name: accountName } : {}),
+      ...(environment ? { environment } : {}),
+      ...(credentials
+        ? {
+          auth_mode: 'client_credentials',
+          client_id: credentials.clientId,
+          client_secret: await EncryptionService.encryptToken(credentials.clientSecret),
+        }
+        : {}),
+      ...(credentials === null
+        ? { auth_mode: 'authorization_code', client_id: null, client_secret: null }
+        : {}),
+    }, { onConflict: 'user_id,seller_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Mint a new token from the seller's stored client credentials
+ */
+async function renewClientCredentialsToken(
+  db: SupabaseClient,
+  userId: string,
+  row: WalmartTokenRow,
+  context: TokenOperationContext
+): Promise<WalmartTokenRow> {
+  if (!row.client_id || !row.client_secret) {
+    throw new BrokerError('No Walmart API credentials stored for this account. Please enter them again.', 409, 'reconnect_required');
+  }
+
+  const credentials = {
+    clientId: row.client_id,
+    clientSecret: await EncryptionService.decryptToken(row.client_secret),
+  };
+
+  const tokenData = await requestToken(
+    new URLSearchParams({ grant_type: 'client_credentials' }),
+    row.environment,
+    context,
+    row.seller_id,
+    credentials
+  ).catch((error) => {
+    // Revoked or rotated keys will not start working again on their own
+    if (error instanceof BrokerError && error.code === 'invalid_client') {
+      throw new BrokerError(
+        'Walmart rejected the stored API credentials. Please enter the current client ID and secret.',
+        409,
+        'reconnect_required',
+        error.details
+      );
+    }
+    throw error;
+  });
+
+  // The secret is already encrypted on the row; only the token changes
+  return await storeToken(db, userId, tokenData, row.seller_id);
+}
+
+async function refreshStoredToken(
+  db: SupabaseClient,
+  userId: string,
+  row: WalmartTokenRow,
+  context: TokenOperationContext
+): Promise<WalmartTokenRow> {
+  if (row.auth_mode === 'client_credentials') {
+    return await renewClientCredentialsToken(db, userId, row, context);
+  }
+
+  if (!row.refresh_token) {
+    throw new BrokerError('Token expired and no refresh token available. Please reconnect to Walmart.', 409, 'reconnect_required');
+  }
+
+  const refreshToken = await EncryptionService.decryptToken(row.refresh_token);
+  const tokenData = await requestToken(
+    new URLSearchParams({ grant_type: 'refresh_token', refresh_token: refreshToken }),
+    row.environment,
+    context,
+    row.seller_id
+  );
+  return await storeToken(db, userId, tokenData, row.seller_id, { existingRefreshToken: row.refresh_token });
+}
+
+async function claimRefreshLease(db: SupabaseClient, tokenId: string): Promise<boolean> {
+  const { data, error } = await db.rpc('claim_walmart_token_refresh', {
+    token_id: tokenId,
+    lease_seconds: REFRESH_LEASE_SECONDS,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+async function releaseRefreshLease(db: SupabaseClient, tokenId: string): Promise<void> {
+  const { error } = await db
+    .from('walmart_tokens')
+    .update({ refresh_lease_until: null })
+    .eq('id', tokenId);
+
+  if (error) console.error('Failed to release refresh lease:', error);
+}
+
+/**
+ * Whether a refresh failure can only be fixed by the seller authorizing again,
+ * as opposed to an outage or rate limit that a later attempt may get past
+ */
+export function isReconnectRequired(error: unknown): boolean {
+  return error instanceof BrokerError && (error.code === 'invalid_grant' || error.code === 'reconnect_required');
+}
+
+/**
+ * Record a failed refresh and release the lease; flags the row for reconnection
+ * when retrying cannot help
+ */
+async function recordRefreshFailure(db: SupabaseClient, tokenId: string, error: unknown): Promise<void> {
+  const { error: updateError } = await db
+    .from('walmart_tokens')
+    .update({
+      refresh_lease_until: null,
+      last_refresh_error: error instanceof Error ? error.message : String(error),
+      ...(isReconnectRequired(error) ? { needs_reconnect: true } : {}),
+    })
+    .eq('id', tokenId);
+
+  if (updateError) console.error('Failed to record refresh failure:', updateError);
+}
+
+function refreshEvent(userId: string, row: WalmartTokenRow) {
+  return {
+    user_id: userId,
+    token_id: row.id,
+    seller_id: row.seller_id,
+    environment: row.environment,
+    event_type: 'refresh' as const,
+  };
+}
+
+/**
+ * Refresh at most once across concurrent requests (tabs, devices, background jobs).
+ * The request holding the row's lease calls Walmart; everyone else waits and
+ * returns the row it stored, so a rotated refresh token is never used twice.
+ */
+export async function refreshSingleFlight(
+  db: SupabaseClient,
+  userId: string,
+  row: WalmartTokenRow,
+  context: TokenOperationContext
+): Promise<WalmartTokenRow> {
+  const deadline = Date.now() + REFRESH_LEASE_SECONDS * 1000;
+
+  while (true) {
+    if (await claimRefreshLease(db, row.id)) {
+      try {
+        // Someone may have finished a refresh between our read and the claim
+        const latest = await requireStoredToken(db, userId, row.seller_id);
+        if (latest.access_token !== row.access_token) {
+          await releaseRefreshLease(db, latest.id);
+          return latest;
+        }
+        // storeToken clears the lease along with the new tokens
+        const refreshed = await refreshStoredToken(db, userId, latest, context);
+        await recordTokenEvent(db, context, { ...refreshEvent(userId, refreshed), outcome: 'success' });
+        return refreshed;
+      } catch (error) {
+        await recordRefreshFailure(db, row.id, error);
+        await recordTokenEvent(db, context, { ...refreshEvent(userId, row), ...failureDetails(error) });
+        throw error;
+      }
+    }
+
+    if (Date.now() > deadline) {
+      throw new BrokerError('Timed out waiting for a concurrent token refresh', 503);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, REFRESH_POLL_INTERVAL_MS));
+
+    const latest = await requireStoredToken(db, userId, row.seller_id);
+    if (latest.access_token !== row.access_token) {
+      return latest;
+    }
+  }
+}
+
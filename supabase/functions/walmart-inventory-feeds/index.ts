@@ -0,0 +1,260 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getCallerId } from '../_shared/auth.ts';
+import { BrokerError, errorResponse, isReconnectRequired, requireConnectedAccount } from '../_shared/walmartTokens.ts';
+import { createOperationContext } from '../_shared/tokenEvents.ts';
+import { MarketplaceSession, marketplaceRequest } from '../_shared/walmartMarketplace.ts';
+import { InventoryRow, listInventoryRows } from '../_shared/walmartInventory.ts';
+import {
+  FEED_TYPE,
+  InventoryFeedRow,
+  insertInventoryFeed,
+  pollInventoryFeeds,
+  recordFeedUploadFailed,
+  recordFeedUploaded,
+} from '../_shared/walmartInventoryFeeds.ts';
+
+// Bulk inventory updates through Walmart inventory feeds, for a signed-in seller:
+//   { action: 'submit', sellerId, source: 'grid' | 'csv', updates: [{ sku, shipNode?, quantity }] }
+//       check each update against the synced inventory, then submit the changed quantities
+//       as MP_INVENTORY feeds and mark their rows as carried by the feed. Each feed is stored
+//       as pending before its upload and gets Walmart's feed ID once Walmart accepts it.
+//   { action: 'poll', sellerId }
+//       ask Walmart about feeds still processing; finished ones record per-SKU results on
+//       the rows they carried. Feeds left pending by an interrupted upload are matched to
+//       Walmart's feed list first.
+// Updates that cannot be sent (unknown SKU, ship node missing, row in conflict, ...) are
+// returned with their position in the request instead of failing the whole submission.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const FEED_VERSION = '1.5';
+// SKUs per feed file; larger submissions are split into several feeds
+const FEED_SKUS = 10_000;
+const MAX_UPDATES = 50_000;
+// Tries at saving a feed Walmart accepted before giving up; the first retry waits this long,
+// the next twice as long
+const RECORD_ATTEMPTS = 3;
+const RECORD_BACKOFF_MS = 500;
+
+interface FeedUpdate {
+  sku: string;
+  // May be left out for SKUs stocked at a single ship node
+  shipNode?: string | null;
+  quantity: number;
+}
+
+// Accounts connected before multi-account support have no seller ID
+type FeedRequest =
+  | { action: 'submit'; sellerId?: string | null; source: 'grid' | 'csv'; updates: FeedUpdate[] }
+  | { action: 'poll'; sellerId?: string | null };
+
+interface Rejection {
+  // Position of the update in the request
+  index: number;
+  sku: string;
+  shipNode: string | null;
+  reason: string;
+}
+
+interface SubmitResult {
+  feeds: InventoryFeedRow[];
+  // Rows sent in the feeds
+  submitted: number;
+  // Updates that matched the quantity Walmart already has
+  unchanged: number;
+  rejected: Rejection[];
+}
+
+// One row's new quantity and the update it came from, grouped by SKU into feed records
+type StagedUpdate = { row: InventoryRow; quantity: number; index: number };
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+/**
+ * Match each update to its inventory row. Returns the rows whose quantity changes, grouped
+ * by SKU, and the updates that cannot be sent.
+ */
+function planUpdates(rows: InventoryRow[], updates: FeedUpdate[]) {
+  const bySku = new Map<string, InventoryRow[]>();
+  rows.forEach((row) => bySku.set(row.sku, [...bySku.get(row.sku) ?? [], row]));
+
+  const staged = new Map<string, StagedUpdate[]>();
+  const seen = new Set<string>();
+  const rejected: Rejection[] = [];
+  let unchanged = 0;
+
+  updates.forEach((update, index) => {
+    const sku = String(update?.sku ?? '').trim();
+    const shipNode = update?.shipNode ? String(update.shipNode).trim() : null;
+    const quantity = update?.quantity;
+    const reject = (reason: string) => rejected.push({ index, sku, shipNode, reason });
+
+    if (!sku) return reject('SKU is missing');
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      return reject('Quantity must be a whole number of units, 0 or more');
+    }
+
+    const candidates = bySku.get(sku) ?? [];
+    if (candidates.length === 0) return reject('SKU is not in the synced inventory; sync inventory first');
+
+    const row = shipNode
+      ? candidates.find((candidate) => candidate.ship_node === shipNode)
+      : candidates.length === 1 ? candidates[0] : undefined;
+    if (!row) {
+      return reject(shipNode
+        ? `SKU is not stocked at ship node ${shipNode}`
+        : `SKU is stocked at ${candidates.length} ship nodes; give the ship node`);
+    }
+
+    if (seen.has(row.id)) return reject('SKU and ship node are listed more than once');
+    seen.add(row.id);
+
+    if (row.sync_status === 'conflict') {
+      return reject(`Walmart has ${row.walmart_quantity} and this app ${row.quantity}; resolve the conflict first`);
+    }
+    if (row.sync_status === 'synced' && row.quantity === quantity) {
+      unchanged++;
+      return;
+    }
+
+    staged.set(sku, [...staged.get(sku) ?? [], { row, quantity, index }]);
+  });
+
+  return { staged: [...staged.values()], rejected, unchanged };
+}
+
+/**
+ * Upload one feed file of SKUs to Walmart; returns Walmart's feed ID
+ */
+async function uploadFeed(session: MarketplaceSession, skus: StagedUpdate[][]): Promise<string> {
+  const feed = {
+    InventoryHeader: { version: FEED_VERSION },
+    Inventory: skus.map((nodes) => ({
+      sku: nodes[0].row.sku,
+      shipNodes: nodes.map(({ row, quantity }) => ({
+        shipNode: row.ship_node,
+        quantity: { unit: 'EACH', amount: quantity },
+      })),
+    })),
+  };
+
+  const form = new FormData();
+  form.append('file', new Blob([JSON.stringify(feed)], { type: 'application/json' }), 'inventory.json');
+
+  const data = await marketplaceRequest<{ feedId?: string }>(session, `/v3/feeds?feedType=${FEED_TYPE}`, {
+    method: 'POST',
+    body: form,
+  });
+  if (!data?.feedId) {
+    throw new BrokerError('Walmart accepted the inventory feed without returning a feed ID', 502);
+  }
+  return data.feedId;
+}
+
+/**
+ * Save what follows from a feed Walmart accepted, retrying briefly: failing here leaves the feed
+ * pending until a later poll matches it. The final error carries Walmart's feed ID.
+ */
+async function recordAccepted<T>(feedId: string, write: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (error) {
+      if (attempt >= RECORD_ATTEMPTS) {
+        const message = error instanceof Error ? error.message : 'Unexpected error';
+        throw new BrokerError(`Walmart accepted inventory feed ${feedId}, but it could not be recorded: ${message}`, 500, undefined, { feedId });
+      }
+      await new Promise((resolve) => setTimeout(resolve, RECORD_BACKOFF_MS * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+async function submitUpdates(session: MarketplaceSession, source: 'grid' | 'csv', updates: FeedUpdate[]): Promise<SubmitResult> {
+  const rows = await listInventoryRows(admin, session.row);
+  const { staged, rejected, unchanged } = planUpdates(rows, updates);
+  const result: SubmitResult = { feeds: [], submitted: 0, unchanged, rejected };
+
+  for (let start = 0; start < staged.length; start += FEED_SKUS) {
+    const skus = staged.slice(start, start + FEED_SKUS);
+
+    const pending = await insertInventoryFeed(admin, session.row, { source, item_count: skus.length });
+
+    let feedId: string;
+    try {
+      feedId = await uploadFeed(session, skus);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unexpected error';
+      await recordFeedUploadFailed(admin, pending, message);
+
+      // Feeds already submitted stand; the rest are reported back to be sent again
+      if (result.feeds.length === 0 || isReconnectRequired(error)) throw error;
+      staged.slice(start).flat().forEach(({ row, index }) => result.rejected.push({
+        index,
+        sku: row.sku,
+        shipNode: row.ship_node,
+        reason: `Not submitted: ${message}`,
+      }));
+      break;
+    }
+
+    const feed = await recordAccepted(feedId, () => recordFeedUploaded(admin, pending.id, feedId));
+    const count = await recordAccepted(feedId, async () => {
+      const { data, error } = await admin.rpc('stage_walmart_inventory_feed', {
+        p_feed_id: feed.id,
+        p_quantities: skus.flat().map(({ row, quantity }) => ({ id: row.id, quantity })),
+      });
+      if (error) throw error;
+      return data as number | null;
+    });
+
+    result.feeds.push(feed);
+    result.submitted += count ?? 0;
+  }
+
+  result.rejected.sort((a, b) => a.index - b.index);
+  return result;
+}
+
+async function handle(userId: string, body: FeedRequest): Promise<unknown> {
+  const row = await requireConnectedAccount(admin, userId, body.sellerId ?? null);
+  const session: MarketplaceSession = { db: admin, row, context: createOperationContext('broker') };
+
+  switch (body.action) {
+    case 'submit': {
+      if (body.source !== 'grid' && body.source !== 'csv') {
+        throw new BrokerError("source must be 'grid' or 'csv'", 400, undefined, { field: 'source' });
+      }
+      if (!Array.isArray(body.updates) || body.updates.length === 0) {
+        throw new BrokerError('updates must list at least one SKU', 400, undefined, { field: 'updates' });
+      }
+      if (body.updates.length > MAX_UPDATES) {
+        throw new BrokerError(`At most ${MAX_UPDATES} updates can be submitted at once`, 400, undefined, { field: 'updates' });
+      }
+      return await submitUpdates(session, body.source, body.updates);
+    }
+
+    case 'poll':
+      return { feeds: await pollInventoryFeeds(admin, session) };
+
+    default:
+      throw new BrokerError('Unknown action');
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userId = await getCallerId(req);
+    const body = await req.json() as FeedRequest;
+    return jsonResponse(await handle(userId, body));
+  } catch (error) {
+    return errorResponse('walmart-inventory-feeds', error);
+  }
+});
@@ -0,0 +1,283 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getCallerId } from '../_shared/auth.ts';
+import { BrokerError, WalmartTokenRow, errorResponse, requireConnectedAccount, scopeToSeller } from '../_shared/walmartTokens.ts';
+import { TokenOperationContext, createOperationContext } from '../_shared/tokenEvents.ts';
+import { MarketplaceSession, marketplaceRequest } from '../_shared/walmartMarketplace.ts';
+import {
+  InventoryRow,
+  WalmartInventory,
+  findInventoryRow,
+  findInventoryRows,
+  pushInventoryRow,
+  readWalmartQuantity,
+  reconcileInventory,
+  updateInventoryRow,
+} from '../_shared/walmartInventory.ts';
+import { pollInventoryFeeds } from '../_shared/walmartInventoryFeeds.ts';
+
+// Keeps the inventory table and Walmart's stock in step, in both directions, for a
+// signed-in seller:
+//   { action: 'sync', sellerId }
+//       settle inventory feeds Walmart has finished, read up to PULL_PAGES pages of stock
+//       from /v3/inventories and merge them into the table. A larger catalog is read over
+//       several syncs, each resuming where the last one stopped (has_more tells the
+//       caller). The sync that reads the last page pushes edits still waiting for Walmart
+//       with PUT /v3/inventory.
+//   { action: 'update', sellerId, sku, shipNode, quantity }
+//       save an edit and push it, unless Walmart's quantity changed since it was last read
+//   { action: 'resolve', sellerId, sku, shipNode, keep: 'local' | 'walmart' }
+//       settle a conflict by pushing the app's quantity or taking Walmart's
+// A SKU whose quantity changed both in the app and at Walmart since they last agreed is
+// marked as a conflict and left for the seller to resolve; neither side is overwritten.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Walmart's largest /v3/inventories page
+const PAGE_SIZE = 50;
+// Pages read per sync, so one run stays well inside the function's time limit
+const PULL_PAGES = 20;
+const LEASE_SECONDS = 300;
+// Edits pushed per sync; the rest wait for the next one
+const PUSH_BATCH = 200;
+
+interface InventoriesResponse {
+  meta?: { totalCount?: number; nextCursor?: string | null };
+  elements?: { inventories?: WalmartInventory[] };
+}
+
+// Accounts connected before multi-account support have no seller ID
+type InventoryRequest =
+  | { action: 'sync'; sellerId?: string | null }
+  | { action: 'update'; sellerId?: string | null; sku: string; shipNode: string; quantity: number }
+  | { action: 'resolve'; sellerId?: string | null; sku: string; shipNode: string; keep: 'local' | 'walmart' };
+
+interface SyncResult {
+  seller_id: string | null;
+  correlation_id: string;
+  // 'skipped' when another sync of the account is still running
+  status: 'synced' | 'skipped';
+  pulled: number;
+  // Walmart has more pages; the next sync resumes from them
+  has_more: boolean;
+  pushed: number;
+  conflicts: number;
+  push_failed: number;
+  // Inventory feeds found finished and recorded by this run
+  feeds_settled: number;
+}
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+async function updateSyncState(row: WalmartTokenRow, values: Record<string, unknown>): Promise<void> {
+  const query = admin
+    .from('walmart_inventory_sync')
+    .update(values)
+    .eq('user_id', row.user_id);
+  const { error } = await scopeToSeller(query, row.seller_id);
+  if (error) throw error;
+}
+
+/**
+ * Where the account's last sync stopped reading /v3/inventories (null to start over), and
+ * the rows read so far in that pass
+ */
+async function readPullState(row: WalmartTokenRow): Promise<{ next_cursor: string | null; last_pulled_count: number }> {
+  const query = admin
+    .from('walmart_inventory_sync')
+    .select('next_cursor, last_pulled_count')
+    .eq('user_id', row.user_id);
+  const { data, error } = await scopeToSeller(query, row.seller_id).maybeSingle();
+  if (error) throw error;
+  return data ?? { next_cursor: null, last_pulled_count: 0 };
+}
+
+/**
+ * Pull the next PULL_PAGES pages of stock from Walmart. Once the last page is read, push
+ * the edits Walmart has not seen yet: edits Walmart rejected before are tried again, and
+ * conflicts wait for the seller.
+ */
+async function syncAccount(row: WalmartTokenRow, context: TokenOperationContext): Promise<SyncResult> {
+  const result: SyncResult = {
+    seller_id: row.seller_id,
+    correlation_id: context.correlationId,
+    status: 'synced',
+    pulled: 0,
+    has_more: false,
+    pushed: 0,
+    conflicts: 0,
+    push_failed: 0,
+    feeds_settled: 0,
+  };
+
+  const { data: claimed, error: claimError } = await admin.rpc('claim_walmart_inventory_sync', {
+    p_user_id: row.user_id,
+    p_walmart_seller_id: row.seller_id,
+    lease_seconds: LEASE_SECONDS,
+  });
+  if (claimError) throw claimError;
+  if (!claimed) return { ...result, status: 'skipped' };
+
+  try {
+    const session: MarketplaceSession = { db: admin, row, context };
+    // Feeds that finished since they were last checked settle their rows before the merge
+    result.feeds_settled = (await pollInventoryFeeds(admin, session))
+      .filter((feed) => feed.status === 'processed' || feed.status === 'error').length;
+
+    const pullState = await readPullState(row);
+    // A resumed pass adds to the rows the earlier runs of it read
+    const pulledBefore = pullState.next_cursor ? pullState.last_pulled_count : 0;
+    let cursor = pullState.next_cursor;
+
+    for (let page = 0; page < PULL_PAGES; page++) {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) params.set('nextCursor', cursor);
+      const data: InventoriesResponse = await marketplaceRequest<InventoriesResponse>(session, `/v3/inventories?${params}`);
+      const merged = await reconcileInventory(admin, session.row, data?.elements?.inventories ?? []);
+      result.pulled += merged.length;
+      cursor = data?.meta?.nextCursor ?? null;
+      if (!cursor) break;
+    }
+    result.has_more = cursor !== null;
+
+    // Rejected edits are retried once per pass, not on every run of it
+    if (!result.has_more) {
+      for (const item of await findInventoryRows(admin, session.row, ['pending', 'failed'], PUSH_BATCH)) {
+        const pushed = await pushInventoryRow(admin, session, item);
+        if (pushed.sync_status === 'synced') result.pushed++;
+        else result.push_failed++;
+      }
+    }
+
+    const conflictQuery = admin
+      .from('inventory')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', row.user_id)
+      .eq('sync_status', 'conflict');
+    const { count, error } = await scopeToSeller(conflictQuery, row.seller_id);
+    if (error) throw error;
+    result.conflicts = count ?? 0;
+
+    await updateSyncState(row, {
+      last_completed_at: new Date().toISOString(),
+      last_pulled_count: pulledBefore + result.pulled,
+      last_pushed_count: result.pushed,
+      last_conflict_count: result.conflicts,
+      last_error: result.push_failed > 0 ? `Walmart rejected ${result.push_failed} inventory update(s)` : null,
+      next_cursor: cursor,
+      lease_until: null,
+    });
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    await updateSyncState(row, { last_error: message, next_cursor: null, lease_until: null });
+    throw error;
+  }
+}
+
+/**
+ * Save an edit, then push it if Walmart still has the quantity the edit was based on.
+ * If Walmart's quantity moved meanwhile, the row becomes a conflict instead.
+ */
+async function updateQuantity(session: MarketplaceSession, sku: string, shipNode: string, quantity: number): Promise<InventoryRow> {
+  if (!Number.isInteger(quantity) || quantity < 0) {
+    throw new BrokerError('quantity must be a whole number of units, 0 or more', 400, undefined, { field: 'quantity' });
+  }
+
+  const item = await findInventoryRow(admin, session.row, sku, shipNode);
+  const edited: InventoryRow = { ...item, quantity, sync_status: 'pending', last_error: null };
+  // An edit replaces whatever quantity a feed still processing was carrying for the row
+  await updateInventoryRow(admin, item.id, {
+    quantity,
+    sync_status: 'pending',
+    last_error: null,
+    feed_id: null,
+    local_updated_at: new Date().toISOString(),
+  });
+
+  const walmartQuantity = await readWalmartQuantity(session, sku, shipNode);
+  if (walmartQuantity === quantity) {
+    const synced = { walmart_quantity: quantity, base_quantity: quantity, sync_status: 'synced' as const };
+    await updateInventoryRow(admin, item.id, synced);
+    return { ...edited, ...synced };
+  }
+  if (walmartQuantity !== item.base_quantity) {
+    await updateInventoryRow(admin, item.id, { walmart_quantity: walmartQuantity, sync_status: 'conflict' });
+    return { ...edited, walmart_quantity: walmartQuantity, sync_status: 'conflict' };
+  }
+
+  return await pushInventoryRow(admin, session, edited);
+}
+
+async function resolveConflict(session: MarketplaceSession, sku: string, shipNode: string, keep: 'local' | 'walmart'): Promise<InventoryRow> {
+  const item = await findInventoryRow(admin, session.row, sku, shipNode);
+  if (item.sync_status !== 'conflict') {
+    throw new BrokerError(`SKU ${sku} has no conflict to resolve`, 409);
+  }
+
+  if (keep === 'walmart') {
+    const values = {
+      quantity: item.walmart_quantity,
+      base_quantity: item.walmart_quantity,
+      sync_status: 'synced' as const,
+      last_error: null,
+      feed_id: null,
+    };
+    await updateInventoryRow(admin, item.id, values);
+    return { ...item, ...values };
+  }
+
+  // The app's quantity now overrides what Walmart has, so a failed push is retried by the
+  // next sync rather than turning back into a conflict
+  const kept = { base_quantity: item.walmart_quantity, sync_status: 'pending' as const, last_error: null };
+  await updateInventoryRow(admin, item.id, { ...kept, feed_id: null });
+  return await pushInventoryRow(admin, session, { ...item, ...kept });
+}
+
+async function handle(userId: string, body: InventoryRequest): Promise<unknown> {
+  const row = await requireConnectedAccount(admin, userId, body.sellerId ?? null);
+
+  switch (body.action) {
+    case 'sync':
+      return await syncAccount(row, createOperationContext('broker'));
+
+    case 'update': {
+      if (!body.sku || !body.shipNode) {
+        throw new BrokerError('sku and shipNode are required', 400, undefined, { field: 'sku' });
+      }
+      const session: MarketplaceSession = { db: admin, row, context: createOperationContext('broker') };
+      return { item: await updateQuantity(session, body.sku, body.shipNode, body.quantity) };
+    }
+
+    case 'resolve': {
+      if (!body.sku || !body.shipNode) {
+        throw new BrokerError('sku and shipNode are required', 400, undefined, { field: 'sku' });
+      }
+      if (body.keep !== 'local' && body.keep !== 'walmart') {
+        throw new BrokerError("keep must be 'local' or 'walmart'", 400, undefined, { field: 'keep' });
+      }
+      const session: MarketplaceSession = { db: admin, row, context: createOperationContext('broker') };
+      return { item: await resolveConflict(session, body.sku, body.shipNode, body.keep) };
+    }
+
+    default:
+      throw new BrokerError('Unknown action');
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userId = await getCallerId(req);
+    const body = await req.json() as InventoryRequest;
+    return jsonResponse(await handle(userId, body));
+  } catch (error) {
+    return errorResponse('walmart-inventory-sync', error);
+  }
+});
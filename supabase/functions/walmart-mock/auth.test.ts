@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { authorize, token } from './auth.ts';
+import { WalmartOAuthError, WalmartOAuthService } from '../../../src/services/walmartOAuthService.ts';
+
+// The connect flow end to end against the mock authorization server: the app's side
+// (state, PKCE verifier) through WalmartOAuthService, Walmart's side through auth.ts.
+
+const REDIRECT_URI = 'http://localhost:5173/dashboard';
+
+// sessionStorage, as the browser keeps it for the consent round trip
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+/**
+ * Start a connection and let the mock consent page approve it. `mock` adds the mock's
+ * failure-path query parameters. Returns the callback's query parameters.
+ */
+async function consent(mock: Record<string, string> = {}): Promise<URLSearchParams> {
+  const authUrl = new URL(await WalmartOAuthService.beginAuthorization(REDIRECT_URI, { environment: 'mock' }));
+  Object.entries(mock).forEach(([name, value]) => authUrl.searchParams.set(name, value));
+
+  const response = authorize(authUrl);
+  expect(response.status).toBe(302);
+  return new URL(response.headers.get('Location')!).searchParams;
+}
+
+async function exchange(code: string, codeVerifier: string, redirectUri: string = REDIRECT_URI) {
+  const response = await token(new Request('http://mock.test/v3/token', {
+    method: 'POST',
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+    }),
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+function rejection(run: () => unknown): WalmartOAuthError {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(WalmartOAuthError);
+    return error as WalmartOAuthError;
+  }
+  throw new Error('Expected the callback to be rejected');
+}
+
+beforeEach(() => {
+  vi.stubGlobal('sessionStorage', new MemoryStorage());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('connect flow against the mock authorization server', () => {
+  it('exchanges the code when state and PKCE verifier match', async () => {
+    const callback = WalmartOAuthService.completeAuthorization(await consent());
+
+    const { status, body } = await exchange(callback.code, callback.codeVerifier, callback.redirectUri);
+    expect(status).toBe(200);
+    expect(body.access_token).toMatch(/^mock-access-/);
+    expect(body.refresh_token).toMatch(/^mock-refresh-/);
+    expect(callback.sellerId).toBe('10000001');
+  });
+
+  it('rejects a callback without state', async () => {
+    const params = await consent();
+    params.delete('state');
+
+    expect(rejection(() => WalmartOAuthService.completeAuthorization(params)).code).toBe('missing_state');
+  });
+
+  it('rejects a callback from another session, with no pending request', async () => {
+    const params = await consent();
+    sessionStorage.clear();
+
+    expect(rejection(() => WalmartOAuthService.completeAuthorization(params)).code).toBe('missing_state');
+  });
+
+  it('rejects a callback whose state does not match the request', async () => {
+    const params = await consent({ mock_state: 'forged' });
+
+    expect(params.get('state')).toBe('forged');
+    expect(rejection(() => WalmartOAuthService.completeAuthorization(params)).code).toBe('state_mismatch');
+  });
+
+  it('rejects a callback handled a second time', async () => {
+    const params = await consent();
+    WalmartOAuthService.completeAuthorization(params);
+
+    expect(rejection(() => WalmartOAuthService.completeAuthorization(params)).code).toBe('missing_state');
+  });
+
+  it('rejects an expired authorization request before the code is sent', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const params = await consent();
+
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+    expect(rejection(() => WalmartOAuthService.completeAuthorization(params)).code).toBe('request_expired');
+  });
+
+  it('rejects an authorization code past its lifetime', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const callback = WalmartOAuthService.completeAuthorization(await consent());
+
+    vi.setSystemTime(Date.now() + 301 * 1000);
+    const { status, body } = await exchange(callback.code, callback.codeVerifier);
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: 'invalid_grant', error_description: 'Authorization code has expired' });
+  });
+
+  it('rejects an authorization code used a second time', async () => {
+    const callback = WalmartOAuthService.completeAuthorization(await consent());
+
+    expect((await exchange(callback.code, callback.codeVerifier)).status).toBe(200);
+    const { status, body } = await exchange(callback.code, callback.codeVerifier);
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: 'invalid_grant', error_description: 'Authorization code has already been used' });
+  });
+
+  it('rejects a PKCE verifier that does not match the S256 challenge', async () => {
+    const callback = WalmartOAuthService.completeAuthorization(await consent());
+
+    const { status, body } = await exchange(callback.code, `${callback.codeVerifier}x`);
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  });
+
+  it('burns a code after a failed PKCE check', async () => {
+    const callback = WalmartOAuthService.completeAuthorization(await consent());
+
+    await exchange(callback.code, 'wrong-verifier');
+    const { body } = await exchange(callback.code, callback.codeVerifier);
+    expect(body.error_description).toBe('Authorization code has already been used');
+  });
+
+  it('only supports the S256 challenge method', async () => {
+    const authUrl = new URL(await WalmartOAuthService.beginAuthorization(REDIRECT_URI, { environment: 'mock' }));
+    authUrl.searchParams.set('code_challenge_method', 'plain');
+
+    const response = authorize(authUrl);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('invalid_request');
+  });
+});
@@ -0,0 +1,212 @@
+// Walmart's authorization server: the consent page and /v3/token.
+//
+//   GET  /v3/token/authorize  consent page; approves immediately and redirects back
+//   POST /v3/token            token endpoint (authorization_code, refresh_token and
+//                             client_credentials grants)
+//
+// Authorize query extras for exercising failure paths:
+//   mock_error=access_denied   redirect back with an OAuth error instead of a code
+//   mock_state=<value>         return this state instead of the one that was sent
+//   mock_seller_id=<value>     seller ID to report (default 10000001)
+//   mock_scope=<value>         grant this scope instead of the requested one (e.g. "item")
+//
+// client_credentials accepts any client ID and secret sent as Basic auth, except
+// secrets starting with "invalid", which are rejected with invalid_client.
+
+import { mockHeaders } from './http.ts';
+
+const ACCESS_TOKEN_TTL_SECONDS = 900;
+const AUTH_CODE_TTL_SECONDS = Number(Deno.env.get('MOCK_AUTH_CODE_TTL_SECONDS') || 300);
+
+interface IssuedCode {
+  redirectUri: string;
+  codeChallenge: string | null;
+  scope: string;
+  expiresAt: number;
+  used: boolean;
+}
+
+// Authorization codes issued by this worker
+const issuedCodes = new Map<string, IssuedCode>();
+
+// Refresh tokens rotate on every use, so a used one is rejected like Walmart would
+const usedRefreshTokens = new Set<string>();
+
+// Scope granted with each refresh token, so a refresh keeps what the seller consented to
+const refreshTokenScopes = new Map<string, string>();
+
+// Access tokens issued by this worker, checked by the marketplace endpoints
+const issuedAccessTokens = new Map<string, { scope: string; expiresAt: number }>();
+
+export const DEFAULT_SCOPE = 'item orders inventory reports';
+
+function tokenResponse(body: Record<string, unknown>, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...mockHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(error: string, description: string, status: number = 400): Response {
+  return tokenResponse({ error, error_description: description }, status);
+}
+
+function issueAccessToken(scope: string): string {
+  const accessToken = `mock-access-${crypto.randomUUID()}`;
+  issuedAccessTokens.set(accessToken, { scope, expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000 });
+  return accessToken;
+}
+
+function issueTokens(scope: string): Response {
+  const refreshToken = `mock-refresh-${crypto.randomUUID()}`;
+  refreshTokenScopes.set(refreshToken, scope);
+
+  return tokenResponse({
+    access_token: issueAccessToken(scope),
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: refreshToken,
+    scope,
+  });
+}
+
+// Client-credentials tokens carry no refresh token; clients mint a new one instead
+function issueClientCredentialsToken(req: Request): Response {
+  const authorization = req.headers.get('Authorization') ?? '';
+  const [clientId, clientSecret] = authorization.startsWith('Basic ')
+    ? atob(authorization.slice('Basic '.length)).split(':')
+    : [];
+
+  if (!clientId || !clientSecret || clientSecret.startsWith('invalid')) {
+    return errorResponse('invalid_client', 'Client authentication failed', 401);
+  }
+
+  return tokenResponse({
+    access_token: issueAccessToken(DEFAULT_SCOPE),
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+  });
+}
+
+async function s256(verifier: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier)));
+  let binary = '';
+  for (let i = 0; i < digest.byteLength; i++) {
+    binary += String.fromCharCode(digest[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function authorize(url: URL): Response {
+  const params = url.searchParams;
+  const redirectUri = params.get('redirect_uri');
+  if (!redirectUri || !params.get('client_id')) {
+    return errorResponse('invalid_request', 'client_id and redirect_uri are required');
+  }
+
+  const codeChallenge = params.get('code_challenge');
+  if (codeChallenge && params.get('code_challenge_method') !== 'S256') {
+    return errorResponse('invalid_request', 'Only the S256 code_challenge_method is supported');
+  }
+
+  const callback = new URL(redirectUri);
+  const state = params.get('mock_state') ?? params.get('state');
+  if (state) {
+    callback.searchParams.set('state', state);
+  }
+
+  const mockError = params.get('mock_error');
+  if (mockError) {
+    callback.searchParams.set('error', mockError);
+    callback.searchParams.set('error_description', 'The seller declined the authorization request');
+    return Response.redirect(callback.toString(), 302);
+  }
+
+  const code = `mock-code-${crypto.randomUUID()}`;
+  issuedCodes.set(code, {
+    redirectUri,
+    codeChallenge,
+    scope: params.get('mock_scope') ?? params.get('scope') ?? DEFAULT_SCOPE,
+    expiresAt: Date.now() + AUTH_CODE_TTL_SECONDS * 1000,
+    used: false,
+  });
+
+  callback.searchParams.set('code', code);
+  callback.searchParams.set('type', 'auth');
+  callback.searchParams.set('clientId', params.get('client_id')!);
+  callback.searchParams.set('sellerId', params.get('mock_seller_id') || '10000001');
+  return Response.redirect(callback.toString(), 302);
+}
+
+async function exchangeCode(params: URLSearchParams): Promise<Response> {
+  const code = params.get('code');
+  const issued = code ? issuedCodes.get(code) : undefined;
+
+  if (!issued) {
+    return errorResponse('invalid_grant', 'Authorization code is invalid');
+  }
+  if (issued.used) {
+    return errorResponse('invalid_grant', 'Authorization code has already been used');
+  }
+  issued.used = true;
+
+  if (Date.now() > issued.expiresAt) {
+    return errorResponse('invalid_grant', 'Authorization code has expired');
+  }
+  if (params.get('redirect_uri') !== issued.redirectUri) {
+    return errorResponse('invalid_grant', 'redirect_uri does not match the authorization request');
+  }
+  if (issued.codeChallenge) {
+    const verifier = params.get('code_verifier');
+    if (!verifier || await s256(verifier) !== issued.codeChallenge) {
+      return errorResponse('invalid_grant', 'PKCE verification failed');
+    }
+  }
+
+  return issueTokens(issued.scope);
+}
+
+export async function token(req: Request): Promise<Response> {
+  if (req.method !== 'POST') {
+    return errorResponse('invalid_request', 'Only POST is supported', 405);
+  }
+
+  const params = new URLSearchParams(await req.text());
+
+  switch (params.get('grant_type')) {
+    case 'authorization_code':
+      return await exchangeCode(params);
+
+    case 'refresh_token': {
+      const refreshToken = params.get('refresh_token');
+      if (!refreshToken?.startsWith('mock-refresh-') || usedRefreshTokens.has(refreshToken)) {
+        return errorResponse('invalid_grant', 'Refresh token is invalid or has already been used');
+      }
+      usedRefreshTokens.add(refreshToken);
+      // Tokens from before a worker restart fall back to the full scope
+      const scope = refreshTokenScopes.get(refreshToken) ?? DEFAULT_SCOPE;
+      refreshTokenScopes.delete(refreshToken);
+      return issueTokens(scope);
+    }
+
+    case 'client_credentials':
+      return issueClientCredentialsToken(req);
+
+    default:
+      return errorResponse('unsupported_grant_type', `Unsupported grant_type: ${params.get('grant_type')}`);
+  }
+}
+
+/**
+ * Scopes granted to a WM_SEC.ACCESS_TOKEN, or null when the token was not issued here
+ * or has expired. Tokens from before a worker restart are accepted with the full scope.
+ */
+export function verifyAccessToken(accessToken: string | null): string[] | null {
+  if (!accessToken?.startsWith('mock-access-')) return null;
+
+  const issued = issuedAccessTokens.get(accessToken);
+  if (!issued) return DEFAULT_SCOPE.split(' ');
+  if (Date.now() > issued.expiresAt) return null;
+
+  return issued.scope.split(/[\s,]+/).filter(Boolean);
+}
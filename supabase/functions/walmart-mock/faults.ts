@@ -0,0 +1,178 @@
+// Fault injection and rate limiting for the mock.
+//
+// Faults are rules configured through POST /__mock/faults that make matching requests
+// fail (or slow down) so retry, throttling and error handling can be exercised on demand.
+// Independently, every marketplace endpoint has a token bucket like Walmart's, reported
+// through x-current-token-count and x-next-replenish-time.
+
+import { json, mockHeaders, walmartError } from './http.ts';
+
+export interface FaultRule {
+  id: string;
+  // Matches when the request path contains this (e.g. "/v3/orders")
+  path: string;
+  method?: string;
+  // Status to answer with; omit to only delay the request
+  status?: number;
+  code?: string;
+  description?: string;
+  // Answer with Walmart's XML error envelope instead of JSON
+  format?: 'json' | 'xml';
+  delayMs?: number;
+  // Chance (0-1) that a matching request is affected; defaults to always
+  probability?: number;
+  // How many more requests the rule affects; unlimited when omitted
+  remaining?: number;
+}
+
+export interface RateLimitConfig {
+  // Tokens in each endpoint's bucket
+  capacity: number;
+  // How often a drained bucket is refilled
+  windowMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  replenishAt: number;
+}
+
+let faults: FaultRule[] = [];
+
+let rateLimitConfig: RateLimitConfig = {
+  capacity: Number(Deno.env.get('MOCK_RATE_LIMIT') || 200),
+  windowMs: Number(Deno.env.get('MOCK_RATE_LIMIT_WINDOW_MS') || 60_000),
+};
+
+const buckets = new Map<string, Bucket>();
+
+export function listFaults(): FaultRule[] {
+  return faults;
+}
+
+export function addFault(rule: Omit<FaultRule, 'id'>): FaultRule {
+  const fault = { ...rule, id: crypto.randomUUID() };
+  faults.push(fault);
+  return fault;
+}
+
+export function clearFaults(id?: string): void {
+  faults = id ? faults.filter((fault) => fault.id !== id) : [];
+}
+
+export function getRateLimitConfig(): RateLimitConfig {
+  return rateLimitConfig;
+}
+
+export function setRateLimitConfig(config: Partial<RateLimitConfig>): void {
+  rateLimitConfig = { ...rateLimitConfig, ...config };
+  buckets.clear();
+}
+
+function errorCode(status: number): string {
+  if (status === 400) return 'INVALID_REQUEST_PARAM.GMP_ORDER_API';
+  if (status === 401) return 'UNAUTHORIZED.GMP_GATEWAY_API';
+  if (status === 403) return 'FORBIDDEN.GMP_GATEWAY_API';
+  if (status === 404) return 'CONTENT_NOT_FOUND.GMP_ORDER_API';
+  if (status === 429) return 'REQUEST_THRESHOLD_VIOLATED.GMP_GATEWAY_API';
+  return 'SYSTEM_ERROR.GMP_GATEWAY_API';
+}
+
+function xmlError(status: number, code: string, description: string): Response {
+  const body = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<ns2:errors xmlns:ns2="http://walmart.com/">
+  <ns2:error>
+    <ns2:code>${code}</ns2:code>
+    <ns2:description>${description}</ns2:description>
+    <ns2:info>${description}</ns2:info>
+    <ns2:severity>ERROR</ns2:severity>
+    <ns2:category>${status >= 500 ? 'SYSTEM' : 'DATA'}</ns2:category>
+  </ns2:error>
+</ns2:errors>`;
+
+  return new Response(body, {
+    status,
+    headers: { ...mockHeaders, 'Content-Type': 'application/xml' },
+  });
+}
+
+/**
+ * Apply the first fault rule matching the request. Resolves with the response to send
+ * instead of handling the request, or null to carry on (possibly after a delay).
+ */
+export async function injectFault(method: string, path: string): Promise<Response | null> {
+  const fault = faults.find((rule) =>
+    path.includes(rule.path) &&
+    (!rule.method || rule.method.toUpperCase() === method) &&
+    (rule.remaining === undefined || rule.remaining > 0)
+  );
+  if (!fault || (fault.probability !== undefined && Math.random() >= fault.probability)) {
+    return null;
+  }
+
+  if (fault.remaining !== undefined) {
+    fault.remaining--;
+  }
+  if (fault.delayMs) {
+    await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+  }
+  if (!fault.status) {
+    return null;
+  }
+
+  const code = fault.code ?? errorCode(fault.status);
+  const description = fault.description ?? `Injected ${fault.status} fault`;
+  const headers: Record<string, string> = fault.status === 429
+    ? { 'x-current-token-count': '0', 'x-next-replenish-time': String(Date.now() + 1000) }
+    : {};
+
+  return fault.format === 'xml'
+    ? xmlError(fault.status, code, description)
+    : walmartError(fault.status, code, description, undefined, headers);
+}
+
+/**
+ * Take a token from the endpoint's bucket. Walmart limits each endpoint separately, so
+ * `endpoint` is the route the request matched, not its path: ids in the path share their
+ * endpoint's bucket. Returns the rate-limit headers to send and, when the bucket is empty,
+ * the 429 response to send instead.
+ */
+export function takeRateLimitToken(method: string, endpoint: string): { headers: Record<string, string>; throttled: Response | null } {
+  const key = `${method} ${endpoint}`;
+  const now = Date.now();
+  let bucket = buckets.get(key);
+
+  if (!bucket || now >= bucket.replenishAt) {
+    bucket = { tokens: rateLimitConfig.capacity, replenishAt: now + rateLimitConfig.windowMs };
+    buckets.set(key, bucket);
+  }
+
+  const throttled = bucket.tokens <= 0;
+  if (!throttled) {
+    bucket.tokens--;
+  }
+
+  const headers = {
+    'x-current-token-count': String(bucket.tokens),
+    'x-next-replenish-time': String(bucket.replenishAt),
+  };
+
+  return {
+    headers,
+    throttled: throttled
+      ? walmartError(429, errorCode(429), 'Too many requests; wait for the next replenish time', undefined, headers)
+      : null,
+  };
+}
+
+/**
+ * Copy rate-limit headers onto a handler's response
+ */
+export function withHeaders(response: Response, headers: Record<string, string>): Response {
+  Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
+
+export function faultState(): Response {
+  return json({ faults, rateLimit: rateLimitConfig });
+}
@@ -0,0 +1,430 @@
+// Bulk feeds and on-request reports. Both are asynchronous at Walmart: a feed is
+// accepted, processed a few seconds later and then reports per-SKU results; a report
+// request becomes READY after a while and is downloaded from a separate URL.
+
+import { json, readJson, text, walmartError } from './http.ts';
+import {
+  FeedIngestionResult,
+  FeedStatus,
+  MockFeed,
+  MockItem,
+  MockReport,
+  ReportStatus,
+  SHIP_NODE,
+  findInventory,
+  money,
+  state,
+} from './store.ts';
+
+const FEED_PROCESSING_MS = Number(Deno.env.get('MOCK_FEED_PROCESSING_MS') || 5000);
+const REPORT_PROCESSING_MS = Number(Deno.env.get('MOCK_REPORT_PROCESSING_MS') || 5000);
+
+const REPORT_TYPES = ['ITEM', 'INVENTORY'];
+
+// ---- Feeds ------------------------------------------------------------------
+
+interface FeedQuantity {
+  unit?: string;
+  amount?: number;
+}
+
+// Single-node records carry `quantity`; multi-node (MP_INVENTORY 1.5) records `shipNodes`
+interface InventoryFeed {
+  Inventory?: { sku?: string; quantity?: FeedQuantity; shipNodes?: { shipNode?: string; quantity?: FeedQuantity }[] }[];
+}
+
+interface ItemFeed {
+  MPItem?: { Orderable?: { sku?: string; productName?: string; price?: number; productType?: string } }[];
+}
+
+interface PriceFeed {
+  Price?: { itemIdentifier?: { sku?: string }; pricingList?: { pricing?: { currentPrice?: { value?: { amount?: number } } }[] } }[];
+}
+
+function ingestionResult(sku: string, index: number, error?: { code: string; field: string; description: string }): FeedIngestionResult {
+  return {
+    martId: 0,
+    sku,
+    index,
+    ingestionStatus: error ? 'DATA_ERROR' : 'SUCCESS',
+    ingestionErrors: { ingestionError: error ? [{ type: 'DATA_ERROR', ...error }] : null },
+  };
+}
+
+function unknownSku(sku: string) {
+  return { code: 'ERR_EXT_DATA_0101', field: 'sku', description: `SKU ${sku} is not in your catalog` };
+}
+
+/**
+ * Validate every record of a feed now, and return the changes to apply once it is processed
+ */
+function planFeed(feedType: string, body: unknown): { results: FeedIngestionResult[]; apply: () => void } | null {
+  const changes: (() => void)[] = [];
+  const results: FeedIngestionResult[] = [];
+
+  switch (feedType) {
+    case 'inventory':
+    case 'MP_INVENTORY': {
+      const records = (body as InventoryFeed)?.Inventory;
+      if (!Array.isArray(records)) return null;
+
+      records.forEach((record, index) => {
+        const sku = record.sku ?? '';
+        const stock = findInventory(sku);
+        const nodes = Array.isArray(record.shipNodes)
+          ? record.shipNodes
+          : [{ shipNode: stock?.shipNode, quantity: record.quantity }];
+        const amount = nodes[0]?.quantity?.amount;
+        // Results name the ship node when the record has only one
+        const shipNode = nodes.length === 1 ? nodes[0].shipNode : undefined;
+        const result = (error?: { code: string; field: string; description: string }) => (
+          shipNode ? { ...ingestionResult(sku, index, error), shipNode } : ingestionResult(sku, index, error)
+        );
+        if (!sku) {
+          results.push(result({ code: 'ERR_EXT_DATA_0001', field: 'sku', description: 'sku is required' }));
+        } else if (!stock) {
+          results.push(result(unknownSku(sku)));
+        } else if (state.items.find((item) => item.sku === sku)?.lifecycleStatus === 'RETIRED') {
+          // DELETE /v3/items/{sku} retires an item; its stock can no longer be set
+          results.push(result({
+            code: 'ERR_EXT_DATA_0105',
+            field: 'sku',
+            description: `SKU ${sku} is retired`,
+          }));
+        } else if (nodes.length !== 1 || nodes[0].shipNode !== stock.shipNode) {
+          // Every mock SKU is stocked at one ship node
+          results.push(result({
+            code: 'ERR_EXT_DATA_0104',
+            field: 'shipNode',
+            description: `SKU ${sku} is only stocked at ship node ${stock.shipNode}`,
+          }));
+        } else if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 0) {
+          results.push(result({
+            code: 'ERR_EXT_DATA_0102',
+            field: 'quantity.amount',
+            description: 'quantity.amount must be a non-negative whole number',
+          }));
+        } else {
+          results.push(result());
+          changes.push(() => {
+            const current = findInventory(sku);
+            if (current) current.inputQty = amount;
+          });
+        }
+      });
+      break;
+    }
+
+    case 'item':
+    case 'MP_ITEM': {
+      const records = (body as ItemFeed)?.MPItem;
+      if (!Array.isArray(records)) return null;
+
+      records.forEach((record, index) => {
+        const orderable = record.Orderable ?? {};
+        const sku = orderable.sku ?? '';
+        if (!sku || !orderable.productName) {
+          results.push(ingestionResult(sku, index, {
+            code: 'ERR_EXT_DATA_0001',
+            field: sku ? 'productName' : 'sku',
+            description: `${sku ? 'productName' : 'sku'} is required`,
+          }));
+        } else if (typeof orderable.price !== 'number' || orderable.price <= 0) {
+          results.push(ingestionResult(sku, index, { code: 'ERR_EXT_DATA_0103', field: 'price', description: 'price must be greater than zero' }));
+        } else {
+          results.push(ingestionResult(sku, index));
+          changes.push(() => upsertItem(sku, orderable.productName!, orderable.price!, orderable.productType));
+        }
+      });
+      break;
+    }
+
+    case 'price': {
+      const records = (body as PriceFeed)?.Price;
+      if (!Array.isArray(records)) return null;
+
+      records.forEach((record, index) => {
+        const sku = record.itemIdentifier?.sku ?? '';
+        const amount = record.pricingList?.pricing?.[0]?.currentPrice?.value?.amount;
+        const item = state.items.find((entry) => entry.sku === sku);
+        if (!item) {
+          results.push(ingestionResult(sku, index, unknownSku(sku)));
+        } else if (typeof amount !== 'number' || amount <= 0) {
+          results.push(ingestionResult(sku, index, { code: 'ERR_EXT_DATA_0103', field: 'price', description: 'price must be greater than zero' }));
+        } else {
+          results.push(ingestionResult(sku, index));
+          changes.push(() => {
+            item.price = money(amount);
+          });
+        }
+      });
+      break;
+    }
+
+    default:
+      return null;
+  }
+
+  return { results, apply: () => changes.forEach((change) => change()) };
+}
+
+function upsertItem(sku: string, productName: string, price: number, productType?: string): void {
+  const existing = state.items.find((item) => item.sku === sku);
+  if (existing) {
+    existing.productName = productName;
+    existing.price = money(price);
+    if (productType) existing.productType = productType;
+    return;
+  }
+
+  const item: MockItem = {
+    mart: 'WALMART_US',
+    sku,
+    wpid: `MOCK${crypto.randomUUID().slice(0, 8).toUpperCase()}`,
+    upc: '',
+    gtin: '',
+    productName,
+    shelf: '[]',
+    productType: productType ?? 'Unclassified',
+    price: money(price),
+    publishedStatus: 'UNPUBLISHED',
+    lifecycleStatus: 'ACTIVE',
+  };
+  state.items.push(item);
+  state.inventory.push({ sku, shipNode: SHIP_NODE, inputQty: 0, reservedQty: 0 });
+}
+
+function feedStatus(feed: MockFeed): FeedStatus {
+  const now = Date.now();
+  if (now >= feed.completesAt) return 'PROCESSED';
+  return now - feed.feedDate < FEED_PROCESSING_MS / 5 ? 'RECEIVED' : 'INPROGRESS';
+}
+
+/**
+ * Apply every feed whose processing time has passed. Called before each request so
+ * reads see the outcome of feeds as soon as they report PROCESSED.
+ */
+export function settleFeeds(): void {
+  state.feeds.forEach((feed) => {
+    if (!feed.applied && feedStatus(feed) === 'PROCESSED') {
+      feed.applied = true;
+      feed.apply();
+    }
+  });
+}
+
+function feedSummary(feed: MockFeed) {
+  const status = feedStatus(feed);
+  const processed = status === 'PROCESSED';
+  const failed = feed.results.filter((result) => result.ingestionStatus === 'DATA_ERROR').length;
+
+  return {
+    feedId: feed.feedId,
+    feedSource: 'MARKETPLACE_PARTNER',
+    feedType: feed.feedType,
+    feedStatus: status,
+    feedDate: feed.feedDate,
+    modifiedDtm: processed ? feed.completesAt : feed.feedDate,
+    itemsReceived: feed.results.length,
+    itemsSucceeded: processed ? feed.results.length - failed : 0,
+    itemsFailed: processed ? failed : 0,
+    itemsProcessing: processed ? 0 : feed.results.length,
+  };
+}
+
+/**
+ * Read a feed file: a JSON body, or the first file of a multipart upload
+ */
+async function readFeedBody(req: Request): Promise<unknown> {
+  if ((req.headers.get('content-type') ?? '').includes('multipart/form-data')) {
+    try {
+      const form = await req.formData();
+      const file = [...form.values()].find((value): value is File => value instanceof File);
+      return file ? JSON.parse(await file.text()) : null;
+    } catch {
+      return null;
+    }
+  }
+  return await readJson(req);
+}
+
+export async function submitFeed(params: URLSearchParams, req: Request): Promise<Response> {
+  const feedType = params.get('feedType') ?? '';
+  const body = await readFeedBody(req);
+  const plan = planFeed(feedType, body);
+
+  if (!plan) {
+    return walmartError(
+      400,
+      'INVALID_REQUEST_CONTENT.GMP_FEEDS_API',
+      body ? `Unsupported feedType "${feedType}" or malformed feed file` : 'Feed file must be JSON',
+      'feedType'
+    );
+  }
+
+  const now = Date.now();
+  const feed: MockFeed = {
+    feedId: `${crypto.randomUUID().replace(/-/g, '').toUpperCase()}@AQMBAQA`,
+    feedType,
+    feedDate: now,
+    completesAt: now + FEED_PROCESSING_MS,
+    applied: false,
+    ...plan,
+  };
+  state.feeds.set(feed.feedId, feed);
+
+  return json({ feedId: feed.feedId }, 202);
+}
+
+export function listFeeds(params: URLSearchParams): Response {
+  const feedId = params.get('feedId');
+  const offset = Number(params.get('offset') || 0);
+  const limit = Math.min(Number(params.get('limit') || 50), 50);
+
+  const feeds = [...state.feeds.values()]
+    .filter((feed) => !feedId || feed.feedId === feedId)
+    .sort((a, b) => b.feedDate - a.feedDate);
+
+  return json({
+    totalResults: feeds.length,
+    offset,
+    limit,
+    results: { feed: feeds.slice(offset, offset + limit).map(feedSummary) },
+  });
+}
+
+export function getFeed(feedId: string, params: URLSearchParams): Response {
+  const feed = state.feeds.get(feedId);
+  if (!feed) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_FEEDS_API', `Feed ${feedId} not found`, 'feedId');
+  }
+
+  const summary = feedSummary(feed);
+  const includeDetails = params.get('includeDetails') === 'true' && summary.feedStatus === 'PROCESSED';
+  const offset = Number(params.get('offset') || 0);
+  const limit = Math.min(Number(params.get('limit') || 50), 1000);
+
+  return json({
+    ...summary,
+    ingestionErrors: { ingestionError: null },
+    offset,
+    limit,
+    itemDetails: {
+      itemIngestionStatus: includeDetails ? feed.results.slice(offset, offset + limit) : [],
+    },
+  });
+}
+
+// ---- Reports ----------------------------------------------------------------
+
+function reportStatus(report: MockReport): ReportStatus {
+  const now = Date.now();
+  if (now >= report.readyAt) return 'READY';
+  return now - report.requestSubmissionDate < REPORT_PROCESSING_MS / 5 ? 'RECEIVED' : 'INPROGRESS';
+}
+
+function reportRequest(report: MockReport) {
+  return {
+    requestId: report.requestId,
+    requestStatus: reportStatus(report),
+    requestSubmissionDate: new Date(report.requestSubmissionDate).toISOString(),
+    reportType: report.reportType,
+    reportVersion: report.reportVersion,
+  };
+}
+
+function reportNotFound(requestId: string | null): Response {
+  return walmartError(404, 'CONTENT_NOT_FOUND.GMP_REPORTS_API', `Report request ${requestId} not found`, 'requestId');
+}
+
+export function createReport(params: URLSearchParams): Response {
+  const reportType = params.get('reportType') ?? '';
+  if (!REPORT_TYPES.includes(reportType)) {
+    return walmartError(400, 'INVALID_REQUEST_PARAM.GMP_REPORTS_API', `reportType must be one of ${REPORT_TYPES.join(', ')}`, 'reportType');
+  }
+
+  const now = Date.now();
+  const report: MockReport = {
+    requestId: crypto.randomUUID(),
+    reportType,
+    reportVersion: params.get('reportVersion') ?? 'v1',
+    requestSubmissionDate: now,
+    readyAt: now + REPORT_PROCESSING_MS,
+  };
+  state.reports.set(report.requestId, report);
+
+  return json(reportRequest(report), 202);
+}
+
+export function listReports(params: URLSearchParams): Response {
+  const reportType = params.get('reportType');
+  const requestStatus = params.get('requestStatus');
+
+  const requests = [...state.reports.values()]
+    .filter((report) => !reportType || report.reportType === reportType)
+    .map(reportRequest)
+    .filter((request) => !requestStatus || request.requestStatus === requestStatus)
+    .reverse();
+
+  return json({ page: 1, totalCount: requests.length, limit: requests.length, nextCursor: null, requests });
+}
+
+export function getReport(requestId: string): Response {
+  const report = state.reports.get(requestId);
+  return report ? json(reportRequest(report)) : reportNotFound(requestId);
+}
+
+/**
+ * GET /v3/reports/downloadReport: a short-lived link to the generated file.
+ * downloadBaseUrl is where this mock is served, so the link comes back here.
+ */
+export function getReportDownload(params: URLSearchParams, downloadBaseUrl: string): Response {
+  const requestId = params.get('requestId');
+  const report = requestId ? state.reports.get(requestId) : undefined;
+  if (!report) return reportNotFound(requestId);
+
+  if (reportStatus(report) !== 'READY') {
+    return walmartError(400, 'REPORT_NOT_READY.GMP_REPORTS_API', 'Report is not ready yet', 'requestId');
+  }
+
+  return json({
+    ...reportRequest(report),
+    reportGenerationDate: new Date(report.readyAt).toISOString(),
+    downloadURL: `${downloadBaseUrl}/__mock/reports/${report.requestId}`,
+    downloadURLExpirationTime: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+  });
+}
+
+function csv(rows: (string | number)[][]): string {
+  return rows
+    .map((row) => row.map((value) => {
+      const cell = String(value);
+      return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    }).join(','))
+    .join('\n');
+}
+
+/**
+ * The report file itself, generated from current state (Walmart serves a zipped CSV)
+ */
+export function downloadReport(requestId: string): Response {
+  const report = state.reports.get(requestId);
+  if (!report || reportStatus(report) !== 'READY') return reportNotFound(requestId);
+
+  const rows = report.reportType === 'ITEM'
+    ? [
+      ['SKU', 'Item ID', 'Product Name', 'Product Type', 'Price', 'Currency', 'Publish Status', 'Lifecycle Status', 'UPC', 'GTIN'],
+      ...state.items.map((item) => [
+        item.sku, item.wpid, item.productName, item.productType, item.price.amount, item.price.currency,
+        item.publishedStatus, item.lifecycleStatus, item.upc, item.gtin,
+      ]),
+    ]
+    : [
+      ['SKU', 'Ship Node', 'Input Qty', 'Available To Sell Qty', 'Reserved Qty'],
+      ...state.inventory.map((stock) => [
+        stock.sku, stock.shipNode, stock.inputQty, Math.max(0, stock.inputQty - stock.reservedQty), stock.reservedQty,
+      ]),
+    ];
+
+  return text(csv(rows), 'text/csv');
+}
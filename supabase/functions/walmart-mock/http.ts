@@ -0,0 +1,66 @@
+// Response helpers for the mock. The app calls the marketplace endpoints straight from
+// the browser, so every response carries CORS headers that allow the WM_* request headers.
+
+export const mockHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': [
+    'authorization',
+    'content-type',
+    'accept',
+    'wm_sec.access_token',
+    'wm_qos.correlation_id',
+    'wm_svc.name',
+    'wm_partner.id',
+    'wm_consumer.channel.type',
+  ].join(', '),
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'x-current-token-count, x-next-replenish-time, retry-after, wm_qos.correlation_id',
+};
+
+export function json(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...mockHeaders, ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+export function text(body: string, contentType: string, status: number = 200): Response {
+  return new Response(body, {
+    status,
+    headers: { ...mockHeaders, 'Content-Type': contentType },
+  });
+}
+
+/**
+ * Error in Walmart's Marketplace envelope: { errors: [{ code, field, description, ... }] }
+ */
+export function walmartError(
+  status: number,
+  code: string,
+  description: string,
+  field?: string,
+  headers: Record<string, string> = {}
+): Response {
+  return json({
+    errors: [{
+      code,
+      field: field ?? null,
+      description,
+      info: description,
+      severity: 'ERROR',
+      category: status >= 500 ? 'SYSTEM' : 'DATA',
+    }],
+  }, status, headers);
+}
+
+/**
+ * Parse a JSON request body, or null when it is missing or malformed
+ */
+export async function readJson<T>(req: Request): Promise<T | null> {
+  try {
+    const body = await req.text();
+    return body ? JSON.parse(body) as T : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,273 @@
+// Local stand-in for the Walmart Marketplace API, so the app and its tests run fully
+// offline. Serve it with the other functions (`supabase functions serve`) or on its own
+// (`deno run --allow-net --allow-env supabase/functions/walmart-mock/index.ts`, port 8000);
+// either way, point the mock base URL at it and every path below works beneath it.
+//
+// It answers nothing but 404 unless WALMART_MOCK_ENABLED=true: the function has no JWT
+// check (config.toml), so a copy deployed by accident must not hand out tokens or take
+// test controls from anyone.
+//
+//   GET  /v3/token/authorize, POST /v3/token       see auth.ts
+//   GET  /v3/items[/{sku}], DELETE /v3/items/{sku}
+//   GET  /v3/orders, /v3/orders/released, /v3/orders/{purchaseOrderId}
+//   POST /v3/orders/{purchaseOrderId}/acknowledge | cancel | shipping | refund
+//   GET  /v3/returns, POST /v3/returns/{returnOrderId}/refund
+//   GET  /v3/inventory?sku=, PUT /v3/inventory?sku=, GET /v3/inventories
+//   POST /v3/feeds?feedType=, GET /v3/feeds, /v3/feeds/{feedId}
+//   POST /v3/reports/reportRequests, GET /v3/reports/reportRequests[/{requestId}],
+//   GET  /v3/reports/downloadReport?requestId=
+//   GET  /v3/webhooks/eventTypes, GET|POST /v3/webhooks/subscriptions,
+//   PATCH|DELETE /v3/webhooks/subscriptions/{subscriptionId}           see webhooks.ts
+//
+// Marketplace endpoints require a WM_SEC.ACCESS_TOKEN issued by this mock with the
+// scope the endpoint belongs to, and are rate limited per endpoint (see faults.ts).
+//
+// Test controls (no auth; only served with WALMART_MOCK_ENABLED=true):
+//   POST   /__mock/reset      { seed?, orderCount? }  regenerate state, clear faults
+//   GET    /__mock/fixtures                           current items, inventory, orders and returns
+//   PUT    /__mock/fixtures   { items, inventory, orders, returns }  replace state exactly
+//   POST   /__mock/orders     { count? }              place new Created orders (delivers PO_CREATED)
+//   POST   /__mock/orders/{purchaseOrderId}/autocancel  cancel open lines (delivers PO_LINE_AUTOCANCELLED)
+//   POST   /__mock/webhooks/deliver { eventType, payload? }  raise any event for the active subscriptions
+//   GET    /__mock/webhooks/deliveries                notification delivery log, newest first
+//   GET    /__mock/faults                             fault rules and rate-limit config
+//   POST   /__mock/faults     FaultRule without id    add a fault rule
+//   DELETE /__mock/faults[/{id}]                      remove one or every fault rule
+//   PUT    /__mock/rate-limit { capacity?, windowMs? }
+//   GET    /__mock/reports/{requestId}                report file behind downloadURL
+
+import { authorize, token, verifyAccessToken } from './auth.ts';
+import { json, mockHeaders, readJson, walmartError } from './http.ts';
+import {
+  FaultRule,
+  RateLimitConfig,
+  addFault,
+  clearFaults,
+  faultState,
+  injectFault,
+  setRateLimitConfig,
+  takeRateLimitToken,
+  withHeaders,
+} from './faults.ts';
+import { MockFixtures, SeedOptions, loadFixtures, placeOrders, resetState, snapshot } from './store.ts';
+import {
+  acknowledgeOrder,
+  autoCancelOrder,
+  cancelOrderLines,
+  getInventory,
+  getItem,
+  getOrder,
+  listInventories,
+  listItems,
+  listOrders,
+  listReturns,
+  refundOrderLines,
+  refundReturn,
+  retireItem,
+  shipOrderLines,
+  updateInventory,
+} from './marketplace.ts';
+import {
+  createReport,
+  downloadReport,
+  getFeed,
+  getReport,
+  getReportDownload,
+  listFeeds,
+  listReports,
+  settleFeeds,
+  submitFeed,
+} from './feeds.ts';
+import {
+  EVENT_TYPES,
+  createSubscriptions,
+  deleteSubscription,
+  listDeliveries,
+  listEventTypes,
+  listSubscriptions,
+  notify,
+  updateSubscription,
+} from './webhooks.ts';
+
+const MOCK_ENABLED = Deno.env.get('WALMART_MOCK_ENABLED') === 'true';
+const MOCK_PUBLIC_URL = Deno.env.get('MOCK_PUBLIC_URL')?.replace(/\/$/, '');
+
+type Handler = (match: RegExpMatchArray, req: Request, params: URLSearchParams, baseUrl: string) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  // Scope the access token must carry (any one of a list); feed uploads depend on the feed type
+  scope: string | string[] | ((params: URLSearchParams) => string);
+  handle: Handler;
+}
+
+const feedScope = (params: URLSearchParams) =>
+  ['inventory', 'MP_INVENTORY'].includes(params.get('feedType') ?? '') ? 'inventory' : 'item';
+
+const routes: Route[] = [
+  { method: 'GET', pattern: /^\/v3\/items$/, scope: 'item', handle: (_, __, params) => listItems(params) },
+  { method: 'GET', pattern: /^\/v3\/items\/([^/]+)$/, scope: 'item', handle: (match) => getItem(decodeURIComponent(match[1])) },
+  { method: 'DELETE', pattern: /^\/v3\/items\/([^/]+)$/, scope: 'item', handle: (match) => retireItem(decodeURIComponent(match[1])) },
+
+  { method: 'GET', pattern: /^\/v3\/orders$/, scope: 'orders', handle: (_, __, params) => listOrders(params, false) },
+  { method: 'GET', pattern: /^\/v3\/orders\/released$/, scope: 'orders', handle: (_, __, params) => listOrders(params, true) },
+  { method: 'GET', pattern: /^\/v3\/orders\/([^/]+)$/, scope: 'orders', handle: (match) => getOrder(match[1]) },
+  { method: 'POST', pattern: /^\/v3\/orders\/([^/]+)\/acknowledge$/, scope: 'orders', handle: (match) => acknowledgeOrder(match[1]) },
+  { method: 'POST', pattern: /^\/v3\/orders\/([^/]+)\/cancel$/, scope: 'orders', handle: (match, req) => cancelOrderLines(match[1], req) },
+  { method: 'POST', pattern: /^\/v3\/orders\/([^/]+)\/shipping$/, scope: 'orders', handle: (match, req) => shipOrderLines(match[1], req) },
+  { method: 'POST', pattern: /^\/v3\/orders\/([^/]+)\/refund$/, scope: 'orders', handle: (match, req) => refundOrderLines(match[1], req) },
+
+  { method: 'GET', pattern: /^\/v3\/returns$/, scope: 'orders', handle: (_, __, params) => listReturns(params) },
+  { method: 'POST', pattern: /^\/v3\/returns\/([^/]+)\/refund$/, scope: 'orders', handle: (match, req) => refundReturn(match[1], req) },
+
+  { method: 'GET', pattern: /^\/v3\/inventory$/, scope: 'inventory', handle: (_, __, params) => getInventory(params) },
+  { method: 'PUT', pattern: /^\/v3\/inventory$/, scope: 'inventory', handle: (_, req, params) => updateInventory(params, req) },
+  { method: 'GET', pattern: /^\/v3\/inventories$/, scope: 'inventory', handle: (_, __, params) => listInventories(params) },
+
+  { method: 'POST', pattern: /^\/v3\/feeds$/, scope: feedScope, handle: (_, req, params) => submitFeed(params, req) },
+  { method: 'GET', pattern: /^\/v3\/feeds$/, scope: ['item', 'inventory'], handle: (_, __, params) => listFeeds(params) },
+  { method: 'GET', pattern: /^\/v3\/feeds\/([^/]+)$/, scope: ['item', 'inventory'], handle: (match, _, params) => getFeed(decodeURIComponent(match[1]), params) },
+
+  { method: 'POST', pattern: /^\/v3\/reports\/reportRequests$/, scope: 'reports', handle: (_, __, params) => createReport(params) },
+  { method: 'GET', pattern: /^\/v3\/reports\/reportRequests$/, scope: 'reports', handle: (_, __, params) => listReports(params) },
+  { method: 'GET', pattern: /^\/v3\/reports\/reportRequests\/([^/]+)$/, scope: 'reports', handle: (match) => getReport(match[1]) },
+  { method: 'GET', pattern: /^\/v3\/reports\/downloadReport$/, scope: 'reports', handle: (_, __, params, baseUrl) => getReportDownload(params, baseUrl) },
+
+  // Only order events are offered to this app, so managing subscriptions needs the orders scope
+  { method: 'GET', pattern: /^\/v3\/webhooks\/eventTypes$/, scope: 'orders', handle: () => listEventTypes() },
+  { method: 'GET', pattern: /^\/v3\/webhooks\/subscriptions$/, scope: 'orders', handle: () => listSubscriptions() },
+  { method: 'POST', pattern: /^\/v3\/webhooks\/subscriptions$/, scope: 'orders', handle: (_, req) => createSubscriptions(req) },
+  { method: 'PATCH', pattern: /^\/v3\/webhooks\/subscriptions\/([^/]+)$/, scope: 'orders', handle: (match, req) => updateSubscription(decodeURIComponent(match[1]), req) },
+  { method: 'DELETE', pattern: /^\/v3\/webhooks\/subscriptions\/([^/]+)$/, scope: 'orders', handle: (match) => deleteSubscription(decodeURIComponent(match[1])) },
+];
+
+async function handleMarketplace(req: Request, path: string, params: URLSearchParams, baseUrl: string): Promise<Response> {
+  const route = routes.find((candidate) => candidate.method === req.method && candidate.pattern.test(path));
+  if (!route) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_GATEWAY_API', `No mock for ${req.method} ${path}`);
+  }
+
+  const fault = await injectFault(req.method, path);
+  if (fault) return fault;
+
+  const { headers, throttled } = takeRateLimitToken(req.method, route.pattern.source);
+  if (throttled) return throttled;
+
+  const scopes = verifyAccessToken(req.headers.get('WM_SEC.ACCESS_TOKEN'));
+  if (!scopes) {
+    return withHeaders(walmartError(401, 'UNAUTHORIZED.GMP_GATEWAY_API', 'Access token is missing, invalid or expired'), headers);
+  }
+
+  const required = typeof route.scope === 'function' ? [route.scope(params)] : [route.scope].flat();
+  if (!required.some((scope) => scopes.includes(scope))) {
+    return withHeaders(walmartError(403, 'FORBIDDEN.GMP_GATEWAY_API', `The seller has not granted the ${required.join(' or ')} permission`), headers);
+  }
+
+  settleFeeds();
+  const response = await route.handle(path.match(route.pattern)!, req, params, baseUrl);
+  return withHeaders(response, {
+    ...headers,
+    'WM_QOS.CORRELATION_ID': req.headers.get('WM_QOS.CORRELATION_ID') ?? crypto.randomUUID(),
+  });
+}
+
+async function handleControl(req: Request, path: string): Promise<Response> {
+  const faultMatch = path.match(/^\/__mock\/faults(?:\/([^/]+))?$/);
+  const reportMatch = path.match(/^\/__mock\/reports\/([^/]+)$/);
+  const autoCancelMatch = path.match(/^\/__mock\/orders\/([^/]+)\/autocancel$/);
+
+  if (req.method === 'POST' && path === '/__mock/reset') {
+    resetState(await readJson<SeedOptions>(req) ?? {});
+    clearFaults();
+    setRateLimitConfig({});
+    return json({ reset: true });
+  }
+  if (path === '/__mock/fixtures' && req.method === 'GET') {
+    return json(snapshot());
+  }
+  if (path === '/__mock/fixtures' && req.method === 'PUT') {
+    loadFixtures(await readJson<Partial<MockFixtures>>(req) ?? {});
+    return json(snapshot());
+  }
+  if (req.method === 'POST' && path === '/__mock/orders') {
+    const { count = 1 } = await readJson<{ count?: number }>(req) ?? {};
+    const orders = placeOrders(count);
+    const deliveries = orders.flatMap((order) =>
+      notify('PO_CREATED', { purchaseOrderId: order.purchaseOrderId, customerOrderId: order.customerOrderId })
+    );
+    return json({ orders, deliveries }, 201);
+  }
+  if (autoCancelMatch && req.method === 'POST') {
+    const purchaseOrderId = decodeURIComponent(autoCancelMatch[1]);
+    const result = autoCancelOrder(purchaseOrderId);
+    if (result instanceof Response) return result;
+    const deliveries = notify('PO_LINE_AUTOCANCELLED', { purchaseOrderId, lineNumbers: result.lineNumbers });
+    return json({ order: result.order, deliveries });
+  }
+  if (req.method === 'POST' && path === '/__mock/webhooks/deliver') {
+    const { eventType, payload = {} } = await readJson<{ eventType?: string; payload?: Record<string, unknown> }>(req) ?? {};
+    if (!EVENT_TYPES.some((type) => type.eventType === eventType)) {
+      return json({ error: `eventType must be one of ${EVENT_TYPES.map((type) => type.eventType).join(', ')}` }, 400);
+    }
+    return json({ deliveries: notify(eventType!, payload) }, 201);
+  }
+  if (req.method === 'GET' && path === '/__mock/webhooks/deliveries') {
+    return listDeliveries();
+  }
+  if (faultMatch && req.method === 'GET') {
+    return faultState();
+  }
+  if (faultMatch && req.method === 'POST') {
+    const rule = await readJson<Omit<FaultRule, 'id'>>(req);
+    if (!rule?.path) return json({ error: 'path is required' }, 400);
+    return json(addFault(rule), 201);
+  }
+  if (faultMatch && req.method === 'DELETE') {
+    clearFaults(faultMatch[1]);
+    return faultState();
+  }
+  if (req.method === 'PUT' && path === '/__mock/rate-limit') {
+    setRateLimitConfig(await readJson<Partial<RateLimitConfig>>(req) ?? {});
+    return faultState();
+  }
+  if (reportMatch && req.method === 'GET') {
+    settleFeeds();
+    return downloadReport(reportMatch[1]);
+  }
+
+  return json({ error: `No mock control for ${req.method} ${path}` }, 404);
+}
+
+Deno.serve(async (req) => {
+  if (!MOCK_ENABLED) {
+    return new Response('Not found', { status: 404 });
+  }
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: mockHeaders });
+  }
+
+  // Everything before /v3 or /__mock is where the mock is mounted (e.g. /walmart-mock)
+  const url = new URL(req.url);
+  const start = url.pathname.search(/\/(v3|__mock)(\/|$)/);
+  if (start === -1) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_GATEWAY_API', `No mock for ${url.pathname}`);
+  }
+
+  const path = url.pathname.slice(start);
+  // Behind the functions gateway the request URL is internal; links handed out must use the public one
+  const baseUrl = MOCK_PUBLIC_URL ?? `${url.origin}${url.pathname.slice(0, start)}`;
+
+  if (path === '/v3/token/authorize' && req.method === 'GET') {
+    return authorize(url);
+  }
+  if (path === '/v3/token') {
+    // Faults apply here too, so the broker and keeper failure paths can be exercised
+    return await injectFault(req.method, path) ?? await token(req);
+  }
+  if (path.startsWith('/__mock')) {
+    return await handleControl(req, path);
+  }
+
+  return await handleMarketplace(req, path, url.searchParams, baseUrl);
+});
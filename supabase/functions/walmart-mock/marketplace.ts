@@ -0,0 +1,580 @@
+// Items, orders, returns and inventory endpoints, following the shapes of Walmart's v3 Marketplace API.
+
+import { json, readJson, walmartError } from './http.ts';
+import {
+  MockInventory,
+  MockOrder,
+  MockOrderLine,
+  MockReturn,
+  MockReturnLine,
+  OrderLineStatus,
+  OrderLineStatusEntry,
+  OrderRefund,
+  ReturnLineStatus,
+  ReturnQuantity,
+  findInventory,
+  hasStatus,
+  money,
+  openQuantity,
+  quantity,
+  returnMoney,
+  returnQuantity,
+  state,
+  touchOrder,
+} from './store.ts';
+
+// Reasons Walmart accepts when a seller cancels order lines
+export const CANCELLATION_REASONS = [
+  'CUSTOMER_REQUESTED_SELLER_TO_CANCEL',
+  'SELLER_CANCEL_OUT_OF_STOCK',
+  'SELLER_CANCEL_PRICING_ERROR',
+  'SELLER_CANCEL_FRAUD_STOP_SHIPMENT',
+  'SELLER_CANCEL_ADDRESS_NOT_SERVICEABLE',
+];
+
+const ORDER_STATUSES: OrderLineStatus[] = ['Created', 'Acknowledged', 'Shipped', 'Delivered', 'Cancelled'];
+
+/**
+ * Read a limit parameter, clamped to what the endpoint allows
+ */
+function readLimit(params: URLSearchParams, fallback: number, max: number): number {
+  const limit = Number(params.get('limit') || fallback);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, max) : fallback;
+}
+
+/**
+ * Accepts ISO dates or epoch milliseconds, like Walmart
+ */
+function readDate(params: URLSearchParams, name: string): number | null {
+  const value = params.get(name);
+  if (!value) return null;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+function encodeCursor(offset: number): string {
+  return btoa(JSON.stringify({ offset }));
+}
+
+function decodeCursor(cursor: string | null): number {
+  if (!cursor || cursor === '*') return 0;
+  try {
+    const { offset } = JSON.parse(atob(cursor));
+    return Number.isInteger(offset) && offset >= 0 ? offset : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * The query string for the page after this one (orders and returns hand back the whole
+ * query rather than a bare cursor), or null on the last page
+ */
+function nextCursorQuery(params: URLSearchParams, limit: number, offset: number, total: number): string | null {
+  if (offset + limit >= total) return null;
+
+  const next = new URLSearchParams(params);
+  next.set('limit', String(limit));
+  next.set('hasMoreElements', 'true');
+  next.set('cursor', encodeCursor(offset + limit));
+  return `?${next.toString()}`;
+}
+
+// ---- Items ------------------------------------------------------------------
+
+export function listItems(params: URLSearchParams): Response {
+  const limit = readLimit(params, 20, 200);
+  const offset = params.has('nextCursor') ? decodeCursor(params.get('nextCursor')) : Number(params.get('offset') || 0);
+  const sku = params.get('sku');
+  const publishedStatus = params.get('publishedStatus');
+  const lifecycleStatus = params.get('lifecycleStatus');
+
+  const matches = state.items.filter((item) =>
+    (!sku || item.sku === sku) &&
+    (!publishedStatus || item.publishedStatus === publishedStatus) &&
+    (!lifecycleStatus || item.lifecycleStatus === lifecycleStatus)
+  );
+  const page = matches.slice(offset, offset + limit);
+  const hasMore = offset + limit < matches.length;
+
+  return json({
+    ItemResponse: page,
+    totalItems: matches.length,
+    nextCursor: hasMore ? encodeCursor(offset + limit) : null,
+  });
+}
+
+export function getItem(sku: string): Response {
+  const item = state.items.find((entry) => entry.sku === sku);
+  if (!item) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_ITEM_QUERY_API', `Item with SKU ${sku} not found`, 'sku');
+  }
+  return json({ ItemResponse: [item], totalItems: 1 });
+}
+
+export function retireItem(sku: string): Response {
+  const item = state.items.find((entry) => entry.sku === sku);
+  if (!item) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_ITEM_QUERY_API', `Item with SKU ${sku} not found`, 'sku');
+  }
+
+  item.lifecycleStatus = 'RETIRED';
+  item.publishedStatus = 'RETIRED';
+  return json({ sku, message: 'Thank you. Your item has been submitted for retirement from Walmart Catalog.' });
+}
+
+// ---- Orders -----------------------------------------------------------------
+
+function findOrder(purchaseOrderId: string): MockOrder | undefined {
+  return state.orders.find((order) => order.purchaseOrderId === purchaseOrderId);
+}
+
+function orderNotFound(purchaseOrderId: string): Response {
+  return walmartError(404, 'CONTENT_NOT_FOUND.GMP_ORDER_API', `Order ${purchaseOrderId} not found`, 'purchaseOrderId');
+}
+
+/**
+ * GET /v3/orders (and /v3/orders/released, which only returns Created orders).
+ * Pages are linked through meta.nextCursor, a query string to send back as-is.
+ */
+export function listOrders(params: URLSearchParams, releasedOnly: boolean): Response {
+  const limit = readLimit(params, 100, 200);
+  const offset = decodeCursor(params.get('cursor'));
+  const status = releasedOnly ? 'Created' : params.get('status');
+
+  if (status && !ORDER_STATUSES.includes(status as OrderLineStatus)) {
+    return walmartError(400, 'INVALID_REQUEST_PARAM.GMP_ORDER_API', `Invalid status: ${status}`, 'status');
+  }
+
+  const createdStart = readDate(params, 'createdStartDate');
+  const createdEnd = readDate(params, 'createdEndDate');
+  const modifiedStart = readDate(params, 'lastModifiedStartDate');
+  const modifiedEnd = readDate(params, 'lastModifiedEndDate');
+  const shipStart = readDate(params, 'fromExpectedShipDate');
+  const shipEnd = readDate(params, 'toExpectedShipDate');
+  const sku = params.get('sku');
+  const purchaseOrderId = params.get('purchaseOrderId');
+  const customerOrderId = params.get('customerOrderId');
+
+  const matches = state.orders
+    .filter((order) => {
+      const modifiedAt = state.orderModifiedAt.get(order.purchaseOrderId) ?? order.orderDate;
+      const lines = order.orderLines.orderLine;
+      return (
+        (!status || lines.some((line) => hasStatus(line, status as OrderLineStatus))) &&
+        (createdStart === null || order.orderDate >= createdStart) &&
+        (createdEnd === null || order.orderDate <= createdEnd) &&
+        (modifiedStart === null || modifiedAt >= modifiedStart) &&
+        (modifiedEnd === null || modifiedAt <= modifiedEnd) &&
+        (shipStart === null || order.shippingInfo.estimatedShipDate >= shipStart) &&
+        (shipEnd === null || order.shippingInfo.estimatedShipDate <= shipEnd) &&
+        (!sku || lines.some((line) => line.item.sku === sku)) &&
+        (!purchaseOrderId || order.purchaseOrderId === purchaseOrderId) &&
+        (!customerOrderId || order.customerOrderId === customerOrderId)
+      );
+    })
+    .sort((a, b) => b.orderDate - a.orderDate);
+
+  return json({
+    list: {
+      meta: { totalCount: matches.length, limit, nextCursor: nextCursorQuery(params, limit, offset, matches.length) },
+      elements: { order: matches.slice(offset, offset + limit) },
+    },
+  });
+}
+
+export function getOrder(purchaseOrderId: string): Response {
+  const order = findOrder(purchaseOrderId);
+  return order ? json({ order }) : orderNotFound(purchaseOrderId);
+}
+
+export function acknowledgeOrder(purchaseOrderId: string): Response {
+  const order = findOrder(purchaseOrderId);
+  if (!order) return orderNotFound(purchaseOrderId);
+
+  const lines = order.orderLines.orderLine;
+  if (!lines.some((line) => hasStatus(line, 'Created') || hasStatus(line, 'Acknowledged'))) {
+    return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', 'Order has no open lines to acknowledge');
+  }
+
+  // Acknowledging twice is harmless, like Walmart
+  lines.forEach((line) => {
+    line.orderLineStatuses.orderLineStatus.forEach((entry) => {
+      if (entry.status === 'Created') entry.status = 'Acknowledged';
+    });
+    line.statusDate = Date.now();
+  });
+  touchOrder(order);
+
+  return json({ order });
+}
+
+interface LineStatusUpdate {
+  lineNumber: string;
+  orderLineStatuses: { orderLineStatus: Partial<OrderLineStatusEntry>[] };
+}
+
+/**
+ * Move units of open lines into a closing status (Cancelled or Shipped), taking them
+ * from the line's Created/Acknowledged quantity. Validates every line before changing any.
+ */
+function closeLines(
+  order: MockOrder,
+  updates: LineStatusUpdate[] | undefined,
+  status: 'Cancelled' | 'Shipped',
+  validate: (entry: Partial<OrderLineStatusEntry>) => string | null
+): Response | null {
+  if (!updates?.length) {
+    return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', 'orderLines.orderLine is required', 'orderLines');
+  }
+
+  const changes: { line: MockOrderLine; amount: number; entry: Partial<OrderLineStatusEntry> }[] = [];
+  for (const update of updates) {
+    const line = order.orderLines.orderLine.find((candidate) => candidate.lineNumber === String(update.lineNumber));
+    if (!line) {
+      return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', `Line ${update.lineNumber} is not on this order`, 'lineNumber');
+    }
+
+    const entry = update.orderLineStatuses?.orderLineStatus?.[0] ?? {};
+    if (entry.status !== status) {
+      return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', `Line ${update.lineNumber} status must be ${status}`, 'status');
+    }
+
+    const problem = validate(entry);
+    if (problem) {
+      return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', `Line ${update.lineNumber}: ${problem}`);
+    }
+
+    const open = openQuantity(line) - changes.filter((change) => change.line === line).reduce((total, change) => total + change.amount, 0);
+    const amount = Number(entry.statusQuantity?.amount ?? open);
+    if (!Number.isInteger(amount) || amount <= 0 || amount > open) {
+      return walmartError(
+        400,
+        'INVALID_REQUEST_CONTENT.GMP_ORDER_API',
+        `Line ${update.lineNumber} has ${open} open units; cannot ${status === 'Cancelled' ? 'cancel' : 'ship'} ${entry.statusQuantity?.amount}`,
+        'statusQuantity'
+      );
+    }
+
+    changes.push({ line, amount, entry });
+  }
+
+  changes.forEach(({ line, amount, entry }) => {
+    let remaining = amount;
+    const statuses = line.orderLineStatuses.orderLineStatus;
+    statuses.forEach((existing) => {
+      if (remaining === 0 || (existing.status !== 'Created' && existing.status !== 'Acknowledged')) return;
+      const taken = Math.min(remaining, Number(existing.statusQuantity.amount));
+      existing.statusQuantity = quantity(Number(existing.statusQuantity.amount) - taken);
+      remaining -= taken;
+    });
+
+    line.orderLineStatuses.orderLineStatus = [
+      ...statuses.filter((existing) => Number(existing.statusQuantity.amount) > 0),
+      {
+        status,
+        statusQuantity: quantity(amount),
+        ...(entry.cancellationReason ? { cancellationReason: entry.cancellationReason } : {}),
+        ...(entry.trackingInfo ? { trackingInfo: entry.trackingInfo } : {}),
+      },
+    ];
+    line.statusDate = Date.now();
+
+    // Cancelled units go back on sale; shipped units leave the warehouse
+    const stock = findInventory(line.item.sku);
+    if (stock) {
+      stock.reservedQty = Math.max(0, stock.reservedQty - amount);
+      if (status === 'Shipped') stock.inputQty = Math.max(0, stock.inputQty - amount);
+    }
+  });
+  touchOrder(order);
+
+  return null;
+}
+
+export async function cancelOrderLines(purchaseOrderId: string, req: Request): Promise<Response> {
+  const order = findOrder(purchaseOrderId);
+  if (!order) return orderNotFound(purchaseOrderId);
+
+  const body = await readJson<{ orderCancellation?: { orderLines?: { orderLine?: LineStatusUpdate[] } } }>(req);
+  const error = closeLines(order, body?.orderCancellation?.orderLines?.orderLine, 'Cancelled', (entry) =>
+    entry.cancellationReason && CANCELLATION_REASONS.includes(entry.cancellationReason)
+      ? null
+      : `cancellationReason must be one of ${CANCELLATION_REASONS.join(', ')}`
+  );
+
+  return error ?? json({ order });
+}
+
+export async function shipOrderLines(purchaseOrderId: string, req: Request): Promise<Response> {
+  const order = findOrder(purchaseOrderId);
+  if (!order) return orderNotFound(purchaseOrderId);
+
+  const body = await readJson<{ orderShipment?: { orderLines?: { orderLine?: LineStatusUpdate[] } } }>(req);
+  const error = closeLines(order, body?.orderShipment?.orderLines?.orderLine, 'Shipped', (entry) =>
+    entry.trackingInfo?.trackingNumber && entry.trackingInfo.carrierName?.carrier
+      ? null
+      : 'trackingInfo with a carrier and tracking number is required'
+  );
+
+  return error ?? json({ order });
+}
+
+export async function refundOrderLines(purchaseOrderId: string, req: Request): Promise<Response> {
+  const order = findOrder(purchaseOrderId);
+  if (!order) return orderNotFound(purchaseOrderId);
+
+  const body = await readJson<{
+    orderRefund?: { orderLines?: { orderLine?: { lineNumber: string; refunds?: { refund?: Omit<OrderRefund, 'refundId'>[] } }[] } };
+  }>(req);
+  const updates = body?.orderRefund?.orderLines?.orderLine;
+  if (!updates?.length) {
+    return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', 'orderLines.orderLine is required', 'orderLines');
+  }
+
+  for (const update of updates) {
+    const line = order.orderLines.orderLine.find((candidate) => candidate.lineNumber === String(update.lineNumber));
+    if (!line) {
+      return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', `Line ${update.lineNumber} is not on this order`, 'lineNumber');
+    }
+    if (!hasStatus(line, 'Shipped') && !hasStatus(line, 'Delivered')) {
+      return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', `Line ${update.lineNumber} has not shipped and cannot be refunded`, 'lineNumber');
+    }
+    if (!update.refunds?.refund?.length) {
+      return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', `Line ${update.lineNumber} has no refund`, 'refunds');
+    }
+  }
+
+  updates.forEach((update) => {
+    const line = order.orderLines.orderLine.find((candidate) => candidate.lineNumber === String(update.lineNumber))!;
+    const refunds = update.refunds!.refund!.map((refund) => ({ ...refund, refundId: crypto.randomUUID() }));
+    line.refunds = { refund: [...(line.refunds?.refund ?? []), ...refunds] };
+  });
+  touchOrder(order);
+
+  return json({ order });
+}
+
+/**
+ * Cancel every open unit of an order the way Walmart does when the seller misses the
+ * ship-by date. Returns the cancelled line numbers, or an error response.
+ */
+export function autoCancelOrder(purchaseOrderId: string): { order: MockOrder; lineNumbers: string[] } | Response {
+  const order = findOrder(purchaseOrderId);
+  if (!order) return orderNotFound(purchaseOrderId);
+
+  const lineNumbers = order.orderLines.orderLine.filter((line) => openQuantity(line) > 0).map((line) => line.lineNumber);
+  if (lineNumbers.length === 0) {
+    return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_ORDER_API', 'Order has no open lines to cancel');
+  }
+
+  const updates = lineNumbers.map((lineNumber) => ({
+    lineNumber,
+    orderLineStatuses: { orderLineStatus: [{ status: 'Cancelled' as const, cancellationReason: 'AUTO_CANCELLED' }] },
+  }));
+  return closeLines(order, updates, 'Cancelled', () => null) ?? { order, lineNumbers };
+}
+
+// ---- Returns ----------------------------------------------------------------
+
+const RETURN_STATUSES: ReturnLineStatus[] = ['INITIATED', 'DELIVERED', 'COMPLETED'];
+
+function findReturn(returnOrderId: string): MockReturn | undefined {
+  return state.returns.find((returnOrder) => returnOrder.returnOrderId === returnOrderId);
+}
+
+/**
+ * GET /v3/returns, newest first. Like /v3/orders, meta.nextCursor is a query string to send back as-is.
+ */
+export function listReturns(params: URLSearchParams): Response {
+  const limit = readLimit(params, 10, 200);
+  const offset = decodeCursor(params.get('cursor'));
+  const status = params.get('status');
+
+  if (status && !RETURN_STATUSES.includes(status as ReturnLineStatus)) {
+    return walmartError(400, 'INVALID_REQUEST_PARAM.GMP_RETURNS_API', `Invalid status: ${status}`, 'status');
+  }
+
+  const createdStart = readDate(params, 'returnCreationStartDate');
+  const createdEnd = readDate(params, 'returnCreationEndDate');
+  const returnOrderId = params.get('returnOrderId');
+  const customerOrderId = params.get('customerOrderId');
+
+  const matches = state.returns
+    .filter((returnOrder) => {
+      const createdAt = Date.parse(returnOrder.returnOrderDate);
+      return (
+        (!status || returnOrder.returnOrderLines.some((line) => line.status === status)) &&
+        (createdStart === null || createdAt >= createdStart) &&
+        (createdEnd === null || createdAt <= createdEnd) &&
+        (!returnOrderId || returnOrder.returnOrderId === returnOrderId) &&
+        (!customerOrderId || returnOrder.customerOrderId === customerOrderId)
+      );
+    })
+    .sort((a, b) => Date.parse(b.returnOrderDate) - Date.parse(a.returnOrderDate));
+
+  return json({
+    meta: { totalCount: matches.length, limit, nextCursor: nextCursorQuery(params, limit, offset, matches.length) },
+    returnOrders: matches.slice(offset, offset + limit),
+  });
+}
+
+/**
+ * POST /v3/returns/{returnOrderId}/refund: refund some or all units of return lines.
+ * Each refund is also recorded on the line of the originating order, as Walmart does.
+ * Validates every line before refunding any.
+ */
+export async function refundReturn(returnOrderId: string, req: Request): Promise<Response> {
+  const returnOrder = findReturn(returnOrderId);
+  if (!returnOrder) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_RETURNS_API', `Return ${returnOrderId} not found`, 'returnOrderId');
+  }
+
+  const body = await readJson<{
+    customerOrderId?: string;
+    refundLines?: { returnOrderLineNumber: number; quantity?: Partial<ReturnQuantity> }[];
+  }>(req);
+  const refundLines = body?.refundLines;
+  if (!refundLines?.length) {
+    return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_RETURNS_API', 'refundLines is required', 'refundLines');
+  }
+  if (body?.customerOrderId && body.customerOrderId !== returnOrder.customerOrderId) {
+    return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_RETURNS_API', 'customerOrderId does not match the return', 'customerOrderId');
+  }
+
+  const changes: { line: MockReturnLine; amount: number }[] = [];
+  for (const refundLine of refundLines) {
+    const line = returnOrder.returnOrderLines.find(
+      (candidate) => candidate.returnOrderLineNumber === Number(refundLine.returnOrderLineNumber)
+    );
+    if (!line) {
+      return walmartError(
+        400,
+        'INVALID_REQUEST_CONTENT.GMP_RETURNS_API',
+        `Line ${refundLine.returnOrderLineNumber} is not on this return`,
+        'returnOrderLineNumber'
+      );
+    }
+
+    const refundable = line.quantity.measurementValue - line.refundedQty.measurementValue -
+      changes.filter((change) => change.line === line).reduce((total, change) => total + change.amount, 0);
+    const amount = Number(refundLine.quantity?.measurementValue ?? refundable);
+    if (!Number.isInteger(amount) || amount <= 0 || amount > refundable) {
+      return walmartError(
+        400,
+        'INVALID_REQUEST_CONTENT.GMP_RETURNS_API',
+        `Line ${line.returnOrderLineNumber} has ${refundable} units left to refund; cannot refund ${refundLine.quantity?.measurementValue}`,
+        'quantity'
+      );
+    }
+
+    changes.push({ line, amount });
+  }
+
+  const now = Date.now();
+  changes.forEach(({ line, amount }) => {
+    const refunded = line.refundedQty.measurementValue + amount;
+    const refundAmount = Math.round(line.unitPrice.currencyAmount * amount * 100) / 100;
+    line.refundedQty = returnQuantity(refunded);
+    line.currentRefundStatus = refunded === line.quantity.measurementValue ? 'REFUND_COMPLETED' : 'REFUND_PARTIAL';
+    if (line.currentRefundStatus === 'REFUND_COMPLETED') line.status = 'COMPLETED';
+    line.returnTrackingDetail.push({
+      sequenceNo: line.returnTrackingDetail.length + 1,
+      eventTag: 'REFUND_ISSUED',
+      eventDescription: `Refunded ${amount} of ${line.quantity.measurementValue} units`,
+      eventTime: new Date(now).toISOString(),
+    });
+    returnOrder.totalRefundAmount = returnMoney(returnOrder.totalRefundAmount.currencyAmount + refundAmount);
+
+    const order = findOrder(line.purchaseOrderId);
+    const orderLine = order?.orderLines.orderLine.find((candidate) => candidate.lineNumber === String(line.purchaseOrderLineNumber));
+    if (order && orderLine) {
+      const refund: OrderRefund = {
+        refundId: crypto.randomUUID(),
+        refundComments: `Return ${returnOrder.returnOrderId}`,
+        refundCharges: {
+          refundCharge: [{
+            refundReason: line.returnReason,
+            charge: { chargeType: 'PRODUCT', chargeName: 'ItemPrice', chargeAmount: money(-refundAmount) },
+          }],
+        },
+      };
+      orderLine.refunds = { refund: [...(orderLine.refunds?.refund ?? []), refund] };
+      touchOrder(order);
+    }
+  });
+
+  return json({
+    returnOrderId: returnOrder.returnOrderId,
+    customerOrderId: returnOrder.customerOrderId,
+    refundLines: changes.map(({ line, amount }) => ({
+      returnOrderLineNumber: line.returnOrderLineNumber,
+      quantity: returnQuantity(amount),
+      refundStatus: line.currentRefundStatus,
+    })),
+  });
+}
+
+// ---- Inventory --------------------------------------------------------------
+
+export function getInventory(params: URLSearchParams): Response {
+  const sku = params.get('sku');
+  const stock = sku ? findInventory(sku) : undefined;
+  if (!stock) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_INVENTORY_API', `Inventory for SKU ${sku} not found`, 'sku');
+  }
+
+  return json({ sku: stock.sku, quantity: { unit: 'EACH', amount: stock.inputQty } });
+}
+
+export async function updateInventory(params: URLSearchParams, req: Request): Promise<Response> {
+  const sku = params.get('sku');
+  const body = await readJson<{ sku?: string; quantity?: { unit?: string; amount?: number } }>(req);
+  const amount = body?.quantity?.amount;
+
+  if (!sku || (body?.sku && body.sku !== sku)) {
+    return walmartError(400, 'INVALID_REQUEST_PARAM.GMP_INVENTORY_API', 'The sku query parameter must match the body', 'sku');
+  }
+  if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 0) {
+    return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_INVENTORY_API', 'quantity.amount must be a non-negative whole number', 'quantity.amount');
+  }
+
+  const stock = findInventory(sku);
+  if (!stock) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_INVENTORY_API', `Inventory for SKU ${sku} not found`, 'sku');
+  }
+
+  stock.inputQty = amount;
+  return json({ sku, quantity: { unit: 'EACH', amount } });
+}
+
+function inventoryNodes(stock: MockInventory) {
+  return [{
+    shipNode: stock.shipNode,
+    inputQty: { unit: 'EACH', amount: stock.inputQty },
+    availToSellQty: { unit: 'EACH', amount: Math.max(0, stock.inputQty - stock.reservedQty) },
+    reservedQty: { unit: 'EACH', amount: stock.reservedQty },
+  }];
+}
+
+/**
+ * GET /v3/inventories: every SKU's stock per ship node
+ */
+export function listInventories(params: URLSearchParams): Response {
+  const limit = readLimit(params, 50, 50);
+  const offset = decodeCursor(params.get('nextCursor'));
+  const sku = params.get('sku');
+
+  const matches = state.inventory.filter((stock) => !sku || stock.sku === sku);
+  const page = matches.slice(offset, offset + limit);
+
+  return json({
+    meta: {
+      totalCount: matches.length,
+      nextCursor: offset + limit < matches.length ? encodeCursor(offset + limit) : null,
+    },
+    elements: {
+      inventories: page.map((stock) => ({ sku: stock.sku, nodes: inventoryNodes(stock) })),
+    },
+  });
+}
@@ -0,0 +1,600 @@
+// In-memory marketplace state for the mock, generated from a seed so every run (and
+// every test) starts from the same catalog, stock, orders and returns. State lives as long as
+// the worker; POST /__mock/reset regenerates it and PUT /__mock/fixtures replaces it.
+
+export interface Money {
+  currency: string;
+  amount: number;
+}
+
+export interface Quantity {
+  unitOfMeasurement: 'EACH';
+  amount: string;
+}
+
+export interface MockItem {
+  mart: 'WALMART_US';
+  sku: string;
+  wpid: string;
+  upc: string;
+  gtin: string;
+  productName: string;
+  shelf: string;
+  productType: string;
+  price: Money;
+  publishedStatus: 'PUBLISHED' | 'UNPUBLISHED' | 'RETIRED';
+  lifecycleStatus: 'ACTIVE' | 'RETIRED';
+}
+
+export interface MockInventory {
+  sku: string;
+  shipNode: string;
+  // Units on hand, as last set by the seller (PUT /v3/inventory or an inventory feed)
+  inputQty: number;
+  // Units held by open order lines; available to sell is inputQty - reservedQty
+  reservedQty: number;
+}
+
+export type OrderLineStatus = 'Created' | 'Acknowledged' | 'Shipped' | 'Delivered' | 'Cancelled';
+
+export interface OrderLineStatusEntry {
+  status: OrderLineStatus;
+  statusQuantity: Quantity;
+  cancellationReason?: string;
+  trackingInfo?: {
+    shipDateTime: number;
+    carrierName: { carrier: string };
+    methodCode: string;
+    trackingNumber: string;
+    trackingURL?: string;
+  };
+}
+
+export interface OrderRefund {
+  refundId: string;
+  refundComments?: string;
+  refundCharges: {
+    refundCharge: {
+      refundReason: string;
+      charge: {
+        chargeType: string;
+        chargeName: string;
+        chargeAmount: Money;
+      };
+    }[];
+  };
+}
+
+export interface MockOrderLine {
+  lineNumber: string;
+  item: { productName: string; sku: string };
+  charges: {
+    charge: {
+      chargeType: 'PRODUCT' | 'SHIPPING';
+      chargeName: string;
+      chargeAmount: Money;
+      tax: { taxName: string; taxAmount: Money } | null;
+    }[];
+  };
+  orderLineQuantity: Quantity;
+  statusDate: number;
+  orderLineStatuses: { orderLineStatus: OrderLineStatusEntry[] };
+  refunds?: { refund: OrderRefund[] };
+}
+
+export interface MockOrder {
+  purchaseOrderId: string;
+  customerOrderId: string;
+  customerEmailId: string;
+  orderDate: number;
+  shippingInfo: {
+    phone: string;
+    estimatedDeliveryDate: number;
+    estimatedShipDate: number;
+    methodCode: 'Value' | 'Standard' | 'Express' | 'OneDay';
+    postalAddress: {
+      name: string;
+      address1: string;
+      address2: string | null;
+      city: string;
+      state: string;
+      postalCode: string;
+      country: string;
+      addressType: 'RESIDENTIAL' | 'COMMERCIAL';
+    };
+  };
+  orderLines: { orderLine: MockOrderLine[] };
+  shipNode: { type: 'SellerFulfilled' };
+}
+
+export type ReturnLineStatus = 'INITIATED' | 'DELIVERED' | 'COMPLETED';
+
+export interface ReturnMoney {
+  currencyAmount: number;
+  currencyUnit: string;
+}
+
+export interface ReturnQuantity {
+  unitOfMeasure: 'EACH';
+  measurementValue: number;
+}
+
+export interface MockReturnLine {
+  returnOrderLineNumber: number;
+  // The order line the units were bought on
+  purchaseOrderId: string;
+  purchaseOrderLineNumber: number;
+  returnReason: string;
+  returnDescription: string;
+  item: { sku: string; productName: string };
+  unitPrice: ReturnMoney;
+  quantity: ReturnQuantity;
+  refundedQty: ReturnQuantity;
+  status: ReturnLineStatus;
+  currentDeliveryStatus: 'INITIATED' | 'IN_TRANSIT' | 'DELIVERED';
+  currentRefundStatus: 'REFUND_PENDING' | 'REFUND_PARTIAL' | 'REFUND_COMPLETED';
+  carrierInfoList: { carrierName: string; trackingNo: string }[];
+  returnTrackingDetail: { sequenceNo: number; eventTag: string; eventDescription: string; eventTime: string }[];
+}
+
+export interface MockReturn {
+  returnOrderId: string;
+  customerOrderId: string;
+  customerEmailId: string;
+  customerName: { firstName: string; lastName: string };
+  returnOrderDate: string;
+  returnByDate: string;
+  refundMode: 'ONLINE';
+  // Refunded so far
+  totalRefundAmount: ReturnMoney;
+  returnOrderLines: MockReturnLine[];
+}
+
+export type FeedStatus = 'RECEIVED' | 'INPROGRESS' | 'PROCESSED' | 'ERROR';
+
+export interface FeedIngestionResult {
+  martId: number;
+  sku: string;
+  index: number;
+  // Inventory feeds: the ship node of a single-node record
+  shipNode?: string;
+  ingestionStatus: 'SUCCESS' | 'DATA_ERROR';
+  ingestionErrors: {
+    ingestionError: { type: 'DATA_ERROR'; code: string; field: string; description: string }[] | null;
+  };
+}
+
+export interface MockFeed {
+  feedId: string;
+  feedType: string;
+  feedDate: number;
+  // When the feed finishes processing; results are applied to the store at that point
+  completesAt: number;
+  applied: boolean;
+  results: FeedIngestionResult[];
+  apply: () => void;
+}
+
+export type ReportStatus = 'RECEIVED' | 'INPROGRESS' | 'READY' | 'ERROR';
+
+export interface MockReport {
+  requestId: string;
+  reportType: string;
+  reportVersion: string;
+  requestSubmissionDate: number;
+  readyAt: number;
+}
+
+export interface MockSubscription {
+  subscriptionId: string;
+  eventType: string;
+  eventVersion: string;
+  resourceName: string;
+  eventUrl: string;
+  authDetails?: { authMethod: 'HMAC'; authSecret: string; authHeaderName: string };
+  status: 'ACTIVE' | 'INACTIVE';
+}
+
+export interface MockDelivery {
+  deliveryId: string;
+  subscriptionId: string;
+  eventType: string;
+  eventId: string;
+  eventUrl: string;
+  sentAt: string;
+  // Receiver's HTTP status; null until it answers, or when it could not be reached
+  responseStatus: number | null;
+  error?: string;
+}
+
+export interface MockFixtures {
+  items: MockItem[];
+  inventory: MockInventory[];
+  orders: MockOrder[];
+  returns: MockReturn[];
+}
+
+export interface MockState extends MockFixtures {
+  random: Random;
+  // When each order last changed, for lastModifiedStartDate filtering
+  orderModifiedAt: Map<string, number>;
+  feeds: Map<string, MockFeed>;
+  reports: Map<string, MockReport>;
+  subscriptions: Map<string, MockSubscription>;
+  // Notification deliveries, newest first
+  deliveries: MockDelivery[];
+}
+
+export interface SeedOptions {
+  seed?: number;
+  orderCount?: number;
+}
+
+const DEFAULT_SEED = Number(Deno.env.get('MOCK_SEED') || 42);
+const DEFAULT_ORDER_COUNT = Number(Deno.env.get('MOCK_ORDER_COUNT') || 60);
+
+export const SHIP_NODE = 'mock-ship-node-1';
+
+const CATALOG: { productName: string; productType: string; shelf: string; price: number }[] = [
+  { productName: 'Wireless Headphones', productType: 'Headphones', shelf: 'Electronics', price: 79.99 },
+  { productName: 'Phone Case', productType: 'Cell Phone Cases', shelf: 'Cell Phones', price: 19.99 },
+  { productName: 'Bluetooth Speaker', productType: 'Portable Speakers', shelf: 'Electronics', price: 49.99 },
+  { productName: 'Smart Watch', productType: 'Smart Watches', shelf: 'Wearables', price: 199.99 },
+  { productName: 'USB Cable', productType: 'Cables', shelf: 'Electronics', price: 9.99 },
+  { productName: 'Laptop Stand', productType: 'Laptop Stands', shelf: 'Office', price: 39.99 },
+  { productName: 'Wireless Mouse', productType: 'Computer Mice', shelf: 'Computers', price: 24.99 },
+  { productName: 'Keyboard', productType: 'Computer Keyboards', shelf: 'Computers', price: 59.99 },
+  { productName: 'Webcam', productType: 'Webcams', shelf: 'Computers', price: 69.99 },
+  { productName: 'Desk Lamp', productType: 'Desk Lamps', shelf: 'Office', price: 29.99 },
+  { productName: 'Power Bank', productType: 'Portable Chargers', shelf: 'Cell Phones', price: 34.99 },
+  { productName: 'HDMI Adapter', productType: 'Video Adapters', shelf: 'Electronics', price: 14.99 },
+];
+
+const CUSTOMERS = [
+  { name: 'John Smith', city: 'New York', state: 'NY', postalCode: '10001' },
+  { name: 'Sarah Johnson', city: 'Los Angeles', state: 'CA', postalCode: '90001' },
+  { name: 'Mike Davis', city: 'Chicago', state: 'IL', postalCode: '60601' },
+  { name: 'Emily Wilson', city: 'Houston', state: 'TX', postalCode: '77001' },
+  { name: 'David Brown', city: 'Phoenix', state: 'AZ', postalCode: '85001' },
+  { name: 'Maria Garcia', city: 'Seattle', state: 'WA', postalCode: '98101' },
+  { name: 'James Lee', city: 'Denver', state: 'CO', postalCode: '80201' },
+  { name: 'Linda Martinez', city: 'Miami', state: 'FL', postalCode: '33101' },
+];
+
+const CARRIERS = ['UPS', 'FedEx', 'USPS'];
+
+const RETURN_REASONS: { code: string; description: string }[] = [
+  { code: 'ARRIVED_DAMAGED', description: 'Item arrived damaged' },
+  { code: 'DEFECTIVE', description: 'Item does not work' },
+  { code: 'WRONG_ITEM', description: 'Received the wrong item' },
+  { code: 'NOT_AS_DESCRIBED', description: 'Item is not as described' },
+  { code: 'NO_LONGER_NEEDED', description: 'Changed my mind' },
+  { code: 'MISSING_PARTS', description: 'Parts or accessories are missing' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Random {
+  next: () => number;
+  pick: <T>(values: readonly T[]) => T;
+  between: (min: number, max: number) => number;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) so a seed always produces the same fixtures
+ */
+function createRandom(seed: number): Random {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    pick: (values) => values[Math.floor(next() * values.length)],
+    between: (min, max) => min + Math.floor(next() * (max - min + 1)),
+  };
+}
+
+export function quantity(amount: number): Quantity {
+  return { unitOfMeasurement: 'EACH', amount: String(amount) };
+}
+
+export function money(amount: number): Money {
+  return { currency: 'USD', amount: Math.round(amount * 100) / 100 };
+}
+
+export function returnQuantity(amount: number): ReturnQuantity {
+  return { unitOfMeasure: 'EACH', measurementValue: amount };
+}
+
+export function returnMoney(amount: number): ReturnMoney {
+  return { currencyUnit: 'USD', currencyAmount: Math.round(amount * 100) / 100 };
+}
+
+/**
+ * Build an order for one to three catalog items, every line in the same status
+ */
+function createOrder(random: Random, items: MockItem[], orderDate: number, status: OrderLineStatus): MockOrder {
+  const { pick, between } = random;
+  const customer = pick(CUSTOMERS);
+  const methodCode = pick(['Value', 'Standard', 'Standard', 'Express', 'OneDay'] as const);
+  const shipDays = methodCode === 'OneDay' ? 0 : methodCode === 'Express' ? 1 : 2;
+  const lineCount = Math.min(between(1, 3), items.length);
+  const products = new Set<number>();
+  while (products.size < lineCount) products.add(between(0, items.length - 1));
+
+  const orderLine: MockOrderLine[] = [...products].map((productIndex, index) => {
+    const item = items[productIndex];
+    const amount = between(1, 3);
+    const entry: OrderLineStatusEntry = { status, statusQuantity: quantity(amount) };
+
+    if (status === 'Shipped' || status === 'Delivered') {
+      entry.trackingInfo = {
+        shipDateTime: orderDate + shipDays * DAY_MS,
+        carrierName: { carrier: pick(CARRIERS) },
+        methodCode,
+        trackingNumber: `1Z${between(100000000, 999999999)}${between(1000, 9999)}`,
+      };
+    }
+    if (status === 'Cancelled') {
+      entry.cancellationReason = 'CUSTOMER_REQUESTED_SELLER_TO_CANCEL';
+    }
+
+    return {
+      lineNumber: String(index + 1),
+      item: { productName: item.productName, sku: item.sku },
+      charges: {
+        charge: [{
+          chargeType: 'PRODUCT',
+          chargeName: 'ItemPrice',
+          chargeAmount: money(item.price.amount * amount),
+          tax: { taxName: 'Tax1', taxAmount: money(item.price.amount * amount * 0.08) },
+        }],
+      },
+      orderLineQuantity: quantity(amount),
+      statusDate: orderDate,
+      orderLineStatuses: { orderLineStatus: [entry] },
+    };
+  });
+
+  const purchaseOrderId = String(between(100000000, 999999999)) + String(between(1000, 9999));
+  return {
+    purchaseOrderId,
+    customerOrderId: String(between(1000000, 9999999)) + purchaseOrderId.slice(-6),
+    customerEmailId: `${customer.name.toLowerCase().replace(' ', '.')}@relay.walmart.com`,
+    orderDate,
+    shippingInfo: {
+      phone: `555${between(1000000, 9999999)}`,
+      estimatedShipDate: orderDate + shipDays * DAY_MS,
+      estimatedDeliveryDate: orderDate + (shipDays + between(2, 5)) * DAY_MS,
+      methodCode,
+      postalAddress: {
+        name: customer.name,
+        address1: `${between(100, 9999)} ${pick(['Main', 'Oak', 'Pine', 'Maple', 'Cedar'])} St`,
+        address2: random.next() < 0.3 ? `Apt ${between(1, 40)}` : null,
+        city: customer.city,
+        state: customer.state,
+        postalCode: customer.postalCode,
+        country: 'USA',
+        addressType: 'RESIDENTIAL',
+      },
+    },
+    orderLines: { orderLine },
+    shipNode: { type: 'SellerFulfilled' },
+  };
+}
+
+/**
+ * A customer returning some units of one line of a delivered order. The return shipment
+ * is somewhere between just started and back with the seller; nothing is refunded yet.
+ */
+function createReturn(random: Random, order: MockOrder, now: number): MockReturn {
+  const { pick, between } = random;
+  const line = pick(order.orderLines.orderLine);
+  const ordered = Number(line.orderLineQuantity.amount);
+  const productTotal = line.charges.charge
+    .filter((charge) => charge.chargeType === 'PRODUCT')
+    .reduce((total, charge) => total + charge.chargeAmount.amount, 0);
+  const reason = pick(RETURN_REASONS);
+  const returnOrderDate = Math.min(now, order.shippingInfo.estimatedDeliveryDate + between(1, 5) * DAY_MS);
+  const delivery = pick(['INITIATED', 'IN_TRANSIT', 'DELIVERED', 'DELIVERED'] as const);
+  const trackingNo = `9R${between(100000000, 999999999)}${between(1000, 9999)}`;
+
+  const events = [{ eventTag: 'RETURN_INITIATED', eventDescription: 'Customer started the return', eventTime: returnOrderDate }];
+  if (delivery !== 'INITIATED') {
+    events.push({ eventTag: 'IN_TRANSIT', eventDescription: 'Carrier picked up the return', eventTime: returnOrderDate + DAY_MS });
+  }
+  if (delivery === 'DELIVERED') {
+    events.push({ eventTag: 'DELIVERED', eventDescription: 'Return delivered to the seller', eventTime: returnOrderDate + 3 * DAY_MS });
+  }
+
+  const [firstName, ...lastName] = order.shippingInfo.postalAddress.name.split(' ');
+  return {
+    returnOrderId: String(between(10000000, 99999999)) + order.purchaseOrderId.slice(-4),
+    customerOrderId: order.customerOrderId,
+    customerEmailId: order.customerEmailId,
+    customerName: { firstName, lastName: lastName.join(' ') },
+    returnOrderDate: new Date(returnOrderDate).toISOString(),
+    returnByDate: new Date(returnOrderDate + 30 * DAY_MS).toISOString(),
+    refundMode: 'ONLINE',
+    totalRefundAmount: returnMoney(0),
+    returnOrderLines: [{
+      returnOrderLineNumber: 1,
+      purchaseOrderId: order.purchaseOrderId,
+      purchaseOrderLineNumber: Number(line.lineNumber),
+      returnReason: reason.code,
+      returnDescription: reason.description,
+      item: { sku: line.item.sku, productName: line.item.productName },
+      unitPrice: returnMoney(productTotal / ordered),
+      quantity: returnQuantity(between(1, ordered)),
+      refundedQty: returnQuantity(0),
+      status: delivery === 'DELIVERED' ? 'DELIVERED' : 'INITIATED',
+      currentDeliveryStatus: delivery,
+      currentRefundStatus: 'REFUND_PENDING',
+      carrierInfoList: [{ carrierName: pick(CARRIERS), trackingNo }],
+      returnTrackingDetail: events.map((event, index) => ({
+        ...event,
+        sequenceNo: index + 1,
+        eventTime: new Date(Math.min(now, event.eventTime)).toISOString(),
+      })),
+    }],
+  };
+}
+
+/**
+ * Hold stock for an order's open lines, as Walmart does until they ship or are cancelled
+ */
+function reserveStock(inventory: MockInventory[], order: MockOrder): void {
+  order.orderLines.orderLine.forEach((line) => {
+    const stock = inventory.find((entry) => entry.sku === line.item.sku);
+    if (stock) stock.reservedQty += openQuantity(line);
+  });
+}
+
+/**
+ * Generate a catalog, stock levels, order history and returns from a seed
+ */
+function generate(random: Random, orderCount: number): MockFixtures {
+  const { pick, between } = random;
+  const now = Date.now();
+
+  const items: MockItem[] = CATALOG.map((product, index) => {
+    const number = String(index + 1).padStart(3, '0');
+    const upc = `0${String(between(10000000000, 99999999999))}`;
+    return {
+      mart: 'WALMART_US',
+      sku: `SKU-${number}`,
+      wpid: `MOCK${number}WPID${between(1000, 9999)}`,
+      upc,
+      gtin: `00${upc}`,
+      productName: product.productName,
+      shelf: `["${product.shelf}"]`,
+      productType: product.productType,
+      price: money(product.price),
+      // A couple of listings are unpublished so status filters have something to find
+      publishedStatus: index % 6 === 5 ? 'UNPUBLISHED' : 'PUBLISHED',
+      lifecycleStatus: 'ACTIVE',
+    };
+  });
+
+  // Some SKUs start low or out of stock
+  const inventory: MockInventory[] = items.map((item) => ({
+    sku: item.sku,
+    shipNode: SHIP_NODE,
+    inputQty: pick([0, 3, 8, 25, 40, 75, 120, 150]),
+    reservedQty: 0,
+  }));
+
+  const orders: MockOrder[] = [];
+  for (let i = 0; i < orderCount; i++) {
+    // Newest orders are most likely still open
+    const ageDays = (i / Math.max(orderCount, 1)) * 30 + random.next();
+    const status: OrderLineStatus = ageDays < 2
+      ? pick<OrderLineStatus>(['Created', 'Created', 'Acknowledged'])
+      : ageDays < 6
+        ? pick<OrderLineStatus>(['Acknowledged', 'Shipped', 'Shipped', 'Cancelled'])
+        : pick<OrderLineStatus>(['Shipped', 'Delivered', 'Delivered', 'Delivered', 'Cancelled']);
+
+    const order = createOrder(random, items, now - Math.round(ageDays * DAY_MS), status);
+    reserveStock(inventory, order);
+    orders.push(order);
+  }
+
+  // Returns are drawn after every order, so a seed still produces the orders it did before returns existed
+  const returns = orders
+    .filter((order) => order.orderLines.orderLine.every((line) => hasStatus(line, 'Delivered')))
+    .filter(() => random.next() < 0.25)
+    .map((order) => createReturn(random, order, now));
+
+  return { items, inventory, orders, returns };
+}
+
+const OPEN_STATUSES: OrderLineStatus[] = ['Created', 'Acknowledged'];
+
+/**
+ * Units of a line not yet shipped or cancelled
+ */
+export function openQuantity(line: MockOrderLine): number {
+  return line.orderLineStatuses.orderLineStatus
+    .filter((entry) => OPEN_STATUSES.includes(entry.status))
+    .reduce((total, entry) => total + Number(entry.statusQuantity.amount), 0);
+}
+
+/**
+ * Whether any units of the line are in the given status (a partially cancelled line
+ * is both Created and Cancelled)
+ */
+export function hasStatus(line: MockOrderLine, status: OrderLineStatus): boolean {
+  return line.orderLineStatuses.orderLineStatus.some((entry) => entry.status === status);
+}
+
+function createState(fixtures: MockFixtures, random: Random): MockState {
+  return {
+    ...structuredClone(fixtures),
+    random,
+    orderModifiedAt: new Map(fixtures.orders.map((order) => [order.purchaseOrderId, order.orderDate])),
+    feeds: new Map(),
+    reports: new Map(),
+    subscriptions: new Map(),
+    deliveries: [],
+  };
+}
+
+function seededState(options: SeedOptions): MockState {
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  return createState(generate(random, options.orderCount ?? DEFAULT_ORDER_COUNT), random);
+}
+
+export let state: MockState = seededState({});
+
+/**
+ * Regenerate state from a seed, discarding feeds, reports, subscriptions and every change made since
+ */
+export function resetState(options: SeedOptions = {}): void {
+  state = seededState(options);
+}
+
+/**
+ * Replace state with exact fixtures, for tests that need known data
+ */
+export function loadFixtures(fixtures: Partial<MockFixtures>, seed: number = DEFAULT_SEED): void {
+  state = createState({
+    items: fixtures.items ?? [],
+    inventory: fixtures.inventory ?? [],
+    orders: fixtures.orders ?? [],
+    returns: fixtures.returns ?? [],
+  }, createRandom(seed));
+}
+
+export function snapshot(): MockFixtures {
+  return structuredClone({ items: state.items, inventory: state.inventory, orders: state.orders, returns: state.returns });
+}
+
+/**
+ * Place new orders as if customers just bought from the catalog
+ */
+export function placeOrders(count: number): MockOrder[] {
+  const items = state.items.filter((item) => item.lifecycleStatus === 'ACTIVE');
+  if (items.length === 0) return [];
+
+  const orders = Array.from({ length: count }, () => createOrder(state.random, items, Date.now(), 'Created'));
+  orders.forEach((order) => {
+    reserveStock(state.inventory, order);
+    state.orders.unshift(order);
+    touchOrder(order);
+  });
+  return orders;
+}
+
+export function touchOrder(order: MockOrder): void {
+  state.orderModifiedAt.set(order.purchaseOrderId, Date.now());
+}
+
+export function findInventory(sku: string): MockInventory | undefined {
+  return state.inventory.find((entry) => entry.sku === sku);
+}
@@ -0,0 +1,185 @@
+// Walmart Notifications API. Sellers subscribe an HTTPS endpoint to event types, and
+// Walmart POSTs each event to it with an HMAC-SHA256 signature of the body in the header
+// the subscription names. The mock really delivers (without waiting for the receiver)
+// and logs every attempt, so a local receiver can be exercised end to end.
+
+import { json, readJson, walmartError } from './http.ts';
+import { MockDelivery, MockSubscription, state } from './store.ts';
+
+export const EVENT_TYPES = [
+  { eventType: 'PO_CREATED', eventVersion: 'V1', resourceName: 'ORDER', description: 'A customer placed an order' },
+  {
+    eventType: 'PO_LINE_AUTOCANCELLED',
+    eventVersion: 'V1',
+    resourceName: 'ORDER',
+    description: 'Walmart cancelled order lines that were not shipped in time',
+  },
+  { eventType: 'OFFER_UNPUBLISHED', eventVersion: 'V1', resourceName: 'ITEM', description: 'An item was unpublished' },
+  { eventType: 'INVENTORY_OOS', eventVersion: 'V1', resourceName: 'INVENTORY', description: 'An item ran out of stock' },
+];
+
+// Deliveries kept for GET /__mock/webhooks/deliveries
+const MAX_DELIVERIES = 200;
+
+const encoder = new TextEncoder();
+
+type SubscriptionInput = Partial<Omit<MockSubscription, 'subscriptionId'>>;
+
+function invalid(description: string, field: string): Response {
+  return walmartError(400, 'INVALID_REQUEST_CONTENT.GMP_WEBHOOK_API', description, field);
+}
+
+/**
+ * What Walmart returns for a subscription: never the secret
+ */
+function publicSubscription({ authDetails, ...subscription }: MockSubscription) {
+  return authDetails ? { ...subscription, authDetails: { authMethod: authDetails.authMethod, authHeaderName: authDetails.authHeaderName } } : subscription;
+}
+
+/**
+ * Problem with a subscription's event URL or signing details, if any
+ */
+function validateDelivery(input: SubscriptionInput): Response | null {
+  if (input.eventUrl !== undefined && !/^https?:\/\//.test(input.eventUrl)) {
+    return invalid('eventUrl must be an http(s) URL', 'eventUrl');
+  }
+  if (input.authDetails && (input.authDetails.authMethod !== 'HMAC' || !input.authDetails.authSecret || !input.authDetails.authHeaderName)) {
+    return invalid('authDetails needs authMethod HMAC, an authSecret and an authHeaderName', 'authDetails');
+  }
+  if (input.status !== undefined && input.status !== 'ACTIVE' && input.status !== 'INACTIVE') {
+    return invalid('status must be ACTIVE or INACTIVE', 'status');
+  }
+  return null;
+}
+
+export function listEventTypes(): Response {
+  return json({ events: EVENT_TYPES });
+}
+
+export function listSubscriptions(): Response {
+  return json({ events: [...state.subscriptions.values()].map(publicSubscription) });
+}
+
+export async function createSubscriptions(req: Request): Promise<Response> {
+  const body = await readJson<{ events?: SubscriptionInput[] }>(req);
+  if (!body?.events?.length) return invalid('events is required', 'events');
+
+  // Validate every subscription before creating any
+  for (const input of body.events) {
+    const eventType = EVENT_TYPES.find((candidate) => candidate.eventType === input.eventType);
+    if (!eventType || eventType.resourceName !== input.resourceName || eventType.eventVersion !== input.eventVersion) {
+      return invalid(`Unknown event type ${input.resourceName}/${input.eventType}/${input.eventVersion}`, 'eventType');
+    }
+    if (!input.eventUrl) return invalid('eventUrl is required', 'eventUrl');
+    const problem = validateDelivery(input);
+    if (problem) return problem;
+    const duplicate = [...state.subscriptions.values()]
+      .some((subscription) => subscription.eventType === input.eventType && subscription.eventUrl === input.eventUrl);
+    if (duplicate) {
+      return walmartError(409, 'DUPLICATE_REQUEST.GMP_WEBHOOK_API', `${input.eventType} is already delivered to ${input.eventUrl}`, 'eventUrl');
+    }
+  }
+
+  const created = body.events.map((input) => {
+    const subscription: MockSubscription = {
+      subscriptionId: crypto.randomUUID(),
+      eventType: input.eventType!,
+      eventVersion: input.eventVersion!,
+      resourceName: input.resourceName!,
+      eventUrl: input.eventUrl!,
+      authDetails: input.authDetails,
+      status: input.status ?? 'ACTIVE',
+    };
+    state.subscriptions.set(subscription.subscriptionId, subscription);
+    return publicSubscription(subscription);
+  });
+  return json({ events: created });
+}
+
+export async function updateSubscription(subscriptionId: string, req: Request): Promise<Response> {
+  const subscription = state.subscriptions.get(subscriptionId);
+  if (!subscription) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_WEBHOOK_API', `Subscription ${subscriptionId} not found`, 'subscriptionId');
+  }
+
+  const input = await readJson<SubscriptionInput>(req) ?? {};
+  const problem = validateDelivery(input);
+  if (problem) return problem;
+
+  if (input.eventUrl) subscription.eventUrl = input.eventUrl;
+  if (input.authDetails) subscription.authDetails = input.authDetails;
+  if (input.status) subscription.status = input.status;
+  return json(publicSubscription(subscription));
+}
+
+export function deleteSubscription(subscriptionId: string): Response {
+  if (!state.subscriptions.delete(subscriptionId)) {
+    return walmartError(404, 'CONTENT_NOT_FOUND.GMP_WEBHOOK_API', `Subscription ${subscriptionId} not found`, 'subscriptionId');
+  }
+  return json({ subscriptionId, message: 'Subscription deleted' });
+}
+
+async function sign(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+  return btoa(String.fromCharCode(...signature));
+}
+
+async function deliver(subscription: MockSubscription, delivery: MockDelivery, body: string): Promise<void> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (subscription.authDetails) {
+    headers[subscription.authDetails.authHeaderName] = await sign(subscription.authDetails.authSecret, body);
+  }
+
+  try {
+    const response = await fetch(subscription.eventUrl, { method: 'POST', headers, body });
+    delivery.responseStatus = response.status;
+    if (!response.ok) delivery.error = (await response.text()).slice(0, 500);
+    else await response.body?.cancel();
+  } catch (error) {
+    delivery.error = error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Raise an event: send it to every active subscription for its type. Returns the
+ * deliveries started; their outcomes appear in the log once the receivers answer.
+ */
+export function notify(eventType: string, payload: Record<string, unknown>): MockDelivery[] {
+  const type = EVENT_TYPES.find((candidate) => candidate.eventType === eventType);
+  const eventId = crypto.randomUUID();
+  const body = JSON.stringify({
+    source: {
+      eventType,
+      eventId,
+      eventTime: new Date().toISOString(),
+      domain: type?.resourceName,
+      version: type?.eventVersion,
+    },
+    payload,
+  });
+
+  const deliveries = [...state.subscriptions.values()]
+    .filter((subscription) => subscription.status === 'ACTIVE' && subscription.eventType === eventType)
+    .map((subscription) => {
+      const delivery: MockDelivery = {
+        deliveryId: crypto.randomUUID(),
+        subscriptionId: subscription.subscriptionId,
+        eventType,
+        eventId,
+        eventUrl: subscription.eventUrl,
+        sentAt: new Date().toISOString(),
+        responseStatus: null,
+      };
+      deliver(subscription, delivery, body);
+      return delivery;
+    });
+
+  state.deliveries.unshift(...deliveries);
+  state.deliveries.length = Math.min(state.deliveries.length, MAX_DELIVERIES);
+  return deliveries;
+}
+
+export function listDeliveries(): Response {
+  return json({ deliveries: state.deliveries });
+}
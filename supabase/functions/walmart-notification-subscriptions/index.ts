@@ -0,0 +1,205 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getCallerId } from '../_shared/auth.ts';
+import { BrokerError, errorResponse, requireConnectedAccount, requireStoredToken, scopeToSeller } from '../_shared/walmartTokens.ts';
+import { createOperationContext } from '../_shared/tokenEvents.ts';
+import { MarketplaceSession, marketplaceRequest } from '../_shared/walmartMarketplace.ts';
+import {
+  ORDER_RESOURCE,
+  RECEIVER_FUNCTION,
+  SIGNATURE_HEADER,
+  WalmartNotification,
+  decryptSecret,
+  endpointUrl,
+  findEndpoint,
+  getOrCreateEndpoint,
+  signBody,
+} from '../_shared/walmartNotifications.ts';
+
+// Manages a signed-in seller's Walmart order notification subscriptions, which carry the
+// account's signing secret and so are never made from the browser:
+//   { action: 'list', sellerId }                       order event types and subscriptions
+//   { action: 'subscribe', sellerId, eventType, eventVersion, resourceName }
+//   { action: 'unsubscribe', sellerId, subscriptionId }
+//   { action: 'replay', sellerId, notificationId }     send a stored event again, under a new event ID
+//   { action: 'replay', sellerId, event }              send a hand-written event, signed like Walmart's
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+interface WalmartEventType {
+  eventType: string;
+  eventVersion: string;
+  resourceName: string;
+  description?: string;
+}
+
+interface WalmartSubscription extends WalmartEventType {
+  subscriptionId: string;
+  eventUrl: string;
+  status: 'ACTIVE' | 'INACTIVE';
+}
+
+// Accounts connected before multi-account support have no seller ID
+type SubscriptionRequest =
+  | { action: 'list'; sellerId?: string | null }
+  | ({ action: 'subscribe'; sellerId?: string | null } & WalmartEventType)
+  | { action: 'unsubscribe'; sellerId?: string | null; subscriptionId: string }
+  | { action: 'replay'; sellerId?: string | null; notificationId?: string; event?: WalmartNotification };
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+async function connectedSession(db: SupabaseClient, userId: string, sellerId: string | null): Promise<MarketplaceSession> {
+  const row = await requireConnectedAccount(db, userId, sellerId);
+  return { db, row, context: createOperationContext('broker') };
+}
+
+async function listSubscriptions(session: MarketplaceSession): Promise<WalmartSubscription[]> {
+  const data = await marketplaceRequest<{ events?: WalmartSubscription[] }>(session, '/v3/webhooks/subscriptions');
+  return (data?.events ?? []).filter((subscription) => subscription.resourceName === ORDER_RESOURCE);
+}
+
+/**
+ * Deliver an event to the account's receiver exactly as Walmart would, signature included
+ */
+async function replay(db: SupabaseClient, userId: string, sellerId: string | null, body: Extract<SubscriptionRequest, { action: 'replay' }>) {
+  const endpoint = await findEndpoint(db, userId, sellerId);
+  if (!endpoint) {
+    throw new BrokerError('Subscribe to an event type first; the account has no notification endpoint yet', 409);
+  }
+
+  let event: unknown = body.event;
+  if (body.notificationId) {
+    const query = db
+      .from('walmart_notifications')
+      .select('payload')
+      .eq('id', body.notificationId)
+      .eq('user_id', userId);
+    const { data, error } = await scopeToSeller(query, sellerId).maybeSingle();
+    if (error) throw error;
+    if (!data) throw new BrokerError('Notification not found', 404);
+    event = data.payload;
+  }
+
+  const source = (event as WalmartNotification | undefined)?.source;
+  if (typeof source?.eventType !== 'string') {
+    throw new BrokerError('The event needs a source.eventType', 400, undefined, { field: 'eventType' });
+  }
+  // A fresh event ID, as the receiver only counts another delivery of an event it has stored
+  const payload = JSON.stringify({
+    ...(event as WalmartNotification),
+    source: { ...source, eventId: crypto.randomUUID(), eventTime: new Date().toISOString() },
+  });
+
+  // Always the function's own address, so replays reach a local receiver too
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${RECEIVER_FUNCTION}/${endpoint.id}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [SIGNATURE_HEADER]: await signBody(await decryptSecret(endpoint), payload),
+    },
+    body: payload,
+  });
+  const result = await response.json().catch(() => null);
+  return { deliveryStatus: response.status, ...result };
+}
+
+async function handle(db: SupabaseClient, userId: string, body: SubscriptionRequest): Promise<unknown> {
+  const sellerId = body.sellerId ?? null;
+
+  switch (body.action) {
+    case 'list': {
+      const session = await connectedSession(db, userId, sellerId);
+      const endpoint = await findEndpoint(db, userId, sellerId);
+      const [eventTypes, subscriptions] = await Promise.all([
+        marketplaceRequest<{ events?: WalmartEventType[] }>(session, '/v3/webhooks/eventTypes'),
+        listSubscriptions(session),
+      ]);
+      const url = endpoint ? endpointUrl(endpoint.id) : null;
+      return {
+        endpointUrl: url,
+        eventTypes: (eventTypes?.events ?? []).filter((eventType) => eventType.resourceName === ORDER_RESOURCE),
+        // Subscriptions pointing elsewhere (another app, an old endpoint) are listed but not ours
+        subscriptions: subscriptions.map((subscription) => ({ ...subscription, ours: subscription.eventUrl === url })),
+      };
+    }
+
+    case 'subscribe': {
+      if (!body.eventType || !body.eventVersion || body.resourceName !== ORDER_RESOURCE) {
+        throw new BrokerError('Choose an order event type to subscribe to', 400, undefined, { field: 'eventType' });
+      }
+      const session = await connectedSession(db, userId, sellerId);
+      const endpoint = await getOrCreateEndpoint(db, userId, sellerId);
+      const url = endpointUrl(endpoint.id);
+
+      // Re-activate our own paused subscription rather than registering a second one
+      const existing = (await listSubscriptions(session))
+        .find((subscription) => subscription.eventType === body.eventType && subscription.eventUrl === url);
+      if (existing) {
+        if (existing.status === 'ACTIVE') return { subscription: existing };
+        await marketplaceRequest(session, `/v3/webhooks/subscriptions/${encodeURIComponent(existing.subscriptionId)}`, {
+          method: 'PATCH',
+          body: { status: 'ACTIVE' },
+        });
+        return { subscription: { ...existing, status: 'ACTIVE' } };
+      }
+
+      const data = await marketplaceRequest<{ events?: WalmartSubscription[] }>(session, '/v3/webhooks/subscriptions', {
+        method: 'POST',
+        body: {
+          events: [{
+            eventType: body.eventType,
+            eventVersion: body.eventVersion,
+            resourceName: body.resourceName,
+            eventUrl: url,
+            authDetails: {
+              authMethod: 'HMAC',
+              authSecret: await decryptSecret(endpoint),
+              authHeaderName: SIGNATURE_HEADER,
+            },
+            status: 'ACTIVE',
+          }],
+        },
+      });
+      return { subscription: data?.events?.[0] ?? null };
+    }
+
+    case 'unsubscribe': {
+      if (!body.subscriptionId) {
+        throw new BrokerError('subscriptionId is required', 400, undefined, { field: 'subscriptionId' });
+      }
+      const session = await connectedSession(db, userId, sellerId);
+      await marketplaceRequest(session, `/v3/webhooks/subscriptions/${encodeURIComponent(body.subscriptionId)}`, {
+        method: 'DELETE',
+      });
+      return { subscriptionId: body.subscriptionId };
+    }
+
+    case 'replay': {
+      if (!body.notificationId && !body.event) {
+        throw new BrokerError('notificationId or event is required', 400);
+      }
+      await requireStoredToken(db, userId, sellerId);
+      return await replay(db, userId, sellerId, body);
+    }
+
+    default:
+      throw new BrokerError('Unknown action');
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userId = await getCallerId(req);
+    const body = await req.json() as SubscriptionRequest;
+    return jsonResponse(await handle(admin, userId, body));
+  } catch (error) {
+    return errorResponse('walmart-notification-subscriptions', error);
+  }
+});
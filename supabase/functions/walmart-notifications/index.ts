@@ -0,0 +1,223 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { jsonResponse } from '../_shared/cors.ts';
+import { getStoredToken, scopeToSeller } from '../_shared/walmartTokens.ts';
+import { createOperationContext } from '../_shared/tokenEvents.ts';
+import { MarketplaceSession, marketplaceRequest } from '../_shared/walmartMarketplace.ts';
+import { WalmartOrder, upsertOrders } from '../_shared/walmartOrders.ts';
+import {
+  NotificationEndpointRow,
+  SIGNATURE_HEADER,
+  WalmartNotification,
+  decryptSecret,
+  isRetryableFailure,
+  verifySignature,
+} from '../_shared/walmartNotifications.ts';
+
+// Receives Walmart Notifications API deliveries at /walmart-notifications/<endpoint id>.
+// Walmart calls it without a Supabase session (verify_jwt = false): the endpoint ID picks
+// the account and the HMAC signature proves the delivery came from Walmart. Order events
+// (PO_CREATED, PO_LINE_AUTOCANCELLED, ...) re-read the order from Walmart and store it like
+// the order sync does; every event is logged in walmart_notifications, which Realtime
+// pushes to the seller's open order screens.
+//
+// Answers 2xx once an event is stored, so Walmart stops redelivering it, and 5xx when a
+// retry could succeed (Walmart or the database failed). An order Walmart does not have,
+// or any other answer a retry cannot change, is final: the event is stored as failed.
+//
+// The signature covers the body but no delivery time, so a captured delivery could be
+// sent again. Events are deduplicated on their signed event ID instead: a delivery of an
+// event already stored is only counted, unless the stored attempt may succeed on retry.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Walmart's events are a few kilobytes; anything far larger is not from Walmart
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Outcome =
+  | { status: 'processed' | 'ignored'; error?: undefined; retry?: undefined }
+  | { status: 'failed'; error: string; retry: boolean };
+
+interface StoredNotification {
+  id: string;
+  status: Outcome['status'];
+  retryable: boolean;
+  delivery_count: number;
+}
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+async function findEndpointById(endpointId: string): Promise<NotificationEndpointRow | null> {
+  const { data, error } = await admin
+    .from('walmart_notification_endpoints')
+    .select('id, user_id, walmart_seller_id, secret')
+    .eq('id', endpointId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as NotificationEndpointRow | null;
+}
+
+function isNotification(value: unknown): value is WalmartNotification {
+  const source = (value as WalmartNotification | null)?.source;
+  return typeof source?.eventType === 'string' && typeof source.eventId === 'string' && source.eventId !== '';
+}
+
+/**
+ * Bring the order an event is about up to date from Walmart
+ */
+async function processEvent(endpoint: NotificationEndpointRow, event: WalmartNotification): Promise<Outcome> {
+  const purchaseOrderId = event.payload?.purchaseOrderId;
+  if (!event.source.eventType.startsWith('PO_') || typeof purchaseOrderId !== 'string') {
+    return { status: 'ignored' };
+  }
+
+  const row = await getStoredToken(admin, endpoint.user_id, endpoint.walmart_seller_id);
+  if (!row) {
+    return { status: 'failed', error: 'The Walmart account is no longer connected', retry: false };
+  }
+  if (row.needs_reconnect) {
+    return { status: 'failed', error: 'Walmart needs you to reconnect this account before orders can update', retry: false };
+  }
+
+  try {
+    const session: MarketplaceSession = { db: admin, row, context: createOperationContext('keeper') };
+    const { order } = await marketplaceRequest<{ order: WalmartOrder }>(
+      session,
+      `/v3/orders/${encodeURIComponent(purchaseOrderId)}`
+    );
+    await upsertOrders(admin, session.row, [order]);
+    return { status: 'processed' };
+  } catch (error) {
+    console.error(`Failed to process ${event.source.eventType} ${event.source.eventId}:`, error);
+    return {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unexpected error',
+      retry: isRetryableFailure(error),
+    };
+  }
+}
+
+/**
+ * The stored event with this ID, from an earlier delivery
+ */
+async function findNotification(endpoint: NotificationEndpointRow, eventId: string): Promise<StoredNotification | null> {
+  const query = admin
+    .from('walmart_notifications')
+    .select('id, status, retryable, delivery_count')
+    .eq('user_id', endpoint.user_id)
+    .eq('event_id', eventId);
+  const { data, error } = await scopeToSeller(query, endpoint.walmart_seller_id).maybeSingle();
+  if (error) throw error;
+  return data as StoredNotification | null;
+}
+
+/**
+ * Count another delivery of an event already stored, leaving its outcome as it was
+ */
+async function countDelivery(existing: StoredNotification): Promise<void> {
+  const { error } = await admin
+    .from('walmart_notifications')
+    .update({ delivery_count: existing.delivery_count + 1, last_received_at: new Date().toISOString() })
+    .eq('id', existing.id);
+  if (error) throw error;
+}
+
+/**
+ * Log the event, or record the outcome of retrying one already logged
+ */
+async function recordNotification(
+  endpoint: NotificationEndpointRow,
+  event: WalmartNotification,
+  outcome: Outcome,
+  existing: StoredNotification | null
+): Promise<void> {
+  const eventTime = event.source.eventTime ? new Date(event.source.eventTime) : null;
+  const values = {
+    event_type: event.source.eventType,
+    purchase_order_id: typeof event.payload?.purchaseOrderId === 'string' ? event.payload.purchaseOrderId : null,
+    payload: event,
+    status: outcome.status,
+    error: outcome.error ?? null,
+    retryable: outcome.retry ?? false,
+    event_time: eventTime && !Number.isNaN(eventTime.getTime()) ? eventTime.toISOString() : null,
+    last_received_at: new Date().toISOString(),
+  };
+
+  const { error } = existing
+    ? await admin
+      .from('walmart_notifications')
+      .update({ ...values, delivery_count: existing.delivery_count + 1 })
+      .eq('id', existing.id)
+    : await admin
+      .from('walmart_notifications')
+      .insert({
+        ...values,
+        user_id: endpoint.user_id,
+        walmart_seller_id: endpoint.walmart_seller_id,
+        event_id: event.source.eventId,
+      });
+  if (error) throw error;
+}
+
+async function receive(req: Request, endpointId: string): Promise<Response> {
+  if (Number(req.headers.get('Content-Length') ?? 0) > MAX_BODY_BYTES) {
+    return jsonResponse({ error: 'Payload too large' }, 413);
+  }
+  const body = await req.text();
+  if (body.length > MAX_BODY_BYTES) {
+    return jsonResponse({ error: 'Payload too large' }, 413);
+  }
+
+  // Unknown and malformed endpoint IDs get the same answer, so IDs cannot be probed
+  const endpoint = UUID_PATTERN.test(endpointId) ? await findEndpointById(endpointId) : null;
+  if (!endpoint) {
+    return jsonResponse({ error: 'Unknown notification endpoint' }, 404);
+  }
+
+  if (!await verifySignature(await decryptSecret(endpoint), body, req.headers.get(SIGNATURE_HEADER))) {
+    return jsonResponse({ error: 'Invalid signature' }, 401);
+  }
+
+  let event: unknown;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return jsonResponse({ error: 'Body is not JSON' }, 400);
+  }
+  if (!isNotification(event)) {
+    return jsonResponse({ error: 'source.eventType and source.eventId are required' }, 400);
+  }
+
+  const existing = await findNotification(endpoint, event.source.eventId);
+  if (existing && !existing.retryable) {
+    await countDelivery(existing);
+    return jsonResponse({ eventId: event.source.eventId, status: existing.status, duplicate: true }, 200);
+  }
+
+  const outcome = await processEvent(endpoint, event);
+  await recordNotification(endpoint, event, outcome, existing);
+
+  return jsonResponse(
+    { eventId: event.source.eventId, status: outcome.status, error: outcome.error },
+    outcome.retry ? 502 : 200
+  );
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // The endpoint ID is the last path segment, wherever the function is mounted
+    const endpointId = new URL(req.url).pathname.split('/').filter(Boolean).pop() ?? '';
+    return await receive(req, endpointId);
+  } catch (error) {
+    console.error('walmart-notifications error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unexpected error' }, 500);
+  }
+});
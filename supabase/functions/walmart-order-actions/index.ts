@@ -0,0 +1,159 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getCallerId } from '../_shared/auth.ts';
+import { BrokerError, errorResponse, requireConnectedAccount, requireStoredToken } from '../_shared/walmartTokens.ts';
+import { createOperationContext } from '../_shared/tokenEvents.ts';
+import { MarketplaceSession, marketplaceRequest } from '../_shared/walmartMarketplace.ts';
+import {
+  CANCELLATION_REASONS,
+  LineCancellation,
+  acknowledgeOrder,
+  cancelOrderLines,
+  cancelledReservations,
+  leastAdvancedStatus,
+} from '../_shared/walmartOrders.ts';
+import { releaseReservations } from '../_shared/walmartInventory.ts';
+
+// Order actions taken by a signed-in seller (acknowledge, cancel lines, auto-acknowledge
+// rule): calls Walmart on the seller's behalf and writes the result to the orders
+// tables, which the browser can only read. Cancelling lines also releases the stock they
+// had reserved in the inventory table.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Accounts connected before multi-account support have no seller ID
+type OrderActionRequest =
+  | { action: 'acknowledge'; sellerId?: string | null; purchaseOrderId: string }
+  | { action: 'cancelLines'; sellerId?: string | null; purchaseOrderId: string; lines: LineCancellation[] }
+  | { action: 'setAutoAcknowledge'; sellerId?: string | null; enabled: boolean };
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+/**
+ * Reject cancellations Walmart would refuse, naming the field so the form can point at it
+ */
+function validateCancellations(lines: LineCancellation[] | undefined): LineCancellation[] {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new BrokerError('Choose at least one line to cancel', 400, undefined, { field: 'lines' });
+  }
+  for (const line of lines) {
+    if (!line.lineNumber) {
+      throw new BrokerError('Every cancelled line needs a lineNumber', 400, undefined, { field: 'lineNumber' });
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new BrokerError(`Line ${line.lineNumber}: quantity must be a positive whole number`, 400, undefined, { field: 'quantity' });
+    }
+    if (!CANCELLATION_REASONS.includes(line.reason)) {
+      throw new BrokerError(
+        `Line ${line.lineNumber}: reason must be one of ${CANCELLATION_REASONS.join(', ')}`,
+        400,
+        undefined,
+        { field: 'reason' }
+      );
+    }
+  }
+  return lines;
+}
+
+/**
+ * Stock of each SKU after a cancellation, so the seller can see the reservation was released.
+ * Best effort: the cancellation already succeeded, so a failed read is only logged.
+ */
+async function readStock(session: MarketplaceSession, skus: string[]) {
+  const stock = [];
+  for (const sku of new Set(skus)) {
+    try {
+      const data = await marketplaceRequest<{
+        elements?: { inventories?: { sku: string; nodes: { availToSellQty: { amount: number }; reservedQty: { amount: number } }[] }[] };
+      }>(session, `/v3/inventories?${new URLSearchParams({ sku })}`);
+      const nodes = data?.elements?.inventories?.find((inventory) => inventory.sku === sku)?.nodes ?? [];
+      stock.push({
+        sku,
+        availableQuantity: nodes.reduce((sum, node) => sum + node.availToSellQty.amount, 0),
+        reservedQuantity: nodes.reduce((sum, node) => sum + node.reservedQty.amount, 0),
+      });
+    } catch (error) {
+      console.error(`Could not read inventory for ${sku} after cancelling:`, error);
+    }
+  }
+  return stock;
+}
+
+async function handle(db: SupabaseClient, userId: string, body: OrderActionRequest): Promise<unknown> {
+  const sellerId = body.sellerId ?? null;
+
+  switch (body.action) {
+    case 'acknowledge': {
+      if (!body.purchaseOrderId) {
+        throw new BrokerError('purchaseOrderId is required', 400, undefined, { field: 'purchaseOrderId' });
+      }
+      const row = await requireConnectedAccount(db, userId, sellerId);
+      const session: MarketplaceSession = { db, row, context: createOperationContext('broker') };
+      const order = await acknowledgeOrder(session, body.purchaseOrderId);
+      return { purchaseOrderId: order.purchaseOrderId, status: leastAdvancedStatus(order.orderLines.orderLine) };
+    }
+
+    case 'cancelLines': {
+      if (!body.purchaseOrderId) {
+        throw new BrokerError('purchaseOrderId is required', 400, undefined, { field: 'purchaseOrderId' });
+      }
+      const lines = validateCancellations(body.lines);
+      const row = await requireConnectedAccount(db, userId, sellerId);
+      const session: MarketplaceSession = { db, row, context: createOperationContext('broker') };
+      const order = await cancelOrderLines(session, body.purchaseOrderId, lines);
+
+      // Best effort, like readStock: Walmart has already cancelled the units, so a failed
+      // release is reported with the result. The next inventory sync reads Walmart's
+      // reservedQty again either way.
+      const releases = cancelledReservations(order.orderLines.orderLine, lines);
+      let reservationsReleased = 0;
+      let reservationReleaseError: string | undefined;
+      try {
+        reservationsReleased = await releaseReservations(db, row, releases);
+      } catch (error) {
+        console.error(`Could not release stored reservations for ${order.purchaseOrderId}:`, error);
+        reservationReleaseError = error instanceof Error ? error.message : 'Unexpected error';
+      }
+
+      return {
+        purchaseOrderId: order.purchaseOrderId,
+        status: leastAdvancedStatus(order.orderLines.orderLine),
+        reservationsReleased,
+        reservationReleaseError,
+        inventory: await readStock(session, releases.map((release) => release.sku)),
+      };
+    }
+
+    case 'setAutoAcknowledge': {
+      await requireStoredToken(db, userId, sellerId);
+      const { error } = await db
+        .from('walmart_order_sync')
+        .upsert(
+          { user_id: userId, walmart_seller_id: sellerId, auto_acknowledge: Boolean(body.enabled) },
+          { onConflict: 'user_id,walmart_seller_id' }
+        );
+      if (error) throw error;
+      return { autoAcknowledge: Boolean(body.enabled) };
+    }
+
+    default:
+      throw new BrokerError('Unknown action');
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userId = await getCallerId(req);
+    const body = await req.json() as OrderActionRequest;
+    return jsonResponse(await handle(admin, userId, body));
+  } catch (error) {
+    return errorResponse('walmart-order-actions', error);
+  }
+});
@@ -0,0 +1,183 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getCallerId, isServiceRoleRequest } from '../_shared/auth.ts';
+import { BrokerError, WalmartTokenRow, errorResponse, requireConnectedAccount, scopeToSeller } from '../_shared/walmartTokens.ts';
+import { TokenOperationContext, createOperationContext } from '../_shared/tokenEvents.ts';
+import { MarketplaceSession, marketplaceRequest } from '../_shared/walmartMarketplace.ts';
+import { WalmartOrder, acknowledgeOrder, upsertOrders } from '../_shared/walmartOrders.ts';
+
+// Copies Walmart orders into the orders and order_lines tables. Each run asks Walmart
+// only for orders modified since the account's watermark (walmart_order_sync) and
+// upserts them by purchase order ID, so reruns are cheap and write nothing new.
+// Scheduled by pg_cron, which posts one request per connected account so each account
+// gets the whole request timeout (see the mellow_relay migration):
+//   { "userId": "<auth user id>", "sellerId": "<walmart seller id>" }   (service role)
+// Sellers can also sync one account from the Orders screen with:
+//   { "sellerId": "<walmart seller id>" }
+// A lease on the sync row keeps the schedule and a manual sync from overlapping; an
+// account already syncing is reported as skipped. Accounts with the auto-acknowledge
+// rule also have their still-created orders acknowledged after each sync.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// First sync of an account looks back this far
+const INITIAL_LOOKBACK_DAYS = 30;
+// Re-read orders modified shortly before the last run started, in case Walmart
+// recorded the change late
+const WATERMARK_OVERLAP_MINUTES = 5;
+const PAGE_SIZE = 200;
+const LEASE_SECONDS = 300;
+// Orders auto-acknowledged per run; the rest wait for the next run
+const AUTO_ACKNOWLEDGE_BATCH = 50;
+
+interface OrdersResponse {
+  list?: {
+    meta?: { totalCount?: number; nextCursor?: string | null };
+    elements?: { order?: WalmartOrder[] };
+  };
+}
+
+interface SyncResult {
+  seller_id: string | null;
+  correlation_id: string;
+  status: 'synced' | 'skipped';
+  synced: number;
+  // Set when the auto-acknowledge rule is on
+  acknowledged?: number;
+  acknowledge_failed?: string[];
+}
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+function syncStateQuery(row: WalmartTokenRow) {
+  const query = admin
+    .from('walmart_order_sync')
+    .select('watermark, auto_acknowledge')
+    .eq('user_id', row.user_id);
+  return scopeToSeller(query, row.seller_id);
+}
+
+async function updateSyncState(row: WalmartTokenRow, values: Record<string, unknown>): Promise<void> {
+  const query = admin
+    .from('walmart_order_sync')
+    .update(values)
+    .eq('user_id', row.user_id);
+  const { error } = await scopeToSeller(query, row.seller_id);
+  if (error) throw error;
+}
+
+/**
+ * Acknowledge the account's orders that are still created. Failures are reported without
+ * failing the sync; those orders are tried again on the next run.
+ */
+async function autoAcknowledge(session: MarketplaceSession, result: SyncResult): Promise<void> {
+  const query = admin
+    .from('orders')
+    .select('purchase_order_id')
+    .eq('seller_id', session.row.user_id)
+    .eq('status', 'created')
+    .order('order_date')
+    .limit(AUTO_ACKNOWLEDGE_BATCH);
+  const { data, error } = await scopeToSeller(query, session.row.seller_id);
+  if (error) throw error;
+
+  result.acknowledged = 0;
+  result.acknowledge_failed = [];
+  for (const { purchase_order_id: purchaseOrderId } of data as { purchase_order_id: string }[]) {
+    try {
+      await acknowledgeOrder(session, purchaseOrderId);
+      result.acknowledged++;
+    } catch (error) {
+      console.error(`Failed to auto-acknowledge order ${purchaseOrderId}:`, error);
+      result.acknowledge_failed.push(purchaseOrderId);
+    }
+  }
+}
+
+/**
+ * Sync one account from its watermark. The watermark only moves when every page was
+ * written, so a failed run is picked up from the same point next time.
+ */
+async function syncAccount(row: WalmartTokenRow, context: TokenOperationContext): Promise<SyncResult> {
+  const result: SyncResult = { seller_id: row.seller_id, correlation_id: context.correlationId, status: 'synced', synced: 0 };
+
+  const { data: claimed, error: claimError } = await admin.rpc('claim_walmart_order_sync', {
+    p_user_id: row.user_id,
+    p_walmart_seller_id: row.seller_id,
+    lease_seconds: LEASE_SECONDS,
+  });
+  if (claimError) throw claimError;
+  if (!claimed) return { ...result, status: 'skipped' };
+
+  const startedAt = new Date();
+
+  try {
+    const { data: state, error } = await syncStateQuery(row).single();
+    if (error) throw error;
+
+    const since = state.watermark
+      ?? new Date(startedAt.getTime() - INITIAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const session: MarketplaceSession = { db: admin, row, context };
+    const params = new URLSearchParams({ lastModifiedStartDate: since, limit: String(PAGE_SIZE) });
+    let path: string | null = `/v3/orders?${params}`;
+
+    // Walmart's nextCursor is the query string for the next page, filters included
+    while (path) {
+      const data: OrdersResponse = await marketplaceRequest<OrdersResponse>(session, path);
+      const orders = data?.list?.elements?.order ?? [];
+      await upsertOrders(admin, session.row, orders);
+      result.synced += orders.length;
+
+      const nextCursor = data?.list?.meta?.nextCursor;
+      path = nextCursor ? `/v3/orders${nextCursor}` : null;
+    }
+
+    if (state.auto_acknowledge) {
+      await autoAcknowledge(session, result);
+    }
+
+    const unacknowledged = result.acknowledge_failed ?? [];
+    await updateSyncState(row, {
+      watermark: new Date(startedAt.getTime() - WATERMARK_OVERLAP_MINUTES * 60 * 1000).toISOString(),
+      last_completed_at: new Date().toISOString(),
+      last_synced_count: result.synced,
+      last_error: unacknowledged.length > 0
+        ? `Could not auto-acknowledge ${unacknowledged.length} order(s): ${unacknowledged.join(', ')}`
+        : null,
+      lease_until: null,
+    });
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    await updateSyncState(row, { last_error: message, lease_until: null });
+    throw error;
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (isServiceRoleRequest(req)) {
+      const body = await req.json() as { userId?: string; sellerId?: string | null };
+      if (!body.userId) {
+        throw new BrokerError('userId is required', 400, undefined, { field: 'userId' });
+      }
+      const row = await requireConnectedAccount(admin, body.userId, body.sellerId ?? null);
+      return jsonResponse(await syncAccount(row, createOperationContext('keeper')));
+    }
+
+    const userId = await getCallerId(req);
+    // Accounts connected before multi-account support have no seller ID
+    const body = await req.json() as { sellerId?: string | null };
+    const row = await requireConnectedAccount(admin, userId, body.sellerId ?? null);
+    return jsonResponse(await syncAccount(row, createOperationContext('broker')));
+  } catch (error) {
+    return errorResponse('walmart-order-sync', error);
+  }
+});
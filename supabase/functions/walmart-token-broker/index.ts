@@ -0,0 +1,255 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getCallerId } from '../_shared/auth.ts';
+import { EncryptionService } from '../_shared/encryptionService.ts';
+import {
+  BrokerError,
+  WalmartEnvironment,
+  WalmartTokenRow,
+  errorResponse,
+  getEnvironmentConfig,
+  getStoredToken,
+  isTokenExpiring,
+  isWalmartEnvironment,
+  refreshSingleFlight,
+  requestToken,
+  requireStoredToken,
+  storeToken,
+  toConnection,
+} from '../_shared/walmartTokens.ts';
+import {
+  TokenOperationContext,
+  createOperationContext,
+  failureDetails,
+  recordTokenEvent,
+} from '../_shared/tokenEvents.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Refresh when the access token expires within this window
+const REFRESH_BUFFER_MINUTES = 5;
+
+// Every per-account action is keyed by the Walmart seller ID
+type BrokerRequest =
+  | {
+    action: 'exchange';
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+    sellerId: string;
+    accountName?: string;
+    environment?: WalmartEnvironment;
+  }
+  | {
+    action: 'connect_credentials';
+    clientId: string;
+    clientSecret: string;
+    sellerId: string;
+    accountName?: string;
+    environment?: WalmartEnvironment;
+  }
+  | { action: 'refresh'; sellerId: string | null }
+  | { action: 'access_token'; sellerId: string | null }
+  | { action: 'status'; sellerId: string | null }
+  | { action: 'accounts' }
+  | { action: 'disconnect'; sellerId: string | null };
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+/**
+ * Environment for a new connection; accounts default to production
+ */
+function resolveEnvironment(value: unknown): WalmartEnvironment {
+  if (value === undefined || value === null) {
+    return 'production';
+  }
+  if (!isWalmartEnvironment(value)) {
+    throw new BrokerError(`Unknown Walmart environment: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Run a connect attempt and record its outcome in the audit trail
+ */
+async function recordConnect(
+  db: SupabaseClient,
+  context: TokenOperationContext,
+  userId: string,
+  sellerId: string,
+  environment: WalmartEnvironment,
+  connect: () => Promise<WalmartTokenRow>
+): Promise<WalmartTokenRow> {
+  const event = { user_id: userId, seller_id: sellerId, environment, event_type: 'connect' as const };
+  try {
+    const row = await connect();
+    await recordTokenEvent(db, context, { ...event, token_id: row.id, outcome: 'success' });
+    return row;
+  } catch (error) {
+    await recordTokenEvent(db, context, { ...event, ...failureDetails(error) });
+    throw error;
+  }
+}
+
+async function handle(db: SupabaseClient, userId: string, body: BrokerRequest) {
+  // One correlation ID per request, shared by Walmart's logs and the audit trail
+  const context = createOperationContext('broker');
+
+  switch (body.action) {
+    case 'exchange': {
+      if (!body.code || !body.redirectUri || !body.codeVerifier) {
+        throw new BrokerError('code, redirectUri and codeVerifier are required');
+      }
+      if (!body.sellerId) {
+        throw new BrokerError('Walmart did not return a seller ID for this authorization');
+      }
+      const { sellerId } = body;
+      const environment = resolveEnvironment(body.environment);
+      const row = await recordConnect(db, context, userId, sellerId, environment, async () => {
+        const config = getEnvironmentConfig(environment);
+        const tokenData = await requestToken(new URLSearchParams({
+          grant_type: 'authorization_code',
+          code: body.code,
+          redirect_uri: body.redirectUri,
+          code_verifier: body.codeVerifier,
+          client_id: config.clientId ?? '',
+          client_secret: config.clientSecret ?? '',
+        }), environment, context, sellerId).catch((error) => {
+          // Expired, reused or PKCE-mismatched codes all come back as invalid_grant
+          if (error instanceof BrokerError && error.code === 'invalid_grant') {
+            throw new BrokerError(
+              `This authorization code is no longer valid (${error.message}). Please connect to Walmart again.`,
+              400,
+              'invalid_grant',
+              error.details
+            );
+          }
+          throw error;
+        });
+        return await storeToken(db, userId, tokenData, sellerId, {
+          accountName: body.accountName,
+          environment,
+          credentials: null,
+        });
+      });
+      return toConnection(row);
+    }
+
+    case 'connect_credentials': {
+      const clientId = body.clientId?.trim();
+      const clientSecret = body.clientSecret?.trim();
+      const sellerId = body.sellerId?.trim();
+      if (!clientId || !clientSecret || !sellerId) {
+        throw new BrokerError('clientId, clientSecret and sellerId are required');
+      }
+      const environment = resolveEnvironment(body.environment);
+      const credentials = { clientId, clientSecret };
+      const row = await recordConnect(db, context, userId, sellerId, environment, async () => {
+        // Minting a token up front proves the credentials before they are stored
+        const tokenData = await requestToken(
+          new URLSearchParams({ grant_type: 'client_credentials' }),
+          environment,
+          context,
+          sellerId,
+          credentials
+        ).catch((error) => {
+          if (error instanceof BrokerError && error.code === 'invalid_client') {
+            throw new BrokerError(
+              'Walmart rejected this client ID and secret. Check them in the Walmart Developer Portal and try again.',
+              400,
+              'invalid_client',
+              { ...error.details, field: 'clientSecret' }
+            );
+          }
+          throw error;
+        });
+        return await storeToken(db, userId, tokenData, sellerId, {
+          accountName: body.accountName,
+          environment,
+          credentials,
+        });
+      });
+      return toConnection(row);
+    }
+
+    case 'refresh': {
+      const row = await requireStoredToken(db, userId, body.sellerId);
+      return toConnection(await refreshSingleFlight(db, userId, row, context));
+    }
+
+    case 'access_token': {
+      const row = await requireStoredToken(db, userId, body.sellerId);
+      if (!isTokenExpiring(row, REFRESH_BUFFER_MINUTES)) {
+        return {
+          token: await EncryptionService.decryptToken(row.access_token),
+          isRefreshed: false,
+          connection: toConnection(row),
+        };
+      }
+      const refreshed = await refreshSingleFlight(db, userId, row, context);
+      return {
+        token: await EncryptionService.decryptToken(refreshed.access_token),
+        isRefreshed: true,
+        connection: toConnection(refreshed),
+      };
+    }
+
+    case 'status': {
+      const row = await getStoredToken(db, userId, body.sellerId);
+      return { connection: row ? toConnection(row) : null };
+    }
+
+    case 'accounts': {
+      const { data, error } = await db
+        .from('walmart_tokens')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at');
+
+      if (error) throw error;
+      return { accounts: (data as WalmartTokenRow[]).map(toConnection) };
+    }
+
+    case 'disconnect': {
+      const row = await requireStoredToken(db, userId, body.sellerId);
+      const { error } = await db
+        .from('walmart_tokens')
+        .delete()
+        .eq('id', row.id);
+
+      const event = {
+        user_id: userId,
+        token_id: row.id,
+        seller_id: row.seller_id,
+        environment: row.environment,
+        event_type: 'disconnect' as const,
+      };
+      if (error) {
+        await recordTokenEvent(db, context, { ...event, ...failureDetails(error) });
+        throw error;
+      }
+      await recordTokenEvent(db, context, { ...event, outcome: 'success' });
+      return { disconnected: true };
+    }
+
+    default:
+      throw new BrokerError('Unknown action');
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userId = await getCallerId(req);
+    const body = await req.json() as BrokerRequest;
+    return jsonResponse(await handle(admin, userId, body));
+  } catch (error) {
+    return errorResponse('walmart-token-broker', error);
+  }
+});
@@ -0,0 +1,90 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { jsonResponse } from '../_shared/cors.ts';
+import { WalmartTokenRow, isReconnectRequired, refreshSingleFlight } from '../_shared/walmartTokens.ts';
+import { createOperationContext } from '../_shared/tokenEvents.ts';
+
+// Refreshes Walmart tokens before they expire so sellers who are not signed in
+// stay connected. Scheduled by pg_cron (see the steady_lantern migration); can
+// also be run by hand:
+//   curl -X POST <SUPABASE_URL>/functions/v1/walmart-token-keeper \
+//     -H "Authorization: Bearer <SERVICE_ROLE_KEY>"
+// Authorization-code accounts are renewed with their refresh token and
+// client-credentials accounts with the seller's stored API key pair.
+// Outcomes are written to the row (last_refreshed_at / last_refresh_error), and
+// rows whose refresh token or credentials were rejected are flagged
+// needs_reconnect and skipped until the seller connects again.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Walmart access tokens live 15 minutes and the job runs every 5, so refresh
+// anything that would otherwise expire before the next run
+const REFRESH_WINDOW_MINUTES = 10;
+const BATCH_SIZE = 100;
+
+interface KeeperFailure {
+  id: string;
+  seller_id: string | null;
+  correlation_id: string;
+  error: string;
+  needs_reconnect: boolean;
+}
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+/**
+ * Rows due for a refresh, soonest expiry first. Rows another request is already
+ * refreshing are left to it.
+ */
+async function findExpiringTokens(): Promise<WalmartTokenRow[]> {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + REFRESH_WINDOW_MINUTES * 60 * 1000);
+
+  const { data, error } = await admin
+    .from('walmart_tokens')
+    .select('*')
+    .eq('needs_reconnect', false)
+    .lt('expires_at', horizon.toISOString())
+    .or(`refresh_lease_until.is.null,refresh_lease_until.lt.${now.toISOString()}`)
+    .order('expires_at')
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+  return data as WalmartTokenRow[];
+}
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+    return jsonResponse({ error: 'Service role key required' }, 403);
+  }
+
+  const result = { scanned: 0, refreshed: 0, failed: [] as KeeperFailure[] };
+
+  try {
+    for (const row of await findExpiringTokens()) {
+      result.scanned++;
+      const context = createOperationContext('keeper');
+      try {
+        await refreshSingleFlight(admin, row.user_id, row, context);
+        result.refreshed++;
+      } catch (error) {
+        console.error(`Failed to refresh walmart_tokens row ${row.id}:`, error);
+        result.failed.push({
+          id: row.id,
+          seller_id: row.seller_id,
+          correlation_id: context.correlationId,
+          error: error instanceof Error ? error.message : 'Unexpected error',
+          needs_reconnect: isReconnectRequired(error),
+        });
+      }
+    }
+
+    return jsonResponse(result, result.failed.length > 0 ? 207 : 200);
+  } catch (error) {
+    console.error('walmart-token-keeper error:', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    return jsonResponse({ ...result, error: message }, 500);
+  }
+});
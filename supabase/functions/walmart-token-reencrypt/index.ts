@@ -0,0 +1,117 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { jsonResponse } from '../_shared/cors.ts';
+import { EncryptionService } from '../_shared/encryptionService.ts';
+
+// Re-encrypts every walmart_tokens row (tokens and stored client secrets) with the current key from WALMART_TOKEN_KEYS.
+// Run after adding a new key (or during the rollout from the legacy CBC format):
+//   curl -X POST <SUPABASE_URL>/functions/v1/walmart-token-reencrypt \
+//     -H "Authorization: Bearer <SERVICE_ROLE_KEY>"
+// Old keys can be removed from the keyring once a run reports no remaining rows.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const BATCH_SIZE = 100;
+
+interface TokenCiphertexts {
+  id: string;
+  access_token: string;
+  refresh_token: string | null;
+  client_secret: string | null;
+}
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+/**
+ * Rewrite one row; the update is conditional on the ciphertexts we read so a
+ * concurrent refresh by the broker is never overwritten with stale tokens
+ */
+async function reEncryptRow(row: TokenCiphertexts): Promise<'updated' | 'skipped' | 'conflict'> {
+  const accessNeedsUpdate = EncryptionService.needsReEncryption(row.access_token);
+  const refreshNeedsUpdate = !!row.refresh_token && EncryptionService.needsReEncryption(row.refresh_token);
+  const secretNeedsUpdate = !!row.client_secret && EncryptionService.needsReEncryption(row.client_secret);
+
+  if (!accessNeedsUpdate && !refreshNeedsUpdate && !secretNeedsUpdate) {
+    return 'skipped';
+  }
+
+  const update: Partial<TokenCiphertexts> = {};
+  if (accessNeedsUpdate) {
+    update.access_token = await EncryptionService.reEncryptToken(row.access_token);
+  }
+  if (refreshNeedsUpdate) {
+    update.refresh_token = await EncryptionService.reEncryptToken(row.refresh_token!);
+  }
+  if (secretNeedsUpdate) {
+    update.client_secret = await EncryptionService.reEncryptToken(row.client_secret!);
+  }
+
+  let query = admin
+    .from('walmart_tokens')
+    .update(update)
+    .eq('id', row.id)
+    .eq('access_token', row.access_token);
+
+  query = row.refresh_token
+    ? query.eq('refresh_token', row.refresh_token)
+    : query.is('refresh_token', null);
+
+  query = row.client_secret
+    ? query.eq('client_secret', row.client_secret)
+    : query.is('client_secret', null);
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return data.length > 0 ? 'updated' : 'conflict';
+}
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+    return jsonResponse({ error: 'Service role key required' }, 403);
+  }
+
+  const result = { scanned: 0, updated: 0, skipped: 0, conflicts: 0, failed: [] as string[] };
+
+  try {
+    let lastId: string | null = null;
+
+    while (true) {
+      let query = admin
+        .from('walmart_tokens')
+        .select('id, access_token, refresh_token, client_secret')
+        .order('id')
+        .limit(BATCH_SIZE);
+
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      if (!data || data.length === 0) break;
+
+      for (const row of data as TokenCiphertexts[]) {
+        result.scanned++;
+        try {
+          const outcome = await reEncryptRow(row);
+          if (outcome === 'updated') result.updated++;
+          else if (outcome === 'skipped') result.skipped++;
+          else result.conflicts++;
+        } catch (error) {
+          console.error(`Failed to re-encrypt walmart_tokens row ${row.id}:`, error);
+          result.failed.push(row.id);
+        }
+      }
+
+      lastId = data[data.length - 1].id;
+    }
+
+    return jsonResponse(result, result.failed.length > 0 ? 207 : 200);
+  } catch (error) {
+    console.error('walmart-token-reencrypt error:', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    return jsonResponse({ ...result, error: message }, 500);
+  }
+});
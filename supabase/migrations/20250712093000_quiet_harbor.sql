@@ -0,0 +1,36 @@
+/*
+  # Route Walmart token writes through the token broker
+
+  1. Security
+    - Drop the policies that let authenticated users insert, update and delete
+      `walmart_tokens` rows directly; the `walmart-token-broker` Edge Function
+      writes them with the service role instead
+    - Keep a read-only policy for the owner
+    - Hide the encrypted `access_token` and `refresh_token` columns from browser clients
+*/
+
+DROP POLICY IF EXISTS "Users can manage own walmart tokens" ON walmart_tokens;
+DROP POLICY IF EXISTS "Users can insert own walmart tokens" ON walmart_tokens;
+DROP POLICY IF EXISTS "Users can update own walmart tokens" ON walmart_tokens;
+DROP POLICY IF EXISTS "Users can delete own walmart tokens" ON walmart_tokens;
+
+DROP POLICY IF EXISTS "Users can view own walmart tokens" ON walmart_tokens;
+CREATE POLICY "Users can view own walmart tokens"
+  ON walmart_tokens
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Column-level grants: token material is readable by the service role only
+REVOKE ALL ON walmart_tokens FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  user_id,
+  token_type,
+  expires_in,
+  expires_at,
+  scope,
+  seller_id,
+  created_at,
+  updated_at
+) ON walmart_tokens TO authenticated;
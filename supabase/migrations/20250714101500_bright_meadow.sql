@@ -0,0 +1,34 @@
+/*
+  # Multiple Walmart seller accounts per user
+
+  1. Changes
+    - `walmart_tokens` is now keyed by (`user_id`, `seller_id`) instead of `user_id` alone,
+      so one login can connect several Walmart storefronts
+    - New `account_name` column (text, optional) for a user-facing label
+    - `products.walmart_seller_id` (text, optional) scopes catalog rows to a connected account
+
+  2. Notes
+    - Rows connected before this change have no `seller_id`; NULLS NOT DISTINCT keeps at most
+      one such row per user until it is reconnected
+*/
+
+ALTER TABLE walmart_tokens DROP CONSTRAINT IF EXISTS walmart_tokens_user_id_key;
+ALTER TABLE walmart_tokens DROP CONSTRAINT IF EXISTS walmart_tokens_user_unique;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'walmart_tokens_user_seller_unique'
+    AND table_name = 'walmart_tokens'
+  ) THEN
+    ALTER TABLE walmart_tokens
+      ADD CONSTRAINT walmart_tokens_user_seller_unique UNIQUE NULLS NOT DISTINCT (user_id, seller_id);
+  END IF;
+END $$;
+
+ALTER TABLE walmart_tokens ADD COLUMN IF NOT EXISTS account_name text;
+GRANT SELECT (account_name) ON walmart_tokens TO authenticated;
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS walmart_seller_id text;
+CREATE INDEX IF NOT EXISTS idx_products_walmart_seller_id ON products(seller_id, walmart_seller_id);
@@ -0,0 +1,36 @@
+/*
+  # Single-flight Walmart token refresh
+
+  1. Changes
+    - New `refresh_lease_until` column (timestamptz) on `walmart_tokens`: while it is in the
+      future, one broker request owns the refresh of that row and others wait for its result
+    - `claim_walmart_token_refresh(token_id, lease_seconds)` atomically takes the lease
+    - `calculate_walmart_token_expires_at` now fires only when `expires_in` is written, so
+      lease bookkeeping and re-encryption no longer push `expires_at` forward
+
+  2. Security
+    - The claim function is callable by the service role only
+*/
+
+ALTER TABLE walmart_tokens ADD COLUMN IF NOT EXISTS refresh_lease_until timestamptz;
+
+DROP TRIGGER IF EXISTS calculate_walmart_token_expires_at ON walmart_tokens;
+CREATE TRIGGER calculate_walmart_token_expires_at
+  BEFORE INSERT OR UPDATE OF expires_in ON walmart_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION calculate_expires_at();
+
+-- Returns true when the caller now owns the refresh lease for the row
+CREATE OR REPLACE FUNCTION claim_walmart_token_refresh(token_id uuid, lease_seconds integer DEFAULT 30)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE walmart_tokens
+  SET refresh_lease_until = now() + make_interval(secs => lease_seconds)
+  WHERE id = token_id
+    AND (refresh_lease_until IS NULL OR refresh_lease_until < now());
+
+  RETURN FOUND;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION claim_walmart_token_refresh(uuid, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,51 @@
+/*
+  # Background Walmart token keeper
+
+  1. Changes
+    - New columns on `walmart_tokens` recording the outcome of the last refresh:
+      - `needs_reconnect` (boolean): Walmart rejected the refresh token; the seller must
+        authorize again before the account can be used
+      - `last_refreshed_at` (timestamptz): when tokens were last issued for the row
+      - `last_refresh_error` (text): message from the last failed refresh, cleared on success
+    - pg_cron job `walmart-token-keeper` calls the `walmart-token-keeper` Edge Function every
+      5 minutes to refresh tokens that are about to expire
+
+  2. Setup
+    - The job reads the project URL and service role key from Vault:
+        select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+        select vault.create_secret('<service-role-key>', 'service_role_key');
+
+  3. Security
+    - The new columns are readable by their owner, like the rest of the non-secret columns
+*/
+
+ALTER TABLE walmart_tokens ADD COLUMN IF NOT EXISTS needs_reconnect boolean NOT NULL DEFAULT false;
+ALTER TABLE walmart_tokens ADD COLUMN IF NOT EXISTS last_refreshed_at timestamptz;
+ALTER TABLE walmart_tokens ADD COLUMN IF NOT EXISTS last_refresh_error text;
+
+GRANT SELECT (needs_reconnect, last_refreshed_at, last_refresh_error) ON walmart_tokens TO authenticated;
+
+-- The keeper scans by expiry, skipping rows that are waiting on the seller
+CREATE INDEX IF NOT EXISTS idx_walmart_tokens_keeper
+  ON walmart_tokens(expires_at)
+  WHERE needs_reconnect = false;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'walmart-token-keeper',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/walmart-token-keeper',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+  $$
+);
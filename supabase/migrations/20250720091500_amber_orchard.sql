@@ -0,0 +1,35 @@
+/*
+  # Walmart client-credentials connections
+
+  1. Changes
+    - New `auth_mode` column on `walmart_tokens`: `authorization_code` (default, seller consents
+      through Walmart's OAuth page) or `client_credentials` (seller supplies their own API keys)
+    - New `client_id` column (text): the seller's Walmart client ID in client_credentials mode
+    - New `client_secret` column (text): the matching secret, encrypted like the tokens
+
+  2. Security
+    - `auth_mode` and `client_id` are readable by their owner
+    - `client_secret` is readable by the service role only
+*/
+
+ALTER TABLE walmart_tokens ADD COLUMN IF NOT EXISTS auth_mode text NOT NULL DEFAULT 'authorization_code';
+ALTER TABLE walmart_tokens ADD COLUMN IF NOT EXISTS client_id text;
+ALTER TABLE walmart_tokens ADD COLUMN IF NOT EXISTS client_secret text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'walmart_tokens_auth_mode_check'
+    AND table_name = 'walmart_tokens'
+  ) THEN
+    ALTER TABLE walmart_tokens
+      ADD CONSTRAINT walmart_tokens_auth_mode_check
+      CHECK (
+        auth_mode = 'authorization_code'
+        OR (auth_mode = 'client_credentials' AND client_id IS NOT NULL AND client_secret IS NOT NULL)
+      );
+  END IF;
+END $$;
+
+GRANT SELECT (auth_mode, client_id) ON walmart_tokens TO authenticated;
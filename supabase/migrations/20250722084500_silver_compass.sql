@@ -0,0 +1,28 @@
+/*
+  # Per-account Walmart environment
+
+  1. Changes
+    - New `environment` column on `walmart_tokens`: `production` (default), `sandbox` for
+      Walmart's sandbox, or `mock` for the local stand-in configured by `WALMART_MOCK_BASE_URL`.
+      The broker sends token requests for the account to that environment.
+
+  2. Security
+    - `environment` is readable by its owner
+*/
+
+ALTER TABLE walmart_tokens ADD COLUMN IF NOT EXISTS environment text NOT NULL DEFAULT 'production';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'walmart_tokens_environment_check'
+    AND table_name = 'walmart_tokens'
+  ) THEN
+    ALTER TABLE walmart_tokens
+      ADD CONSTRAINT walmart_tokens_environment_check
+      CHECK (environment IN ('production', 'sandbox', 'mock'));
+  END IF;
+END $$;
+
+GRANT SELECT (environment) ON walmart_tokens TO authenticated;
@@ -0,0 +1,52 @@
+/*
+  # Walmart token audit trail
+
+  1. New Tables
+    - `walmart_token_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner of the connection)
+      - `token_id` (uuid, the `walmart_tokens` row; kept after the row is deleted)
+      - `seller_id` (text), `environment` (text)
+      - `event_type` (text): `connect`, `refresh` or `disconnect`
+      - `source` (text): `broker` for user requests, `keeper` for the background job
+      - `correlation_id` (text): the `WM_QOS.CORRELATION_ID` sent to Walmart
+      - `outcome` (text): `success` or `failure`
+      - `error`, `error_code` (text): what went wrong, for failures
+      - `created_at` (timestamptz)
+
+  2. Security
+    - RLS enabled; users can read their own events
+    - Events are written by the Edge Functions with the service role only
+*/
+
+CREATE TABLE IF NOT EXISTS walmart_token_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token_id uuid,
+  seller_id text,
+  environment text,
+  event_type text NOT NULL CHECK (event_type IN ('connect', 'refresh', 'disconnect')),
+  source text NOT NULL CHECK (source IN ('broker', 'keeper')),
+  correlation_id text NOT NULL,
+  outcome text NOT NULL CHECK (outcome IN ('success', 'failure')),
+  error text,
+  error_code text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE walmart_token_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own walmart token events"
+  ON walmart_token_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+REVOKE ALL ON walmart_token_events FROM anon, authenticated;
+GRANT SELECT ON walmart_token_events TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_walmart_token_events_user_seller
+  ON walmart_token_events(user_id, seller_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_walmart_token_events_correlation
+  ON walmart_token_events(correlation_id);
@@ -0,0 +1,184 @@
+/*
+  # Orders synced from Walmart
+
+  1. New Tables
+    - `orders`: one row per Walmart purchase order, shaped like the app's `Order` type
+      - `id` (uuid, primary key)
+      - `seller_id` (uuid, owner, like `products.seller_id`)
+      - `walmart_seller_id` (text): the connected account the order belongs to
+      - `purchase_order_id`, `customer_order_id` (text)
+      - `customer_name`, `customer_email` (text)
+      - `order_date` (timestamptz)
+      - `status` (text): `created`, `acknowledged`, `shipped`, `delivered` or `cancelled`,
+        the least advanced status of the order's lines
+      - `total_amount` (decimal), `currency` (text)
+      - `shipping_address` (jsonb): name, address1, address2, city, state, postalCode, country
+      - `ship_method`, `estimated_ship_date`, `estimated_delivery_date`: Walmart's shipping promise
+      - `raw` (jsonb): the order exactly as Walmart returned it
+      - `synced_at`, `created_at`, `updated_at` (timestamptz)
+    - `order_lines`: one row per order line, shaped like `OrderItem`
+      - `order_id` (uuid, references `orders`), `seller_id` (uuid, owner)
+      - `line_number`, `sku`, `product_name` (text)
+      - `quantity` (integer), `unit_price`, `total_price` (decimal)
+      - `status` (text): the line's least advanced status
+      - `statuses` (jsonb): Walmart's per-quantity `orderLineStatus` entries
+    - `walmart_order_sync`: incremental sync progress per connected account
+      - `user_id` (uuid), `walmart_seller_id` (text)
+      - `watermark` (timestamptz): the next run asks Walmart for orders modified since then
+      - `lease_until` (timestamptz): while in the future, one run owns the account's sync
+      - `last_started_at`, `last_completed_at` (timestamptz), `last_error` (text)
+      - `last_synced_count` (integer): orders written by the last successful run
+
+  2. Security
+    - RLS enabled on all three tables; users can read their own rows
+    - Rows are written by the `walmart-order-sync` Edge Function with the service role only
+    - `claim_walmart_order_sync(user_id, walmart_seller_id, lease_seconds)` atomically takes
+      an account's sync lease; callable by the service role only
+
+  3. Scheduling
+    - pg_cron job `walmart-order-sync` calls the Edge Function every 15 minutes to sync every
+      connected account (uses the same Vault secrets as `walmart-token-keeper`)
+
+  4. Notes
+    - Accounts connected before multi-account support have no seller ID; NULLS NOT DISTINCT
+      keeps their orders unique like their token row
+*/
+
+CREATE TABLE IF NOT EXISTS orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  walmart_seller_id text,
+  purchase_order_id text NOT NULL,
+  customer_order_id text NOT NULL,
+  customer_name text NOT NULL DEFAULT '',
+  customer_email text NOT NULL DEFAULT '',
+  order_date timestamptz NOT NULL,
+  status text NOT NULL CHECK (status IN ('created', 'acknowledged', 'shipped', 'delivered', 'cancelled')),
+  total_amount decimal(12,2) NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'USD',
+  shipping_address jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ship_method text,
+  estimated_ship_date timestamptz,
+  estimated_delivery_date timestamptz,
+  raw jsonb NOT NULL,
+  synced_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT orders_seller_purchase_order_unique UNIQUE NULLS NOT DISTINCT (seller_id, walmart_seller_id, purchase_order_id)
+);
+
+CREATE TABLE IF NOT EXISTS order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  seller_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  line_number text NOT NULL,
+  sku text NOT NULL,
+  product_name text NOT NULL DEFAULT '',
+  quantity integer NOT NULL DEFAULT 0,
+  unit_price decimal(12,2) NOT NULL DEFAULT 0,
+  total_price decimal(12,2) NOT NULL DEFAULT 0,
+  status text NOT NULL CHECK (status IN ('created', 'acknowledged', 'shipped', 'delivered', 'cancelled')),
+  statuses jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT order_lines_order_line_unique UNIQUE (order_id, line_number)
+);
+
+CREATE TABLE IF NOT EXISTS walmart_order_sync (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  walmart_seller_id text,
+  watermark timestamptz,
+  lease_until timestamptz,
+  last_started_at timestamptz,
+  last_completed_at timestamptz,
+  last_error text,
+  last_synced_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT walmart_order_sync_account_unique UNIQUE NULLS NOT DISTINCT (user_id, walmart_seller_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_seller_account_date
+  ON orders(seller_id, walmart_seller_id, order_date DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(seller_id, walmart_seller_id, status);
+CREATE INDEX IF NOT EXISTS idx_order_lines_order_id ON order_lines(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_lines_seller_sku ON order_lines(seller_id, sku);
+
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE walmart_order_sync ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own orders"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = seller_id);
+
+CREATE POLICY "Users can view own order lines"
+  ON order_lines
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = seller_id);
+
+CREATE POLICY "Users can view own order sync state"
+  ON walmart_order_sync
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+REVOKE ALL ON orders, order_lines, walmart_order_sync FROM anon, authenticated;
+GRANT SELECT ON orders, order_lines, walmart_order_sync TO authenticated;
+
+CREATE TRIGGER update_orders_updated_at
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_order_lines_updated_at
+  BEFORE UPDATE ON order_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_walmart_order_sync_updated_at
+  BEFORE UPDATE ON walmart_order_sync
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Returns true when the caller now owns the account's sync; creates the state row on first use
+CREATE OR REPLACE FUNCTION claim_walmart_order_sync(p_user_id uuid, p_walmart_seller_id text, lease_seconds integer DEFAULT 300)
+RETURNS boolean AS $$
+BEGIN
+  INSERT INTO walmart_order_sync (user_id, walmart_seller_id)
+  VALUES (p_user_id, p_walmart_seller_id)
+  ON CONFLICT ON CONSTRAINT walmart_order_sync_account_unique DO NOTHING;
+
+  UPDATE walmart_order_sync
+  SET lease_until = now() + make_interval(secs => lease_seconds),
+      last_started_at = now()
+  WHERE user_id = p_user_id
+    AND walmart_seller_id IS NOT DISTINCT FROM p_walmart_seller_id
+    AND (lease_until IS NULL OR lease_until < now());
+
+  RETURN FOUND;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION claim_walmart_order_sync(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'walmart-order-sync',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/walmart-order-sync',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 120000
+  );
+  $$
+);
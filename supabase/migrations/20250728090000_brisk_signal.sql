@@ -0,0 +1,13 @@
+/*
+  # Auto-acknowledge rule for synced orders
+
+  1. Changes
+    - New `walmart_order_sync.auto_acknowledge` column (boolean, default false). When set,
+      each order sync acknowledges the account's orders that are still `created`
+
+  2. Security
+    - The rule is changed through the `walmart-order-actions` Edge Function; users keep
+      read-only access to `walmart_order_sync`
+*/
+
+ALTER TABLE walmart_order_sync ADD COLUMN IF NOT EXISTS auto_acknowledge boolean NOT NULL DEFAULT false;
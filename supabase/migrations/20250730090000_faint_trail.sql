@@ -0,0 +1,50 @@
+/*
+  # Order line status history
+
+  1. New Tables
+    - `order_status_events`: one row each time units of an order line reach a Walmart status
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, references `orders`), `seller_id` (uuid, owner)
+      - `line_number` (text)
+      - `status` (text): `Created`, `Acknowledged`, `Shipped`, `Delivered` or `Cancelled`
+      - `quantity` (integer): units that moved into the status
+      - `cancellation_reason` (text): Walmart's reason code, for cancellations
+      - `occurred_at` (timestamptz): when Walmart reports the change (the line's `statusDate`,
+        or the order date for created units)
+      - `recorded_at` (timestamptz): when the sync or an order action noticed it
+
+  2. Security
+    - RLS enabled; users can read their own events
+    - Events are written with the service role only, by the Edge Functions that store orders
+
+  3. Notes
+    - Walmart returns only each line's current statuses, so changes are found by comparing
+      them with the stored `order_lines.statuses`. Orders synced before this migration
+      get their history from the next change onwards.
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  seller_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  line_number text NOT NULL,
+  status text NOT NULL CHECK (status IN ('Created', 'Acknowledged', 'Shipped', 'Delivered', 'Cancelled')),
+  quantity integer NOT NULL,
+  cancellation_reason text,
+  occurred_at timestamptz NOT NULL,
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_events_order
+  ON order_status_events(order_id, occurred_at);
+
+ALTER TABLE order_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own order status events"
+  ON order_status_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = seller_id);
+
+REVOKE ALL ON order_status_events FROM anon, authenticated;
+GRANT SELECT ON order_status_events TO authenticated;
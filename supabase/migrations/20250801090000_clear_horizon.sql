@@ -0,0 +1,16 @@
+/*
+  # Ship-by queue for unshipped orders
+
+  1. Changes
+    - New partial index on `orders(seller_id, walmart_seller_id, estimated_ship_date)` for
+      orders that are still `created` or `acknowledged`. The Orders screen's at-risk and
+      overdue queue and the dashboard's late-shipment alerts read unshipped orders by
+      Walmart's ship-by date (`estimated_ship_date`, already stored by the order sync).
+
+  2. Security
+    - No change; `orders` stays readable by its owner only
+*/
+
+CREATE INDEX IF NOT EXISTS idx_orders_unshipped_ship_by
+  ON orders(seller_id, walmart_seller_id, estimated_ship_date)
+  WHERE status IN ('created', 'acknowledged');
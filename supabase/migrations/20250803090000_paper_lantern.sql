@@ -0,0 +1,68 @@
+/*
+  # Packing slip and pick list settings
+
+  1. New Tables
+    - `document_settings`: how printed order documents are branded, per connected account
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner), `walmart_seller_id` (text; null for accounts connected
+        before multi-account support)
+      - `company_name` (text): printed in the header of packing slips and pick lists
+      - `logo_url` (text): an image URL or a `data:` URL of an uploaded logo, up to 500 kB
+      - `return_address` (jsonb): `name`, `address1`, `address2`, `city`, `state`,
+        `postalCode`, `country`, printed on every packing slip
+      - `packing_slip_note` (text): a message printed at the bottom of packing slips
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - RLS enabled; users can read, create, change and delete their own settings.
+      Nothing here comes from Walmart, so the browser writes the table directly.
+
+  3. Notes
+    - One row per user and account (UNIQUE NULLS NOT DISTINCT, like `walmart_order_sync`)
+*/
+
+CREATE TABLE IF NOT EXISTS document_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  walmart_seller_id text,
+  company_name text,
+  logo_url text CHECK (logo_url IS NULL OR length(logo_url) <= 700000),
+  return_address jsonb,
+  packing_slip_note text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT document_settings_account_unique UNIQUE NULLS NOT DISTINCT (user_id, walmart_seller_id)
+);
+
+ALTER TABLE document_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own document settings"
+  ON document_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own document settings"
+  ON document_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own document settings"
+  ON document_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own document settings"
+  ON document_settings
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_document_settings_updated_at ON document_settings;
+CREATE TRIGGER update_document_settings_updated_at
+  BEFORE UPDATE ON document_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
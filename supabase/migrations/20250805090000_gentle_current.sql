@@ -0,0 +1,91 @@
+/*
+  # Walmart order notifications
+
+  1. New Tables
+    - `walmart_notification_endpoints`: where Walmart delivers one account's notifications
+      - `id` (uuid, primary key): part of the delivery URL,
+        `/functions/v1/walmart-notifications/<id>`
+      - `user_id` (uuid, owner), `walmart_seller_id` (text; null for accounts connected
+        before multi-account support)
+      - `secret` (text): the HMAC secret Walmart signs deliveries with, encrypted like
+        `walmart_tokens.access_token`
+      - `created_at`, `updated_at` (timestamptz)
+    - `walmart_notifications`: every event delivered to an endpoint
+      - `id` (uuid, primary key)
+      - `user_id` (uuid), `walmart_seller_id` (text)
+      - `event_id` (text): Walmart's `source.eventId`; a redelivered or replayed event
+        updates its row instead of adding one
+      - `event_type` (text): e.g. `PO_CREATED`, `PO_LINE_AUTOCANCELLED`
+      - `purchase_order_id` (text): the order the event is about, if any
+      - `payload` (jsonb): the event exactly as delivered
+      - `status` (text): `processed`, `ignored` (not an order event) or `failed`
+      - `error` (text): why processing failed
+      - `event_time` (timestamptz): when Walmart raised the event
+      - `received_at` (timestamptz): first delivery; `last_received_at`: latest delivery
+      - `delivery_count` (integer)
+
+  2. Security
+    - RLS enabled on both tables
+    - Users can read their own notifications; endpoints, which hold the secret, are not
+      readable from the browser at all
+    - Both tables are written by the `walmart-notifications` and
+      `walmart-notification-subscriptions` Edge Functions with the service role only
+
+  3. Realtime
+    - `walmart_notifications` is added to the `supabase_realtime` publication so open
+      order screens refresh as soon as an event is stored. Realtime applies the select
+      policy, so users only receive their own events.
+
+  4. Notes
+    - One endpoint per user and account (UNIQUE NULLS NOT DISTINCT, like `walmart_order_sync`)
+*/
+
+CREATE TABLE IF NOT EXISTS walmart_notification_endpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  walmart_seller_id text,
+  secret text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT walmart_notification_endpoints_account_unique UNIQUE NULLS NOT DISTINCT (user_id, walmart_seller_id)
+);
+
+CREATE TABLE IF NOT EXISTS walmart_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  walmart_seller_id text,
+  event_id text NOT NULL,
+  event_type text NOT NULL,
+  purchase_order_id text,
+  payload jsonb NOT NULL,
+  status text NOT NULL CHECK (status IN ('processed', 'ignored', 'failed')),
+  error text,
+  event_time timestamptz,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  last_received_at timestamptz NOT NULL DEFAULT now(),
+  delivery_count integer NOT NULL DEFAULT 1,
+  CONSTRAINT walmart_notifications_event_unique UNIQUE NULLS NOT DISTINCT (user_id, walmart_seller_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_walmart_notifications_account_received
+  ON walmart_notifications(user_id, walmart_seller_id, last_received_at DESC);
+
+ALTER TABLE walmart_notification_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE walmart_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON walmart_notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+REVOKE ALL ON walmart_notification_endpoints, walmart_notifications FROM anon, authenticated;
+GRANT SELECT ON walmart_notifications TO authenticated;
+
+DROP TRIGGER IF EXISTS update_walmart_notification_endpoints_updated_at ON walmart_notification_endpoints;
+CREATE TRIGGER update_walmart_notification_endpoints_updated_at
+  BEFORE UPDATE ON walmart_notification_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE walmart_notifications;
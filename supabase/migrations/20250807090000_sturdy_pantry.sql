@@ -0,0 +1,166 @@
+/*
+  # Inventory kept in step with Walmart
+
+  1. New Tables
+    - `inventory`: one row per SKU and ship node of a connected account
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner), `walmart_seller_id` (text; null for accounts connected
+        before multi-account support)
+      - `sku`, `ship_node` (text)
+      - `quantity` (integer): units on hand as the seller set them in the app; what
+        Walmart should have
+      - `walmart_quantity` (integer): Walmart's `inputQty` as last read
+      - `base_quantity` (integer): the Walmart quantity `quantity` was last in step with.
+        Comparing all three tells a change made in the app from one made at Walmart.
+      - `available_quantity`, `reserved_quantity` (integer): Walmart's `availToSellQty`
+        and `reservedQty` as last read
+      - `sync_status` (text): `synced`; `pending`, an edit not yet pushed to Walmart;
+        `conflict`, both sides changed since they were last in step; or `failed`, the
+        push was rejected (`last_error` says why)
+      - `walmart_synced_at` (timestamptz): last read from Walmart
+      - `local_updated_at` (timestamptz): last edit in the app
+      - `created_at`, `updated_at` (timestamptz)
+    - `walmart_inventory_sync`: inventory sync runs per connected account
+      - `user_id` (uuid), `walmart_seller_id` (text)
+      - `lease_until` (timestamptz): while in the future, one run owns the account's sync
+      - `last_started_at`, `last_completed_at` (timestamptz), `last_error` (text)
+      - `last_pulled_count`, `last_pushed_count`, `last_conflict_count` (integer): rows read
+        from Walmart, edits pushed to it and SKUs left in conflict by the last run
+
+  2. Security
+    - RLS enabled on both tables; users can read their own rows
+    - Rows are written by the `walmart-inventory-sync` Edge Function with the service role only
+    - `claim_walmart_inventory_sync` and `reconcile_walmart_inventory` are callable by the
+      service role only
+
+  3. Notes
+    - `reconcile_walmart_inventory` merges a page of Walmart stock into `inventory` in one
+      statement, so an edit saved while a sync runs is never overwritten by it
+*/
+
+CREATE TABLE IF NOT EXISTS inventory (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  walmart_seller_id text,
+  sku text NOT NULL,
+  ship_node text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity >= 0),
+  walmart_quantity integer NOT NULL,
+  base_quantity integer NOT NULL,
+  available_quantity integer NOT NULL DEFAULT 0,
+  reserved_quantity integer NOT NULL DEFAULT 0,
+  sync_status text NOT NULL DEFAULT 'synced' CHECK (sync_status IN ('synced', 'pending', 'conflict', 'failed')),
+  last_error text,
+  walmart_synced_at timestamptz NOT NULL DEFAULT now(),
+  local_updated_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT inventory_account_sku_unique UNIQUE NULLS NOT DISTINCT (user_id, walmart_seller_id, sku, ship_node)
+);
+
+CREATE TABLE IF NOT EXISTS walmart_inventory_sync (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  walmart_seller_id text,
+  lease_until timestamptz,
+  last_started_at timestamptz,
+  last_completed_at timestamptz,
+  last_error text,
+  last_pulled_count integer NOT NULL DEFAULT 0,
+  last_pushed_count integer NOT NULL DEFAULT 0,
+  last_conflict_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT walmart_inventory_sync_account_unique UNIQUE NULLS NOT DISTINCT (user_id, walmart_seller_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_account_status ON inventory(user_id, walmart_seller_id, sync_status);
+
+ALTER TABLE inventory ENABLE ROW LEVEL SECURITY;
+ALTER TABLE walmart_inventory_sync ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own inventory"
+  ON inventory
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own inventory sync state"
+  ON walmart_inventory_sync
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+REVOKE ALL ON inventory, walmart_inventory_sync FROM anon, authenticated;
+GRANT SELECT ON inventory, walmart_inventory_sync TO authenticated;
+
+CREATE TRIGGER update_inventory_updated_at
+  BEFORE UPDATE ON inventory
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_walmart_inventory_sync_updated_at
+  BEFORE UPDATE ON walmart_inventory_sync
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Returns true when the caller now owns the account's sync; creates the state row on first use
+CREATE OR REPLACE FUNCTION claim_walmart_inventory_sync(p_user_id uuid, p_walmart_seller_id text, lease_seconds integer DEFAULT 300)
+RETURNS boolean AS $$
+BEGIN
+  INSERT INTO walmart_inventory_sync (user_id, walmart_seller_id)
+  VALUES (p_user_id, p_walmart_seller_id)
+  ON CONFLICT ON CONSTRAINT walmart_inventory_sync_account_unique DO NOTHING;
+
+  UPDATE walmart_inventory_sync
+  SET lease_until = now() + make_interval(secs => lease_seconds),
+      last_started_at = now()
+  WHERE user_id = p_user_id
+    AND walmart_seller_id IS NOT DISTINCT FROM p_walmart_seller_id
+    AND (lease_until IS NULL OR lease_until < now());
+
+  RETURN FOUND;
+END;
+$$ language 'plpgsql';
+
+-- Merge Walmart's stock for a page of SKUs, given as
+-- [{ sku, ship_node, input_qty, available_qty, reserved_qty }]:
+--   - new SKUs and rows without local edits take Walmart's quantity
+--   - a local edit Walmart now matches is in step again
+--   - a local edit made while Walmart kept the quantity it was based on stays to be pushed
+--   - a local edit made while Walmart's quantity changed too is a conflict
+-- Returns each row's resulting status.
+CREATE OR REPLACE FUNCTION reconcile_walmart_inventory(p_user_id uuid, p_walmart_seller_id text, p_stock jsonb)
+RETURNS TABLE (sku text, ship_node text, sync_status text) AS $$
+  INSERT INTO inventory AS stored (
+    user_id, walmart_seller_id, sku, ship_node, quantity, walmart_quantity, base_quantity,
+    available_quantity, reserved_quantity, sync_status, walmart_synced_at
+  )
+  SELECT p_user_id, p_walmart_seller_id, stock.sku, stock.ship_node, stock.input_qty, stock.input_qty, stock.input_qty,
+    stock.available_qty, stock.reserved_qty, 'synced', now()
+  FROM jsonb_to_recordset(p_stock) AS stock(sku text, ship_node text, input_qty integer, available_qty integer, reserved_qty integer)
+  ON CONFLICT ON CONSTRAINT inventory_account_sku_unique DO UPDATE SET
+    walmart_quantity = EXCLUDED.walmart_quantity,
+    available_quantity = EXCLUDED.available_quantity,
+    reserved_quantity = EXCLUDED.reserved_quantity,
+    walmart_synced_at = now(),
+    quantity = CASE WHEN stored.sync_status = 'synced' THEN EXCLUDED.walmart_quantity ELSE stored.quantity END,
+    base_quantity = CASE
+      WHEN stored.sync_status = 'synced' OR EXCLUDED.walmart_quantity = stored.quantity THEN EXCLUDED.walmart_quantity
+      ELSE stored.base_quantity
+    END,
+    sync_status = CASE
+      WHEN stored.sync_status = 'synced' OR EXCLUDED.walmart_quantity = stored.quantity THEN 'synced'
+      WHEN EXCLUDED.walmart_quantity = stored.base_quantity THEN
+        CASE WHEN stored.sync_status = 'failed' THEN 'failed' ELSE 'pending' END
+      ELSE 'conflict'
+    END,
+    last_error = CASE
+      WHEN stored.sync_status = 'synced' OR EXCLUDED.walmart_quantity = stored.quantity THEN NULL
+      ELSE stored.last_error
+    END
+  RETURNING stored.sku, stored.ship_node, stored.sync_status;
+$$ language 'sql';
+
+REVOKE EXECUTE ON FUNCTION claim_walmart_inventory_sync(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_walmart_inventory(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
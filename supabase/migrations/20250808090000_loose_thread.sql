@@ -0,0 +1,66 @@
+/*
+  # Release inventory reservations when order lines are cancelled
+
+  1. New Functions
+    - `release_inventory_reservations(p_user_id, p_walmart_seller_id, p_releases)`: takes
+      `[{ sku, quantity }]`, the units of each SKU that cancelled order lines had reserved,
+      and moves them from `reserved_quantity` back to `available_quantity`. A SKU stocked at
+      several ship nodes is released from its nodes in ship node order, never below zero.
+      Returns the number of units released.
+
+  2. Security
+    - Callable by the service role only; the `walmart-order-actions` Edge Function calls it
+      after Walmart accepts a cancellation
+
+  3. Notes
+    - Walmart releases the reservation itself; this keeps the stored row in step until the
+      next inventory sync reads Walmart's `reservedQty` again
+*/
+
+CREATE OR REPLACE FUNCTION release_inventory_reservations(p_user_id uuid, p_walmart_seller_id text, p_releases jsonb)
+RETURNS integer AS $$
+DECLARE
+  release record;
+  stored record;
+  remaining integer;
+  released integer;
+  total integer := 0;
+BEGIN
+  FOR release IN
+    SELECT cancelled.sku, sum(cancelled.quantity)::integer AS quantity
+    FROM jsonb_to_recordset(p_releases) AS cancelled(sku text, quantity integer)
+    WHERE cancelled.quantity > 0
+    GROUP BY cancelled.sku
+  LOOP
+    remaining := release.quantity;
+
+    FOR stored IN
+      SELECT held.id, held.reserved_quantity
+      FROM inventory AS held
+      WHERE held.user_id = p_user_id
+        AND held.walmart_seller_id IS NOT DISTINCT FROM p_walmart_seller_id
+        AND held.sku = release.sku
+        AND held.reserved_quantity > 0
+      ORDER BY held.ship_node
+      FOR UPDATE
+    LOOP
+      EXIT WHEN remaining = 0;
+      released := least(remaining, stored.reserved_quantity);
+
+      UPDATE inventory
+      SET
+        reserved_quantity = reserved_quantity - released,
+        -- Walmart sells what is on hand less what open orders hold
+        available_quantity = greatest(0, walmart_quantity - (reserved_quantity - released))
+      WHERE id = stored.id;
+
+      remaining := remaining - released;
+      total := total + released;
+    END LOOP;
+  END LOOP;
+
+  RETURN total;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION release_inventory_reservations(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
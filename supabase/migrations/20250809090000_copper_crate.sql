@@ -0,0 +1,135 @@
+/*
+  # Bulk inventory updates through Walmart inventory feeds
+
+  1. New Tables
+    - `walmart_inventory_feeds`: inventory feeds submitted to Walmart for a connected account
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner), `walmart_seller_id` (text; null for accounts connected
+        before multi-account support)
+      - `feed_id` (text, unique): the ID Walmart gave the feed
+      - `source` (text): `grid` (bulk edit on the Inventory screen) or `csv` (file upload)
+      - `status` (text): Walmart's feed status, `received`, `in_progress`, `processed` or `error`
+      - `item_count`, `items_succeeded`, `items_failed` (integer): SKUs in the feed, and how
+        many Walmart took or rejected once processed
+      - `last_error` (text): why the feed as a whole failed, or the last poll did
+      - `submitted_at`, `processed_at`, `last_polled_at` (timestamptz)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `inventory.feed_id`: the feed carrying the row's quantity to Walmart. Set while the feed
+      is processing; the inventory sync does not push such rows itself.
+
+  3. Security
+    - RLS enabled; users can read their own feeds
+    - Rows are written by the `walmart-inventory-feeds` and `walmart-inventory-sync` Edge
+      Functions with the service role only
+    - `stage_walmart_inventory_feed` and `settle_walmart_inventory_feed` are callable by the
+      service role only
+
+  4. Notes
+    - `stage_walmart_inventory_feed` saves the quantities a submitted feed carries on their
+      rows in one statement, and points the rows at the feed
+    - `settle_walmart_inventory_feed` marks every row still carried by a processed feed as in
+      sync, or failed with Walmart's reason for its SKU. Rows edited again since the feed was
+      submitted no longer point at it and are left alone.
+*/
+
+CREATE TABLE IF NOT EXISTS walmart_inventory_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  walmart_seller_id text,
+  feed_id text NOT NULL UNIQUE,
+  source text NOT NULL CHECK (source IN ('grid', 'csv')),
+  status text NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'in_progress', 'processed', 'error')),
+  item_count integer NOT NULL DEFAULT 0,
+  items_succeeded integer NOT NULL DEFAULT 0,
+  items_failed integer NOT NULL DEFAULT 0,
+  last_error text,
+  submitted_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz,
+  last_polled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE inventory
+  ADD COLUMN IF NOT EXISTS feed_id uuid REFERENCES walmart_inventory_feeds(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_walmart_inventory_feeds_account ON walmart_inventory_feeds(user_id, walmart_seller_id, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_feed ON inventory(feed_id) WHERE feed_id IS NOT NULL;
+
+ALTER TABLE walmart_inventory_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own inventory feeds"
+  ON walmart_inventory_feeds
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+REVOKE ALL ON walmart_inventory_feeds FROM anon, authenticated;
+GRANT SELECT ON walmart_inventory_feeds TO authenticated;
+
+CREATE TRIGGER update_walmart_inventory_feeds_updated_at
+  BEFORE UPDATE ON walmart_inventory_feeds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Save the quantities a feed was submitted with, given as [{ id, quantity }] by inventory row
+-- ID. Only rows of the feed's own account are touched. Returns the number of rows staged.
+CREATE OR REPLACE FUNCTION stage_walmart_inventory_feed(p_feed_id uuid, p_quantities jsonb)
+RETURNS integer AS $$
+  WITH staged AS (
+    UPDATE inventory AS stored
+    SET
+      quantity = staged_quantity.quantity,
+      sync_status = 'pending',
+      last_error = NULL,
+      feed_id = feed.id,
+      local_updated_at = now()
+    FROM jsonb_to_recordset(p_quantities) AS staged_quantity(id uuid, quantity integer),
+      walmart_inventory_feeds AS feed
+    WHERE feed.id = p_feed_id
+      AND stored.id = staged_quantity.id
+      AND stored.user_id = feed.user_id
+      AND stored.walmart_seller_id IS NOT DISTINCT FROM feed.walmart_seller_id
+    RETURNING stored.id
+  )
+  SELECT count(*)::integer FROM staged;
+$$ language 'sql';
+
+-- Record a processed feed's outcome on the rows it carried. p_errors lists the SKUs Walmart
+-- rejected as [{ sku, error }]; p_feed_error, when set, fails every row (the whole feed failed).
+-- Returns the number of rows settled.
+CREATE OR REPLACE FUNCTION settle_walmart_inventory_feed(p_feed_id uuid, p_errors jsonb, p_feed_error text DEFAULT NULL)
+RETURNS integer AS $$
+  WITH rejected AS (
+    SELECT DISTINCT ON (sku) sku, error
+    FROM jsonb_to_recordset(p_errors) AS rejected(sku text, error text)
+  ),
+  settled AS (
+    UPDATE inventory AS stored
+    SET
+      sync_status = CASE WHEN outcome.error IS NULL THEN 'synced' ELSE 'failed' END,
+      last_error = outcome.error,
+      walmart_quantity = CASE WHEN outcome.error IS NULL THEN stored.quantity ELSE stored.walmart_quantity END,
+      base_quantity = CASE WHEN outcome.error IS NULL THEN stored.quantity ELSE stored.base_quantity END,
+      -- Walmart sells what is on hand less what open orders hold
+      available_quantity = CASE
+        WHEN outcome.error IS NULL THEN greatest(0, stored.quantity - stored.reserved_quantity)
+        ELSE stored.available_quantity
+      END,
+      feed_id = NULL
+    FROM (
+      SELECT carried.id, coalesce(p_feed_error, rejected.error) AS error
+      FROM inventory AS carried
+      LEFT JOIN rejected ON rejected.sku = carried.sku
+      WHERE carried.feed_id = p_feed_id
+    ) AS outcome
+    WHERE stored.id = outcome.id
+    RETURNING stored.id
+  )
+  SELECT count(*)::integer FROM settled;
+$$ language 'sql';
+
+REVOKE EXECUTE ON FUNCTION stage_walmart_inventory_feed(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_walmart_inventory_feed(uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,20 @@
+/*
+  # Deduplicate Walmart notification deliveries
+
+  1. Changes
+    - `walmart_notifications.retryable` (boolean, default false): whether the stored
+      attempt failed in a way a retry could fix (Walmart or the database failing). The
+      `walmart-notifications` receiver only counts another delivery of a stored event,
+      unless the event is retryable, in which case it processes it again.
+
+  2. Security
+    - No change; the column is written by the service role and readable with its row
+
+  3. Notes
+    - Events that failed before this migration are marked retryable, so Walmart's
+      redeliveries of them are still processed as they were before
+*/
+
+ALTER TABLE walmart_notifications ADD COLUMN IF NOT EXISTS retryable boolean NOT NULL DEFAULT false;
+
+UPDATE walmart_notifications SET retryable = true WHERE status = 'failed';
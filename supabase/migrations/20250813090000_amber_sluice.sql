@@ -0,0 +1,24 @@
+/*
+  # Record inventory feeds before they are uploaded
+
+  1. Changes
+    - `walmart_inventory_feeds.feed_id` may be null: the `walmart-inventory-feeds` Edge
+      Function inserts a feed before uploading it to Walmart, and sets Walmart's feed ID
+      once the upload is accepted
+    - New `status` value `pending`: the feed is being uploaded. It becomes `received` with
+      Walmart's feed ID, or `error` with the reason the upload failed.
+
+  2. Security
+    - No change; feeds stay readable by their owner only
+
+  3. Notes
+    - A feed left `pending` was being uploaded when the function stopped; whether Walmart
+      received it is unknown, so it is kept on record rather than polled
+*/
+
+ALTER TABLE walmart_inventory_feeds ALTER COLUMN feed_id DROP NOT NULL;
+
+ALTER TABLE walmart_inventory_feeds DROP CONSTRAINT IF EXISTS walmart_inventory_feeds_status_check;
+ALTER TABLE walmart_inventory_feeds
+  ADD CONSTRAINT walmart_inventory_feeds_status_check
+  CHECK (status IN ('pending', 'received', 'in_progress', 'processed', 'error'));
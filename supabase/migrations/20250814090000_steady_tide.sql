@@ -0,0 +1,18 @@
+/*
+  # Read large catalogs over several inventory syncs
+
+  1. Changes
+    - `walmart_inventory_sync.next_cursor` (text): Walmart's `nextCursor` for the next
+      `/v3/inventories` page to read. Each run of the `walmart-inventory-sync` Edge Function
+      reads a bounded number of pages and stores where it stopped; the next run resumes
+      there. Null once the last page has been read, so the following run starts over.
+
+  2. Security
+    - No change; the row stays readable by its owner only and written by the service role
+
+  3. Notes
+    - A failed run clears the cursor, so a cursor Walmart no longer accepts cannot keep
+      every later run failing
+*/
+
+ALTER TABLE walmart_inventory_sync ADD COLUMN IF NOT EXISTS next_cursor text;
@@ -0,0 +1,36 @@
+/*
+  # Schedule the order sync one account at a time
+
+  1. Changes
+    - pg_cron job `walmart-order-sync` now posts one request per connected account
+      (`{ userId, sellerId }`) instead of one request that synced every account in turn.
+      pg_net sends the requests independently, so each account gets the full 120 second
+      timeout and a slow account no longer holds up the rest.
+
+  2. Security
+    - No change; the requests carry the service role key from Vault, as before
+
+  3. Notes
+    - Accounts flagged `needs_reconnect` are left out, as the old run skipped them
+*/
+
+SELECT cron.unschedule('walmart-order-sync');
+
+SELECT cron.schedule(
+  'walmart-order-sync',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/walmart-order-sync',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('userId', account.user_id, 'sellerId', account.seller_id),
+    timeout_milliseconds := 120000
+  )
+  FROM walmart_tokens AS account
+  WHERE account.needs_reconnect = false;
+  $$
+);
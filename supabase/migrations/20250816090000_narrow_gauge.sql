@@ -0,0 +1,55 @@
+/*
+  # Settle inventory feed results by SKU and ship node
+
+  1. Changes
+    - `settle_walmart_inventory_feed` takes the rejected items as [{ sku, ship_node, error }].
+      A rejection with a ship node fails only that node's row of the SKU; one without (Walmart
+      gave no node) fails every row of the SKU the feed carried, as before. A SKU stocked at
+      two ship nodes with one rejected no longer marks both rows failed.
+
+  2. Security
+    - No change; callable by the service role only
+
+  3. Notes
+    - A row matched by both kinds of rejection takes the error given for its own ship node
+*/
+
+CREATE OR REPLACE FUNCTION settle_walmart_inventory_feed(p_feed_id uuid, p_errors jsonb, p_feed_error text DEFAULT NULL)
+RETURNS integer AS $$
+  WITH rejected AS (
+    SELECT sku, ship_node, error
+    FROM jsonb_to_recordset(p_errors) AS rejected(sku text, ship_node text, error text)
+  ),
+  settled AS (
+    UPDATE inventory AS stored
+    SET
+      sync_status = CASE WHEN outcome.error IS NULL THEN 'synced' ELSE 'failed' END,
+      last_error = outcome.error,
+      walmart_quantity = CASE WHEN outcome.error IS NULL THEN stored.quantity ELSE stored.walmart_quantity END,
+      base_quantity = CASE WHEN outcome.error IS NULL THEN stored.quantity ELSE stored.base_quantity END,
+      -- Walmart sells what is on hand less what open orders hold
+      available_quantity = CASE
+        WHEN outcome.error IS NULL THEN greatest(0, stored.quantity - stored.reserved_quantity)
+        ELSE stored.available_quantity
+      END,
+      feed_id = NULL
+    FROM (
+      SELECT carried.id, coalesce(p_feed_error, rejection.error) AS error
+      FROM inventory AS carried
+      LEFT JOIN LATERAL (
+        SELECT rejected.error
+        FROM rejected
+        WHERE rejected.sku = carried.sku
+          AND (rejected.ship_node IS NULL OR rejected.ship_node = carried.ship_node)
+        ORDER BY rejected.ship_node IS NULL
+        LIMIT 1
+      ) AS rejection ON true
+      WHERE carried.feed_id = p_feed_id
+    ) AS outcome
+    WHERE stored.id = outcome.id
+    RETURNING stored.id
+  )
+  SELECT count(*)::integer FROM settled;
+$$ language 'sql';
+
+REVOKE EXECUTE ON FUNCTION settle_walmart_inventory_feed(uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
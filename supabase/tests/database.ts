@@ -0,0 +1,38 @@
+import { readFileSync } from 'node:fs';
+import { PGlite } from '@electric-sql/pglite';
+
+// In-process Postgres (PGlite) for testing migrations' SQL functions without a Supabase
+// stack. Only what the migrations under test rely on from Supabase is recreated: the
+// auth.users table, auth.uid() and the API roles.
+
+const MIGRATIONS_DIR = new URL('../migrations/', import.meta.url);
+
+const SUPABASE_BASE = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN BYPASSRLS;
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id uuid PRIMARY KEY DEFAULT gen_random_uuid());
+  CREATE FUNCTION auth.uid() RETURNS uuid AS $$ SELECT NULL::uuid $$ LANGUAGE sql;
+`;
+
+/**
+ * A fresh database with the given migrations applied in order, e.g.
+ * `['20250709161623_cold_salad.sql']`
+ */
+export async function migratedDatabase(migrations: string[]): Promise<PGlite> {
+  const db = new PGlite();
+  await db.exec(SUPABASE_BASE);
+  for (const migration of migrations) {
+    await db.exec(readFileSync(new URL(migration, MIGRATIONS_DIR), 'utf8'));
+  }
+  return db;
+}
+
+/**
+ * A signed-up user to own rows
+ */
+export async function createUser(db: PGlite): Promise<string> {
+  const { rows } = await db.query<{ id: string }>('INSERT INTO auth.users DEFAULT VALUES RETURNING id');
+  return rows[0].id;
+}
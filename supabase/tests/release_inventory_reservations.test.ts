@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { createUser, migratedDatabase } from './database.ts';
+
+const SELLER_ID = '10000001';
+
+let db: PGlite;
+let userId: string;
+
+async function stock(sku: string, shipNode: string, walmartQuantity: number, reserved: number, sellerId: string | null = SELLER_ID) {
+  await db.query(
+    `INSERT INTO inventory (user_id, walmart_seller_id, sku, ship_node, quantity, walmart_quantity, base_quantity,
+       available_quantity, reserved_quantity)
+     VALUES ($1, $2, $3, $4, $5, $5, $5, $6, $7)`,
+    [userId, sellerId, sku, shipNode, walmartQuantity, walmartQuantity - reserved, reserved]
+  );
+}
+
+async function release(releases: { sku: string; quantity: number }[], sellerId: string | null = SELLER_ID): Promise<number> {
+  const { rows } = await db.query<{ released: number }>(
+    'SELECT release_inventory_reservations($1, $2, $3) AS released',
+    [userId, sellerId, JSON.stringify(releases)]
+  );
+  return rows[0].released;
+}
+
+async function rows(sellerId: string | null = SELLER_ID) {
+  const { rows } = await db.query<{ sku: string; ship_node: string; reserved_quantity: number; available_quantity: number }>(
+    `SELECT sku, ship_node, reserved_quantity, available_quantity FROM inventory
+     WHERE walmart_seller_id IS NOT DISTINCT FROM $1 ORDER BY sku, ship_node`,
+    [sellerId]
+  );
+  return rows;
+}
+
+beforeAll(async () => {
+  db = await migratedDatabase([
+    '20250709161623_cold_salad.sql',
+    '20250807090000_sturdy_pantry.sql',
+    '20250808090000_loose_thread.sql',
+  ]);
+  userId = await createUser(db);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+beforeEach(async () => {
+  await db.exec('DELETE FROM inventory');
+});
+
+describe('release_inventory_reservations', () => {
+  it('moves the cancelled units from reserved back to available', async () => {
+    await stock('SKU-1', 'NODE-A', 10, 4);
+
+    expect(await release([{ sku: 'SKU-1', quantity: 3 }])).toBe(3);
+    expect(await rows()).toEqual([{ sku: 'SKU-1', ship_node: 'NODE-A', reserved_quantity: 1, available_quantity: 9 }]);
+  });
+
+  it('adds up several cancelled lines of one SKU', async () => {
+    await stock('SKU-1', 'NODE-A', 10, 5);
+
+    expect(await release([{ sku: 'SKU-1', quantity: 2 }, { sku: 'SKU-1', quantity: 1 }])).toBe(3);
+    expect((await rows())[0].reserved_quantity).toBe(2);
+  });
+
+  it('releases across ship nodes in order and never below zero', async () => {
+    await stock('SKU-1', 'NODE-A', 5, 1);
+    await stock('SKU-1', 'NODE-B', 5, 2);
+
+    expect(await release([{ sku: 'SKU-1', quantity: 10 }])).toBe(3);
+    expect(await rows()).toEqual([
+      { sku: 'SKU-1', ship_node: 'NODE-A', reserved_quantity: 0, available_quantity: 5 },
+      { sku: 'SKU-1', ship_node: 'NODE-B', reserved_quantity: 0, available_quantity: 5 },
+    ]);
+  });
+
+  it('leaves other SKUs and other accounts alone', async () => {
+    await stock('SKU-1', 'NODE-A', 10, 4);
+    await stock('SKU-2', 'NODE-A', 10, 4);
+    await stock('SKU-1', 'NODE-A', 10, 4, null);
+
+    await release([{ sku: 'SKU-1', quantity: 4 }]);
+    expect((await rows()).map((row) => row.reserved_quantity)).toEqual([0, 4]);
+    expect((await rows(null))[0].reserved_quantity).toBe(4);
+  });
+
+  it('ignores SKUs the inventory does not hold', async () => {
+    expect(await release([{ sku: 'UNKNOWN', quantity: 2 }])).toBe(0);
+  });
+});
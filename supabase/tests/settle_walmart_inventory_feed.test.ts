@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { createUser, migratedDatabase } from './database.ts';
+
+const SELLER_ID = '10000001';
+
+let db: PGlite;
+let userId: string;
+let feedId: string;
+
+async function carried(sku: string, shipNode: string, quantity: number, walmartQuantity: number) {
+  await db.query(
+    `INSERT INTO inventory (user_id, walmart_seller_id, sku, ship_node, quantity, walmart_quantity, base_quantity,
+       available_quantity, sync_status, feed_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $6, $6, 'pending', $7)`,
+    [userId, SELLER_ID, sku, shipNode, quantity, walmartQuantity, feedId]
+  );
+}
+
+async function settle(errors: { sku: string; ship_node?: string | null; error: string }[], feedError: string | null = null): Promise<number> {
+  const { rows } = await db.query<{ settled: number }>(
+    'SELECT settle_walmart_inventory_feed($1, $2, $3) AS settled',
+    [feedId, JSON.stringify(errors), feedError]
+  );
+  return rows[0].settled;
+}
+
+async function rows() {
+  const { rows } = await db.query<{ sku: string; ship_node: string; sync_status: string; last_error: string | null; walmart_quantity: number }>(
+    `SELECT sku, ship_node, sync_status, last_error, walmart_quantity FROM inventory ORDER BY sku, ship_node`
+  );
+  return rows;
+}
+
+beforeAll(async () => {
+  db = await migratedDatabase([
+    '20250709161623_cold_salad.sql',
+    '20250807090000_sturdy_pantry.sql',
+    '20250809090000_copper_crate.sql',
+    '20250813090000_amber_sluice.sql',
+    '20250816090000_narrow_gauge.sql',
+  ]);
+  userId = await createUser(db);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+beforeEach(async () => {
+  await db.exec('DELETE FROM inventory; DELETE FROM walmart_inventory_feeds');
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO walmart_inventory_feeds (user_id, walmart_seller_id, feed_id, source, status, item_count)
+     VALUES ($1, $2, 'FEED-1', 'grid', 'received', 1) RETURNING id`,
+    [userId, SELLER_ID]
+  );
+  feedId = rows[0].id;
+});
+
+describe('settle_walmart_inventory_feed', () => {
+  it('fails only the rejected ship node of a SKU stocked at two', async () => {
+    await carried('SKU-1', 'NODE-A', 7, 5);
+    await carried('SKU-1', 'NODE-B', 9, 5);
+
+    expect(await settle([{ sku: 'SKU-1', ship_node: 'NODE-B', error: 'Ship node is closed' }])).toBe(2);
+    expect(await rows()).toEqual([
+      { sku: 'SKU-1', ship_node: 'NODE-A', sync_status: 'synced', last_error: null, walmart_quantity: 7 },
+      { sku: 'SKU-1', ship_node: 'NODE-B', sync_status: 'failed', last_error: 'Ship node is closed', walmart_quantity: 5 },
+    ]);
+  });
+
+  it('fails every ship node of a SKU rejected without one', async () => {
+    await carried('SKU-1', 'NODE-A', 7, 5);
+    await carried('SKU-1', 'NODE-B', 9, 5);
+    await carried('SKU-2', 'NODE-A', 3, 1);
+
+    await settle([{ sku: 'SKU-1', error: 'SKU is retired' }]);
+    expect((await rows()).map((row) => [row.sku, row.ship_node, row.sync_status])).toEqual([
+      ['SKU-1', 'NODE-A', 'failed'],
+      ['SKU-1', 'NODE-B', 'failed'],
+      ['SKU-2', 'NODE-A', 'synced'],
+    ]);
+  });
+
+  it("prefers the error given for the row's own ship node", async () => {
+    await carried('SKU-1', 'NODE-A', 7, 5);
+
+    await settle([
+      { sku: 'SKU-1', error: 'Record rejected' },
+      { sku: 'SKU-1', ship_node: 'NODE-A', error: 'Ship node is closed' },
+    ]);
+    expect((await rows())[0].last_error).toBe('Ship node is closed');
+  });
+
+  it('fails every row when the whole feed failed', async () => {
+    await carried('SKU-1', 'NODE-A', 7, 5);
+    await carried('SKU-1', 'NODE-B', 9, 5);
+
+    await settle([], 'Feed could not be read');
+    expect((await rows()).map((row) => row.last_error)).toEqual(['Feed could not be read', 'Feed could not be read']);
+  });
+});
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the app (src/) and for the Edge Functions (supabase/functions/), run in Node.
+// Edge Function modules read Deno.env; vitest.setup.ts maps it onto process.env.
+// supabase/tests/ checks the migrations' SQL functions in an in-process Postgres (PGlite).
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'supabase/functions/**/*.test.ts', 'supabase/tests/**/*.test.ts'],
+    environment: 'node',
+    setupFiles: ['./vitest.setup.ts'],
+    env: {
+      VITE_SUPABASE_URL: 'http://localhost:54321',
+      VITE_SUPABASE_ANON_KEY: 'test-anon-key',
+      VITE_WALMART_MOCK_BASE_URL: 'http://localhost:54321/functions/v1/walmart-mock',
+    },
+  },
+});
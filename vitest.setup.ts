@@ -0,0 +1,10 @@
+// Edge Functions run on Deno; the only Deno API their tested modules use is Deno.env
+if (!('Deno' in globalThis)) {
+  Object.defineProperty(globalThis, 'Deno', {
+    value: {
+      env: {
+        get: (name: string) => process.env[name],
+      },
+    },
+  });
+}